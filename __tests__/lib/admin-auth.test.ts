@@ -0,0 +1,74 @@
+import {
+  authenticateAdmin,
+  authenticateProCaller,
+  createSessionToken,
+  findAdminBySecret,
+  safeEqual,
+  verifySessionToken
+} from '../../lib/admin-auth';
+
+describe('admin auth', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = {
+      ...originalEnv,
+      ADMIN_API_TOKEN: 'shared-secret',
+      ADMIN_USERS: 'alice:alice-secret,bob:bob-secret',
+      CRON_SECRET: 'cron-secret',
+      PRO_API_TOKENS: 'carol:pro-secret'
+    };
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    jest.restoreAllMocks();
+  });
+
+  it('should compare secrets in constant time', () => {
+    expect(safeEqual('abc', 'abc')).toBe(true);
+    expect(safeEqual('abc', 'abd')).toBe(false);
+    expect(safeEqual('abc', 'abcd')).toBe(false);
+  });
+
+  it('should resolve per-user and shared secrets to actors', () => {
+    expect(findAdminBySecret('alice-secret')).toBe('alice');
+    expect(findAdminBySecret('shared-secret')).toBe('admin');
+    expect(findAdminBySecret('nope')).toBeNull();
+  });
+
+  it('should round-trip signed sessions and reject tampering or expiry', async () => {
+    const token = await createSessionToken('bob', 60);
+    expect(await verifySessionToken(token)).toBe('bob');
+
+    const [payload, signature] = token.split('.');
+    expect(await verifySessionToken(`${payload}.${signature.slice(0, -2)}xx`)).toBeNull();
+
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now + 61_000);
+    expect(await verifySessionToken(token)).toBeNull();
+  });
+
+  it('should end sessions of admins removed from the configuration', async () => {
+    const token = await createSessionToken('bob', 60);
+    process.env.ADMIN_USERS = 'alice:alice-secret';
+    expect(await verifySessionToken(token)).toBeNull();
+  });
+
+  it('should only accept the cron secret on cron routes', async () => {
+    expect(await authenticateAdmin('Bearer cron-secret', null, { allowCron: true }))
+      .toEqual({ actor: 'vercel-cron', method: 'cron' });
+    expect(await authenticateAdmin('Bearer cron-secret', null)).toBeNull();
+    expect(await authenticateAdmin('Bearer alice-secret', null)).toEqual({ actor: 'alice', method: 'token' });
+    expect(await authenticateAdmin(null, await createSessionToken('admin'))).toEqual({ actor: 'admin', method: 'session' });
+  });
+
+  it('should accept admins and Pro tokens for force fetches only', async () => {
+    expect(await authenticateProCaller('Bearer pro-secret', null)).toEqual({ actor: 'pro:carol', method: 'pro' });
+    expect(await authenticateProCaller('Bearer alice-secret', null)).toEqual({ actor: 'alice', method: 'token' });
+    expect(await authenticateProCaller('Bearer cron-secret', null)).toBeNull();
+    expect(await authenticateProCaller(null, null)).toBeNull();
+    // Pro tokens do not open admin routes
+    expect(await authenticateAdmin('Bearer pro-secret', null)).toBeNull();
+  });
+});
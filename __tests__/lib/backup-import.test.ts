@@ -0,0 +1,86 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import type { LSPPrice } from '../../lib/lsp-api';
+
+const price = (lsp_id: string, timestamp: string, total_fee_msat: number): LSPPrice => ({
+  lsp_id,
+  lsp_name: lsp_id,
+  channel_size_sat: 1000000,
+  total_fee_msat,
+  channel_fee_percent: 0,
+  channel_fee_base_msat: 0,
+  lease_fee_base_msat: 0,
+  lease_fee_basis: 0,
+  timestamp
+});
+
+describe('backup import', () => {
+  let dir: string;
+  let db: typeof import('../../lib/db');
+  let backupImport: typeof import('../../lib/backup-import');
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'priceboard-import-'));
+    process.env.PRICE_STORE = 'file';
+    process.env.PRICE_STORE_FILE = path.join(dir, 'store.json');
+    db = await import('../../lib/db');
+    backupImport = await import('../../lib/backup-import');
+  });
+
+  afterAll(async () => {
+    delete process.env.PRICE_STORE;
+    delete process.env.PRICE_STORE_FILE;
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should reject dumps without a supported version', () => {
+    expect(backupImport.validateBackupDump({ channelData: {} }).valid).toBe(false);
+    expect(backupImport.validateBackupDump({ exportInfo: { version: '9.9' } }).valid).toBe(false);
+    expect(backupImport.validateBackupDump({ exportInfo: { version: '1.0' }, historicalData: {} }).valid).toBe(true);
+  });
+
+  it('should diff on dry run and merge history by timestamp', async () => {
+    await db.appendPriceObservations([
+      price('olympus', '2025-09-20T00:00:00.000Z', 1000),
+      price('olympus', '2025-09-21T00:00:00.000Z', 2000)
+    ]);
+
+    const dump = {
+      exportInfo: { version: '1.1' },
+      channelData: { '1000000': [price('olympus', '2025-09-22T00:00:00.000Z', 3000)] },
+      historicalData: {
+        'alby:lsp:series:1000000:olympus': {
+          channelSize: 1000000,
+          lspId: 'olympus',
+          prices: [
+            price('olympus', '2025-09-20T00:00:00.000Z', 1000), // duplicate
+            price('olympus', '2025-09-21T00:00:00.000Z', 2500), // conflict
+            price('olympus', '2025-09-22T00:00:00.000Z', 3000) // new
+          ]
+        },
+        'alby:lsp:history:2025-09-19': {
+          channel_1000000: { channelSize: 1000000, entries: [{ timestamp: '2025-09-19T00:00:00.000Z', prices: [price('megalith', '2025-09-19T00:00:00.000Z', 500)] }] }
+        }
+      }
+    };
+
+    const preview = await backupImport.importBackup(dump, { dryRun: true });
+    expect(preview.newKeys).toEqual(['alby:lsp:channel:1000000']);
+    expect(preview.history).toMatchObject({ series: 2, newEntries: 2, duplicateEntries: 1 });
+    expect(preview.history.conflicts).toEqual([expect.objectContaining({ existing_fee_msat: 2000, backup_fee_msat: 2500 })]);
+    expect(await db.getPriceSeries('olympus', 1000000)).toHaveLength(2);
+
+    await backupImport.importBackup(dump);
+    const merged = await db.getPriceSeries('olympus', 1000000);
+    expect(merged.map(entry => entry.total_fee_msat)).toEqual([1000, 2000, 3000]);
+    expect(await db.getPriceSeries('megalith', 1000000)).toHaveLength(1);
+    expect(await db.getLatestPrices(1000000)).toHaveLength(1);
+
+    // Importing the same dump again changes nothing
+    const again = await backupImport.importBackup(dump, { dryRun: true });
+    expect(again.newKeys).toEqual([]);
+    expect(again.overwrittenKeys).toEqual([]);
+    expect(again.history.newEntries).toBe(0);
+  });
+});
@@ -0,0 +1,54 @@
+import { calculateFeeBreakdown, resolveFeeComponents } from '../../lib/fee-breakdown';
+
+describe('fee breakdown', () => {
+  it('should prefer order fee fields and fall back to get_info options per field', () => {
+    expect(resolveFeeComponents(
+      { channel_fee_percent: 0, channel_fee_base_msat: 2000000, lease_fee_base_msat: 0, lease_fee_basis: 0 },
+      { channel_fee_percent: 0.5, channel_fee_base_msat: 1000000, lease_fee_basis: 10 }
+    )).toEqual({ channel_fee_percent: 0.5, channel_fee_base_msat: 2000000, lease_fee_base_msat: 0, lease_fee_basis: 10 });
+
+    expect(resolveFeeComponents(null, null)).toEqual({
+      channel_fee_percent: 0, channel_fee_base_msat: 0, lease_fee_base_msat: 0, lease_fee_basis: 0
+    });
+  });
+
+  it('should split an itemized fee into base, ppm, lease and remainder', () => {
+    const breakdown = calculateFeeBreakdown({
+      channel_size_sat: 1000000,
+      total_fee_msat: 9000000,
+      channel_fee_percent: 0.5,
+      channel_fee_base_msat: 1000000,
+      lease_fee_base_msat: 500000,
+      lease_fee_basis: 10,
+      channel_expiry_blocks: 13140
+    });
+
+    expect(breakdown).toMatchObject({
+      itemized: true,
+      base_fee_msat: 1000000,
+      proportional_fee_msat: 5000000,
+      proportional_ppm: 5000,
+      lease_fee_msat: 1500000,
+      other_fee_msat: 1500000,
+      effective_ppm: 9000,
+      channel_lifetime_days: 91.3,
+      annualized_percent: 3.6
+    });
+  });
+
+  it('should only annualise totals when the LSP does not itemize or omits the expiry', () => {
+    const totalOnly = calculateFeeBreakdown({
+      channel_size_sat: 2000000,
+      total_fee_msat: 20000000,
+      channel_fee_percent: 0,
+      channel_fee_base_msat: 0,
+      lease_fee_base_msat: 0,
+      lease_fee_basis: 0,
+      channel_expiry_blocks: 4380
+    });
+    expect(totalOnly).toMatchObject({ itemized: false, other_fee_msat: 0, effective_ppm: 10000, annualized_percent: 12 });
+
+    const noExpiry = calculateFeeBreakdown({ ...totalOnly, channel_size_sat: 2000000, total_fee_msat: 20000000, channel_fee_percent: 0, channel_fee_base_msat: 0, lease_fee_base_msat: 0, lease_fee_basis: 0, channel_expiry_blocks: null });
+    expect(noExpiry).toMatchObject({ channel_expiry_blocks: null, channel_lifetime_days: null, annualized_percent: null });
+  });
+});
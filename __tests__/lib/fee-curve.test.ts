@@ -0,0 +1,42 @@
+import type { LSPPrice } from '../../lib/lsp-api';
+import { buildFeeCurves } from '../../lib/fee-curve';
+
+const price = (lsp_id: string, channel_size_sat: number, feeSat: number, overrides: Partial<LSPPrice> = {}): LSPPrice => ({
+  lsp_id,
+  lsp_name: lsp_id.charAt(0).toUpperCase() + lsp_id.slice(1),
+  channel_size_sat,
+  total_fee_msat: feeSat * 1000,
+  channel_fee_percent: 0,
+  channel_fee_base_msat: 0,
+  lease_fee_base_msat: 0,
+  lease_fee_basis: 0,
+  timestamp: '2025-01-01T00:00:00.000Z',
+  source: 'live',
+  ...overrides
+});
+
+describe('fee curves', () => {
+  it('should find the cheapest LSP per size and where it changes', () => {
+    const curves = buildFeeCurves({
+      1000000: [price('olympus', 1000000, 5000), price('megalith', 1000000, 8000)],
+      2000000: [price('olympus', 2000000, 9000), price('megalith', 2000000, 8500)],
+      3000000: [price('olympus', 3000000, 13000), price('megalith', 3000000, 9000, { error: 'HTTP 500' })],
+      // Megalith's quote is above its advertised maximum, so it never counts as cheapest
+      4000000: [price('olympus', 4000000, 17000), price('megalith', 4000000, 9500)]
+    }, {
+      megalith: { min_channel_size_sat: 1000000, max_channel_size_sat: 3000000 }
+    });
+
+    expect(curves.channel_sizes).toEqual([1000000, 2000000, 3000000, 4000000]);
+    const megalith = curves.curves.find(curve => curve.lsp_id === 'megalith')!;
+    expect(megalith.points.map(point => [point.channel_size_sat, point.in_range])).toEqual([[1000000, true], [2000000, true], [4000000, false]]);
+    expect(megalith.max_channel_size_sat).toBe(3000000);
+
+    expect(curves.cheapest.map(entry => entry.lsp_id)).toEqual(['olympus', 'megalith', 'olympus', 'olympus']);
+    expect(curves.cheapest.map(entry => entry.fee_ppm)).toEqual([5000, 4250, 4333.33, 4250]);
+    expect(curves.crossovers).toEqual([
+      { channel_size_sat: 2000000, from_lsp_id: 'olympus', to_lsp_id: 'megalith' },
+      { channel_size_sat: 3000000, from_lsp_id: 'megalith', to_lsp_id: 'olympus' }
+    ]);
+  });
+});
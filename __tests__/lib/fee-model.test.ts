@@ -0,0 +1,57 @@
+import type { LSPPrice } from '../../lib/lsp-api';
+import { createEstimatedPrice, estimateFee, fitFeeModel } from '../../lib/fee-model';
+
+const price = (lsp_id: string, channel_size_sat: number, feeSat: number, overrides: Partial<LSPPrice> = {}): LSPPrice => ({
+  lsp_id,
+  lsp_name: lsp_id.charAt(0).toUpperCase() + lsp_id.slice(1),
+  channel_size_sat,
+  total_fee_msat: feeSat * 1000,
+  channel_fee_percent: 0,
+  channel_fee_base_msat: 0,
+  lease_fee_base_msat: 0,
+  lease_fee_basis: 0,
+  timestamp: '2025-01-01T00:00:00.000Z',
+  source: 'live',
+  ...overrides
+});
+
+describe('fee models', () => {
+  it('should fit base + ppm from quotes at several sizes', () => {
+    const model = fitFeeModel([
+      price('olympus', 1000000, 5000),
+      price('olympus', 2000000, 9000),
+      price('olympus', 3000000, 13000),
+      price('olympus', 4000000, 1, { error: 'HTTP 500' })
+    ])!;
+
+    expect(model).toMatchObject({ method: 'fit', base_fee_msat: 1000000, ppm: 4000, sample_sizes: [1000000, 2000000, 3000000], max_residual_msat: 0 });
+
+    const between = estimateFee(model, 1500000);
+    expect(between.total_fee_msat).toBe(7000000);
+    expect(between.estimate).toMatchObject({ confidence: 'high', extrapolated: false, low_fee_msat: 6650000, high_fee_msat: 7350000 });
+
+    const beyond = estimateFee(model, 5000000);
+    expect(beyond.total_fee_msat).toBe(21000000);
+    expect(beyond.estimate).toMatchObject({ confidence: 'medium', extrapolated: true });
+  });
+
+  it('should fall back to the advertised fee components with a single quote', () => {
+    // 0.5% of 2M sats = 10000 sats; the remaining 2000 sats are treated as a fixed fee
+    const model = fitFeeModel([price('megalith', 2000000, 12000, { channel_fee_percent: 0.5, channel_fee_base_msat: 1000 })])!;
+    expect(model).toMatchObject({ method: 'components', base_fee_msat: 2000000, ppm: 5000 });
+
+    const estimated = createEstimatedPrice(model, 1500000);
+    expect(estimated).toMatchObject({ source: 'estimated', channel_size_sat: 1500000, total_fee_msat: 9500000 });
+    expect(estimated.estimate?.confidence).toBe('low');
+
+    // Only a total: scale it with the channel size
+    expect(fitFeeModel([price('flashsats', 1000000, 8000)])).toMatchObject({ method: 'proportional', base_fee_msat: 0, ppm: 8000 });
+  });
+
+  it('should ignore unpriced and estimated rows', () => {
+    expect(fitFeeModel([
+      price('lnserver', 1000000, 0, { error: 'Cached data unavailable', source: 'unavailable' }),
+      price('lnserver', 1500000, 9000, { source: 'estimated' })
+    ])).toBeNull();
+  });
+});
@@ -0,0 +1,111 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileStore, globToRegExp } from '../../lib/store/file-store';
+
+describe('FileStore', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'priceboard-store-'));
+    filePath = path.join(dir, 'nested', 'store.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should round-trip JSON and plain string values', async () => {
+    const store = new FileStore(filePath);
+    await store.set('alby:lsp:channel:1000000', JSON.stringify([{ lsp_id: 'olympus' }]));
+    await store.set('alby:lsp:plain', 'hello');
+
+    expect(await store.get('alby:lsp:channel:1000000')).toEqual([{ lsp_id: 'olympus' }]);
+    expect(await store.get('alby:lsp:plain')).toBe('hello');
+    expect(await store.get('alby:lsp:missing')).toBeNull();
+  });
+
+  it('should persist data across instances', async () => {
+    await new FileStore(filePath).setMany({ 'alby:lsp:a': 1, 'alby:lsp:b': { ok: true } });
+
+    const reopened = new FileStore(filePath);
+    expect(await reopened.get('alby:lsp:a')).toBe(1);
+    expect(await reopened.get('alby:lsp:b')).toEqual({ ok: true });
+  });
+
+  it('should match keys with glob patterns and delete them', async () => {
+    const store = new FileStore(filePath);
+    await store.setMany({
+      'alby:lsp:channel:1000000': '[]',
+      'alby:lsp:channel:2000000': '[]',
+      'alby:lsp:metadata': '{}'
+    });
+
+    expect((await store.keys('alby:lsp:channel:*')).sort()).toEqual([
+      'alby:lsp:channel:1000000',
+      'alby:lsp:channel:2000000'
+    ]);
+    expect(await store.del('alby:lsp:channel:1000000', 'alby:lsp:unknown')).toBe(1);
+    expect(await store.keys('alby:lsp:*')).toHaveLength(2);
+  });
+
+  it('should expire keys set with a TTL', async () => {
+    const store = new FileStore(filePath);
+    const now = Date.now();
+    const spy = jest.spyOn(Date, 'now').mockReturnValue(now);
+
+    await store.set('alby:lsp:meta:olympus', 'cached', { ex: 60 });
+    expect(await store.ttl('alby:lsp:meta:olympus')).toBe(60);
+    expect(await store.type('alby:lsp:meta:olympus')).toBe('string');
+
+    spy.mockReturnValue(now + 61_000);
+    expect(await store.get('alby:lsp:meta:olympus')).toBeNull();
+    expect(await store.ttl('alby:lsp:meta:olympus')).toBe(-2);
+
+    spy.mockRestore();
+  });
+
+  it('should store sorted sets and query them by score', async () => {
+    const store = new FileStore(filePath);
+    const key = 'alby:lsp:series:1000000:olympus';
+
+    expect(await store.zadd(key,
+      { score: 3000, member: JSON.stringify({ fee: 3 }) },
+      { score: 1000, member: JSON.stringify({ fee: 1 }) },
+      { score: 2000, member: JSON.stringify({ fee: 2 }) }
+    )).toBe(3);
+    // Re-adding an existing member does not create a duplicate
+    expect(await store.zadd(key, { score: 1000, member: JSON.stringify({ fee: 1 }) })).toBe(0);
+
+    expect(await store.type(key)).toBe('zset');
+    expect(await store.zcard(key)).toBe(3);
+    expect(await store.get(key)).toBeNull();
+    expect(await store.zrangeByScore(key, 1500, Infinity)).toEqual([{ fee: 2 }, { fee: 3 }]);
+    expect(await store.zrangeByScore(key, -Infinity, Infinity, { rev: true, offset: 0, count: 2 }))
+      .toEqual([{ fee: 3 }, { fee: 2 }]);
+    expect(await new FileStore(filePath).zcard(key)).toBe(3);
+
+    expect(await store.zrem(key, JSON.stringify({ fee: 2 }), JSON.stringify({ fee: 9 }))).toBe(1);
+    expect(await store.zadd(key, { score: 2000, member: JSON.stringify({ fee: 2 }) })).toBe(1);
+
+    expect(await store.zremrangeByScore(key, -Infinity, 2000)).toBe(2);
+    expect(await store.zrangeByScore(key, -Infinity, Infinity)).toEqual([{ fee: 3 }]);
+    expect(await store.zremrangeByScore(key, -Infinity, Infinity)).toBe(1);
+    expect(await store.type(key)).toBe('none');
+
+    // Several series in one write
+    const other = 'alby:lsp:series:1000000:megalith';
+    expect(await store.zaddMany({
+      [key]: [{ score: 1000, member: JSON.stringify({ fee: 1 }) }],
+      [other]: [{ score: 1000, member: JSON.stringify({ fee: 4 }) }, { score: 2000, member: JSON.stringify({ fee: 5 }) }]
+    })).toBe(3);
+    expect(await new FileStore(filePath).zcard(other)).toBe(2);
+    expect(await store.zrangeByScore(key, -Infinity, Infinity)).toEqual([{ fee: 1 }]);
+  });
+
+  it('should escape regex characters in glob patterns', () => {
+    expect(globToRegExp('alby:lsp:history:*').test('alby:lsp:history:2025-09-19')).toBe(true);
+    expect(globToRegExp('a.b').test('axb')).toBe(false);
+  });
+});
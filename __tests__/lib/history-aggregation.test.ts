@@ -0,0 +1,54 @@
+import { aggregateHistory, getBucketStart, listBucketStarts } from '../../lib/history-aggregation';
+import { LSPPrice } from '../../lib/lsp-api';
+
+const price = (lsp_id: string, timestamp: string, total_fee_msat: number, error?: string): LSPPrice => ({
+  lsp_id,
+  lsp_name: lsp_id,
+  channel_size_sat: 1000000,
+  total_fee_msat,
+  channel_fee_percent: 0,
+  channel_fee_base_msat: 0,
+  lease_fee_base_msat: 0,
+  lease_fee_basis: 0,
+  timestamp,
+  ...(error ? { error } : {})
+});
+
+describe('history aggregation', () => {
+  it('should compute bucket starts in UTC with Monday weeks', () => {
+    const time = Date.parse('2025-09-18T13:45:10.000Z'); // Thursday
+    expect(new Date(getBucketStart(time, 'hour')).toISOString()).toBe('2025-09-18T13:00:00.000Z');
+    expect(new Date(getBucketStart(time, 'day')).toISOString()).toBe('2025-09-18T00:00:00.000Z');
+    expect(new Date(getBucketStart(time, 'week')).toISOString()).toBe('2025-09-15T00:00:00.000Z');
+  });
+
+  it('should list every bucket in a range', () => {
+    const starts = listBucketStarts(Date.parse('2025-09-01T10:00:00Z'), Date.parse('2025-09-03T09:00:00Z'), 'day');
+    expect(starts.map(start => new Date(start).toISOString().split('T')[0])).toEqual([
+      '2025-09-01', '2025-09-02', '2025-09-03'
+    ]);
+  });
+
+  it('should return min/avg/max/last per bucket and LSP, ignoring failures', () => {
+    const points = aggregateHistory([
+      price('olympus', '2025-09-18T20:00:00.000Z', 3000),
+      price('olympus', '2025-09-18T01:00:00.000Z', 1000),
+      price('olympus', '2025-09-18T12:00:00.000Z', 2000),
+      price('olympus', '2025-09-18T13:00:00.000Z', 0, 'Timeout'),
+      price('megalith', '2025-09-19T01:00:00.000Z', 500)
+    ], 'day');
+
+    expect(points).toHaveLength(2);
+    expect(points[0]).toMatchObject({
+      timestamp: '2025-09-18T00:00:00.000Z',
+      lsp_id: 'olympus',
+      min_fee_msat: 1000,
+      avg_fee_msat: 2000,
+      max_fee_msat: 3000,
+      last_fee_msat: 3000,
+      total_fee_msat: 2000,
+      entry_count: 3
+    });
+    expect(points[1]).toMatchObject({ lsp_id: 'megalith', entry_count: 1, last_fee_msat: 500 });
+  });
+});
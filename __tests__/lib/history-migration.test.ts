@@ -0,0 +1,60 @@
+import { extractLegacyHistoryPoints, normalizeLegacyTimestamp } from '../../lib/history-migration';
+
+describe('extractLegacyHistoryPoints', () => {
+  const price = (lsp_id: string, timestamp?: string) => ({
+    lsp_id,
+    lsp_name: lsp_id,
+    channel_size_sat: 1000000,
+    total_fee_msat: 5000000,
+    channel_fee_percent: 0,
+    channel_fee_base_msat: 0,
+    lease_fee_base_msat: 0,
+    lease_fee_basis: 0,
+    ...(timestamp ? { timestamp } : {})
+  });
+
+  it('should flatten entries from the current day blob format', () => {
+    const points = extractLegacyHistoryPoints({
+      channel_1000000: {
+        channelSize: 1000000,
+        entries: [
+          { timestamp: '2025-09-20T00:00:05.000Z', prices: [price('olympus', '2025-09-20T00:00:01.000Z')] },
+          { timestamp: '2025-09-20T12:00:05.000Z', prices: [price('megalith')] }
+        ]
+      },
+      lastUpdate: '2025-09-20T12:00:05.000Z',
+      date: '2025-09-20'
+    });
+
+    expect(points.map(point => [point.price.lsp_id, point.price.timestamp])).toEqual([
+      ['olympus', '2025-09-20T00:00:01.000Z'],
+      ['megalith', '2025-09-20T12:00:05.000Z']
+    ]);
+  });
+
+  it('should read the old format with prices and timestamp on the channel', () => {
+    const points = extractLegacyHistoryPoints({
+      channel_2000000: {
+        channelSize: 2000000,
+        timestamp: '2025-09-19T8:22:00.000Z',
+        prices: [{ ...price('lnserver'), channel_size_sat: 0 }]
+      }
+    });
+
+    expect(points).toHaveLength(1);
+    expect(points[0].price.channel_size_sat).toBe(2000000);
+    expect(points[0].price.timestamp).toBe('2025-09-19T08:22:00.000Z');
+  });
+
+  it('should skip entries without a usable timestamp or LSP id', () => {
+    expect(extractLegacyHistoryPoints({
+      channel_1000000: { channelSize: 1000000, entries: [{ timestamp: 'garbage', prices: [price('olympus'), { foo: 1 }] }] }
+    })).toEqual([]);
+    expect(extractLegacyHistoryPoints(null)).toEqual([]);
+  });
+
+  it('should add the missing leading zero to single-digit hours', () => {
+    expect(normalizeLegacyTimestamp('2025-09-21T8:22:00.000Z')).toBe('2025-09-21T08:22:00.000Z');
+    expect(normalizeLegacyTimestamp('2025-09-21T18:22:00.000Z')).toBe('2025-09-21T18:22:00.000Z');
+  });
+});
@@ -0,0 +1,82 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { LspErrorCode } from '../../lib/lsp-api';
+
+const MINUTE = 60 * 1000;
+
+describe('LSP circuit breaker', () => {
+  let dir: string;
+  let breaker: typeof import('../../lib/lsp-circuit-breaker');
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'priceboard-breaker-'));
+    process.env.PRICE_STORE = 'file';
+    process.env.PRICE_STORE_FILE = path.join(dir, 'store.json');
+    breaker = await import('../../lib/lsp-circuit-breaker');
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(async () => {
+    delete process.env.PRICE_STORE;
+    delete process.env.PRICE_STORE_FILE;
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should open after consecutive failures and ignore errors from a working LSP', () => {
+    const now = new Date('2025-01-01T00:00:00Z');
+    let state = breaker.closedCircuit('olympus');
+
+    state = breaker.applyCircuitResult(state, { ok: false, errorCode: LspErrorCode.TIMEOUT }, now);
+    state = breaker.applyCircuitResult(state, { ok: false, errorCode: LspErrorCode.BAD_STATUS }, now);
+    expect(state).toMatchObject({ state: 'closed', consecutive_failures: 2 });
+
+    // A rejected channel size means the LSP answered
+    expect(breaker.applyCircuitResult(state, { ok: false, errorCode: LspErrorCode.CHANNEL_SIZE_TOO_SMALL }, now))
+      .toMatchObject({ state: 'closed', consecutive_failures: 0 });
+
+    state = breaker.applyCircuitResult(state, { ok: false, errorCode: LspErrorCode.TIMEOUT }, now);
+    expect(state).toMatchObject({ state: 'open', consecutive_failures: 3, open_count: 1, next_probe_at: '2025-01-01T00:15:00.000Z' });
+    expect(breaker.evaluateCircuit(state, new Date(now.getTime() + 10 * MINUTE)).allowed).toBe(false);
+  });
+
+  it('should let a single probe through when half-open and double the pause when it fails', () => {
+    const opened = breaker.applyCircuitResult(
+      { ...breaker.closedCircuit('flashsats'), consecutive_failures: 2 },
+      { ok: false, errorCode: LspErrorCode.URL_NOT_FOUND },
+      new Date('2025-01-01T00:00:00Z')
+    );
+
+    const probeTime = new Date('2025-01-01T00:16:00Z');
+    const probe = breaker.evaluateCircuit(opened, probeTime);
+    expect(probe).toMatchObject({ allowed: true, state: { state: 'half_open' } });
+    // Concurrent callers wait for the probe
+    expect(breaker.evaluateCircuit(probe.state, new Date(probeTime.getTime() + 5000)).allowed).toBe(false);
+
+    const reopened = breaker.applyCircuitResult(probe.state, { ok: false, errorCode: LspErrorCode.TIMEOUT }, probeTime);
+    expect(reopened).toMatchObject({ state: 'open', open_count: 2, next_probe_at: '2025-01-01T00:46:00.000Z' });
+
+    expect(breaker.applyCircuitResult(probe.state, { ok: true }, probeTime)).toMatchObject({ state: 'closed', consecutive_failures: 0, open_count: 0 });
+  });
+
+  it('should persist state so other instances skip the LSP', async () => {
+    for (let i = 0; i < breaker.FAILURE_THRESHOLD; i++) {
+      await breaker.recordCircuitResult('megalith', { ok: false, errorCode: LspErrorCode.TIMEOUT });
+    }
+
+    const stored = JSON.parse(await fs.readFile(process.env.PRICE_STORE_FILE!, 'utf8'));
+    expect(JSON.stringify(stored)).toContain('alby:lsp:breaker:megalith');
+    expect((await breaker.checkCircuit('megalith')).allowed).toBe(false);
+
+    await breaker.resetCircuit('megalith');
+    expect((await breaker.checkCircuit('megalith')).allowed).toBe(true);
+  });
+});
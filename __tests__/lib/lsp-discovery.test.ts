@@ -0,0 +1,104 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import type { AlbyChannelSuggestion } from '../../lib/alby-api';
+
+const suggestion = (identifier: string, overrides: Partial<AlbyChannelSuggestion> = {}): AlbyChannelSuggestion => ({
+  paymentMethod: 'lightning',
+  network: 'bitcoin',
+  identifier,
+  lspType: 'LSPS1',
+  type: 'lsp',
+  lspUrl: `https://${identifier}.example.com/api/v1`,
+  url: `https://${identifier}.example.com`,
+  lspNodeAddress: '',
+  nodeAddress: '',
+  pubkey: '02' + 'c'.repeat(64),
+  minimumChannelSize: 100000,
+  maximumChannelSize: 10000000,
+  name: `${identifier} LSP`,
+  publicChannelsAllowed: false,
+  ...overrides
+});
+
+const getInfoResponse = {
+  min_channel_balance_sat: '100000',
+  max_channel_balance_sat: '10000000',
+  uris: ['02' + 'c'.repeat(64) + '@127.0.0.1:9735']
+};
+
+describe('LSP discovery', () => {
+  let dir: string;
+  let discovery: typeof import('../../lib/lsp-discovery');
+  let lsps: typeof import('../../lib/lsps');
+  const originalFetch = global.fetch;
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'priceboard-discovery-'));
+    process.env.PRICE_STORE = 'file';
+    process.env.PRICE_STORE_FILE = path.join(dir, 'store.json');
+    discovery = await import('../../lib/lsp-discovery');
+    lsps = await import('../../lib/lsps');
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    jest.restoreAllMocks();
+  });
+
+  afterAll(async () => {
+    delete process.env.PRICE_STORE;
+    delete process.env.PRICE_STORE_FILE;
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should queue only unknown lightning LSPs and probe them', async () => {
+    global.fetch = jest.fn(async (url: string | URL | Request) => {
+      const ok = String(url).startsWith('https://newlsp.example.com');
+      return new Response(ok ? JSON.stringify(getInfoResponse) : 'nope', { status: ok ? 200 : 404 });
+    }) as typeof fetch;
+
+    const newIdentifiers = await discovery.recordDiscoveredLSPs([
+      suggestion('olympus'),
+      suggestion('newlsp'),
+      suggestion('brokenlsp'),
+      suggestion('onchainlsp', { paymentMethod: 'onchain' })
+    ]);
+
+    expect(newIdentifiers).toEqual(['newlsp', 'brokenlsp']);
+    const queue = await discovery.getDiscoveredLSPs('pending');
+    expect(queue.map(candidate => candidate.albyIdentifier).sort()).toEqual(['brokenlsp', 'newlsp']);
+    expect(queue.find(candidate => candidate.albyIdentifier === 'newlsp')?.probe).toMatchObject({
+      ok: true,
+      min_channel_balance_sat: 100000
+    });
+    expect(queue.find(candidate => candidate.albyIdentifier === 'brokenlsp')?.probe?.ok).toBe(false);
+
+    // Seeing the same suggestions again does not re-queue them
+    expect(await discovery.recordDiscoveredLSPs([suggestion('newlsp')])).toEqual([]);
+  });
+
+  it('should only promote candidates with a successful probe unless forced', async () => {
+    await expect(discovery.promoteDiscoveredLSP('brokenlsp', { actor: 'alice' })).rejects.toThrow(/no successful get_info probe/);
+
+    const { entry, candidate } = await discovery.promoteDiscoveredLSP('newlsp', { actor: 'alice' });
+    expect(entry).toMatchObject({ id: 'newlsp', active: true, albyIdentifier: 'newlsp', url: 'https://newlsp.example.com/api/v1' });
+    expect(candidate).toMatchObject({ status: 'promoted', promotedId: 'newlsp', reviewedBy: 'alice' });
+
+    // Promoted LSPs join the registry without a config change
+    expect((await lsps.loadActiveLSPs()).map(lsp => lsp.id)).toContain('newlsp');
+    expect(lsps.getLSPByAlbyIdentifier('newlsp')?.id).toBe('newlsp');
+    expect(lsps.getLspRegistryStatus().promotedCount).toBe(1);
+  });
+
+  it('should remove a promoted LSP again when it is rejected', async () => {
+    const rejected = await discovery.rejectDiscoveredLSP('newlsp', { actor: 'bob' });
+    expect(rejected.status).toBe('rejected');
+    expect((await lsps.loadActiveLSPs()).map(lsp => lsp.id)).not.toContain('newlsp');
+  });
+});
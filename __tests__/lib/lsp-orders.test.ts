@@ -0,0 +1,139 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import type { LSPS1CreateOrderResponse } from '../../lib/lsp-api';
+import type { TrackedOrder } from '../../lib/lsp-orders';
+
+const lsp = { id: 'olympus', name: 'Olympus', url: 'https://lsp.example.com/api/v1', pubkey: '02' + 'a'.repeat(64), active: true };
+
+const orderResponse = (overrides: Partial<LSPS1CreateOrderResponse> = {}): LSPS1CreateOrderResponse => ({
+  order_id: 'order-1',
+  channel_size_sat: 1000000,
+  channel_fee_percent: 0,
+  channel_fee_base_msat: 0,
+  lease_fee_base_msat: 0,
+  lease_fee_basis: 0,
+  total_fee_msat: 0,
+  order_state: 'CREATED',
+  payment: {
+    bolt11: { state: 'EXPECT_PAYMENT', expires_at: '2025-01-01T01:00:00.000Z', fee_total_sat: '5000', order_total_sat: '5000', invoice: 'lnbc1...' },
+    onchain: { state: 'EXPECT_PAYMENT', expires_at: '2025-01-01T00:30:00.000Z', fee_total_sat: '5200', order_total_sat: '5200', address: 'bc1q...' }
+  },
+  ...overrides
+});
+
+describe('LSPS1 order tracking', () => {
+  let dir: string;
+  let orders: typeof import('../../lib/lsp-orders');
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'priceboard-orders-'));
+    process.env.PRICE_STORE = 'file';
+    process.env.PRICE_STORE_FILE = path.join(dir, 'store.json');
+    orders = await import('../../lib/lsp-orders');
+  });
+
+  afterAll(async () => {
+    delete process.env.PRICE_STORE;
+    delete process.env.PRICE_STORE_FILE;
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const tracked = (overrides: Partial<TrackedOrder> = {}): TrackedOrder => ({
+    order_id: 'order-1',
+    lsp_id: 'olympus',
+    lsp_name: 'Olympus',
+    channel_size_sat: 1000000,
+    created_at: '2025-01-01T00:00:00.000Z',
+    expires_at: '2025-01-01T01:00:00.000Z',
+    declared_validity_seconds: 3600,
+    payment_options: [],
+    status: 'tracking',
+    polls: 0,
+    last_seen_at: '2025-01-01T00:00:00.000Z',
+    ...overrides
+  });
+
+  it('should summarize nested and flat payment options without invoices', () => {
+    const nested = orders.summarizePaymentOptions(orderResponse().payment);
+    expect(nested).toEqual([
+      { method: 'bolt11', state: 'EXPECT_PAYMENT', fee_total_sat: 5000, order_total_sat: 5000, expires_at: '2025-01-01T01:00:00.000Z' },
+      { method: 'onchain', state: 'EXPECT_PAYMENT', fee_total_sat: 5200, order_total_sat: 5200, expires_at: '2025-01-01T00:30:00.000Z' }
+    ]);
+
+    const flat = orders.summarizePaymentOptions({ state: 'EXPECT_PAYMENT', expires_at: '2025-01-01T02:00:00.000Z', fee_total_sat: '100', bolt11_invoice: 'lnbc1...' });
+    expect(flat).toEqual([{ method: 'bolt11', state: 'EXPECT_PAYMENT', fee_total_sat: 100, expires_at: '2025-01-01T02:00:00.000Z' }]);
+  });
+
+  it('should keep tracking a payable order and end it at its expiry', () => {
+    const stillValid = orders.applyOrderPoll(tracked(), { order: orderResponse() }, new Date('2025-01-01T00:20:00Z'));
+    expect(stillValid).toMatchObject({ status: 'tracking', polls: 1, last_seen_at: '2025-01-01T00:20:00.000Z' });
+    expect(stillValid.payment_options).toHaveLength(2);
+
+    const expired = orders.applyOrderPoll(stillValid, { order: orderResponse() }, new Date('2025-01-01T01:05:00Z'));
+    expect(expired).toMatchObject({ status: 'expired', ended_at: '2025-01-01T01:00:00.000Z', observed_validity_seconds: 3600 });
+
+    // The poller closes orders past their expiry without a get_order call
+    expect(orders.closeExpiredOrder(tracked(), new Date('2025-01-01T00:59:00Z'))).toBeNull();
+    expect(orders.closeExpiredOrder(tracked({ polls: 3 }), new Date('2025-01-02T00:00:00Z')))
+      .toMatchObject({ status: 'expired', polls: 3, ended_at: '2025-01-01T01:00:00.000Z', observed_validity_seconds: 3600 });
+    expect(orders.closeExpiredOrder(tracked({ expires_at: undefined }), new Date('2025-01-09T00:00:00Z'))).toMatchObject({ status: 'expired' });
+  });
+
+  it('should mark orders the LSP forgot before their expiry as dropped', () => {
+    const dropped = orders.applyOrderPoll(tracked(), { order: null, error: { message: 'not found' }, status: 404 }, new Date('2025-01-01T00:10:00Z'));
+    expect(dropped).toMatchObject({ status: 'dropped', observed_validity_seconds: 600 });
+
+    const transient = orders.applyOrderPoll(tracked(), { order: null, error: { message: 'timeout' } }, new Date('2025-01-01T00:10:00Z'));
+    expect(transient).toMatchObject({ status: 'tracking', last_error: 'timeout' });
+  });
+
+  it('should store created orders and summarize them per LSP', async () => {
+    const recorded = await orders.recordCreatedOrder(lsp, 1000000, orderResponse({ order_id: 'order-2' }));
+    expect(recorded).toMatchObject({ order_id: 'order-2', status: 'tracking', expires_at: '2025-01-01T01:00:00.000Z' });
+
+    const stored = await orders.getTrackedOrders('olympus');
+    expect(stored.map(order => order.order_id)).toEqual(['order-2']);
+
+    const summary = orders.summarizeOrders('olympus', 'Olympus', [
+      tracked({ status: 'expired', observed_validity_seconds: 3600, payment_options: [{ method: 'bolt11' }] }),
+      tracked({ status: 'dropped', observed_validity_seconds: 600, payment_options: [{ method: 'bolt11' }, { method: 'onchain' }] }),
+      tracked()
+    ]);
+    expect(summary).toMatchObject({
+      total_orders: 3,
+      tracking: 1,
+      statuses: { expired: 1, dropped: 1, tracking: 1 },
+      median_declared_validity_seconds: 3600,
+      median_observed_validity_seconds: 2100,
+      payment_methods: { bolt11: 2, onchain: 1 }
+    });
+  });
+
+  it('should back off polling an LSP that rate limits get_order', async () => {
+    const { getRateLimitState } = await import('../../lib/lsp-rate-limit');
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    await orders.recordCreatedOrder(lsp, 1000000, orderResponse({
+      order_id: 'order-3',
+      payment: { bolt11: { state: 'EXPECT_PAYMENT', expires_at: '2099-01-01T00:00:00.000Z', fee_total_sat: '5000', order_total_sat: '5000' } }
+    }));
+
+    process.env.OLYMPUS_LSPS1_BASE = 'https://lsp.example.com/api/v1';
+    const fetchSpy = jest.spyOn(global, 'fetch').mockResolvedValue(new Response('{}', { status: 429, headers: { 'retry-after': '60' } }));
+    const first = await orders.pollTrackedOrders();
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+    expect(first).toMatchObject({ polled: 1, ended: 0, skipped_lsps: ['olympus'] });
+    expect((await getRateLimitState('olympus')).backoff_ms).toBe(60000);
+    expect((await orders.getTrackedOrders('olympus')).find(order => order.order_id === 'order-3')).toMatchObject({ status: 'tracking', polls: 0 });
+
+    // In backoff: skipped without a request
+    fetchSpy.mockClear();
+    const second = await orders.pollTrackedOrders();
+    expect(fetchSpy).not.toHaveBeenCalled();
+    expect(second).toMatchObject({ polled: 0, skipped_lsps: ['olympus'] });
+
+    delete process.env.OLYMPUS_LSPS1_BASE;
+    jest.restoreAllMocks();
+  });
+});
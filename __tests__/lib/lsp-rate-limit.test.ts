@@ -0,0 +1,80 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+const MINUTE = 60 * 1000;
+
+describe('LSP rate limiting', () => {
+  let dir: string;
+  let rateLimit: typeof import('../../lib/lsp-rate-limit');
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'priceboard-ratelimit-'));
+    process.env.PRICE_STORE = 'file';
+    process.env.PRICE_STORE_FILE = path.join(dir, 'store.json');
+    rateLimit = await import('../../lib/lsp-rate-limit');
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(async () => {
+    delete process.env.PRICE_STORE;
+    delete process.env.PRICE_STORE_FILE;
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should parse Retry-After as seconds or an HTTP date', () => {
+    const now = new Date('2025-01-01T00:00:00Z');
+    expect(rateLimit.parseRetryAfter('120', now)).toBe(120000);
+    expect(rateLimit.parseRetryAfter('Wed, 01 Jan 2025 00:10:00 GMT', now)).toBe(10 * MINUTE);
+    expect(rateLimit.parseRetryAfter('soon', now)).toBeNull();
+    expect(rateLimit.parseRetryAfter(null, now)).toBeNull();
+  });
+
+  it('should back off exponentially without Retry-After and reset after a success', () => {
+    const now = new Date('2025-01-01T00:00:00Z');
+    const cooldownMs = 10 * MINUTE;
+    let state = rateLimit.emptyRateLimitState('olympus');
+
+    state = rateLimit.applyRateLimitEvent(state, { type: 'rate_limited' }, cooldownMs, now);
+    expect(state).toMatchObject({ backoff_ms: 5 * MINUTE, consecutive_rate_limits: 1 });
+    // The registry cooldown is the floor
+    expect(state.next_allowed_at).toBe('2025-01-01T00:10:00.000Z');
+
+    state = rateLimit.applyRateLimitEvent(state, { type: 'rate_limited' }, cooldownMs, now);
+    state = rateLimit.applyRateLimitEvent(state, { type: 'rate_limited' }, cooldownMs, now);
+    expect(state).toMatchObject({ backoff_ms: 20 * MINUTE, consecutive_rate_limits: 3, next_allowed_at: '2025-01-01T00:20:00.000Z' });
+
+    // A regular request never shortens an active backoff
+    const request = rateLimit.applyRateLimitEvent(state, { type: 'request' }, cooldownMs, now);
+    expect(request.next_allowed_at).toBe('2025-01-01T00:20:00.000Z');
+
+    expect(rateLimit.applyRateLimitEvent(state, { type: 'success' }, cooldownMs, now)).toMatchObject({ backoff_ms: 0, consecutive_rate_limits: 0 });
+  });
+
+  it('should honour Retry-After over the exponential backoff', () => {
+    const now = new Date('2025-01-01T00:00:00Z');
+    const state = rateLimit.applyRateLimitEvent(rateLimit.emptyRateLimitState('flashsats'), { type: 'rate_limited', retryAfterMs: 3 * 60 * MINUTE }, 0, now);
+    expect(state).toMatchObject({ backoff_ms: 3 * 60 * MINUTE, retry_after_ms: 3 * 60 * MINUTE, next_allowed_at: '2025-01-01T03:00:00.000Z' });
+  });
+
+  it('should persist state so other instances skip the LSP', async () => {
+    await rateLimit.recordRateLimitEvent('megalith', { type: 'rate_limited', retryAfterMs: 30 * MINUTE });
+
+    const stored = JSON.parse(await fs.readFile(process.env.PRICE_STORE_FILE!, 'utf8'));
+    expect(JSON.stringify(stored)).toContain('alby:lsp:ratelimit:megalith');
+
+    const check = await rateLimit.checkRateLimit('megalith');
+    expect(check.allowed).toBe(false);
+    expect(check.remainingMs).toBeGreaterThan(29 * MINUTE);
+
+    await rateLimit.resetRateLimit('megalith');
+    expect((await rateLimit.checkRateLimit('megalith')).allowed).toBe(true);
+  });
+});
@@ -0,0 +1,118 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { BUNDLED_LSP_REGISTRY, validateLspRegistry } from '../../lib/lsp-registry';
+
+const PUBKEY_A = '02' + 'a'.repeat(64);
+const PUBKEY_B = '03' + 'b'.repeat(64);
+
+const makeRegistry = (overrides: Record<string, unknown> = {}) => ({
+  version: 1,
+  defaults: { cooldownMinutes: 10, clientPubkey: PUBKEY_A },
+  lsps: [
+    {
+      id: 'test-lsp',
+      name: 'Test LSP',
+      url: 'https://lsp.example.com/api/v1',
+      pubkey: PUBKEY_B,
+      active: true,
+      cooldownMinutes: 30,
+      albyIdentifier: 'test',
+      orderOverrides: { announce_channel: true }
+    }
+  ],
+  ...overrides
+});
+
+describe('LSP registry', () => {
+  it('should accept the bundled registry', () => {
+    expect(BUNDLED_LSP_REGISTRY.lsps.map(lsp => lsp.id)).toEqual(['olympus', 'lnserver', 'megalith', 'flashsats']);
+  });
+
+  it('should report every invalid field at once', () => {
+    const result = validateLspRegistry(makeRegistry({
+      lsps: [
+        { id: 'Bad Id', name: '', url: 'ftp://nope', pubkey: 'xyz', active: 'yes' },
+        { id: 'dup', name: 'A', url: 'https://a.example', pubkey: PUBKEY_A, active: true, orderOverrides: { public_key: PUBKEY_B } },
+        { id: 'dup', name: 'B', url: 'https://b.example', pubkey: PUBKEY_A, active: true, cooldownMinutes: -1 }
+      ]
+    }));
+
+    expect(result.valid).toBe(false);
+    if (result.valid) return;
+    expect(result.errors).toEqual(expect.arrayContaining([
+      'lsps[0].id must be lowercase letters, digits and dashes',
+      'lsps[0] (Bad Id).url must be an http(s) URL',
+      'lsps[0] (Bad Id).active must be true or false',
+      'lsps[1] (dup).orderOverrides may not set public_key',
+      'lsps[2] (dup).cooldownMinutes must be a non-negative number',
+      'Duplicate LSP id "dup"'
+    ]));
+  });
+
+  it('should reject unknown versions and missing defaults', () => {
+    const result = validateLspRegistry({ version: 2, lsps: makeRegistry().lsps });
+    expect(result.valid).toBe(false);
+    if (result.valid) return;
+    expect(result.errors).toHaveLength(2);
+  });
+
+  describe('loading from disk', () => {
+    const originalEnv = process.env;
+    let dir: string;
+    let registryPath: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'lsp-registry-'));
+      registryPath = path.join(dir, 'lsps.json');
+      process.env = { ...originalEnv, LSP_REGISTRY_PATH: registryPath };
+      jest.resetModules();
+      jest.spyOn(console, 'log').mockImplementation(() => {});
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      process.env = originalEnv;
+      jest.restoreAllMocks();
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should resolve LSP settings from the registry file', async () => {
+      fs.writeFileSync(registryPath, JSON.stringify(makeRegistry()));
+      const lsps = await import('../../lib/lsps');
+
+      expect(lsps.getActiveLSPs().map(lsp => lsp.id)).toEqual(['test-lsp']);
+      expect(lsps.getLSPByAlbyIdentifier('test')?.id).toBe('test-lsp');
+      expect(lsps.getLspCooldownMs('test-lsp')).toBe(30 * 60 * 1000);
+      expect(lsps.getLspCooldownMs('unknown')).toBe(10 * 60 * 1000);
+      expect(lsps.getClientPubkeyForLSP('test-lsp')).toBe(PUBKEY_A);
+      expect(lsps.getOrderOverridesForLSP('test-lsp')).toEqual({ announce_channel: true });
+      expect(lsps.getLspRegistryStatus().source).toBe('file');
+    });
+
+    it('should keep the previous registry when a reload is invalid', async () => {
+      fs.writeFileSync(registryPath, JSON.stringify(makeRegistry()));
+      const lsps = await import('../../lib/lsps');
+      expect(lsps.getLSPById('test-lsp')?.active).toBe(true);
+
+      fs.writeFileSync(registryPath, '{ "version": 1, ');
+      const failed = lsps.reloadLspRegistry();
+      expect(failed.errors[0]).toMatch(/Could not parse/);
+      expect(lsps.getLSPById('test-lsp')).toBeDefined();
+
+      const updated = makeRegistry();
+      updated.lsps[0].active = false;
+      fs.writeFileSync(registryPath, JSON.stringify(updated));
+      const reloaded = lsps.reloadLspRegistry();
+      expect(reloaded.errors).toEqual([]);
+      expect(lsps.getActiveLSPs()).toEqual([]);
+    });
+
+    it('should fall back to the bundled registry without a file', async () => {
+      const lsps = await import('../../lib/lsps');
+      expect(lsps.getLspRegistryStatus().source).toBe('bundled');
+      expect(lsps.getLSPById('olympus')?.pubkey).toBe(BUNDLED_LSP_REGISTRY.lsps[0].pubkey);
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { LspErrorCode } from '../../lib/lsp-api';
+
+const lsp = { id: 'olympus', name: 'Olympus', url: 'https://lsp.example.com/api/v1', pubkey: '02' + 'a'.repeat(64), active: true };
+const now = new Date('2025-01-01T00:00:00Z');
+
+const feeParams = (overrides: Record<string, unknown> = {}) => ({
+  min_fee_msat: '2000000',
+  proportional: 1000,
+  valid_until: '2025-01-01T01:00:00Z',
+  min_lifetime: 1008,
+  max_client_to_self_delay: 2016,
+  min_payment_size_msat: '10000000',
+  max_payment_size_msat: '5000000000',
+  promise: 'abc',
+  ...overrides
+});
+
+describe('LSPS2 JIT pricing', () => {
+  let dir: string;
+  let lsps2: typeof import('../../lib/lsps2');
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'priceboard-lsps2-'));
+    process.env.PRICE_STORE = 'file';
+    process.env.PRICE_STORE_FILE = path.join(dir, 'store.json');
+    lsps2 = await import('../../lib/lsps2');
+  });
+
+  afterAll(async () => {
+    delete process.env.PRICE_STORE;
+    delete process.env.PRICE_STORE_FILE;
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should drop invalid and expired menu entries and keep the rest', () => {
+    const { menu, errors } = lsps2.parseLSPS2Info({
+      opening_fee_params_menu: [
+        feeParams(),
+        feeParams({ min_fee_msat: 2000000 }),
+        feeParams({ valid_until: '2024-12-31T23:00:00Z' }),
+        feeParams({ promise: undefined })
+      ]
+    }, now);
+
+    expect(menu).toEqual([{
+      min_fee_msat: 2000000,
+      proportional_ppm: 1000,
+      valid_until: '2025-01-01T01:00:00.000Z',
+      min_lifetime: 1008,
+      max_client_to_self_delay: 2016,
+      min_payment_size_msat: 10000000,
+      max_payment_size_msat: 5000000000
+    }]);
+    expect(errors).toHaveLength(3);
+    expect(errors[1]).toMatch(/expired/);
+
+    expect(lsps2.parseLSPS2Info({}, now).errors).toEqual(['opening_fee_params_menu is missing']);
+  });
+
+  it('should take payment bounds from the top level for older LSPS2 revisions', () => {
+    const { menu } = lsps2.parseLSPS2Info({
+      opening_fee_params_menu: [feeParams({ min_payment_size_msat: undefined, max_payment_size_msat: undefined })],
+      min_payment_size_msat: '1000',
+      max_payment_size_msat: '2000000000'
+    }, now);
+    expect(menu[0]).toMatchObject({ min_payment_size_msat: 1000, max_payment_size_msat: 2000000000 });
+  });
+
+  it('should price the cheapest applicable offer with the min_fee_msat floor', () => {
+    const { menu } = lsps2.parseLSPS2Info({
+      opening_fee_params_menu: [feeParams(), feeParams({ min_fee_msat: '1000000', proportional: 2000, promise: 'def' })]
+    }, now);
+
+    // 1M sats: 1000 ppm → 1000 sats, below the 2000 sat floor; 2000 ppm → 2000 sats, above its 1000 sat floor
+    const small = lsps2.toJitPrice(lsp, 1000000, menu, now);
+    expect(small).toMatchObject({ source: 'lsps2', total_fee_msat: 2000000, channel_expiry_blocks: 1008 });
+
+    // 4M sats: 4000 sats vs 8000 sats, proportional fee applies
+    const large = lsps2.toJitPrice(lsp, 4000000, menu, now);
+    expect(large).toMatchObject({ total_fee_msat: 4000000, channel_fee_percent: 0.1, channel_fee_base_msat: 0 });
+    expect(large.jit_fee_params?.proportional_ppm).toBe(1000);
+
+    const tooLarge = lsps2.toJitPrice(lsp, 10000000, menu, now);
+    expect(tooLarge).toMatchObject({ total_fee_msat: 0, error_code: 'CHANNEL_SIZE_TOO_LARGE' });
+  });
+
+  it('should keep the last good JIT quote when a refresh fails', async () => {
+    const { menu } = lsps2.parseLSPS2Info({ opening_fee_params_menu: [feeParams()] }, now);
+    await lsps2.saveJitPrices(2000000, [lsps2.toJitPrice(lsp, 2000000, menu, now)]);
+    await lsps2.saveJitPrices(2000000, [{
+      ...lsps2.toJitPrice(lsp, 2000000, [], now),
+      source: 'unavailable',
+      error: 'HTTP 500',
+      error_code: LspErrorCode.BAD_STATUS
+    }]);
+
+    const [stored] = await lsps2.getJitPrices(2000000);
+    expect(stored).toMatchObject({ total_fee_msat: 2000000, source: 'lsps2', live_fetch_error: 'HTTP 500' });
+  });
+});
@@ -0,0 +1,79 @@
+import net from 'net';
+import {
+  checkNodeReachability,
+  createActOne,
+  parseNodeUri,
+  summarizeNodeChecks,
+  verifyActTwo
+} from '../../lib/node-reachability';
+
+// BOLT #8 Appendix A test vectors
+const RESPONDER_PUBKEY = '028d7500dd4c12685d1f568b4c2b5048e8534b873319f3a8daa612b469132ec7f7';
+const INITIATOR_EPHEMERAL = Buffer.alloc(32, 0x12);
+const ACT_ONE = '00036360e856310ce5d294e8be33fc807077dc56ac80d95d9cd4ddbd21325eff73f70df6086551151f58b8afe6c195782c6a';
+const ACT_TWO = '0002466d7fcae563e5cb09a0d1870bb580344804617879a14949cf22285f1bae3f276e2470b93aac583c9ef6eafca3f730ae';
+
+describe('node reachability', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should parse node URIs', () => {
+    expect(parseNodeUri(`${RESPONDER_PUBKEY}@203.0.113.5:9735`)).toEqual({ pubkey: RESPONDER_PUBKEY, host: '203.0.113.5', port: 9735 });
+    expect(parseNodeUri(`${RESPONDER_PUBKEY}@[2001:db8::1]:9736`)).toMatchObject({ host: '2001:db8::1', port: 9736 });
+    expect(parseNodeUri(`${RESPONDER_PUBKEY}@node.example.com`)).toMatchObject({ host: 'node.example.com', port: 9735 });
+    expect(parseNodeUri('not-a-pubkey@host:9735')).toBeNull();
+    expect(parseNodeUri(`${RESPONDER_PUBKEY}@host:99999`)).toBeNull();
+  });
+
+  it('should build act one and verify act two', () => {
+    const { actOne, state } = createActOne(RESPONDER_PUBKEY, INITIATOR_EPHEMERAL);
+    expect(actOne.toString('hex')).toBe(ACT_ONE);
+    expect(verifyActTwo(state, Buffer.from(ACT_TWO, 'hex'))).toBe(true);
+
+    const tampered = Buffer.from(ACT_TWO, 'hex');
+    tampered[49] ^= 1;
+    expect(verifyActTwo(state, tampered)).toBe(false);
+  });
+
+  it('should report pubkey mismatches and unreachable nodes separately', async () => {
+    const server = net.createServer(socket => socket.destroy());
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as net.AddressInfo;
+    const otherPubkey = '03' + 'ab'.repeat(32);
+
+    try {
+      const reachable = await checkNodeReachability(
+        { id: 'olympus', name: 'Olympus', pubkey: RESPONDER_PUBKEY },
+        [`${RESPONDER_PUBKEY}@127.0.0.1:${port}`],
+        { handshake: false }
+      );
+      expect(reachable.status).toBe('reachable');
+
+      const mismatch = await checkNodeReachability(
+        { id: 'olympus', name: 'Olympus', pubkey: RESPONDER_PUBKEY },
+        [`${otherPubkey}@127.0.0.1:${port}`],
+        { handshake: false }
+      );
+      expect(mismatch.status).toBe('pubkey_mismatch');
+      expect(mismatch.uris[0]).toMatchObject({ pubkey_matches: false, status: 'reachable' });
+
+      // The test server hangs up instead of answering act one
+      const handshake = await checkNodeReachability(
+        { id: 'olympus', name: 'Olympus', pubkey: RESPONDER_PUBKEY },
+        [`${RESPONDER_PUBKEY}@127.0.0.1:${port}`],
+        { handshake: true }
+      );
+      expect(handshake.status).toBe('unreachable');
+      expect(handshake.uris[0]).toMatchObject({ status: 'handshake_failed', handshake_verified: false });
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+
+    expect(summarizeNodeChecks([])).toBe('no_uris');
+  });
+});
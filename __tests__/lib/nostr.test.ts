@@ -0,0 +1,106 @@
+import net from 'net';
+import { npubEncode, nsecEncode } from 'nostr-tools/nip19';
+import { getPublicKey } from 'nostr-tools/pure';
+import { WebSocketServer } from 'ws';
+import type { LSPPrice } from '../../lib/lsp-api';
+import {
+  buildSnapshotEvent,
+  finalizeEvent,
+  NostrEvent,
+  parseNostrPrivateKey,
+  publishToRelay,
+  verifyEvent
+} from '../../lib/nostr';
+
+const PRIVATE_KEY = Buffer.alloc(32, 7);
+
+const price = (lsp_id: string, total_fee_msat: number, extra: Partial<LSPPrice> = {}): LSPPrice => ({
+  lsp_id,
+  lsp_name: lsp_id,
+  channel_size_sat: 1000000,
+  total_fee_msat,
+  channel_fee_percent: 0,
+  channel_fee_base_msat: 0,
+  lease_fee_base_msat: 0,
+  lease_fee_basis: 0,
+  timestamp: '2025-01-01T00:00:00.000Z',
+  source: 'live',
+  ...extra
+});
+
+// Minimal relay: answers every EVENT with OK (true when the signature verifies)
+function startRelay(received: NostrEvent[]): Promise<WebSocketServer> {
+  const server = new WebSocketServer({ port: 0, host: '127.0.0.1' });
+  server.on('connection', socket => {
+    socket.on('message', data => {
+      const [type, event] = JSON.parse(data.toString()) as [string, NostrEvent];
+      if (type === 'EVENT') {
+        received.push(event);
+        const valid = verifyEvent(event);
+        socket.send(JSON.stringify(['OK', event.id, valid, valid ? '' : 'invalid: bad signature']));
+      }
+    });
+  });
+  return new Promise(resolve => server.once('listening', () => resolve(server)));
+}
+
+describe('nostr publishing', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should read the private key as hex or nsec', () => {
+    expect(parseNostrPrivateKey(nsecEncode(PRIVATE_KEY))).toEqual(PRIVATE_KEY);
+    expect(parseNostrPrivateKey(PRIVATE_KEY.toString('hex').toUpperCase())).toEqual(PRIVATE_KEY);
+    expect(parseNostrPrivateKey(npubEncode(getPublicKey(PRIVATE_KEY)))).toBeNull();
+    expect(parseNostrPrivateKey('nsec1invalid')).toBeNull();
+  });
+
+  it('should build a snapshot event with per-LSP tags', () => {
+    const template = buildSnapshotEvent(1000000, [
+      price('megalith', 12000000, { source: 'cached' }),
+      price('olympus', 10000000),
+      price('flashsats', 0, { error: 'timeout' })
+    ], new Date('2025-01-01T00:00:00Z'))!;
+
+    expect(template).toMatchObject({ kind: 30078, created_at: 1735689600 });
+    expect(template.tags.slice(0, 5)).toEqual([
+      ['d', 'lsp-prices:1000000'],
+      ['t', 'lsp-prices'],
+      ['size', '1000000'],
+      ['lsp', 'olympus', '1000000', '10000000', 'live', '10000'],
+      ['lsp', 'megalith', '1000000', '12000000', 'cached', '12000']
+    ]);
+    expect(template.content).toBe('LSP channel prices for 1M sats: cheapest olympus at 10,000 sats (2 LSPs)');
+    expect(buildSnapshotEvent(2000000, [price('olympus', 10000000)])).toBeNull();
+
+    const event = finalizeEvent(template, PRIVATE_KEY);
+    expect(event.pubkey).toBe(getPublicKey(PRIVATE_KEY));
+    expect(verifyEvent(event)).toBe(true);
+    expect(verifyEvent({ ...event, content: 'changed' })).toBe(false);
+  });
+
+  it('should publish to a local relay and report failing relays', async () => {
+    const received: NostrEvent[] = [];
+    const relay = await startRelay(received);
+    const { port } = relay.address() as net.AddressInfo;
+    const event = finalizeEvent(buildSnapshotEvent(1000000, [price('olympus', 10000000)])!, PRIVATE_KEY);
+
+    try {
+      expect(await publishToRelay(`ws://127.0.0.1:${port}`, event)).toEqual({ relay: `ws://127.0.0.1:${port}`, ok: true });
+      expect(received.map(entry => entry.id)).toEqual([event.id]);
+
+      const rejected = await publishToRelay(`ws://127.0.0.1:${port}`, { ...event, sig: '00'.repeat(64) });
+      expect(rejected).toMatchObject({ ok: false, message: 'invalid: bad signature' });
+    } finally {
+      relay.clients.forEach(client => client.terminate());
+      await new Promise(resolve => relay.close(resolve));
+    }
+
+    expect(await publishToRelay(`ws://127.0.0.1:${port}`, event, 1000)).toMatchObject({ ok: false });
+  });
+});
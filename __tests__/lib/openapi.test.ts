@@ -0,0 +1,94 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { API_ERROR_CODES } from '../../types/api-response';
+import type { LSPPrice } from '../../lib/lsp-api';
+import { markDeprecated } from '../../lib/api-helpers';
+import { acceptV1Request, sendV1Error, toPriceV1 } from '../../lib/api-v1';
+import { buildOpenApiDocument } from '../../lib/openapi';
+
+const price = (extra: Partial<LSPPrice> = {}): LSPPrice => ({
+  lsp_id: 'olympus',
+  lsp_name: 'Olympus',
+  channel_size_sat: 1000000,
+  total_fee_msat: 10000000,
+  channel_fee_percent: 0.5,
+  channel_fee_base_msat: 5000000,
+  lease_fee_base_msat: 0,
+  lease_fee_basis: 0,
+  timestamp: '2025-01-01T00:00:00.000Z',
+  source: 'live',
+  ...extra
+});
+
+// Just enough of NextApiResponse for the v1 helpers
+function mockResponse() {
+  const res = {
+    statusCode: 200,
+    headers: {} as Record<string, string>,
+    body: undefined as unknown,
+    setHeader(name: string, value: string) { res.headers[name] = value; return res; },
+    status(code: number) { res.statusCode = code; return res; },
+    json(body: unknown) { res.body = body; return res; },
+    end() { return res; }
+  };
+  return res;
+}
+
+// Every $ref in the document, e.g. '#/components/schemas/Price'
+const collectRefs = (value: unknown): string[] => {
+  if (!value || typeof value !== 'object') return [];
+  return Object.entries(value).flatMap(([key, child]) =>
+    key === '$ref' && typeof child === 'string' ? [child] : collectRefs(child));
+};
+
+describe('versioned API', () => {
+  it('should document every /api/v1 route and resolve every schema reference', async () => {
+    const document = buildOpenApiDocument('https://example.com') as {
+      paths: Record<string, unknown>;
+      components: { schemas: Record<string, { properties?: Record<string, { enum?: string[] }> }> };
+    };
+
+    const routes = (await fs.readdir(path.join(__dirname, '../../pages/api/v1')))
+      .map(file => `/api/v1/${file.replace(/\.ts$/, '')}`);
+    expect(Object.keys(document.paths).sort()).toEqual(routes.sort());
+
+    collectRefs(document).forEach(ref => {
+      expect(document.components.schemas[ref.replace('#/components/schemas/', '')]).toBeDefined();
+    });
+    expect(document.components.schemas.ErrorResponse.properties?.code.enum).toEqual([...API_ERROR_CODES]);
+  });
+
+  it('should map stored prices to the v1 price shape', () => {
+    expect(toPriceV1(price())).toMatchObject({ total_fee_msat: 10000000, fee_ppm: 10000, error: null, suspicious: false, stale_seconds: null });
+
+    const failed = toPriceV1(price({ total_fee_msat: 0, error: 'Request timed out', source: 'unavailable' }));
+    expect(failed).toMatchObject({ total_fee_msat: null, fee_ppm: null, error: { code: 'UNKNOWN', message: 'Request timed out' } });
+
+    const flagged = price({ anomaly: { reason: 'spike', status: 'pending', ratio: 5, baseline_fee_msat: 2000000, sample_count: 5, detected_at: '2025-01-01T00:00:00.000Z' } });
+    expect(toPriceV1(flagged).suspicious).toBe(true);
+  });
+
+  it('should send error envelopes with the status of their code', () => {
+    const res = mockResponse();
+    sendV1Error(res as unknown as NextApiResponse, 'INVALID_PARAMETER', 'Invalid channelSize');
+    expect(res.statusCode).toBe(400);
+    expect(res.body).toMatchObject({ success: false, error: 'Invalid channelSize', code: 'INVALID_PARAMETER' });
+
+    const rejected = mockResponse();
+    expect(acceptV1Request({ method: 'POST' } as NextApiRequest, rejected as unknown as NextApiResponse)).toBe(false);
+    expect(rejected.statusCode).toBe(405);
+    expect(rejected.headers.Allow).toBe('GET');
+    expect(rejected.body).toMatchObject({ code: 'METHOD_NOT_ALLOWED' });
+  });
+
+  it('should mark legacy routes with structured deprecation and sunset dates', () => {
+    const res = mockResponse();
+    markDeprecated(res as unknown as NextApiResponse, '/api/v1/prices');
+    expect(res.headers).toEqual({
+      Deprecation: '@1792368000',
+      Sunset: 'Mon, 19 Apr 2027 00:00:00 GMT',
+      Link: '</api/v1/prices>; rel="successor-version"'
+    });
+  });
+});
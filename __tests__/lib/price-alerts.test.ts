@@ -0,0 +1,256 @@
+import { promises as fs } from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import type { LSPPrice } from '../../lib/lsp-api';
+import type * as PriceAlerts from '../../lib/price-alerts';
+
+const price = (lsp_id: string, total_fee_msat: number, channel_size_sat: number = 1000000): LSPPrice => ({
+  lsp_id,
+  lsp_name: lsp_id,
+  channel_size_sat,
+  total_fee_msat,
+  channel_fee_percent: 0,
+  channel_fee_base_msat: 0,
+  lease_fee_base_msat: 0,
+  lease_fee_basis: 0,
+  timestamp: '2025-01-01T00:00:00.000Z',
+  source: 'live'
+});
+
+describe('price alerts', () => {
+  let dir: string;
+  let alerts: typeof PriceAlerts;
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'priceboard-alerts-'));
+    process.env.PRICE_STORE = 'file';
+    process.env.PRICE_STORE_FILE = path.join(dir, 'store.json');
+    alerts = await import('../../lib/price-alerts');
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const createRule = async (...args: Parameters<typeof PriceAlerts.createAlertRule>) => {
+    const result = await alerts.createAlertRule(...args);
+    if ('error' in result) throw new Error(result.error);
+    return result.rule;
+  };
+
+  afterAll(async () => {
+    delete process.env.PRICE_STORE;
+    delete process.env.PRICE_STORE_FILE;
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const rule = (condition: PriceAlerts.AlertCondition, lsp_id: string = 'any'): PriceAlerts.AlertRule => ({
+    id: 'rule-1',
+    owner: 'pro:carol',
+    webhook_url: 'https://hooks.example.com/priceboard',
+    secret: 'secret',
+    lsp_id,
+    channel_size_sat: 1000000,
+    condition,
+    active: true,
+    created_at: '2025-01-01T00:00:00.000Z',
+    matched: {}
+  });
+
+  it('should validate rules and reject private webhook URLs in production', () => {
+    const options = { lspIds: ['olympus', 'megalith'] };
+    expect(alerts.validateAlertRule({
+      webhook_url: 'https://hooks.example.com/x',
+      channel_size_sat: '2000000',
+      condition: { type: 'below', unit: 'fiat', value: 5, currency: 'USD' }
+    }, options)).toEqual({
+      rule: {
+        webhook_url: 'https://hooks.example.com/x',
+        lsp_id: 'any',
+        channel_size_sat: 2000000,
+        condition: { type: 'below', unit: 'fiat', value: 5, currency: 'usd' }
+      }
+    });
+
+    const valid = { webhook_url: 'https://hooks.example.com/x', channel_size_sat: 1000000, condition: { type: 'new_cheapest' } };
+    expect(alerts.validateAlertRule({ ...valid, webhook_url: 'http://hooks.example.com/x' }, options)).toHaveProperty('error');
+    expect(alerts.validateAlertRule({ ...valid, webhook_url: 'https://192.168.1.10/x' }, options)).toHaveProperty('error');
+    expect(alerts.validateAlertRule({ ...valid, webhook_url: 'http://localhost:3001/x' }, { ...options, allowPrivateUrls: true }))
+      .toHaveProperty('rule');
+    expect(alerts.validateAlertRule({ ...valid, lsp_id: 'unknown' }, options)).toHaveProperty('error');
+    expect(alerts.validateAlertRule({ ...valid, condition: { type: 'below', unit: 'fiat', value: 5 } }, options)).toHaveProperty('error');
+  });
+
+  it('should reject private webhook addresses', async () => {
+    expect(['10.0.0.1', '172.20.1.1', '100.64.0.1', '::1', '::ffff:127.0.0.1', 'fd12::1', 'fe80::1'].filter(alerts.isPrivateAddress)).toHaveLength(7);
+    expect(['8.8.8.8', '172.32.0.1', '2606:4700::1111'].some(alerts.isPrivateAddress)).toBe(false);
+
+    expect(await alerts.checkWebhookHost('https://[::1]/x')).toBe('webhook_url must be a public https URL');
+    expect(await alerts.checkWebhookHost('https://1.1.1.1/x')).toBeNull();
+  });
+
+  it('should fire threshold alerts once per crossing', () => {
+    let current = rule({ type: 'below', unit: 'ppm', value: 5000 });
+
+    // 6000 ppm and 4000 ppm: only megalith is below
+    let result = alerts.evaluateAlertRule(current, [price('olympus', 6000000), price('megalith', 4000000)]);
+    expect(result.events.map(event => [event.type, event.lsp_id, event.fee_ppm])).toEqual([['price.below_threshold', 'megalith', 4000]]);
+    current = result.rule;
+
+    // Still below: no repeat
+    result = alerts.evaluateAlertRule(current, [price('olympus', 6000000), price('megalith', 3000000)]);
+    expect(result.events).toEqual([]);
+
+    // Back above and below again fires again
+    current = alerts.evaluateAlertRule(result.rule, [price('megalith', 7000000)]).rule;
+    expect(alerts.evaluateAlertRule(current, [price('megalith', 3000000)]).events).toHaveLength(1);
+
+    // Fiat thresholds need a rate and report the converted amount
+    const fiat = rule({ type: 'below', unit: 'fiat', value: 5, currency: 'usd' });
+    expect(alerts.evaluateAlertRule(fiat, [price('olympus', 4000000)]).events).toEqual([]);
+    expect(alerts.evaluateAlertRule(fiat, [price('olympus', 4000000)], { usd: 0.001 }).events[0].fiat)
+      .toEqual({ amount: 4, currency: 'usd' });
+  });
+
+  it('should fire new cheapest alerts when the leader changes', () => {
+    const first = alerts.evaluateAlertRule(rule({ type: 'new_cheapest' }), [price('olympus', 5000000), price('megalith', 6000000)]);
+    expect(first.events).toEqual([]);
+    expect(first.rule.cheapest_lsp_id).toBe('olympus');
+
+    const changed = alerts.evaluateAlertRule(first.rule, [price('olympus', 5000000), price('megalith', 4000000), price('lnserver', 1000, 2000000)]);
+    expect(changed.events).toMatchObject([{ type: 'price.new_cheapest', lsp_id: 'megalith', previous_cheapest_lsp_id: 'olympus' }]);
+
+    // A rule for one LSP only fires when that LSP takes the lead
+    const forOlympus = { ...rule({ type: 'new_cheapest' }, 'olympus'), cheapest_lsp_id: 'olympus' };
+    expect(alerts.evaluateAlertRule(forOlympus, [price('megalith', 1000000), price('olympus', 5000000)]).events).toEqual([]);
+  });
+
+  it('should deliver signed webhooks and queue failures for retry', async () => {
+    const received: { headers: http.IncomingHttpHeaders; body: string }[] = [];
+    let status = 500;
+    const server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.writeHead(status).end();
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as { port: number };
+
+    try {
+      const created = await createRule({
+        webhook_url: `http://127.0.0.1:${port}/hook`,
+        lsp_id: 'any',
+        channel_size_sat: 1000000,
+        condition: { type: 'below', unit: 'sats', value: 5000 }
+      }, 'pro:carol');
+
+      // Evaluation only queues the event; the delivery cron sends it
+      expect(await alerts.evaluatePriceAlerts({ 1000000: [price('olympus', 4000000)] })).toBe(1);
+      expect(received).toHaveLength(0);
+      expect(await alerts.retryPendingDeliveries()).toBe(0);
+      expect(received).toHaveLength(1);
+      const { headers, body } = received[0];
+      expect(headers['x-priceboard-signature'])
+        .toBe(`sha256=${alerts.signWebhook(created.secret, headers['x-priceboard-timestamp'] as string, body)}`);
+      expect(JSON.parse(body)).toMatchObject({ type: 'price.below_threshold', lsp_id: 'olympus', rule_id: created.id });
+
+      // The failed delivery is retried once due, with the same delivery id
+      status = 200;
+      expect(await alerts.retryPendingDeliveries()).toBe(0);
+      expect(await alerts.retryPendingDeliveries(new Date(Date.now() + alerts.RETRY_DELAYS_MS[0]))).toBe(1);
+      expect(received[1].headers['x-priceboard-delivery']).toBe(received[0].headers['x-priceboard-delivery']);
+
+      const log = await alerts.getDeliveryLog(created.id);
+      expect(log.map(entry => [entry.attempt, entry.ok, entry.will_retry])).toEqual([[2, true, false], [1, false, true]]);
+
+      expect(await alerts.listAlertRules('pro:dave')).toEqual([]);
+      expect(await alerts.deleteAlertRule(created.id, 'pro:dave')).toBe(false);
+      expect(await alerts.deleteAlertRule(created.id, 'pro:carol')).toBe(true);
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+
+  it('should keep events queued while a delivery run is in flight', async () => {
+    const size = 4000000;
+    let release: () => void = () => {};
+    const released = new Promise<void>(resolve => { release = resolve; });
+    let onRequest: () => void = () => {};
+    const requested = new Promise<void>(resolve => { onRequest = resolve; });
+    const server = http.createServer((req, res) => {
+      req.resume();
+      onRequest();
+      released.then(() => res.writeHead(200).end());
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as { port: number };
+
+    try {
+      const created = await createRule({
+        webhook_url: `http://127.0.0.1:${port}/hook`,
+        lsp_id: 'any',
+        channel_size_sat: size,
+        condition: { type: 'below', unit: 'sats', value: 5000 }
+      }, 'pro:erin');
+      expect(await alerts.evaluatePriceAlerts({ [size]: [price('olympus', 4000000, size)] })).toBe(1);
+
+      // A price write queues another event while the first webhook is still pending
+      const run = alerts.retryPendingDeliveries();
+      await requested;
+      expect(await alerts.evaluatePriceAlerts({ [size]: [price('olympus', 4000000, size), price('megalith', 3000000, size)] })).toBe(1);
+      release();
+      expect(await run).toBe(1);
+
+      expect(await alerts.retryPendingDeliveries()).toBe(1);
+      expect((await alerts.getDeliveryLog(created.id)).map(entry => entry.ok)).toEqual([true, true]);
+      expect(await alerts.getAlertRule(created.id, 'pro:erin')).toMatchObject({ matched: { olympus: true, megalith: true } });
+      expect(await alerts.deleteAlertRule(created.id, 'pro:erin')).toBe(true);
+    } finally {
+      release();
+      server.closeAllConnections();
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+
+  it('should refuse rules beyond the per-owner limit', async () => {
+    const fields = {
+      webhook_url: 'https://hooks.example.com/priceboard',
+      lsp_id: 'any',
+      channel_size_sat: 1000000,
+      condition: { type: 'new_cheapest' as const }
+    };
+    for (let i = 0; i < alerts.MAX_RULES_PER_OWNER; i++) await createRule(fields, 'pro:frank');
+
+    expect(await alerts.createAlertRule(fields, 'pro:frank')).toEqual({ error: expect.stringContaining(`At most ${alerts.MAX_RULES_PER_OWNER}`) });
+    expect(await alerts.createAlertRule(fields, 'pro:grace')).toHaveProperty('rule');
+    expect(await alerts.listAlertRules('pro:frank')).toHaveLength(alerts.MAX_RULES_PER_OWNER);
+  });
+
+  it('should compare a partial write against the whole stored channel size', async () => {
+    const { savePricesToDB } = await import('../../lib/db');
+    const size = 3000000;
+    const created = await createRule({
+      webhook_url: 'https://hooks.example.com/priceboard',
+      lsp_id: 'any',
+      channel_size_sat: size,
+      condition: { type: 'new_cheapest' }
+    }, 'pro:carol');
+
+    await savePricesToDB([price('olympus', 5000000, size), price('megalith', 6000000, size)]);
+    // A force fetch of megalith alone: olympus is still stored and still the cheapest
+    await savePricesToDB([price('megalith', 5500000, size)]);
+    expect(await alerts.getAlertRule(created.id, 'pro:carol')).toMatchObject({ cheapest_lsp_id: 'olympus' });
+    expect((await alerts.getAlertRule(created.id, 'pro:carol'))?.last_triggered_at).toBeUndefined();
+
+    await savePricesToDB([price('megalith', 4500000, size)]);
+    expect(await alerts.getAlertRule(created.id, 'pro:carol')).toMatchObject({ cheapest_lsp_id: 'megalith', last_triggered_at: expect.any(String) });
+  });
+});
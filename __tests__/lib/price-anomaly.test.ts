@@ -0,0 +1,99 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { listHistoryAnomalies } from '../../lib/history-aggregation';
+import type { LSPPrice } from '../../lib/lsp-api';
+import type * as PriceAnomaly from '../../lib/price-anomaly';
+import type * as Db from '../../lib/db';
+
+const HOUR = 60 * 60 * 1000;
+const start = Date.parse('2025-01-01T00:00:00Z');
+
+const price = (hour: number, total_fee_msat: number, lsp_id: string = 'flashsats'): LSPPrice => ({
+  lsp_id,
+  lsp_name: lsp_id,
+  channel_size_sat: 1000000,
+  total_fee_msat,
+  channel_fee_percent: 0,
+  channel_fee_base_msat: 0,
+  lease_fee_base_msat: 0,
+  lease_fee_basis: 0,
+  timestamp: new Date(start + hour * HOUR).toISOString(),
+  source: 'live'
+});
+
+describe('price anomalies', () => {
+  let dir: string;
+  let anomaly: typeof PriceAnomaly;
+  let db: typeof Db;
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'priceboard-anomaly-'));
+    process.env.PRICE_STORE = 'file';
+    process.env.PRICE_STORE_FILE = path.join(dir, 'store.json');
+    anomaly = await import('../../lib/price-anomaly');
+    db = await import('../../lib/db');
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(async () => {
+    delete process.env.PRICE_STORE;
+    delete process.env.PRICE_STORE_FILE;
+    delete process.env.PRICE_ANOMALY_HOLD;
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const history = [10000000, 10500000, 9800000, 10200000, 10000000].map((fee, hour) => price(hour, fee));
+
+  it('should flag spikes, drops and near-zero fees against the recent median', () => {
+    expect(anomaly.detectPriceAnomaly(price(5, 11000000), history)).toBeNull();
+    expect(anomaly.detectPriceAnomaly(price(5, 50000000), history)).toMatchObject({ reason: 'spike', status: 'pending', ratio: 5, sample_count: 5 });
+    expect(anomaly.detectPriceAnomaly(price(5, 3000000), history)).toMatchObject({ reason: 'drop' });
+    // A fee in sats read as msat
+    expect(anomaly.detectPriceAnomaly(price(5, 10000), history)).toMatchObject({ reason: 'near_zero' });
+    // Too little history to judge
+    expect(anomaly.detectPriceAnomaly(price(5, 50000000), history.slice(0, 3))).toBeNull();
+  });
+
+  it('should tolerate jumps within a volatile series and confirm repeated levels', () => {
+    const volatile = [2000000, 9000000, 4000000, 12000000, 3000000].map((fee, hour) => price(hour, fee));
+    expect(anomaly.detectPriceAnomaly(price(5, 13000000), volatile)).toBeNull();
+
+    const spike = { ...price(5, 50000000), anomaly: anomaly.detectPriceAnomaly(price(5, 50000000), history)! };
+    // The pending spike stays out of the baseline, and the same level again confirms it
+    expect(anomaly.detectPriceAnomaly(price(6, 52000000), [...history, spike]))
+      .toMatchObject({ reason: 'spike', status: 'confirmed', resolved_by: 'repeat', sample_count: 5 });
+    expect(anomaly.detectPriceAnomaly(price(6, 10000000), [...history, spike])).toBeNull();
+  });
+
+  it('should hold flagged prices out of the latest prices until confirmed', async () => {
+    process.env.PRICE_ANOMALY_HOLD = '1';
+    for (const [hour, observation] of history.entries()) {
+      await db.savePricesToDB([observation, price(hour, 20000000, 'olympus')]);
+    }
+
+    await db.savePricesToDB([price(5, 10000, 'flashsats'), price(5, 20000000, 'olympus')]);
+    const latest = await db.getLatestPrices(1000000);
+    expect(latest.find(row => row.lsp_id === 'flashsats')).toMatchObject({ total_fee_msat: 10000000, timestamp: history[4].timestamp });
+    expect(await anomaly.getHeldPrices()).toMatchObject([{ lsp_id: 'flashsats', total_fee_msat: 10000, anomaly: { reason: 'near_zero' } }]);
+
+    // The observation is kept in history, flagged, and listed for the chart instead of averaged
+    const series = await db.getPriceSeries('flashsats', 1000000);
+    expect(series[series.length - 1].anomaly).toMatchObject({ status: 'pending' });
+    expect(listHistoryAnomalies(series, 'day')).toMatchObject([{ lsp_id: 'flashsats', reason: 'near_zero', status: 'pending' }]);
+
+    const confirmed = await anomaly.resolvePriceAnomaly('flashsats', 1000000, 'confirm', 'alice');
+    expect(confirmed?.anomaly).toMatchObject({ status: 'confirmed', resolved_by: 'alice' });
+    expect((await db.getLatestPrices(1000000)).find(row => row.lsp_id === 'flashsats')?.total_fee_msat).toBe(10000);
+    expect(await anomaly.getHeldPrices()).toEqual([]);
+    expect(listHistoryAnomalies(await db.getPriceSeries('flashsats', 1000000), 'day')).toEqual([]);
+    expect((await anomaly.getAnomalyLog()).map(entry => entry.action)).toEqual(['confirmed', 'flagged']);
+  });
+});
@@ -0,0 +1,61 @@
+import {
+  appendColumnarRow,
+  createColumnarExport,
+  formatCsvHeader,
+  formatCsvRow,
+  formatNdjsonRow,
+  toExportRow
+} from '../../lib/price-export';
+import { calculateFeePpm } from '../../lib/fee-ppm';
+import { LSPPrice, LspErrorCode } from '../../lib/lsp-api';
+
+const price: LSPPrice = {
+  lsp_id: 'olympus',
+  lsp_name: 'Olympus',
+  channel_size_sat: 1000000,
+  total_fee_msat: 5000000,
+  channel_fee_percent: 0,
+  channel_fee_base_msat: 0,
+  lease_fee_base_msat: 0,
+  lease_fee_basis: 0,
+  timestamp: '2025-09-20T00:00:00.000Z',
+  source: 'live'
+};
+
+describe('price export', () => {
+  it('should compute the fee in ppm of the channel size', () => {
+    expect(calculateFeePpm(5000000, 1000000)).toBe(5000); // 5000 sats on 1M sats
+    expect(calculateFeePpm(0, 1000000)).toBeNull();
+  });
+
+  it('should flatten prices into export rows', () => {
+    expect(toExportRow(price)).toEqual({
+      timestamp: '2025-09-20T00:00:00.000Z',
+      lsp_id: 'olympus',
+      channel_size_sat: 1000000,
+      total_fee_msat: 5000000,
+      fee_ppm: 5000,
+      source: 'live',
+      error_code: null
+    });
+    expect(toExportRow({ ...price, total_fee_msat: 0, error: 'Timeout', error_code: LspErrorCode.TIMEOUT }))
+      .toMatchObject({ fee_ppm: null, error_code: LspErrorCode.TIMEOUT });
+  });
+
+  it('should format CSV and NDJSON lines', () => {
+    expect(formatCsvHeader()).toBe('timestamp,lsp_id,channel_size_sat,total_fee_msat,fee_ppm,source,error_code\n');
+    expect(formatCsvRow(toExportRow({ ...price, lsp_id: 'a,"b"' })))
+      .toBe('2025-09-20T00:00:00.000Z,"a,""b""",1000000,5000000,5000,live,\n');
+    expect(JSON.parse(formatNdjsonRow(toExportRow(price))).lsp_id).toBe('olympus');
+  });
+
+  it('should build column-oriented exports', () => {
+    const table = createColumnarExport();
+    appendColumnarRow(table, toExportRow(price));
+    appendColumnarRow(table, toExportRow({ ...price, lsp_id: 'megalith' }));
+
+    expect(table.rowCount).toBe(2);
+    expect(table.data.lsp_id).toEqual(['olympus', 'megalith']);
+    expect(table.columns).toHaveLength(7);
+  });
+});
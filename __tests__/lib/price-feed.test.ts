@@ -0,0 +1,89 @@
+import type { LSPPrice } from '../../lib/lsp-api';
+import type { HealthProbe } from '../../lib/simple-health';
+import { detectHealthEvents, detectQuoteEvents, renderAtom, renderRss } from '../../lib/price-feed';
+
+const HOUR = 60 * 60 * 1000;
+const start = Date.parse('2025-01-01T00:00:00Z');
+const at = (hour: number) => new Date(start + hour * HOUR).toISOString();
+
+const price = (hour: number, total_fee_msat: number, extra: Partial<LSPPrice> = {}): LSPPrice => ({
+  lsp_id: 'olympus',
+  lsp_name: 'Olympus',
+  channel_size_sat: 1000000,
+  total_fee_msat,
+  channel_fee_percent: 0,
+  channel_fee_base_msat: 0,
+  lease_fee_base_msat: 0,
+  lease_fee_basis: 0,
+  timestamp: at(hour),
+  source: 'live',
+  ...extra
+});
+
+const probe = (hour: number, ok: boolean): HealthProbe => ({
+  timestamp: at(hour),
+  ok,
+  response_time_ms: 120,
+  ...(ok ? {} : { error: 'timeout' })
+});
+
+describe('price feed', () => {
+  it('should report changes beyond the threshold, outages and recoveries', () => {
+    const items = detectQuoteEvents([
+      price(0, 10000000),
+      price(1, 10300000), // +3%: below the threshold
+      price(2, 10600000), // +6% on the last reported fee
+      price(2, 10600000, { source: 'cached' }), // re-saved cached row
+      price(3, 0, { error: 'timeout' }),
+      price(4, 0, { error: 'timeout' }),
+      price(5, 50000000, { anomaly: { reason: 'spike', status: 'pending', ratio: 5, baseline_fee_msat: 10000000, sample_count: 5, detected_at: at(5) } }),
+      price(6, 9000000)
+    ], 5);
+
+    expect(items.map(item => item.type)).toEqual(['price_change', 'unavailable', 'recovered']);
+    expect(items[0]).toMatchObject({
+      title: 'Olympus 1M sats: 10,600 sats (+6%)',
+      previous_fee_msat: 10000000,
+      change_percent: 6,
+      timestamp: at(2)
+    });
+    expect(items[1]).toMatchObject({ summary: 'timeout', timestamp: at(3), previous_fee_msat: 10600000 });
+    expect(items[2]).toMatchObject({ total_fee_msat: 9000000, previous_fee_msat: 10600000, timestamp: at(6) });
+  });
+
+  it('should only report API state changes seen in two probes in a row', () => {
+    const items = detectHealthEvents('olympus', 'Olympus', [
+      probe(0, true),
+      probe(1, false), // single failed check
+      probe(2, true),
+      probe(3, false),
+      probe(4, false),
+      probe(5, true),
+      probe(6, true)
+    ]);
+
+    expect(items.map(item => [item.type, item.timestamp])).toEqual([['unavailable', at(3)], ['recovered', at(5)]]);
+    expect(items[0]).toMatchObject({ source: 'health', title: 'Olympus API is down', summary: 'timeout' });
+  });
+
+  it('should render escaped RSS and Atom documents', () => {
+    const meta = {
+      title: 'Alby LSP Price Board',
+      description: 'Fee changes & outages',
+      siteUrl: 'https://example.com',
+      selfUrl: 'https://example.com/api/feed.xml?format=atom&days=7',
+      updated: at(2)
+    };
+    const items = detectQuoteEvents([price(0, 10000000), price(2, 12000000, { lsp_name: 'A <b> & C' })]);
+
+    const rss = renderRss(meta, items);
+    expect(rss).toContain('<description>Fee changes &amp; outages</description>');
+    expect(rss).toContain('<title>A &lt;b&gt; &amp; C 1M sats: 12,000 sats (+20%)</title>');
+    expect(rss).toContain(`<pubDate>${new Date(at(2)).toUTCString()}</pubDate>`);
+
+    const atom = renderAtom(meta, items);
+    expect(atom).toContain('<link href="https://example.com/api/feed.xml?format=atom&amp;days=7" rel="self" type="application/atom+xml"/>');
+    expect(atom).toContain(`<id>urn:lsp-priceboard:price_change:olympus:1000000:${start + 2 * HOUR}</id>`);
+    expect(atom.match(/<entry>/g)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,87 @@
+import { LSPPrice, LspErrorCode } from '../../lib/lsp-api';
+import {
+  applyTaskResult,
+  getTaskKey,
+  nextBatch,
+  orderDueTasks,
+  summarizeFreshness,
+  TaskState
+} from '../../lib/price-scheduler';
+
+const HOUR = 60 * 60 * 1000;
+const now = new Date('2025-01-02T00:00:00Z');
+const hoursAgo = (hours: number) => new Date(now.getTime() - hours * HOUR).toISOString();
+
+const tasks = [1000000, 2000000, 3000000].flatMap(size => ['olympus', 'megalith'].map(lsp_id => ({ lsp_id, channel_size_sat: size })));
+
+const state = (lsp_id: string, channel_size_sat: number, attemptHours: number, successHours: number | null = attemptHours): TaskState => ({
+  lsp_id,
+  channel_size_sat,
+  last_attempt_at: hoursAgo(attemptHours),
+  last_success_at: successHours === null ? null : hoursAgo(successHours),
+  consecutive_failures: successHours === attemptHours ? 0 : 1
+});
+
+const livePrice: LSPPrice = {
+  lsp_id: 'olympus',
+  lsp_name: 'Olympus',
+  channel_size_sat: 1000000,
+  total_fee_msat: 10000000,
+  channel_fee_percent: 0,
+  channel_fee_base_msat: 0,
+  lease_fee_base_msat: 0,
+  lease_fee_basis: 0,
+  timestamp: now.toISOString(),
+  source: 'live'
+};
+
+describe('price scheduler', () => {
+  const states = Object.fromEntries([
+    state('olympus', 1000000, 2),
+    state('megalith', 1000000, 2),
+    state('olympus', 2000000, 0.5),
+    state('megalith', 2000000, 0.5),
+    state('olympus', 3000000, 30, null)
+    // megalith @ 3M was never attempted
+  ].map(task => [getTaskKey(task), task]));
+
+  it('should order due tasks stalest first and skip recently attempted ones', () => {
+    const ordered = orderDueTasks(tasks, states, now);
+
+    expect(ordered.map(getTaskKey)).toEqual(['3000000:megalith', '3000000:olympus', '1000000:olympus', '1000000:megalith']);
+    expect(nextBatch(ordered).map(task => task.lsp_id)).toEqual(['megalith', 'olympus']);
+  });
+
+  it('should hold back tasks whose LSP is cooling down', () => {
+    const lspReadyAt = { olympus: now.getTime() + HOUR };
+    const ordered = orderDueTasks(tasks, states, now, undefined, lspReadyAt);
+
+    expect(ordered.map(getTaskKey)).toEqual(['3000000:megalith', '1000000:megalith', '3000000:olympus', '1000000:olympus']);
+    expect(nextBatch(ordered, lspReadyAt, now).map(getTaskKey)).toEqual(['3000000:megalith']);
+    expect(nextBatch(ordered, { olympus: now.getTime() + HOUR, megalith: now.getTime() + HOUR }, now)).toEqual([]);
+  });
+
+  it('should not count a rate-limited result as an attempt', () => {
+    const task = state('olympus', 3000000, 30, null);
+    const rateLimited = { ...livePrice, total_fee_msat: 0, source: 'unavailable' as const, error: 'Rate limited', error_code: LspErrorCode.RATE_LIMITED };
+
+    expect(applyTaskResult(task, rateLimited, now)).toBe(task);
+    expect(applyTaskResult(task, { ...livePrice, source: 'cached', live_fetch_error_code: LspErrorCode.RATE_LIMITED }, now)).toBe(task);
+  });
+
+  it('should record successes and failures per task', () => {
+    const failing = state('olympus', 3000000, 30, null);
+
+    expect(applyTaskResult(failing, livePrice, now)).toMatchObject({ last_success_at: now.toISOString(), consecutive_failures: 0 });
+    expect(applyTaskResult(failing, { ...livePrice, source: 'cached', live_fetch_error_code: LspErrorCode.TIMEOUT }, now))
+      .toMatchObject({ last_attempt_at: now.toISOString(), last_success_at: null, last_error_code: 'TIMEOUT', consecutive_failures: 2 });
+  });
+
+  it('should summarize freshness per channel size', () => {
+    const summary = summarizeFreshness(tasks, states, now);
+
+    expect(summary[0]).toMatchObject({ channel_size_sat: 1000000, tasks: 2, due: 2, fresh: 2, oldest_success_at: hoursAgo(2) });
+    expect(summary[1]).toMatchObject({ channel_size_sat: 2000000, due: 0, fresh: 2 });
+    expect(summary[2]).toMatchObject({ channel_size_sat: 3000000, due: 2, fresh: 0, oldest_success_at: null, last_attempt_at: hoursAgo(30) });
+  });
+});
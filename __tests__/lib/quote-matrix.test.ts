@@ -0,0 +1,108 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import type { LSPPrice, LSPS1GetInfoResponse } from '../../lib/lsp-api';
+
+const info = {
+  max_channel_expiry_blocks: 13140,
+  min_initial_client_balance_sat: '0',
+  max_initial_client_balance_sat: '100000'
+} as LSPS1GetInfoResponse;
+
+const defaults = { channel_expiry_blocks: 13140, announce_channel: false, client_balance_sat: 0 };
+
+const quote = (overrides: Partial<LSPPrice> = {}): LSPPrice => ({
+  lsp_id: 'olympus',
+  lsp_name: 'Olympus',
+  channel_size_sat: 1000000,
+  total_fee_msat: 10000000,
+  channel_fee_percent: 0,
+  channel_fee_base_msat: 0,
+  lease_fee_base_msat: 0,
+  lease_fee_basis: 0,
+  channel_expiry_blocks: 13140,
+  announce_channel: false,
+  client_balance_sat: 0,
+  timestamp: '2025-01-01T00:00:00.000Z',
+  source: 'live',
+  ...overrides
+});
+
+describe('quote matrix', () => {
+  let dir: string;
+  let matrix: typeof import('../../lib/quote-matrix');
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'priceboard-quotes-'));
+    process.env.PRICE_STORE = 'file';
+    process.env.PRICE_STORE_FILE = path.join(dir, 'store.json');
+    matrix = await import('../../lib/quote-matrix');
+  });
+
+  afterAll(async () => {
+    delete process.env.PRICE_STORE;
+    delete process.env.PRICE_STORE_FILE;
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should bound combinations by get_info and put the regular quote first', () => {
+    const combinations = matrix.expandQuoteMatrix({
+      channelExpiryBlocks: [4380, 13140, 26280],
+      announceChannel: [false, true],
+      clientBalanceSat: [0, 50000, 500000],
+      maxQuotesPerLsp: 20
+    }, info, defaults);
+
+    expect(combinations[0]).toEqual(defaults);
+    // 26280 is capped to 13140 and 500000 sats is above max_initial_client_balance_sat
+    expect(combinations).toHaveLength(2 * 2 * 2);
+    expect(combinations.every(params => params.channel_expiry_blocks <= 13140 && params.client_balance_sat <= 100000)).toBe(true);
+
+    const limited = matrix.expandQuoteMatrix({ ...matrix.DEFAULT_QUOTE_MATRIX, maxQuotesPerLsp: 2 }, info, defaults);
+    expect(limited).toEqual([defaults, { channel_expiry_blocks: 4380, announce_channel: false, client_balance_sat: 0 }]);
+  });
+
+  it('should parse quote filters from the query string', () => {
+    expect(matrix.parseQuoteFilters({ channelSize: '1000000' })).toEqual({ filters: null });
+    expect(matrix.parseQuoteFilters({ expiryBlocks: '4380', announce: 'public', clientBalance: '0' })).toEqual({
+      filters: { channel_expiry_blocks: 4380, announce_channel: true, client_balance_sat: 0 }
+    });
+    expect(matrix.parseQuoteFilters({ announce: 'maybe' })).toHaveProperty('error');
+    expect(matrix.parseQuoteFilters({ expiryBlocks: '-1' })).toHaveProperty('error');
+  });
+
+  it('should store quotes by dimension and keep good quotes over failed refreshes', async () => {
+    await matrix.saveQuoteMatrix(1000000, [
+      quote(),
+      quote({ announce_channel: true, total_fee_msat: 12000000 }),
+      quote({ channel_expiry_blocks: 4380, total_fee_msat: 6000000 })
+    ]);
+    await matrix.saveQuoteMatrix(1000000, [quote({ total_fee_msat: 0, error: 'HTTP 500', source: 'unavailable' })]);
+
+    const snapshot = await matrix.getQuoteMatrix(1000000);
+    expect(snapshot.quotes).toHaveLength(3);
+    expect(matrix.getQuoteDimensions(snapshot.quotes)).toEqual({
+      channel_expiry_blocks: [4380, 13140],
+      announce_channel: [false, true],
+      client_balance_sat: [0]
+    });
+
+    const privateQuotes = await matrix.getFilteredQuotes(1000000, { announce_channel: false });
+    expect(privateQuotes.map(price => price.total_fee_msat)).toEqual([6000000, 10000000]);
+    expect(privateQuotes[1]).toMatchObject({ source: 'cached', live_fetch_error: 'HTTP 500' });
+  });
+
+  it('should skip the matrix without a request while the LSP is cooling down', async () => {
+    const { recordRateLimitEvent } = await import('../../lib/lsp-rate-limit');
+    const lsp = { id: 'olympus', name: 'Olympus', url: 'https://lsp.example.com/api/v1', pubkey: '02' + 'a'.repeat(64), active: true };
+    const fetchSpy = jest.spyOn(global, 'fetch');
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+
+    await recordRateLimitEvent('olympus', { type: 'request' });
+    const quotes = await matrix.fetchQuoteMatrix(lsp, 1000000);
+    expect(quotes).toMatchObject([{ lsp_id: 'olympus', error_code: 'RATE_LIMITED' }]);
+    expect(fetchSpy).not.toHaveBeenCalled();
+
+    jest.restoreAllMocks();
+  });
+});
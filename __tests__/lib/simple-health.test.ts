@@ -0,0 +1,59 @@
+import { HealthProbe, summarizeHealthHistory, validateGetInfo } from '../../lib/simple-health';
+
+const HOUR = 60 * 60 * 1000;
+const now = new Date('2025-01-31T12:00:00Z');
+
+const getInfo = {
+  uris: ['0364913d18a19c671bb36dd04d6ad5be0fe8f2894314c36a9db3f03c2d414907e1@192.168.0.1:9735'],
+  min_initial_client_balance_sat: '0',
+  max_initial_client_balance_sat: '0',
+  min_initial_lsp_balance_sat: '100000',
+  max_initial_lsp_balance_sat: '10000000',
+  min_channel_balance_sat: '100000',
+  max_channel_balance_sat: '10000000',
+  max_channel_expiry_blocks: 12960,
+  min_funding_confirms_within_blocks: 6,
+  min_required_channel_confirmations: 0,
+  supports_zero_channel_reserve: true
+};
+
+const probe = (hoursAgo: number, ok: boolean, ms: number): HealthProbe => ({
+  timestamp: new Date(now.getTime() - hoursAgo * HOUR).toISOString(),
+  ok,
+  response_time_ms: ms
+});
+
+describe('LSP health probes', () => {
+  it('should validate get_info against LSPS1', () => {
+    expect(validateGetInfo(getInfo)).toEqual({ errors: [], warnings: [] });
+
+    // Older drafts nest the limits in options and send numbers
+    const legacy = validateGetInfo({ uris: getInfo.uris, options: { min_channel_balance_sat: 100000, max_channel_balance_sat: 10000000 } });
+    expect(legacy.errors).toEqual([]);
+    expect(legacy.warnings).toContain('min_channel_balance_sat should be a string');
+
+    expect(validateGetInfo({ ...getInfo, uris: [] }).errors).toEqual(['uris is missing or empty']);
+    expect(validateGetInfo({ ...getInfo, min_channel_balance_sat: '20000000' }).errors)
+      .toEqual(['min_channel_balance_sat is above max_channel_balance_sat']);
+    expect(validateGetInfo('<html>').errors).toEqual(['response is not a JSON object']);
+  });
+
+  it('should compute rolling uptime and latency percentiles', () => {
+    const summary = summarizeHealthHistory([
+      probe(1, true, 100),
+      probe(2, true, 300),
+      probe(3, false, 5000),
+      probe(4, true, 200),
+      probe(48, false, 5000),
+      probe(24 * 10, true, 900)
+    ], now);
+
+    expect(summary.windows['24h']).toEqual({ checks: 4, uptime_percent: 75, p50_ms: 200, p95_ms: 300 });
+    expect(summary.windows['7d']).toMatchObject({ checks: 5, uptime_percent: 60 });
+    expect(summary.windows['30d']).toMatchObject({ checks: 6, uptime_percent: 66.7, p95_ms: 900 });
+
+    expect(summary.daily).toHaveLength(30);
+    expect(summary.daily[29]).toEqual({ date: '2025-01-31', checks: 4, uptime_percent: 75 });
+    expect(summary.daily[0]).toEqual({ date: '2025-01-02', checks: 0, uptime_percent: null });
+  });
+});
@@ -0,0 +1,216 @@
+import React, { useState, useEffect } from 'react';
+import dynamic from 'next/dynamic';
+import type { ReferenceLineProps } from 'recharts';
+import type { CheapestAtSize, FeeCurves } from '../lib/fee-curve';
+
+// Dynamically import Recharts components to avoid SSR issues
+const LineChart = dynamic(() => import('recharts').then(mod => mod.LineChart), { ssr: false });
+const Line = dynamic(() => import('recharts').then(mod => mod.Line), { ssr: false });
+const XAxis = dynamic(() => import('recharts').then(mod => mod.XAxis), { ssr: false });
+const YAxis = dynamic(() => import('recharts').then(mod => mod.YAxis), { ssr: false });
+const CartesianGrid = dynamic(() => import('recharts').then(mod => mod.CartesianGrid), { ssr: false });
+const Tooltip = dynamic(() => import('recharts').then(mod => mod.Tooltip), { ssr: false });
+const ReferenceLine = dynamic(() => import('recharts').then(mod => mod.ReferenceLine as React.ComponentType<ReferenceLineProps>), { ssr: false });
+const ResponsiveContainer = dynamic(() => import('recharts').then(mod => mod.ResponsiveContainer), { ssr: false });
+
+type Metric = 'total' | 'ppm';
+
+// Same palette as HistoricalDataGraph
+const LSP_COLORS = ['#6B7280', '#8B5CF6', '#059669', '#DC2626', '#D97706', '#7C3AED', '#0891B2', '#BE185D'];
+
+const formatSize = (sats: number) =>
+  sats >= 1_000_000 ? `${Math.round(sats / 100_000) / 10}M` :
+  sats >= 1_000 ? `${Math.round(sats / 1_000)}K` : `${sats}`;
+
+const formatValue = (value: number, metric: Metric) =>
+  metric === 'ppm' ? `${value.toLocaleString()} ppm` : `${value >= 1000 ? `${(value / 1000).toFixed(1)}K` : value} sats`;
+
+// Consecutive sizes with the same cheapest LSP, e.g. "1M–3M: Olympus"
+function cheapestSegments(cheapest: CheapestAtSize[]) {
+  return cheapest.reduce<Array<{ lsp_name: string; from: number; to: number }>>((segments, entry) => {
+    const last = segments[segments.length - 1];
+    if (last && last.lsp_name === entry.lsp_name) {
+      last.to = entry.channel_size_sat;
+    } else {
+      segments.push({ lsp_name: entry.lsp_name, from: entry.channel_size_sat, to: entry.channel_size_sat });
+    }
+    return segments;
+  }, []);
+}
+
+// Total fee and fee ppm per LSP across every stored channel size, with where the cheapest LSP changes
+export function FeeCurveGraph() {
+  const [data, setData] = useState<FeeCurves | null>(null);
+  const [metric, setMetric] = useState<Metric>('total');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isDark, setIsDark] = useState(false);
+
+  useEffect(() => {
+    const checkDarkMode = () => setIsDark(document.documentElement.classList.contains('dark'));
+    checkDarkMode();
+    const observer = new MutationObserver(checkDarkMode);
+    observer.observe(document.documentElement, { attributes: true, attributeFilter: ['class'] });
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    fetch('/api/fee-curve')
+      .then(response => {
+        if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
+        return response.json();
+      })
+      .then(json => {
+        if (json.success) setData(json);
+        else setError(json.message || 'Failed to fetch fee curves');
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Unknown error occurred'))
+      .finally(() => setLoading(false));
+  }, []);
+
+  if (loading) {
+    return (
+      <div className="bg-white dark:bg-slate-800 rounded-lg shadow p-8 text-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-600 mx-auto mb-4"></div>
+        <p className="text-gray-600 dark:text-slate-300">Loading fee curves...</p>
+      </div>
+    );
+  }
+
+  if (error || !data || data.curves.length === 0) {
+    return (
+      <div className="bg-white dark:bg-slate-800 rounded-lg shadow p-8 text-center">
+        <div className="text-4xl mb-2">📈</div>
+        <p className="text-gray-600 dark:text-slate-300">{error || 'No prices stored yet to compare across channel sizes'}</p>
+      </div>
+    );
+  }
+
+  // One row per channel size; points outside an LSP's advertised range are left out
+  const rows = data.channel_sizes.map(size => {
+    const row: Record<string, number | null> = { size };
+    data.curves.forEach(curve => {
+      const point = curve.points.find(p => p.channel_size_sat === size && p.in_range);
+      row[curve.lsp_name] = point ? (metric === 'ppm' ? point.fee_ppm : Math.round(point.total_fee_msat / 1000)) : null;
+    });
+    return row;
+  });
+  const lspName = (lspId: string) => data.curves.find(curve => curve.lsp_id === lspId)?.lsp_name ?? lspId;
+  const axisColor = isDark ? '#cbd5e1' : '#6b7280';
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-lg shadow">
+      <div className="p-6 border-b border-gray-200 dark:border-slate-600 flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-slate-100">Fee by Channel Size</h3>
+          <p className="text-sm text-gray-600 dark:text-slate-400 mt-1">Latest price per LSP for every stored channel size; dashed lines mark where the cheapest LSP changes</p>
+        </div>
+        <div className="flex space-x-1">
+          {(['total', 'ppm'] as Metric[]).map(option => (
+            <button
+              key={option}
+              onClick={() => setMetric(option)}
+              className={`px-2 py-1 text-xs rounded ${
+                option === metric
+                  ? 'bg-gray-700 text-white dark:bg-slate-200 dark:text-slate-900'
+                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-slate-700 dark:text-slate-200 dark:hover:bg-slate-600'
+              }`}
+            >
+              {option === 'total' ? 'Total fee' : 'Fee ppm'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex">
+        <div className="flex-1 p-6">
+          <div className="h-96">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={rows}>
+                <CartesianGrid strokeDasharray="3 3" stroke={isDark ? '#475569' : '#f0f0f0'} />
+                <XAxis
+                  dataKey="size"
+                  type="number"
+                  domain={['dataMin', 'dataMax']}
+                  ticks={data.channel_sizes}
+                  tickFormatter={formatSize}
+                  stroke={axisColor}
+                  fontSize={12}
+                  tick={{ fill: axisColor }}
+                />
+                <YAxis
+                  stroke={axisColor}
+                  fontSize={12}
+                  tick={{ fill: axisColor }}
+                  tickFormatter={(value: number) => formatValue(value, metric).split(' ')[0]}
+                  label={{ value: metric === 'ppm' ? 'Fee (ppm)' : 'Fee (sats)', angle: -90, position: 'insideLeft', style: { textAnchor: 'middle', fill: axisColor } }}
+                />
+                <Tooltip
+                  labelFormatter={(value) => `${formatSize(Number(value))} sats channel`}
+                  formatter={(value) => [formatValue(Number(value), metric), '']}
+                  contentStyle={{
+                    backgroundColor: isDark ? '#1e293b' : '#f9fafb',
+                    border: isDark ? '1px solid #475569' : '1px solid #e5e7eb',
+                    borderRadius: '6px',
+                    fontSize: '12px',
+                    color: isDark ? '#cbd5e1' : '#374151'
+                  }}
+                />
+                {data.crossovers.map(crossover => (
+                  <ReferenceLine
+                    key={`${crossover.channel_size_sat}-${crossover.to_lsp_id}`}
+                    x={crossover.channel_size_sat}
+                    stroke={axisColor}
+                    strokeDasharray="4 4"
+                    label={{ value: lspName(crossover.to_lsp_id), position: 'top', fill: axisColor, fontSize: 11 }}
+                  />
+                ))}
+                {data.curves.map((curve, index) => (
+                  <Line
+                    key={curve.lsp_id}
+                    type="monotone"
+                    dataKey={curve.lsp_name}
+                    stroke={LSP_COLORS[index % LSP_COLORS.length]}
+                    strokeWidth={2}
+                    dot={{ r: 3 }}
+                    connectNulls={true}
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="mt-4 text-sm text-gray-700 dark:text-slate-300">
+            <span className="font-medium">Cheapest: </span>
+            {cheapestSegments(data.cheapest).map((segment, index) => (
+              <span key={`${segment.lsp_name}-${segment.from}`}>
+                {index > 0 && ' · '}
+                {segment.from === segment.to ? formatSize(segment.from) : `${formatSize(segment.from)}–${formatSize(segment.to)}`}: {segment.lsp_name}
+              </span>
+            ))}
+          </div>
+        </div>
+
+        {/* Supported channel sizes from get_info */}
+        <div className="w-48 border-l border-gray-200 dark:border-slate-600 p-4 bg-gray-50 dark:bg-slate-700">
+          <h4 className="text-sm font-semibold text-gray-700 dark:text-slate-200 mb-3">Supported sizes</h4>
+          <div className="space-y-2">
+            {data.curves.map((curve, index) => (
+              <div key={curve.lsp_id} className="text-sm">
+                <div className="flex items-center space-x-2">
+                  <div className="w-3 h-3 rounded-full" style={{ backgroundColor: LSP_COLORS[index % LSP_COLORS.length] }} />
+                  <span className="text-gray-700 dark:text-slate-200">{curve.lsp_name}</span>
+                </div>
+                <div className="ml-5 text-xs text-gray-500 dark:text-slate-400">
+                  {curve.min_channel_size_sat != null ? formatSize(curve.min_channel_size_sat) : '?'}
+                  {' – '}
+                  {curve.max_channel_size_sat != null ? formatSize(curve.max_channel_size_sat) : '?'} sats
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import dynamic from 'next/dynamic';
+import { HistoryAnomalyPoint, HistoryBucket, listBucketStarts } from '../lib/history-aggregation';
 
 // Dynamically import Recharts components to avoid SSR issues
 const LineChart = dynamic(() => import('recharts').then(mod => mod.LineChart), { ssr: false });
@@ -29,6 +30,30 @@ const CustomDot = (props: { value: number | null; [key: string]: unknown }) => {
   return <Dot {...props} r={3} />;
 };
 
+// Flagged prices are drawn as hollow red markers on their own data key, outside the LSP line
+const ANOMALY_KEY_PREFIX = '⚠ ';
+
+const AnomalyDot = (props: { value?: number | null; [key: string]: unknown }) => {
+  if (props.value == null) {
+    return null;
+  }
+  return <Dot {...props} r={5} fill="none" stroke="#DC2626" strokeWidth={2} />;
+};
+
+const ANOMALY_REASONS: Record<HistoryAnomalyPoint['reason'], string> = {
+  spike: 'spike',
+  drop: 'drop',
+  near_zero: 'near-zero fee'
+};
+
+// Longer ranges use coarser buckets to keep the number of points manageable
+const RANGE_OPTIONS: Array<{ label: string; days: number; bucket: HistoryBucket; description: string }> = [
+  { label: '7D', days: 7, bucket: 'hour', description: 'Last 7 days, hourly averages' },
+  { label: '30D', days: 30, bucket: 'day', description: 'Last 30 days of pricing data' },
+  { label: '90D', days: 90, bucket: 'day', description: 'Last 90 days, daily averages' },
+  { label: '1Y', days: 365, bucket: 'week', description: 'Last 12 months, weekly averages' },
+];
+
 const LSP_COLORS = [
   '#6B7280', // Gray-500 - muted
   '#8B5CF6', // Violet-500 - muted
@@ -42,11 +67,14 @@ const LSP_COLORS = [
 
 export function HistoricalDataGraph({ channelSize, proMode }: HistoricalDataGraphProps) {
   const [historicalData, setHistoricalData] = useState<HistoricalDataPoint[]>([]);
+  const [anomalies, setAnomalies] = useState<HistoryAnomalyPoint[]>([]);
   const [lspList, setLspList] = useState<string[]>([]);
   const [visibleLSPs, setVisibleLSPs] = useState<Record<string, boolean>>({});
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isDark, setIsDark] = useState(false);
+  const [rangeIndex, setRangeIndex] = useState(1); // 30D
+  const range = RANGE_OPTIONS[rangeIndex];
 
   // Check if channel size requires Pro Mode
   const requiresProMode = channelSize >= 7000000; // 7M sats and above
@@ -83,8 +111,8 @@ export function HistoricalDataGraph({ channelSize, proMode }: HistoricalDataGrap
         lspMetadata = metadataData.data || [];
       }
 
-      // Fetch 30 days of historical data
-      const response = await fetch(`/api/historical-data?channelSize=${channelSize}&days=30`);
+      // Fetch the selected range, downsampled server-side
+      const response = await fetch(`/api/historical-data?channelSize=${channelSize}&days=${range.days}&bucket=${range.bucket}`);
       
       if (!response.ok) {
         throw new Error(`HTTP error! status: ${response.status}`);
@@ -93,13 +121,14 @@ export function HistoricalDataGraph({ channelSize, proMode }: HistoricalDataGrap
       const data = await response.json();
       
       if (data.success) {
-        const processedData = processHistoricalData(data.data);
+        const processedData = processHistoricalData(data.data, data.anomalies || [], data.dateRange, range.bucket);
         setHistoricalData(processedData);
+        setAnomalies(data.anomalies || []);
         
         // Extract LSP list from historical data, or fall back to metadata
         let lsps: string[] = [];
         if (processedData.length > 0) {
-          lsps = Object.keys(processedData[0] || {}).filter(key => key !== 'date');
+          lsps = Object.keys(processedData[0] || {}).filter(key => key !== 'date' && !key.startsWith(ANOMALY_KEY_PREFIX));
         } else if (lspMetadata.length > 0) {
           // Fall back to metadata LSPs if no historical data
           lsps = lspMetadata.map((lsp) => lsp.name || lsp.id).filter(Boolean);
@@ -122,7 +151,7 @@ export function HistoricalDataGraph({ channelSize, proMode }: HistoricalDataGrap
     } finally {
       setLoading(false);
     }
-  }, [channelSize]);
+  }, [channelSize, range]);
 
   useEffect(() => {
     if (requiresProMode && !proMode) {
@@ -139,8 +168,8 @@ export function HistoricalDataGraph({ channelSize, proMode }: HistoricalDataGrap
     lsp_name: string;
     total_fee_msat: number;
     channel_size: number;
-  }>): HistoricalDataPoint[] => {
-    // Group data by date and LSP
+  }>, anomalyPoints: HistoryAnomalyPoint[], dateRange: { start: string; end: string }, bucket: HistoryBucket): HistoricalDataPoint[] => {
+    // Group data by bucket start and LSP
     const groupedData: Record<string, Record<string, number>> = {};
     
     rawData.forEach((entry) => {
@@ -156,7 +185,7 @@ export function HistoricalDataGraph({ channelSize, proMode }: HistoricalDataGrap
         return;
       }
       
-      const date = dateObj.toISOString().split('T')[0]; // Use YYYY-MM-DD format
+      const date = dateObj.toISOString(); // Bucket start from the API
       const lspName = entry.lsp_name || entry.lsp_id;
       const price = entry.total_fee_msat ? Math.round(entry.total_fee_msat / 1000) : 0; // Convert msat to sats
       
@@ -166,41 +195,54 @@ export function HistoricalDataGraph({ channelSize, proMode }: HistoricalDataGrap
       groupedData[date][lspName] = price;
     });
 
+    // Highest flagged price per bucket and LSP (the marker sits next to that LSP's line)
+    const anomalyData: Record<string, Record<string, number>> = {};
+    anomalyPoints.forEach(point => {
+      const date = new Date(point.timestamp).toISOString();
+      const key = ANOMALY_KEY_PREFIX + (point.lsp_name || point.lsp_id);
+      const price = Math.round(point.total_fee_msat / 1000);
+      if (!anomalyData[date]) {
+        anomalyData[date] = {};
+      }
+      anomalyData[date][key] = Math.max(anomalyData[date][key] ?? 0, price);
+    });
+
     // Get all unique LSP names
     const allLSPNames = Array.from(new Set(rawData.map(entry => entry.lsp_name || entry.lsp_id)));
+    const anomalyKeys = Array.from(new Set(anomalyPoints.map(point => ANOMALY_KEY_PREFIX + (point.lsp_name || point.lsp_id))));
     
-    // Generate all 30 days
-    const allDates: string[] = [];
-    const today = new Date();
-    for (let i = 29; i >= 0; i--) {
-      const date = new Date(today);
-      date.setDate(date.getDate() - i);
-      allDates.push(date.toISOString().split('T')[0]); // Use YYYY-MM-DD format
-    }
-    
-    // If we have very little data, show a wider range to include the data we have
-    const dataDates = Object.keys(groupedData);
-    if (dataDates.length < 3) {
-      // Find the oldest data date and show 30 days from there
-      const oldestDataDate = new Date(Math.min(...rawData.map(d => new Date(d.timestamp).getTime())));
-      allDates.length = 0; // Clear the array
-      for (let i = 29; i >= 0; i--) {
-        const date = new Date(oldestDataDate);
-        date.setDate(date.getDate() + i);
-        allDates.push(date.toISOString().split('T')[0]); // Use YYYY-MM-DD format
-      }
-    }
+    // Generate every bucket in the requested range so gaps stay visible
+    const allDates = listBucketStarts(Date.parse(dateRange.start), Date.parse(dateRange.end), bucket)
+      .map(start => new Date(start).toISOString());
 
-    // Create data points for all 30 days, filling missing data with null
+    // Create data points for all buckets, filling missing data with null
     return allDates.map(date => {
       const dataPoint: HistoricalDataPoint = { date };
       allLSPNames.forEach(lspName => {
         dataPoint[lspName] = groupedData[date]?.[lspName] ?? null;
       });
+      anomalyKeys.forEach(key => {
+        dataPoint[key] = anomalyData[date]?.[key] ?? null;
+      });
       return dataPoint;
     });
   };
 
+  const formatBucketLabel = (value: string, detailed: boolean = false) => {
+    const date = new Date(value);
+    if (range.bucket === 'hour') {
+      return date.toLocaleString('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit', timeZone: 'UTC' });
+    }
+    if (range.bucket === 'week') {
+      return detailed
+        ? `Week of ${date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' })}`
+        : date.toLocaleDateString('en-US', { month: 'short', year: '2-digit', timeZone: 'UTC' });
+    }
+    return detailed
+      ? date.toLocaleDateString('en-US', { timeZone: 'UTC' })
+      : date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+  };
+
   const toggleLSPVisibility = (lspName: string) => {
     setVisibleLSPs(prev => ({
       ...prev,
@@ -270,9 +312,36 @@ export function HistoricalDataGraph({ channelSize, proMode }: HistoricalDataGrap
         <h3 className="text-lg font-semibold text-gray-900 dark:text-slate-100">
           Historical Price Data - {channelSize / 1000000}M sats
         </h3>
-        <p className="text-sm text-gray-600 dark:text-slate-400 mt-1">
-          Last 30 days of pricing data
-        </p>
+        <div className="flex items-center justify-between mt-1">
+          <p className="text-sm text-gray-600 dark:text-slate-400">
+            {range.description}
+            {anomalies.length > 0 && (
+              <span
+                className="ml-2 text-red-600 dark:text-red-400"
+                title={anomalies.map(point =>
+                  `${point.lsp_name}: ${Math.round(point.total_fee_msat / 1000).toLocaleString()} sats on ${new Date(point.observed_at).toLocaleString()} (${ANOMALY_REASONS[point.reason]}, ${point.ratio}x usual, ${point.status})`
+                ).join('\n')}
+              >
+                ⚠ {anomalies.length} suspicious {anomalies.length === 1 ? 'price' : 'prices'} left out of the averages
+              </span>
+            )}
+          </p>
+          <div className="flex space-x-1">
+            {RANGE_OPTIONS.map((option, index) => (
+              <button
+                key={option.label}
+                onClick={() => setRangeIndex(index)}
+                className={`px-2 py-1 text-xs rounded ${
+                  index === rangeIndex
+                    ? 'bg-gray-700 text-white dark:bg-slate-200 dark:text-slate-900'
+                    : 'bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-slate-700 dark:text-slate-200 dark:hover:bg-slate-600'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
       </div>
       
       <div className="flex">
@@ -287,10 +356,8 @@ export function HistoricalDataGraph({ channelSize, proMode }: HistoricalDataGrap
                   stroke={isDark ? "#cbd5e1" : "#6b7280"}
                   fontSize={12}
                   tick={{ fill: isDark ? "#cbd5e1" : "#6b7280" }}
-                  tickFormatter={(value) => {
-                    const date = new Date(value + 'T00:00:00'); // Add time to make it a valid date
-                    return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
-                  }}
+                  tickFormatter={(value) => formatBucketLabel(value)}
+                  minTickGap={24}
                 />
                 <YAxis 
                   stroke={isDark ? "#cbd5e1" : "#6b7280"}
@@ -305,11 +372,11 @@ export function HistoricalDataGraph({ channelSize, proMode }: HistoricalDataGrap
                   }}
                 />
                 <Tooltip 
-                  labelFormatter={(value) => {
-                    const date = new Date(value + 'T00:00:00'); // Add time to make it a valid date
-                    return date.toLocaleDateString();
-                  }}
-                  formatter={(value: number) => [`${formatPrice(value)} sats`, '']}
+                  labelFormatter={(value) => formatBucketLabel(value, true)}
+                  formatter={(value: number, name: string) => [
+                    `${formatPrice(value)} sats`,
+                    String(name).startsWith(ANOMALY_KEY_PREFIX) ? `${name} (suspicious)` : ''
+                  ]}
                   contentStyle={{
                     backgroundColor: isDark ? '#1e293b' : '#f9fafb',
                     border: isDark ? '1px solid #475569' : '1px solid #e5e7eb',
@@ -332,6 +399,19 @@ export function HistoricalDataGraph({ channelSize, proMode }: HistoricalDataGrap
                     />
                   )
                 ))}
+                {lspList.map(lspName => (
+                  visibleLSPs[lspName] && anomalies.some(point => (point.lsp_name || point.lsp_id) === lspName) && (
+                    <Line
+                      key={ANOMALY_KEY_PREFIX + lspName}
+                      dataKey={ANOMALY_KEY_PREFIX + lspName}
+                      stroke="none"
+                      dot={<AnomalyDot />}
+                      activeDot={{ r: 6, fill: '#DC2626' }}
+                      legendType="none"
+                      isAnimationActive={false}
+                    />
+                  )
+                ))}
               </LineChart>
             </ResponsiveContainer>
           </div>
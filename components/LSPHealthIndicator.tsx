@@ -1,5 +1,6 @@
 import React from 'react';
-import { SimpleHealthStatus } from '../lib/simple-health';
+import { HealthHistorySummary, SimpleHealthStatus } from '../lib/simple-health';
+import type { NodeReachability } from '../lib/node-reachability';
 import { Tooltip } from './Tooltip';
 
 interface HealthIndicatorProps {
@@ -7,6 +8,48 @@ interface HealthIndicatorProps {
   className?: string;
 }
 
+const formatPercent = (value: number | null) => (value === null ? 'n/a' : `${value}%`);
+
+// "Uptime 99.5% (24h) · 98.9% (7d) · 97.2% (30d), p50 180ms / p95 420ms"
+function describeHistory(history: HealthHistorySummary): string {
+  const { windows } = history;
+  const latency = windows['7d'].p50_ms !== null ? `, p50 ${windows['7d'].p50_ms}ms / p95 ${windows['7d'].p95_ms}ms` : '';
+  return ` Uptime ${formatPercent(windows['24h'].uptime_percent)} (24h) · ${formatPercent(windows['7d'].uptime_percent)} (7d) · ${formatPercent(windows['30d'].uptime_percent)} (30d)${latency}.`;
+}
+
+// Shown next to a green dot when the API answers but the Lightning node does not
+function NodeWarning({ node }: { node: NodeReachability }) {
+  const failed = node.uris.find(uri => uri.pubkey_matches && uri.status !== 'reachable');
+  const text = node.status === 'pubkey_mismatch'
+    ? 'API up, but the node URIs it advertises do not match this LSP\'s known node pubkey.'
+    : `API up / node unreachable${failed ? ` (${failed.host}:${failed.port}${failed.error ? `: ${failed.error}` : ''})` : ''}. Channel opens may fail until the node is back.`;
+  return (
+    <Tooltip text={text}>
+      <span className="text-xs text-red-600 dark:text-red-400 mr-2 cursor-help" aria-label={text}>⚡✕</span>
+    </Tooltip>
+  );
+}
+
+// One bar per day for the last 30 days, coloured by that day's uptime
+function UptimeChart({ history }: { history: HealthHistorySummary }) {
+  return (
+    <div className="flex items-end space-x-px h-3 mr-2" aria-label={`30 day uptime ${formatPercent(history.windows['30d'].uptime_percent)}`}>
+      {history.daily.map(day => {
+        const color = day.uptime_percent === null
+          ? 'bg-gray-200 dark:bg-slate-600'
+          : day.uptime_percent >= 99 ? 'bg-green-500' : day.uptime_percent >= 90 ? 'bg-amber-400' : 'bg-red-500';
+        return (
+          <div
+            key={day.date}
+            className={`w-0.5 h-3 rounded-sm ${color}`}
+            title={`${day.date}: ${day.uptime_percent === null ? 'no checks' : `${day.uptime_percent}% of ${day.checks} checks`}`}
+          />
+        );
+      })}
+    </div>
+  );
+}
+
 export function LSPHealthIndicator({ healthStatus, className = '' }: HealthIndicatorProps) {
   if (!healthStatus) {
     // Unknown status - show gray indicator
@@ -19,11 +62,31 @@ export function LSPHealthIndicator({ healthStatus, className = '' }: HealthIndic
     );
   }
 
-  const { status } = healthStatus;
+  const { status, circuit_state: circuitState, history, node } = healthStatus;
+  const nodeProblem = status === 'online' && (node?.status === 'unreachable' || node?.status === 'pubkey_mismatch');
+  const hasHistory = !!history && history.windows['30d'].checks > 0;
+  const historyText = hasHistory ? describeHistory(history) : '';
 
   let statusColor: string;
   let tooltipText: string;
 
+  // Price fetches are paused while the circuit breaker is open, whatever the API check says
+  if (circuitState === 'open' || circuitState === 'half_open') {
+    const nextProbe = healthStatus.next_probe_at ? new Date(healthStatus.next_probe_at) : null;
+    tooltipText = circuitState === 'open'
+      ? `Price updates paused after ${healthStatus.consecutive_failures ?? 'several'} failed requests in a row.${nextProbe ? ` We'll try again around ${nextProbe.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}.` : ''} Prices shown may be cached.`
+      : 'Checking whether this LSP has recovered. Prices shown may be cached.';
+
+    return (
+      <div className={`inline-flex items-center ${className}`}>
+        <Tooltip text={tooltipText + historyText}>
+          <div className={`w-3 h-3 rounded-full bg-amber-500 mr-2 cursor-help${circuitState === 'half_open' ? ' animate-pulse' : ''}`}></div>
+        </Tooltip>
+        {hasHistory && <UptimeChart history={history} />}
+      </div>
+    );
+  }
+
   switch (status) {
     case 'online':
       statusColor = 'bg-green-500';
@@ -40,9 +103,11 @@ export function LSPHealthIndicator({ healthStatus, className = '' }: HealthIndic
 
   return (
     <div className={`inline-flex items-center ${className}`}>
-      <Tooltip text={tooltipText}>
+      <Tooltip text={tooltipText + historyText}>
         <div className={`w-3 h-3 rounded-full ${statusColor} mr-2 cursor-help`}></div>
       </Tooltip>
+      {nodeProblem && node && <NodeWarning node={node} />}
+      {hasHistory && <UptimeChart history={history} />}
     </div>
   );
 }
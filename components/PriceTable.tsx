@@ -1,10 +1,14 @@
 import React, { useState, useEffect } from 'react';
 import Image from 'next/image';
-import { getLSPById } from '../lib/lsps';
+import { getBundledLSPById } from '../lib/lsp-registry';
 import { convertSatsToCurrency, CurrencyConversion } from '../lib/currency';
 import { Tooltip } from './Tooltip';
 import { LSPHealthIndicator } from './LSPHealthIndicator';
 import { SimpleHealthStatus } from '../lib/simple-health';
+import type { LspOrderSummary } from '../lib/lsp-orders';
+import type { JitFeeParams } from '../lib/lsps2';
+import type { FeeEstimate } from '../lib/fee-model';
+import { calculateFeeBreakdown } from '../lib/fee-breakdown';
 
 // Error lookup tables - moved outside component to avoid recreation on every render
 const ERROR_ICONS: Record<string, string> = {
@@ -15,6 +19,7 @@ const ERROR_ICONS: Record<string, string> = {
   'TIMEOUT': '⏱️',
   'TLS_ERROR': '🔒',
   'RATE_LIMITED': '🚫',
+  'CIRCUIT_OPEN': '🔌',
   'BAD_STATUS': '⚠️',
   'INVALID_JSON': '📄',
   'SCHEMA_MISMATCH': '🔧',
@@ -34,6 +39,7 @@ const ERROR_COLORS: Record<string, string> = {
   'TIMEOUT': 'bg-gray-200 text-gray-700',
   'TLS_ERROR': 'bg-gray-300 text-gray-600',
   'RATE_LIMITED': 'bg-gray-400 text-gray-500',
+  'CIRCUIT_OPEN': 'bg-amber-100 text-amber-800',
   'BAD_STATUS': 'bg-gray-300 text-gray-600',
   'INVALID_JSON': 'bg-gray-200 text-gray-700',
   'SCHEMA_MISMATCH': 'bg-gray-200 text-gray-700',
@@ -78,9 +84,10 @@ export interface DisplayPrice {
   channel_fee_base_msat: number;
   lease_fee_base_msat: number;
   lease_fee_basis: number;
+  channel_expiry_blocks?: number | null;
   timestamp: string;
   error: string | null;
-  source?: 'live' | 'cached' | 'unavailable' | 'unknown';
+  source?: 'live' | 'cached' | 'unavailable' | 'lsps2' | 'estimated' | 'unknown';
   stale_seconds?: number | null;
   error_code?: string | null;
   // New fields for cached data with live fetch errors
@@ -88,6 +95,8 @@ export interface DisplayPrice {
   live_fetch_error_code?: string;
   live_fetch_timestamp?: string;
   cached_timestamp?: string;
+  jit_fee_params?: JitFeeParams | null; // only on LSPS2 JIT prices
+  estimate?: FeeEstimate | null; // only on estimated prices
 }
 
 interface LSPMetadata {
@@ -113,6 +122,8 @@ interface PriceTableProps {
   forceFetching?: Record<string, boolean>;
   proMode?: boolean;
   healthStatuses?: SimpleHealthStatus[];
+  orderSummaries?: LspOrderSummary[];
+  jitPrices?: DisplayPrice[];
 }
 
 // Retry Button Component
@@ -157,7 +168,7 @@ function ForceFetchButton({
 }
 
 // Status Badge Component
-function StatusBadge({ source, staleSeconds, errorCode, error, timestamp, live_fetch_error, live_fetch_error_code, live_fetch_timestamp, cached_timestamp }: { 
+function StatusBadge({ source, staleSeconds, errorCode, error, timestamp, live_fetch_error, live_fetch_error_code, live_fetch_timestamp, cached_timestamp, estimate }: { 
   source?: string; 
   staleSeconds?: number | null; 
   errorCode?: string | null;
@@ -167,6 +178,7 @@ function StatusBadge({ source, staleSeconds, errorCode, error, timestamp, live_f
   live_fetch_error_code?: string;
   live_fetch_timestamp?: string;
   cached_timestamp?: string;
+  estimate?: FeeEstimate | null;
 }) {
   if (errorCode) {
     const getErrorIcon = (code: string) => ERROR_ICONS[code] || '❌';
@@ -250,6 +262,21 @@ function StatusBadge({ source, staleSeconds, errorCode, error, timestamp, live_f
           )}
         </div>
       );
+    case 'estimated':
+      return (
+        <div className="flex flex-col space-y-1">
+          <Tooltip text={estimate ? describeEstimate(estimate) : 'Estimated from this LSP\'s fees at other channel sizes'}>
+            <span className="inline-flex items-center px-2 py-1 rounded-full text-sm font-medium bg-sky-100 dark:bg-sky-900 text-sky-800 dark:text-sky-100 cursor-help" aria-label="Estimated price - no quote for this channel size">
+              <span className="w-2 h-2 rounded-full bg-sky-500 mr-1"></span>Estimated
+            </span>
+          </Tooltip>
+          {timestamp && (
+            <span className="text-xs text-gray-500 dark:text-slate-400">
+              Based on: {new Date(timestamp).toLocaleDateString()} <span title={new Date(timestamp).toLocaleTimeString()} className="cursor-pointer">🕒</span>
+            </span>
+          )}
+        </div>
+      );
     case 'unavailable':
       return (
         <div className="flex flex-col space-y-1">
@@ -279,6 +306,138 @@ function StatusBadge({ source, staleSeconds, errorCode, error, timestamp, live_f
   }
 }
 
+// Tooltip for an estimated price: how the fee model was built
+function describeEstimate(estimate: FeeEstimate): string {
+  const sizes = estimate.sample_sizes.map(size => `${size / 1000000}M`).join(', ');
+  const basis = estimate.method === 'fit'
+    ? `Fitted from quotes at ${sizes} sats`
+    : estimate.method === 'components'
+      ? `From the LSP's advertised base and percentage fee (quote at ${sizes} sats)`
+      : `Scaled from the only quote, at ${sizes} sats`;
+  return `${basis}${estimate.extrapolated ? ', outside the quoted sizes' : ''}. ${estimate.confidence} confidence.`;
+}
+
+function formatDuration(seconds: number): string {
+  if (seconds < 60 * 60) return `${Math.max(1, Math.round(seconds / 60))} min`;
+  if (seconds < 48 * 60 * 60) return `${Math.round(seconds / 3600)} h`;
+  return `${Math.round(seconds / 86400)} days`;
+}
+
+// Quote lifecycle from tracked LSPS1 orders: how long quotes stay valid and how they can be paid
+function QuoteInfo({ summary }: { summary?: LspOrderSummary }) {
+  if (!summary || summary.total_orders === 0) return null;
+
+  const validity = summary.median_observed_validity_seconds ?? summary.median_declared_validity_seconds;
+  const methods = [
+    summary.payment_methods.bolt11 > 0 ? '⚡ bolt11' : null,
+    summary.payment_methods.onchain > 0 ? '⛓️ onchain' : null
+  ].filter(Boolean).join(' · ');
+  const latestOptions = summary.latest?.payment_options
+    .map(option => `${option.method}${option.fee_total_sat !== undefined ? ` ${option.fee_total_sat.toLocaleString()} sats fee` : ''}`)
+    .join(', ');
+  const details = [
+    `${summary.total_orders} quote orders tracked`,
+    summary.median_declared_validity_seconds !== null ? `declared validity ${formatDuration(summary.median_declared_validity_seconds)}` : null,
+    summary.median_observed_validity_seconds !== null ? `observed validity ${formatDuration(summary.median_observed_validity_seconds)}` : null,
+    latestOptions ? `latest: ${latestOptions}` : null
+  ].filter(Boolean).join('; ');
+
+  return (
+    <Tooltip text={details}>
+      <span className="text-xs text-gray-500 dark:text-slate-400">
+        {validity !== null ? `Quote valid ~${formatDuration(validity)}` : 'Quote validity unknown'}
+        {methods && ` · ${methods}`}
+      </span>
+    </Tooltip>
+  );
+}
+
+// LSPS2 JIT quote for the same amount, compared with the pre-purchased (LSPS1) channel
+function JitComparison({ jit, lsps1 }: { jit?: DisplayPrice; lsps1?: DisplayPrice }) {
+  if (!jit || jit.price <= 0) return null;
+
+  const params = jit.jit_fee_params;
+  const details = [
+    'Just-in-time channel (LSPS2): opened when the first payment arrives, fee deducted from that payment',
+    params ? `fee = max(${formatSats(msatToSat(params.min_fee_msat))} sats, ${params.proportional_ppm.toLocaleString()} ppm of the payment)` : null,
+    params?.min_lifetime ? `open for at least ${params.min_lifetime.toLocaleString()} blocks` : null,
+    params ? `offer valid until ${new Date(params.valid_until).toLocaleString()}` : null,
+    jit.live_fetch_error ? `last refresh failed: ${jit.live_fetch_error}` : null
+  ].filter(Boolean).join('; ');
+
+  let comparison: string | null = null;
+  if (lsps1 && !lsps1.error && lsps1.price > 0) {
+    const diff = Math.round((jit.price - lsps1.price) / lsps1.price * 100);
+    comparison = diff === 0 ? 'same as pre-purchased' : `${Math.abs(diff)}% ${diff < 0 ? 'cheaper' : 'more'} than pre-purchased`;
+  }
+
+  return (
+    <Tooltip text={details}>
+      <span className="text-xs text-gray-500 dark:text-slate-400">
+        ⚡ JIT: {formatSats(msatToSat(jit.price))} sats
+        {comparison && ` · ${comparison}`}
+      </span>
+    </Tooltip>
+  );
+}
+
+// Fee decomposition under the total; each part explains itself on hover
+function FeeBreakdownDetails({ price }: { price: DisplayPrice }) {
+  const breakdown = calculateFeeBreakdown({
+    channel_size_sat: price.channel_size,
+    total_fee_msat: price.price,
+    channel_fee_percent: price.channel_fee_percent,
+    channel_fee_base_msat: price.channel_fee_base_msat,
+    lease_fee_base_msat: price.lease_fee_base_msat,
+    lease_fee_basis: price.lease_fee_basis,
+    channel_expiry_blocks: price.channel_expiry_blocks
+  });
+  const sats = (msat: number) => `${formatSats(msatToSat(msat))} sats`;
+
+  const parts: Array<{ label: string; tooltip: string }> = breakdown.itemized ? [
+    {
+      label: `Base ${sats(breakdown.base_fee_msat)}`,
+      tooltip: 'Fixed fee charged for every channel, regardless of its size'
+    },
+    {
+      label: `${breakdown.proportional_ppm.toLocaleString()} ppm`,
+      tooltip: `Proportional fee: ${sats(breakdown.proportional_fee_msat)} for this channel (parts per million of the channel size)`
+    },
+    ...(breakdown.lease_fee_msat > 0 ? [{
+      label: `Lease ${sats(breakdown.lease_fee_msat)}`,
+      tooltip: 'Liquidity lease: base lease fee plus the lease rate (basis points) applied to the channel size'
+    }] : []),
+    ...(breakdown.other_fee_msat > 0 ? [{
+      label: `Other ${sats(breakdown.other_fee_msat)}`,
+      tooltip: 'Part of the total the LSP did not itemize, usually on-chain funding costs'
+    }] : [])
+  ] : [
+    ...(breakdown.effective_ppm !== null ? [{
+      label: `≈ ${Math.round(breakdown.effective_ppm).toLocaleString()} ppm effective`,
+      tooltip: 'This LSP only reports a total fee; shown here as parts per million of the channel size'
+    }] : [])
+  ];
+
+  if (breakdown.annualized_percent !== null && breakdown.channel_lifetime_days !== null) {
+    parts.push({
+      label: `${breakdown.annualized_percent.toFixed(2)}%/yr`,
+      tooltip: `Annualised cost: the quote keeps the channel open for at least ${breakdown.channel_expiry_blocks?.toLocaleString()} blocks (~${breakdown.channel_lifetime_days} days); this is the total fee as a yearly percentage of the channel size`
+    });
+  }
+
+  if (parts.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap justify-center gap-x-2 text-xs text-gray-500 dark:text-slate-400">
+      {parts.map(part => (
+        <Tooltip key={part.label} text={part.tooltip}>
+          <span>{part.label}</span>
+        </Tooltip>
+      ))}
+    </div>
+  );
+}
+
 // LSP Icon Component with proper fallback
 function LSPIcon({ lspName, lspData }: { lspName: string; lspData?: LSPMetadata }) {
   const [imageError, setImageError] = useState(false);
@@ -309,7 +468,7 @@ function LSPIcon({ lspName, lspData }: { lspName: string; lspData?: LSPMetadata
 }
 
 
-export function PriceTable({ prices, loading = false, lspMetadata = [], selectedChannelSize = 1000000, selectedCurrency = 'usd', onRetry, onForceFetch, forceFetching = {}, proMode = false, healthStatuses = [] }: PriceTableProps) {
+export function PriceTable({ prices, loading = false, lspMetadata = [], selectedChannelSize = 1000000, selectedCurrency = 'usd', onRetry, onForceFetch, forceFetching = {}, proMode = false, healthStatuses = [], orderSummaries = [], jitPrices = [] }: PriceTableProps) {
   const [currencyConversions, setCurrencyConversions] = useState<{ [key: string]: CurrencyConversion }>({});
   const [conversionLoading, setConversionLoading] = useState(false);
 
@@ -426,7 +585,7 @@ export function PriceTable({ prices, loading = false, lspMetadata = [], selected
             const lspPrices = prices.filter(p => p.lsp_id === lspId);
             const lspName = lspPrices[0]?.lsp_name || lspId;
             // Use metadata if available, otherwise fall back to static data
-            const lspData = lspMetadata.find(lsp => lsp.id === lspId) || getLSPById(lspId);
+            const lspData = lspMetadata.find(lsp => lsp.id === lspId) || getBundledLSPById(lspId);
             // Get health status for this LSP
             const healthStatus = healthStatuses.find(h => h.lsp_id === lspId);
             
@@ -465,6 +624,12 @@ export function PriceTable({ prices, loading = false, lspMetadata = [], selected
                         live_fetch_error_code={lspPrices[0]?.live_fetch_error_code}
                         live_fetch_timestamp={lspPrices[0]?.live_fetch_timestamp}
                         cached_timestamp={lspPrices[0]?.cached_timestamp}
+                        estimate={lspPrices[0]?.estimate}
+                      />
+                      <QuoteInfo summary={orderSummaries.find(summary => summary.lsp_id === lspId)} />
+                      <JitComparison
+                        jit={jitPrices.find(p => p.lsp_id === lspId && p.channel_size === selectedChannelSize)}
+                        lsps1={lspPrices.find(p => p.channel_size === selectedChannelSize)}
                       />
                     </div>
                   </div>
@@ -493,6 +658,7 @@ export function PriceTable({ prices, loading = false, lspMetadata = [], selected
                           <div className="text-2xl font-bold text-gray-900 dark:text-slate-100">
                             {formatSats(msatToSat(price.price))} sats
                           </div>
+                          <FeeBreakdownDetails price={price} />
                           <div className="text-lg font-semibold text-gray-700 dark:text-slate-300">
                             {conversionLoading ? (
                               <span className="text-gray-400">Converting...</span>
@@ -549,8 +715,14 @@ export function PriceTable({ prices, loading = false, lspMetadata = [], selected
                     <td className="text-center p-4">
                       <div className="space-y-2">
                         <div className="text-2xl font-bold text-gray-900 dark:text-slate-100">
-                          {formatSats(msatToSat(price.price))} sats
+                          {price.estimate && '~'}{formatSats(msatToSat(price.price))} sats
                         </div>
+                        {price.estimate && (
+                          <div className="text-xs text-sky-700 dark:text-sky-300">
+                            {formatSats(msatToSat(price.estimate.low_fee_msat))}–{formatSats(msatToSat(price.estimate.high_fee_msat))} sats · {price.estimate.confidence} confidence
+                          </div>
+                        )}
+                        <FeeBreakdownDetails price={price} />
                         <div className="text-lg font-semibold text-gray-700 dark:text-slate-300">
                           {conversionLoading ? (
                             <span className="text-gray-400">Converting...</span>
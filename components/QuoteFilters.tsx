@@ -0,0 +1,85 @@
+import React from 'react';
+import { Tooltip } from './Tooltip';
+import type { QuoteDimensions } from '../lib/quote-matrix';
+
+export interface QuoteFilterSelection {
+  expiryBlocks?: number;
+  announce?: boolean;
+  clientBalance?: number;
+}
+
+// Query string for /api/prices and /api/prices-ui ('' when nothing is selected)
+export function toQuoteQuery(selection: QuoteFilterSelection): string {
+  const params = new URLSearchParams();
+  if (selection.expiryBlocks !== undefined) params.set('expiryBlocks', String(selection.expiryBlocks));
+  if (selection.announce !== undefined) params.set('announce', String(selection.announce));
+  if (selection.clientBalance !== undefined) params.set('clientBalance', String(selection.clientBalance));
+  const query = params.toString();
+  return query ? `&${query}` : '';
+}
+
+const formatLease = (blocks: number) => `~${Math.round(blocks / 144 / 30 * 10) / 10} months`;
+
+const selectClassName = 'px-2 py-1 text-sm border border-gray-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-700 text-gray-900 dark:text-slate-100';
+
+// Pick a point of the quote matrix (lease length, public/private, client balance)
+export function QuoteFilters({ dimensions, value, onChange }: {
+  dimensions: QuoteDimensions;
+  value: QuoteFilterSelection;
+  onChange: (value: QuoteFilterSelection) => void;
+}) {
+  if (dimensions.channel_expiry_blocks.length === 0) return null;
+
+  const update = (patch: QuoteFilterSelection) => onChange({ ...value, ...patch });
+  const parse = <T,>(raw: string, map: (raw: string) => T): T | undefined => raw === '' ? undefined : map(raw);
+
+  return (
+    <div className="flex flex-wrap items-center gap-4 px-6 py-3 border-b border-gray-200 dark:border-slate-600 text-sm text-gray-700 dark:text-slate-300">
+      <Tooltip text="Compare quotes for other order parameters. Matrix quotes are refreshed daily; with every option on 'Any' the table shows the regular price.">
+        <span className="font-medium">Quote options:</span>
+      </Tooltip>
+
+      <label className="flex items-center space-x-2">
+        <span>Lease</span>
+        <select
+          className={selectClassName}
+          value={value.expiryBlocks ?? ''}
+          onChange={(e) => update({ expiryBlocks: parse(e.target.value, Number) })}
+        >
+          <option value="">Any</option>
+          {dimensions.channel_expiry_blocks.map(blocks => (
+            <option key={blocks} value={blocks}>{formatLease(blocks)} ({blocks.toLocaleString()} blocks)</option>
+          ))}
+        </select>
+      </label>
+
+      <label className="flex items-center space-x-2">
+        <span>Channel</span>
+        <select
+          className={selectClassName}
+          value={value.announce === undefined ? '' : String(value.announce)}
+          onChange={(e) => update({ announce: parse(e.target.value, raw => raw === 'true') })}
+        >
+          <option value="">Any</option>
+          {dimensions.announce_channel.map(announce => (
+            <option key={String(announce)} value={String(announce)}>{announce ? 'Public' : 'Private'}</option>
+          ))}
+        </select>
+      </label>
+
+      <label className="flex items-center space-x-2">
+        <span>Client balance</span>
+        <select
+          className={selectClassName}
+          value={value.clientBalance ?? ''}
+          onChange={(e) => update({ clientBalance: parse(e.target.value, Number) })}
+        >
+          <option value="">Any</option>
+          {dimensions.client_balance_sat.map(balance => (
+            <option key={balance} value={balance}>{balance.toLocaleString()} sats</option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+import { NextApiRequest } from 'next';
+import { ADMIN_ACTOR_HEADER } from './admin-auth';
+import { getPriceStore, isStoreConfigured } from './store';
+
+// Outside the alby:lsp:* namespace so clearing the cache does not wipe the trail
+const AUDIT_LOG_KEY = 'alby:admin:audit';
+const AUDIT_LOG_RETENTION_MS = 90 * 24 * 60 * 60 * 1000;
+
+export interface AdminAuditEntry {
+  id: string;
+  timestamp: string;
+  actor: string;
+  action: string; // e.g. "db-viewer.get", "cache.clear", "login"
+  target?: string;
+  success: boolean;
+  ip?: string;
+  details?: Record<string, unknown>;
+}
+
+const getClientIp = (req: NextApiRequest): string | undefined => {
+  const forwarded = req.headers['x-forwarded-for'];
+  const first = Array.isArray(forwarded) ? forwarded[0] : forwarded?.split(',')[0];
+  return first?.trim() || (req.headers['x-real-ip'] as string | undefined) || req.socket?.remoteAddress;
+};
+
+// Actor resolved by middleware.ts for admin routes
+export const getRequestActor = (req: NextApiRequest): string => {
+  const actor = req.headers[ADMIN_ACTOR_HEADER];
+  return (Array.isArray(actor) ? actor[0] : actor) || 'anonymous';
+};
+
+/**
+ * Append an entry to the admin audit log
+ * Never throws: a failing audit write must not break the admin action itself.
+ */
+export async function recordAdminAction(
+  req: NextApiRequest,
+  action: string,
+  options: { target?: string; success?: boolean; actor?: string; details?: Record<string, unknown> } = {}
+): Promise<void> {
+  const entry: AdminAuditEntry = {
+    id: crypto.randomUUID(),
+    timestamp: new Date().toISOString(),
+    actor: options.actor || getRequestActor(req),
+    action,
+    ...(options.target ? { target: options.target } : {}),
+    success: options.success ?? true,
+    ip: getClientIp(req),
+    ...(options.details ? { details: options.details } : {})
+  };
+
+  console.log(`🛡️ Admin audit: ${entry.actor} ${entry.action}${entry.target ? ` ${entry.target}` : ''} (${entry.success ? 'ok' : 'failed'})`);
+
+  try {
+    const store = getPriceStore();
+    if (!store || !isStoreConfigured()) return;
+    await store.zadd(AUDIT_LOG_KEY, { score: Date.parse(entry.timestamp), member: JSON.stringify(entry) });
+    await store.zremrangeByScore(AUDIT_LOG_KEY, -Infinity, Date.parse(entry.timestamp) - AUDIT_LOG_RETENTION_MS);
+  } catch (error) {
+    console.error('Error writing admin audit log:', error);
+  }
+}
+
+// Most recent audit entries first
+export async function getAdminAuditLog(limit: number = 100): Promise<AdminAuditEntry[]> {
+  try {
+    const store = getPriceStore();
+    if (!store || !isStoreConfigured()) return [];
+
+    const entries = await store.zrangeByScore<AdminAuditEntry | string>(AUDIT_LOG_KEY, -Infinity, Infinity, {
+      rev: true,
+      offset: 0,
+      count: limit
+    });
+    return entries.map(entry => typeof entry === 'string' ? JSON.parse(entry) : entry);
+  } catch (error) {
+    console.error('Error reading admin audit log:', error);
+    return [];
+  }
+}
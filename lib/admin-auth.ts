@@ -0,0 +1,182 @@
+/**
+ * Admin authentication shared by middleware.ts (edge runtime) and API routes
+ * Only Web APIs are used here (crypto.subtle, TextEncoder, btoa) so it runs on both runtimes.
+ *
+ * Credentials:
+ * - ADMIN_API_TOKEN            shared admin secret, actor "admin"
+ * - ADMIN_USERS=alice:s1,bob:s2 optional per-person secrets so the audit log knows who acted
+ * - CRON_SECRET                sent by Vercel Cron as a bearer token, only valid on /api/cron/*
+ * - PRO_API_TOKENS=name:secret  Pro callers allowed to force fetch live prices and manage price alerts
+ * Browsers log in once at /login and get a signed session cookie instead of sending a token.
+ */
+
+export const ADMIN_SESSION_COOKIE = 'alby_admin_session';
+export const ADMIN_SESSION_TTL_SECONDS = 12 * 60 * 60; // 12 hours
+// Set by middleware on authenticated requests so routes can attribute audit log entries
+export const ADMIN_ACTOR_HEADER = 'x-admin-actor';
+
+export type AdminAuthMethod = 'token' | 'session' | 'cron' | 'pro';
+
+export interface AdminIdentity {
+  actor: string;
+  method: AdminAuthMethod;
+}
+
+interface SessionPayload {
+  sub: string;
+  exp: number; // epoch seconds
+}
+
+// Name → secret for every configured admin credential
+export const getAdminCredentials = (): Record<string, string> => {
+  const credentials: Record<string, string> = {};
+
+  (process.env.ADMIN_USERS || '').split(',').forEach(entry => {
+    const separator = entry.indexOf(':');
+    if (separator <= 0) return;
+    const name = entry.slice(0, separator).trim();
+    const secret = entry.slice(separator + 1).trim();
+    if (name && secret) credentials[name] = secret;
+  });
+
+  const sharedToken = process.env.ADMIN_API_TOKEN?.trim();
+  if (sharedToken) credentials.admin = sharedToken;
+
+  return credentials;
+};
+
+export const isAdminAuthConfigured = (): boolean => {
+  return Object.keys(getAdminCredentials()).length > 0;
+};
+
+// Sessions are signed with ADMIN_SESSION_SECRET, falling back to the shared admin token
+const getSessionSecret = (): string | null => {
+  return process.env.ADMIN_SESSION_SECRET?.trim() || process.env.ADMIN_API_TOKEN?.trim() || null;
+};
+
+// Constant-time comparison (no Node crypto on the edge runtime)
+export function safeEqual(a: string, b: string): boolean {
+  let mismatch = a.length ^ b.length;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    mismatch |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0);
+  }
+  return mismatch === 0;
+}
+
+// Resolve which admin a secret belongs to
+export const findAdminBySecret = (secret: string): string | null => {
+  const match = Object.entries(getAdminCredentials()).find(([, value]) => safeEqual(value, secret));
+  return match ? match[0] : null;
+};
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function base64UrlDecode(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+async function sign(data: string, secret: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(data));
+  return base64UrlEncode(new Uint8Array(signature));
+}
+
+/**
+ * Create a signed session token: base64url(payload).base64url(hmac)
+ */
+export async function createSessionToken(actor: string, ttlSeconds: number = ADMIN_SESSION_TTL_SECONDS): Promise<string> {
+  const secret = getSessionSecret();
+  if (!secret) {
+    throw new Error('Admin authentication is not configured');
+  }
+
+  const payload: SessionPayload = { sub: actor, exp: Math.floor(Date.now() / 1000) + ttlSeconds };
+  const encodedPayload = base64UrlEncode(new TextEncoder().encode(JSON.stringify(payload)));
+  return `${encodedPayload}.${await sign(encodedPayload, secret)}`;
+}
+
+// Returns the actor for a valid, unexpired session token of a still-configured admin
+export async function verifySessionToken(token: string | undefined | null): Promise<string | null> {
+  const secret = getSessionSecret();
+  if (!secret || !token) return null;
+
+  const [encodedPayload, signature] = token.split('.');
+  if (!encodedPayload || !signature) return null;
+
+  try {
+    if (!safeEqual(await sign(encodedPayload, secret), signature)) return null;
+
+    const payload = JSON.parse(new TextDecoder().decode(base64UrlDecode(encodedPayload))) as SessionPayload;
+    if (!payload.sub || typeof payload.exp !== 'number' || payload.exp * 1000 <= Date.now()) return null;
+    // Sessions end early when the admin is removed from the configuration
+    return payload.sub in getAdminCredentials() ? payload.sub : null;
+  } catch {
+    return null;
+  }
+}
+
+// Set-Cookie value for the session (maxAge 0 clears it)
+export const serializeSessionCookie = (value: string, maxAge: number): string => [
+  `${ADMIN_SESSION_COOKIE}=${value}`,
+  'Path=/',
+  'HttpOnly',
+  'SameSite=Lax',
+  `Max-Age=${maxAge}`,
+  ...(process.env.NODE_ENV === 'production' ? ['Secure'] : [])
+].join('; ');
+
+/**
+ * Authenticate a request from its Authorization header or session cookie
+ * Cron secrets are only accepted when allowCron is set (cron routes).
+ */
+export async function authenticateAdmin(
+  authorization: string | null | undefined,
+  sessionCookie: string | null | undefined,
+  options: { allowCron?: boolean } = {}
+): Promise<AdminIdentity | null> {
+  if (authorization?.startsWith('Bearer ')) {
+    const secret = authorization.slice('Bearer '.length).trim();
+
+    const cronSecret = process.env.CRON_SECRET?.trim();
+    if (options.allowCron && cronSecret && safeEqual(secret, cronSecret)) {
+      return { actor: 'vercel-cron', method: 'cron' };
+    }
+
+    const actor = findAdminBySecret(secret);
+    if (actor) return { actor, method: 'token' };
+  }
+
+  const sessionActor = await verifySessionToken(sessionCookie);
+  return sessionActor ? { actor: sessionActor, method: 'session' } : null;
+}
+
+/**
+ * Authenticate a Pro feature (?force=1 on /api/prices-ui, /api/alerts)
+ * Admins (token or session) and Pro callers with a PRO_API_TOKENS secret are allowed.
+ */
+export async function authenticateProCaller(
+  authorization: string | null | undefined,
+  sessionCookie: string | null | undefined
+): Promise<AdminIdentity | null> {
+  const admin = await authenticateAdmin(authorization, sessionCookie);
+  if (admin) return admin;
+
+  if (!authorization?.startsWith('Bearer ')) return null;
+  const secret = authorization.slice('Bearer '.length).trim();
+
+  const match = (process.env.PRO_API_TOKENS || '').split(',').map(entry => {
+    const separator = entry.indexOf(':');
+    return separator > 0 ? [entry.slice(0, separator).trim(), entry.slice(separator + 1).trim()] : null;
+  }).find(entry => entry && entry[1] && safeEqual(entry[1], secret));
+
+  return match ? { actor: `pro:${match[0]}`, method: 'pro' } : null;
+}
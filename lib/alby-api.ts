@@ -1,4 +1,6 @@
 import { LSPPrice, LspErrorCode } from './lsp-api';
+import { getLSPByAlbyIdentifier, refreshPromotedLSPs } from './lsps';
+import { recordDiscoveredLSPs } from './lsp-discovery';
 
 // Alby API response types based on the actual API structure
 export interface AlbyChannelSuggestion {
@@ -25,14 +27,6 @@ export interface AlbyChannelSuggestion {
   feeTotalSat3m?: number | null;
 }
 
-// LSP identifier mapping from Alby API to our LSP IDs
-const ALBY_LSP_ID_MAPPING: Record<string, string> = {
-  'megalith': 'megalith',
-  'lnserver': 'lnserver', 
-  'olympus': 'olympus',
-  'flashsats': 'flashsats'
-};
-
 // Channel size mapping for Alby API fields
 const CHANNEL_SIZE_MAPPING: Record<number, keyof AlbyChannelSuggestion> = {
   1000000: 'feeTotalSat1m',
@@ -104,17 +98,17 @@ export function parseAlbyPriceData(
 ): LSPPrice[] {
   const results: LSPPrice[] = [];
   
-  // Filter for Lightning Network Bitcoin LSPs
+  // Filter for Lightning Network Bitcoin LSPs that are active in our registry
   const lightningLSPs = albyData.filter(item => 
     item.paymentMethod === 'lightning' && 
     item.network === 'bitcoin' &&
-    ALBY_LSP_ID_MAPPING[item.identifier]
+    getLSPByAlbyIdentifier(item.identifier)?.active
   );
   
   console.log(`Found ${lightningLSPs.length} Lightning Bitcoin LSPs in Alby data`);
   
   for (const albyLSP of lightningLSPs) {
-    const lspId = ALBY_LSP_ID_MAPPING[albyLSP.identifier];
+    const lspId = getLSPByAlbyIdentifier(albyLSP.identifier)!.id;
     const feeField = CHANNEL_SIZE_MAPPING[requestedChannelSize];
     
     // Check if this LSP supports the requested channel size
@@ -176,6 +170,9 @@ export async function fetchAlbyPricesForChannelSize(channelSizeSat: number): Pro
   try {
     console.log(`Fetching Alby prices for ${channelSizeSat} sats`);
     const albyData = await fetchAlbyChannelSuggestions();
+    await refreshPromotedLSPs();
+    // Queue LSPs Alby knows about that are not in our registry yet
+    await recordDiscoveredLSPs(albyData);
     const prices = parseAlbyPriceData(albyData, channelSizeSat);
     
     const successCount = prices.filter(p => !p.error).length;
@@ -0,0 +1,11 @@
+import type { LSPPrice } from './lsp-api';
+import type { PriceAnomaly } from './price-anomaly';
+
+/**
+ * Which flagged prices count as suspicious (see lib/price-anomaly.ts for the detection)
+ * Kept free of store imports so browser-bundled modules can share the rule.
+ */
+
+// Unreviewed or rejected anomalies stay out of baselines, averages, feeds and (when held) current prices
+export const isSuspicious = (price: LSPPrice): price is LSPPrice & { anomaly: PriceAnomaly } =>
+  !!price.anomaly && price.anomaly.status !== 'confirmed';
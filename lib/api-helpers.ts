@@ -7,6 +7,13 @@ export const allowCORS = (res: NextApiResponse) => {
   res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
 };
 
+// Base URL of the board as the client reached it (honours x-forwarded-proto behind proxies)
+export const getRequestOrigin = (req: NextApiRequest): string => {
+  const forwardedProto = req.headers['x-forwarded-proto'];
+  const proto = (Array.isArray(forwardedProto) ? forwardedProto[0] : forwardedProto)?.split(',')[0] || 'http';
+  return `${proto}://${req.headers.host || 'localhost:3000'}`;
+};
+
 // Parse channel size from query parameters
 export const parseChannelSize = (req: NextApiRequest): number => {
   const channelSize = req.query.channelSize as string;
@@ -14,6 +21,41 @@ export const parseChannelSize = (req: NextApiRequest): number => {
   return isNaN(parsed) ? 1000000 : parsed;
 };
 
+// Parse a repeatable query parameter (?lspId=a&lspId=b) that also accepts comma-separated values
+export const parseListParam = (value: string | string[] | undefined): string[] | undefined => {
+  if (!value) return undefined;
+  const items = (Array.isArray(value) ? value : [value])
+    .flatMap(item => item.split(','))
+    .map(item => item.trim())
+    .filter(Boolean);
+  return items.length > 0 ? items : undefined;
+};
+
+/**
+ * Overall data source of a price list: the one source all rows share, 'mixed' or 'unknown'
+ * Cached rows less than an hour old count as live.
+ */
+export const determineDataSource = (prices: Array<{ source?: string; timestamp?: string }>): string => {
+  const oneHourAgo = Date.now() - 60 * 60 * 1000;
+  const sources = Array.from(new Set(prices
+    .map(price => price.source === 'cached' && price.timestamp && Date.parse(price.timestamp) > oneHourAgo ? 'live' : price.source)
+    .filter((source): source is string => !!source)));
+
+  if (sources.length === 0) return 'unknown';
+  return sources.length === 1 ? sources[0] : 'mixed';
+};
+
+// Routes superseded by /api/v1 were deprecated when v1 shipped and are removed after the sunset date
+export const LEGACY_API_DEPRECATED_AT = '2026-10-19T00:00:00Z';
+export const LEGACY_API_SUNSET_AT = '2027-04-19T00:00:00Z';
+
+// Mark a route as superseded by a /api/v1 route (Deprecation, Sunset and successor Link headers, RFC 9745/8594/8288)
+export const markDeprecated = (res: NextApiResponse, successorPath: string) => {
+  res.setHeader('Deprecation', `@${Math.floor(Date.parse(LEGACY_API_DEPRECATED_AT) / 1000)}`);
+  res.setHeader('Sunset', new Date(LEGACY_API_SUNSET_AT).toUTCString());
+  res.setHeader('Link', `<${successorPath}>; rel="successor-version"`);
+};
+
 // Get data source description for API responses
 export const getDataSourceDescription = (dataSource: string): string => {
   switch (dataSource) {
@@ -23,6 +65,8 @@ export const getDataSourceDescription = (dataSource: string): string => {
       return 'Previously fetched data';
     case 'historical':
       return 'Historical data from database';
+    case 'estimated':
+      return 'Estimated from each LSP\'s fees at other channel sizes';
     default:
       return 'Unknown data source';
   }
@@ -0,0 +1,100 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import {
+  API_ERROR_STATUS,
+  ApiErrorCode,
+  ApiErrorResponse,
+  ApiSuccessResponse,
+  createErrorResponse,
+  createSuccessResponse
+} from '../types/api-response';
+import { isSuspicious } from './anomaly-rule';
+import { allowCORS } from './api-helpers';
+import type { FeeEstimate } from './fee-model';
+import { calculateFeePpm } from './fee-ppm';
+import type { LSPPrice } from './lsp-api';
+
+/**
+ * Versioned public API (/api/v1)
+ * Every response is an ApiSuccessResponse or ApiErrorResponse envelope (types/api-response.ts).
+ * Within v1 fields are only ever added; renames and removals wait for /api/v2.
+ */
+
+export const API_V1_VERSION = '1.0.0';
+export const API_V1_PREFIX = '/api/v1';
+
+// One LSP quote, the same shape on every v1 endpoint
+export interface PriceV1 {
+  lsp_id: string;
+  lsp_name: string;
+  channel_size_sat: number;
+  total_fee_msat: number | null; // null when the LSP returned no price
+  fee_ppm: number | null;
+  channel_fee_percent: number;
+  channel_fee_base_msat: number;
+  lease_fee_base_msat: number;
+  lease_fee_basis: number;
+  channel_expiry_blocks: number | null;
+  announce_channel: boolean | null;
+  client_balance_sat: number | null;
+  timestamp: string;
+  source: string;
+  stale_seconds: number | null;
+  error: { code: string; message: string } | null;
+  estimate: FeeEstimate | null; // only on source 'estimated'
+  suspicious: boolean; // flagged as out of line with the LSP's recent prices and not confirmed
+}
+
+export function toPriceV1(price: LSPPrice): PriceV1 {
+  const priced = !price.error && price.total_fee_msat > 0;
+  return {
+    lsp_id: price.lsp_id,
+    lsp_name: price.lsp_name,
+    channel_size_sat: price.channel_size_sat,
+    total_fee_msat: priced ? price.total_fee_msat : null,
+    fee_ppm: priced ? calculateFeePpm(price.total_fee_msat, price.channel_size_sat) : null,
+    channel_fee_percent: price.channel_fee_percent,
+    channel_fee_base_msat: price.channel_fee_base_msat,
+    lease_fee_base_msat: price.lease_fee_base_msat,
+    lease_fee_basis: price.lease_fee_basis,
+    channel_expiry_blocks: price.channel_expiry_blocks ?? null,
+    announce_channel: price.announce_channel ?? null,
+    client_balance_sat: price.client_balance_sat ?? null,
+    timestamp: price.timestamp,
+    source: price.source || 'unknown',
+    stale_seconds: price.stale_seconds ?? null,
+    error: price.error ? { code: price.error_code || 'UNKNOWN', message: price.error } : null,
+    estimate: price.estimate ?? null,
+    suspicious: isSuspicious(price)
+  };
+}
+
+export function sendV1Success<T>(res: NextApiResponse<ApiSuccessResponse<T>>, data: T) {
+  res.setHeader('X-API-Version', API_V1_VERSION);
+  return res.status(200).json(createSuccessResponse(data));
+}
+
+export function sendV1Error(res: NextApiResponse<ApiErrorResponse>, code: ApiErrorCode, error: string, message?: string) {
+  res.setHeader('X-API-Version', API_V1_VERSION);
+  return res.status(API_ERROR_STATUS[code]).json(createErrorResponse(error, message, code));
+}
+
+/**
+ * CORS, preflight and method check shared by the v1 routes
+ * Returns false when the response has already been sent.
+ */
+export function acceptV1Request(req: NextApiRequest, res: NextApiResponse, methods: string[] = ['GET']): boolean {
+  allowCORS(res);
+
+  if (req.method === 'OPTIONS') {
+    res.status(204).end();
+    return false;
+  }
+
+  if (!methods.includes(req.method || '')) {
+    res.setHeader('Allow', methods.join(', '));
+    sendV1Error(res, 'METHOD_NOT_ALLOWED', 'Method not allowed', `Only ${methods.join(', ')} requests are allowed for this endpoint`);
+    return false;
+  }
+
+  return true;
+}
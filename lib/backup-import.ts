@@ -0,0 +1,243 @@
+import { LSPPrice } from './lsp-api';
+import { LEGACY_HISTORY_KEY_PATTERN, appendPriceObservations, getPriceSeries, parsePriceSeriesKey } from './db';
+import { extractLegacyHistoryPoints } from './history-migration';
+import { getPriceStore, isStoreConfigured } from './store';
+
+// 1.0: history as per-day blobs, 1.1: history as per-LSP series (see /api/backup-data)
+export const SUPPORTED_BACKUP_VERSIONS = ['1.0', '1.1'];
+
+const METADATA_KEY = 'alby:lsp:metadata';
+
+export interface BackupDump {
+  exportInfo: { version: string; timestamp?: string; [key: string]: unknown };
+  channelData?: Record<string, unknown>;
+  historicalData?: Record<string, unknown>;
+  metadata?: unknown;
+}
+
+export interface HistoryConflict {
+  lsp_id: string;
+  channel_size_sat: number;
+  timestamp: string;
+  existing_fee_msat: number;
+  backup_fee_msat: number;
+}
+
+export interface BackupImportResult {
+  dryRun: boolean;
+  version: string;
+  newKeys: string[];
+  overwrittenKeys: string[];
+  skippedKeys: string[]; // Stored snapshot is newer than the one in the backup
+  history: {
+    series: number;
+    newEntries: number;
+    duplicateEntries: number;
+    conflicts: HistoryConflict[]; // Same timestamp, different price: the stored entry is kept
+  };
+  errors: string[];
+}
+
+export function validateBackupDump(dump: unknown): { valid: true; dump: BackupDump } | { valid: false; error: string } {
+  if (!dump || typeof dump !== 'object') {
+    return { valid: false, error: 'Backup must be a JSON object' };
+  }
+
+  const exportInfo = (dump as BackupDump).exportInfo;
+  if (!exportInfo || typeof exportInfo !== 'object') {
+    return { valid: false, error: 'Missing exportInfo, is this a JSON backup from /api/backup-data?' };
+  }
+  if (!SUPPORTED_BACKUP_VERSIONS.includes(String(exportInfo.version))) {
+    return {
+      valid: false,
+      error: `Unsupported backup version "${exportInfo.version}", expected one of: ${SUPPORTED_BACKUP_VERSIONS.join(', ')}`
+    };
+  }
+
+  for (const section of ['channelData', 'historicalData'] as const) {
+    const value = (dump as BackupDump)[section];
+    if (value !== undefined && value !== null && (typeof value !== 'object' || Array.isArray(value))) {
+      return { valid: false, error: `${section} must be an object` };
+    }
+  }
+
+  return { valid: true, dump: dump as BackupDump };
+}
+
+function parseStoredValue<T>(value: unknown): T | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value !== 'string') return value as T;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return null;
+  }
+}
+
+// Newest timestamp found in a snapshot (price array or metadata object)
+function snapshotTime(value: unknown): number {
+  if (Array.isArray(value)) {
+    return value.reduce((latest: number, price: Partial<LSPPrice>) => {
+      const time = price?.timestamp ? Date.parse(price.timestamp) : NaN;
+      return Number.isNaN(time) ? latest : Math.max(latest, time);
+    }, -Infinity);
+  }
+  const lastUpdate = (value as { lastUpdate?: string } | null)?.lastUpdate;
+  const time = lastUpdate ? Date.parse(lastUpdate) : NaN;
+  return Number.isNaN(time) ? -Infinity : time;
+}
+
+// Flatten every history representation in a dump into individual observations
+export function collectBackupHistory(historicalData: Record<string, unknown>): { prices: LSPPrice[]; errors: string[] } {
+  const prices: LSPPrice[] = [];
+  const errors: string[] = [];
+
+  Object.entries(historicalData).forEach(([key, raw]) => {
+    const value = parseStoredValue<unknown>(raw);
+    const series = parsePriceSeriesKey(key);
+
+    if (series) {
+      const entries = (value as { prices?: unknown[] } | null)?.prices;
+      if (!Array.isArray(entries)) {
+        errors.push(`${key}: missing prices array`);
+        return;
+      }
+      entries.forEach(entry => {
+        const price = parseStoredValue<LSPPrice>(entry);
+        if (!price || Number.isNaN(Date.parse(price.timestamp))) return;
+        prices.push({ ...price, lsp_id: price.lsp_id || series.lspId, channel_size_sat: price.channel_size_sat || series.channelSize });
+      });
+    } else if (LEGACY_HISTORY_KEY_PATTERN.test(key)) {
+      extractLegacyHistoryPoints(value)
+        .filter(point => point.price.channel_size_sat > 0)
+        .forEach(point => prices.push(point.price));
+    } else {
+      errors.push(`${key}: unrecognised history key`);
+    }
+  });
+
+  return { prices, errors };
+}
+
+function isSamePrice(a: LSPPrice, b: LSPPrice): boolean {
+  return a.total_fee_msat === b.total_fee_msat && (a.error_code || null) === (b.error_code || null);
+}
+
+/**
+ * Restore a backup into the current store
+ * - Current snapshots (channel data, metadata) are written when missing or older than the backup
+ * - History is merged by timestamp: new observations are added, identical ones skipped,
+ *   and different prices at an already stored timestamp are reported as conflicts and left untouched
+ * With dryRun nothing is written and the result is the diff that would be applied.
+ */
+export async function importBackup(dump: BackupDump, options: { dryRun?: boolean } = {}): Promise<BackupImportResult> {
+  const dryRun = options.dryRun ?? false;
+  const result: BackupImportResult = {
+    dryRun,
+    version: String(dump.exportInfo.version),
+    newKeys: [],
+    overwrittenKeys: [],
+    skippedKeys: [],
+    history: { series: 0, newEntries: 0, duplicateEntries: 0, conflicts: [] },
+    errors: []
+  };
+
+  const store = getPriceStore();
+  if (!store || !isStoreConfigured()) {
+    result.errors.push('Price store not configured or unavailable');
+    return result;
+  }
+
+  // Current snapshots
+  const snapshots: Record<string, unknown> = {};
+  Object.entries(dump.channelData || {}).forEach(([channelSize, raw]) => {
+    if (!Number(channelSize)) {
+      result.errors.push(`channelData.${channelSize}: invalid channel size`);
+      return;
+    }
+    const prices = parseStoredValue<LSPPrice[]>(raw);
+    if (!Array.isArray(prices)) {
+      result.errors.push(`channelData.${channelSize}: expected an array of prices`);
+      return;
+    }
+    snapshots[`alby:lsp:channel:${Number(channelSize)}`] = prices;
+  });
+  const metadata = parseStoredValue<Record<string, unknown>>(dump.metadata);
+  if (metadata && typeof metadata === 'object') {
+    snapshots[METADATA_KEY] = metadata;
+  }
+
+  const writes: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(snapshots)) {
+    const existing = parseStoredValue<unknown>(await store.get(key));
+    if (existing === null) {
+      result.newKeys.push(key);
+    } else if (snapshotTime(existing) > snapshotTime(value)) {
+      result.skippedKeys.push(key);
+      continue;
+    } else if (JSON.stringify(existing) === JSON.stringify(value)) {
+      continue;
+    } else {
+      result.overwrittenKeys.push(key);
+    }
+    writes[key] = JSON.stringify(value);
+  }
+
+  // History, merged per series
+  const { prices, errors } = collectBackupHistory(dump.historicalData || {});
+  result.errors.push(...errors);
+
+  const bySeries = new Map<string, LSPPrice[]>();
+  prices.forEach(price => {
+    const seriesKey = `${price.channel_size_sat}:${price.lsp_id}`;
+    const group = bySeries.get(seriesKey);
+    if (group) group.push(price);
+    else bySeries.set(seriesKey, [price]);
+  });
+  result.history.series = bySeries.size;
+
+  const toAppend: LSPPrice[] = [];
+  for (const group of Array.from(bySeries.values())) {
+    const times = group.map(price => Date.parse(price.timestamp));
+    const { lsp_id, channel_size_sat } = group[0];
+    const existing = await getPriceSeries(lsp_id, channel_size_sat, { from: Math.min(...times), to: Math.max(...times) });
+
+    const known = new Map<number, LSPPrice[]>();
+    existing.forEach(price => {
+      const time = Date.parse(price.timestamp);
+      known.set(time, [...(known.get(time) || []), price]);
+    });
+
+    group.forEach(price => {
+      const time = Date.parse(price.timestamp);
+      const atSameTime = known.get(time);
+      if (!atSameTime) {
+        result.history.newEntries++;
+        toAppend.push(price);
+        known.set(time, [price]);
+      } else if (atSameTime.some(stored => isSamePrice(stored, price))) {
+        result.history.duplicateEntries++;
+      } else {
+        result.history.conflicts.push({
+          lsp_id,
+          channel_size_sat,
+          timestamp: new Date(time).toISOString(),
+          existing_fee_msat: atSameTime[0].total_fee_msat,
+          backup_fee_msat: price.total_fee_msat
+        });
+      }
+    });
+  }
+
+  if (!dryRun) {
+    if (toAppend.length > 0) {
+      await appendPriceObservations(toAppend);
+    }
+    if (Object.keys(writes).length > 0) {
+      await store.setMany(writes);
+    }
+    console.log(`📥 Imported backup: ${Object.keys(writes).length} snapshot keys, ${toAppend.length} history entries`);
+  }
+
+  return result;
+}
@@ -1,9 +1,9 @@
-// Redis import handled by getRedisInstance()
 import { LSPPrice } from './lsp-api';
-import { isRedisConfigured, getRedisInstance } from './redis-config';
+import { HEALTH_HISTORY_RETENTION_MS, type HealthProbe } from './simple-health';
+import { isStoreConfigured, getPriceStore } from './store';
 
-// Initialize Redis client
-const redis = getRedisInstance();
+// Initialize storage backend (Upstash or local file, see lib/store)
+const store = getPriceStore();
 
 // IMPROVED DATABASE STRUCTURE - No redundancy
 const METADATA_KEY = 'alby:lsp:metadata';
@@ -11,97 +11,150 @@ const METADATA_KEY = 'alby:lsp:metadata';
 // Per-channel-size prices (better organization)
 const getChannelPricesKey = (channelSize: number) => `alby:lsp:channel:${channelSize}`;
 
+// Price history: one sorted set per (channel size, LSP), scored by observation time (epoch ms)
+const SERIES_KEY_PREFIX = 'alby:lsp:series:';
+export const getPriceSeriesKey = (channelSize: number, lspId: string) => `${SERIES_KEY_PREFIX}${channelSize}:${lspId}`;
+
+// Legacy per-day history blobs (alby:lsp:history:YYYY-MM-DD), only read by the migration
+export const LEGACY_HISTORY_KEY_PATTERN = /^alby:lsp:history:\d{4}-\d{2}-\d{2}$/;
+
+export function parsePriceSeriesKey(key: string): { channelSize: number; lspId: string } | null {
+  if (!key.startsWith(SERIES_KEY_PREFIX)) return null;
+  const rest = key.slice(SERIES_KEY_PREFIX.length);
+  const separator = rest.indexOf(':');
+  if (separator <= 0) return null;
+
+  const channelSize = Number(rest.slice(0, separator));
+  const lspId = rest.slice(separator + 1);
+  if (!Number.isFinite(channelSize) || !lspId) return null;
+  return { channelSize, lspId };
+}
+
+// Fields that change on every read or are too bulky to keep per observation
+function toSeriesMember(price: LSPPrice): string {
+  const observation: Partial<LSPPrice> = { ...price };
+  delete observation.stale_seconds;
+  delete observation.raw_lsp_error;
+  return JSON.stringify(observation);
+}
+
+function parseSeriesMember(member: unknown): LSPPrice | null {
+  if (!member) return null;
+  if (typeof member === 'object') return member as LSPPrice;
+  try {
+    return JSON.parse(String(member)) as LSPPrice;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Append prices to their time series
+ * The score is the price's own fetch timestamp (falling back to the save time), so
+ * re-saving an unchanged cached price does not create a duplicate observation.
+ */
+export async function appendPriceObservations(prices: LSPPrice[], fallbackTimestamp: string = new Date().toISOString()): Promise<number> {
+  if (!store || !isStoreConfigured()) {
+    console.error('Price store not configured or unavailable');
+    return 0;
+  }
+
+  const fallbackMs = Date.parse(fallbackTimestamp);
+  const membersByKey: Record<string, Array<{ score: number; member: string }>> = {};
+
+  prices.forEach(price => {
+    if (!price.lsp_id || !price.channel_size_sat) return;
+    const parsed = Date.parse(price.timestamp);
+    const score = Number.isNaN(parsed) ? fallbackMs : parsed;
+    const observation = Number.isNaN(parsed) ? { ...price, timestamp: fallbackTimestamp } : price;
+
+    const key = getPriceSeriesKey(price.channel_size_sat, price.lsp_id);
+    if (!membersByKey[key]) membersByKey[key] = [];
+    membersByKey[key].push({ score, member: toSeriesMember(observation) });
+  });
+
+  // One batched write: the file backend rewrites the whole file per call
+  return await store.zaddMany(membersByKey);
+}
+
+// Rewrite the stored observation at a price's timestamp (e.g. after an anomaly review)
+export async function replacePriceObservation(price: LSPPrice): Promise<boolean> {
+  const score = Date.parse(price.timestamp);
+  if (!store || !isStoreConfigured() || Number.isNaN(score)) return false;
+
+  try {
+    const key = getPriceSeriesKey(price.channel_size_sat, price.lsp_id);
+    await store.zremrangeByScore(key, score, score);
+    await store.zadd(key, { score, member: toSeriesMember(price) });
+    return true;
+  } catch (error) {
+    console.error(`Error replacing observation for ${price.lsp_id} (${price.channel_size_sat} sats):`, error);
+    return false;
+  }
+}
+
 // Save latest prices to database with improved structure
 export async function savePricesToDB(prices: LSPPrice[]): Promise<boolean> {
   try {
-    if (!redis || !isRedisConfigured()) {
-      console.error('Upstash Redis not configured or unavailable');
+    if (!store || !isStoreConfigured()) {
+      console.error('Price store not configured or unavailable');
       return false;
     }
 
     const now = new Date().toISOString();
-    // Remove unused variable
+
+    // Flag prices out of line with the LSP's history; held ones keep the previous row current
+    const { screenPrices } = await import('./price-anomaly');
+    const { observed, current } = await screenPrices(prices);
     
     // Group prices by channel size for better organization
-    const pricesByChannel = prices.reduce((acc, price) => {
+    const pricesByChannel = current.reduce((acc, price) => {
       const size = price.channel_size_sat;
       if (!acc[size]) acc[size] = [];
       acc[size].push(price);
       return acc;
     }, {} as Record<number, LSPPrice[]>);
 
-    if (!redis) {
-      console.error('Redis not available');
-      return false;
-    }
+    // Collect every write and flush them together (pipeline on Upstash)
+    const writes: Record<string, unknown> = {};
     
-    const pipeline = redis.pipeline();
-    
-    // FIRST: Save current data to history with precise timestamps
-    for (const [size, channelPrices] of Object.entries(pricesByChannel)) {
-      const date = now.split('T')[0]; // YYYY-MM-DD
-      const historyKey = `alby:lsp:history:${date}`;
-      
-      try {
-        // Get existing history for this date
-        const existingHistory = await redis.get(historyKey);
-        let historyData: Record<string, unknown> = {};
-        
-        if (existingHistory) {
-          try {
-            historyData = typeof existingHistory === 'string' 
-              ? JSON.parse(existingHistory) 
-              : existingHistory;
-          } catch (error) {
-            console.warn(`Could not parse existing history for ${date}:`, error);
-            historyData = {};
-          }
-        }
-        
-        // Initialize channel data if it doesn't exist
-        const channelKey = `channel_${size}`;
-        if (!historyData[channelKey]) {
-          historyData[channelKey] = {
-            channelSize: Number(size),
-            entries: []
-          };
-        }
-        
-        // Add new entry with precise timestamp
-        const newEntry = {
-          timestamp: now,
-          prices: channelPrices
-        };
-        
-        historyData[channelKey].entries.push(newEntry);
-        
-        // Update the last update timestamp
-        historyData.lastUpdate = now;
-        historyData.date = date;
-        
-        pipeline.set(historyKey, JSON.stringify(historyData));
-        console.log(`Saved new data to history: ${historyKey} (channel ${size}) at ${now}`);
-      } catch (error) {
-        console.warn(`Could not save data to history for ${historyKey}:`, error);
-      }
+    // FIRST: Append every price to its (channel size, LSP) time series
+    try {
+      const appended = await appendPriceObservations(observed, now);
+      console.log(`Saved ${appended} new observations to price history at ${now}`);
+    } catch (error) {
+      console.warn('Could not save data to price history:', error);
     }
     
     // THEN: Save new current data
     Object.entries(pricesByChannel).forEach(([size, channelPrices]) => {
       const key = getChannelPricesKey(Number(size));
-      pipeline.set(key, JSON.stringify(channelPrices)); // No TTL - store forever
+      writes[key] = JSON.stringify(channelPrices); // No TTL - store forever
     });
     
     // Save metadata
     const metadata = {
       lastUpdate: now,
       totalChannels: Object.keys(pricesByChannel).length,
-      totalPrices: prices.length,
+      totalPrices: current.length,
       channelSizes: Object.keys(pricesByChannel).map(Number).sort((a, b) => a - b)
     };
-    pipeline.set(METADATA_KEY, JSON.stringify(metadata)); // No TTL - store forever
+    writes[METADATA_KEY] = JSON.stringify(metadata); // No TTL - store forever
+
+    // Price alerts compare whole channel sizes: a write of some LSPs (e.g. a force fetch of one)
+    // is merged into the stored snapshot first, so those LSPs are not mistaken for the whole market
+    const snapshotBySize: Record<number, LSPPrice[]> = {};
+    await Promise.all(Object.entries(pricesByChannel).map(async ([size, channelPrices]) => {
+      const written = new Set(channelPrices.map(price => price.lsp_id));
+      const stored = (await getLatestPrices(Number(size))).filter(price => !written.has(price.lsp_id));
+      snapshotBySize[Number(size)] = [...stored, ...channelPrices];
+    }));
     
-    await pipeline.exec();
+    await store.setMany(writes);
+
+    // Price alerts see every write; deliveries are only queued (never fails the save, see lib/price-alerts.ts)
+    const { evaluatePriceAlerts } = await import('./price-alerts');
+    await evaluatePriceAlerts(snapshotBySize);
     return true;
   } catch (error) {
     console.error('Error saving prices to database:', error);
@@ -112,13 +165,13 @@ export async function savePricesToDB(prices: LSPPrice[]): Promise<boolean> {
 // Get latest prices from database for specific channel size
 export async function getLatestPrices(channelSize: number = 1000000): Promise<LSPPrice[]> {
   try {
-    if (!redis || !isRedisConfigured()) {
-      console.error('Upstash Redis not configured or unavailable');
+    if (!store || !isStoreConfigured()) {
+      console.error('Price store not configured or unavailable');
       return [];
     }
 
     const key = getChannelPricesKey(channelSize);
-    const data = await redis.get(key);
+    const data = await store.get(key);
     
     if (!data) return [];
     
@@ -137,11 +190,11 @@ export async function getLatestPrices(channelSize: number = 1000000): Promise<LS
 // Get all available channel sizes
 export async function getAvailableChannelSizes(): Promise<number[]> {
   try {
-    if (!redis || !isRedisConfigured()) {
+    if (!store || !isStoreConfigured()) {
       return [];
     }
 
-    const keys = await redis.keys('alby:lsp:channel:*');
+    const keys = await store.keys('alby:lsp:channel:*');
     return keys
       .map(key => key.replace('alby:lsp:channel:', ''))
       .map(Number)
@@ -153,14 +206,17 @@ export async function getAvailableChannelSizes(): Promise<number[]> {
 }
 
 // Get metadata (includes last update timestamp)
-export async function getMetadata(): Promise<{lastUpdate: string, totalChannels: number, totalPrices: number, channelSizes: number[]} | null> {
+type DBMetadata = {lastUpdate: string, totalChannels: number, totalPrices: number, channelSizes: number[]};
+
+export async function getMetadata(): Promise<DBMetadata | null> {
   try {
-    if (!redis || !isRedisConfigured()) {
+    if (!store || !isStoreConfigured()) {
       return null;
     }
 
-    const data = await redis.get(METADATA_KEY);
-    return data ? JSON.parse(data as string) : null;
+    const data = await store.get<DBMetadata | string>(METADATA_KEY);
+    if (!data) return null;
+    return typeof data === 'string' ? JSON.parse(data) : data;
   } catch (error) {
     console.error('Error getting metadata:', error);
     return null;
@@ -178,62 +234,96 @@ export async function getLastUpdateTime(): Promise<string | null> {
   }
 }
 
-// Get price history from timestamp-based keys
-export async function getPriceHistory(limit: number = 50): Promise<Array<{timestamp: string, channelSize: number, prices: LSPPrice[]}>> {
-  console.log('getPriceHistory called with limit:', limit);
+export interface PriceHistoryQuery {
+  channelSize?: number;
+  lspIds?: string[];
+  from?: number; // epoch ms, inclusive
+  to?: number; // epoch ms, inclusive
+  limit?: number; // Max observations per series (newest kept)
+}
+
+// List the stored (channel size, LSP) series
+export async function listPriceSeries(channelSize?: number): Promise<Array<{ channelSize: number; lspId: string }>> {
   try {
-    console.log('isRedisConfigured():', isRedisConfigured());
-    if (!redis || !isRedisConfigured()) {
-      console.log('Redis not configured for getPriceHistory');
+    if (!store || !isStoreConfigured()) {
       return [];
     }
-    
-    console.log('Redis is configured, getting keys...');
 
-    // Get all history keys (date-based format: alby:lsp:history:YYYY-MM-DD)
-    const allKeys = await redis.keys('alby:lsp:history:*');
-    console.log('All history keys:', allKeys);
-    
-    const historyKeys = allKeys.filter(key => 
-      key.startsWith('alby:lsp:history:') && 
-      key !== 'alby:lsp:history' &&
-      key.match(/^alby:lsp:history:\d{4}-\d{2}-\d{2}$/) // Match YYYY-MM-DD format
-    );
-    
-    console.log('Filtered history keys:', historyKeys);
-    
-    // Sort by date (descending - newest first)
-    historyKeys.sort((a, b) => {
-      const dateA = a.split(':')[3]; // Get date part
-      const dateB = b.split(':')[3];
-      return dateB.localeCompare(dateA); // Descending (newest first)
+    const pattern = channelSize ? `${SERIES_KEY_PREFIX}${channelSize}:*` : `${SERIES_KEY_PREFIX}*`;
+    const keys = await store.keys(pattern);
+    return keys
+      .map(parsePriceSeriesKey)
+      .filter((series): series is { channelSize: number; lspId: string } => series !== null)
+      .sort((a, b) => a.channelSize - b.channelSize || a.lspId.localeCompare(b.lspId));
+  } catch (error) {
+    console.error('Error listing price series:', error);
+    return [];
+  }
+}
+
+// Get observations for one LSP and channel size (oldest first unless newestFirst)
+export async function getPriceSeries(
+  lspId: string,
+  channelSize: number,
+  options: { from?: number; to?: number; limit?: number; newestFirst?: boolean } = {}
+): Promise<LSPPrice[]> {
+  try {
+    if (!store || !isStoreConfigured()) {
+      return [];
+    }
+
+    const { from = -Infinity, to = Infinity, limit, newestFirst = false } = options;
+    // Limits always keep the newest observations
+    const members = await store.zrangeByScore(getPriceSeriesKey(channelSize, lspId), from, to, {
+      rev: true,
+      ...(limit !== undefined ? { offset: 0, count: limit } : {})
     });
-    
-    // Get the data for the most recent entries
-    const limitedKeys = historyKeys.slice(0, limit);
-    const historyData = await Promise.all(
-      limitedKeys.map(async (key) => {
-        const data = await redis.get(key);
-        if (!data) return null;
-        
-        // Handle both string and object data
-        if (typeof data === 'string') {
-          try {
-            return JSON.parse(data);
-          } catch (error) {
-            console.error(`Error parsing JSON for key ${key}:`, error);
-            return null;
-          }
-        } else if (typeof data === 'object') {
-          return data;
-        } else {
-          console.error(`Unexpected data type for key ${key}:`, typeof data);
-          return null;
-        }
-      })
+
+    const prices = members
+      .map(parseSeriesMember)
+      .filter((price): price is LSPPrice => price !== null);
+    return newestFirst ? prices : prices.reverse();
+  } catch (error) {
+    console.error(`Error getting price series for ${lspId} (${channelSize} sats):`, error);
+    return [];
+  }
+}
+
+// Most recent successful price for an LSP and channel size
+export async function getLastGoodPrice(lspId: string, channelSize: number, scanLimit: number = 100): Promise<LSPPrice | null> {
+  const recent = await getPriceSeries(lspId, channelSize, { limit: scanLimit, newestFirst: true });
+  return recent.find(price => !price.error && price.total_fee_msat > 0) || null;
+}
+
+// Get price history grouped by observation timestamp (newest first)
+export async function getPriceHistory(query: PriceHistoryQuery = {}): Promise<Array<{timestamp: string, channelSize: number, prices: LSPPrice[]}>> {
+  try {
+    if (!store || !isStoreConfigured()) {
+      console.log('Price store not configured for getPriceHistory');
+      return [];
+    }
+
+    const series = (await listPriceSeries(query.channelSize))
+      .filter(({ lspId }) => !query.lspIds || query.lspIds.includes(lspId));
+
+    const observations = await Promise.all(
+      series.map(({ lspId, channelSize }) =>
+        getPriceSeries(lspId, channelSize, { from: query.from, to: query.to, limit: query.limit }))
     );
-    
-    return historyData.filter(entry => entry !== null);
+
+    const grouped = new Map<string, {timestamp: string, channelSize: number, prices: LSPPrice[]}>();
+    observations.flat().forEach(price => {
+      const groupKey = `${price.timestamp}|${price.channel_size_sat}`;
+      const group = grouped.get(groupKey);
+      if (group) {
+        group.prices.push(price);
+      } else {
+        grouped.set(groupKey, { timestamp: price.timestamp, channelSize: price.channel_size_sat, prices: [price] });
+      }
+    });
+
+    return Array.from(grouped.values())
+      .sort((a, b) => Date.parse(b.timestamp) - Date.parse(a.timestamp));
   } catch (error) {
     console.error('Error getting price history:', error);
     return [];
@@ -243,26 +333,18 @@ export async function getPriceHistory(limit: number = 50): Promise<Array<{timest
 // Get prices for a specific LSP
 export async function getLSPPrices(lspId: string): Promise<LSPPrice[]> {
   try {
-    const history = await getPriceHistory();
-    const lspPrices: LSPPrice[] = [];
-    
-    history.forEach(entry => {
-      const lspPrice = entry.prices.find(price => price.lsp_id === lspId);
-      if (lspPrice) {
-        lspPrices.push(lspPrice);
-      }
-    });
+    const series = (await listPriceSeries()).filter(entry => entry.lspId === lspId);
+    const prices = await Promise.all(
+      series.map(({ channelSize }) => getPriceSeries(lspId, channelSize, { newestFirst: true }))
+    );
     
-    return lspPrices;
+    return prices.flat().sort((a, b) => Date.parse(b.timestamp) - Date.parse(a.timestamp));
   } catch (error) {
     console.error(`Error getting prices for LSP ${lspId}:`, error);
     return [];
   }
 }
 
-
-
-
 // Get database status for debugging
 export async function getDatabaseStatus(): Promise<{
   connected: boolean;
@@ -276,7 +358,7 @@ export async function getDatabaseStatus(): Promise<{
   error?: string;
 }> {
   try {
-    const configured = isRedisConfigured();
+    const configured = isStoreConfigured();
     if (!configured) {
       return {
         connected: false,
@@ -286,12 +368,12 @@ export async function getDatabaseStatus(): Promise<{
         isStale: false,
         priceCount: 0,
         historyCount: 0,
-        error: 'Redis not configured'
+        error: 'Price store not configured'
       };
     }
 
     // Test connection by getting all keys
-    if (!redis) {
+    if (!store) {
       return {
         connected: false,
         keysCount: 0,
@@ -300,11 +382,11 @@ export async function getDatabaseStatus(): Promise<{
         isStale: false,
         priceCount: 0,
         historyCount: 0,
-        error: 'Redis instance not available'
+        error: 'Price store instance not available'
       };
     }
     
-    const keys = await redis.keys('alby:lsp:*');
+    const keys = await store.keys('alby:lsp:*');
     
     // Check if we have price data
     const priceKeys = keys.filter(key => key.startsWith('alby:lsp:channel:'));
@@ -323,13 +405,13 @@ export async function getDatabaseStatus(): Promise<{
       isStale,
       lastUpdate,
       priceCount: metadata?.totalPrices || 0,
-      historyCount: (await redis.keys('alby:lsp:history:*')).filter(key => key !== 'alby:lsp:history').length
+      historyCount: keys.filter(key => key.startsWith(SERIES_KEY_PREFIX)).length
     };
   } catch (error) {
     return {
       connected: false,
       keysCount: 0,
-      configured: isRedisConfigured(),
+      configured: isStoreConfigured(),
       hasData: false,
       isStale: false,
       priceCount: 0,
@@ -342,7 +424,10 @@ export async function getDatabaseStatus(): Promise<{
 // Health status cache key
 const HEALTH_STATUS_KEY = 'alby:lsp:health:current';
 
-// Save LSP health statuses to Redis cache
+// Probe history: one sorted set per LSP, scored by check time (epoch ms)
+const getHealthHistoryKey = (lspId: string) => `alby:lsp:health:history:${lspId}`;
+
+// Save LSP health statuses to the price store: the latest snapshot plus one history entry per LSP
 export async function saveHealthStatuses(healthStatuses: Array<{
   lsp_id: string;
   is_online: boolean;
@@ -352,16 +437,30 @@ export async function saveHealthStatuses(healthStatuses: Array<{
   error_message?: string;
 }>): Promise<boolean> {
   try {
-    if (!redis || !isRedisConfigured()) {
-      console.error('Upstash Redis not configured or unavailable');
+    if (!store || !isStoreConfigured()) {
+      console.error('Price store not configured or unavailable');
       return false;
     }
 
-    await redis.set(HEALTH_STATUS_KEY, JSON.stringify({
+    await store.set(HEALTH_STATUS_KEY, JSON.stringify({
       timestamp: new Date().toISOString(),
       statuses: healthStatuses
     }));
 
+    // Append to the history and drop probes older than the longest uptime window
+    const cutoff = Date.now() - HEALTH_HISTORY_RETENTION_MS;
+    await Promise.all(healthStatuses.map(async status => {
+      const probe: HealthProbe = {
+        timestamp: status.last_check,
+        ok: status.is_online,
+        response_time_ms: status.response_time_ms,
+        ...(status.error_message ? { error: status.error_message } : {})
+      };
+      const key = getHealthHistoryKey(status.lsp_id);
+      await store.zadd(key, { score: Date.parse(status.last_check) || Date.now(), member: JSON.stringify(probe) });
+      await store.zremrangeByScore(key, -Infinity, cutoff);
+    }));
+
     console.log(`Saved health status for ${healthStatuses.length} LSPs to cache`);
     return true;
   } catch (error) {
@@ -370,7 +469,7 @@ export async function saveHealthStatuses(healthStatuses: Array<{
   }
 }
 
-// Get cached LSP health statuses from Redis
+// Get cached LSP health statuses from the price store
 export async function getHealthStatuses(): Promise<Array<{
   lsp_id: string;
   is_online: boolean;
@@ -380,12 +479,12 @@ export async function getHealthStatuses(): Promise<Array<{
   error_message?: string;
 }> | null> {
   try {
-    if (!redis || !isRedisConfigured()) {
-      console.error('Upstash Redis not configured or unavailable');
+    if (!store || !isStoreConfigured()) {
+      console.error('Price store not configured or unavailable');
       return null;
     }
 
-    const data = await redis.get(HEALTH_STATUS_KEY);
+    const data = await store.get(HEALTH_STATUS_KEY);
     if (!data) return null;
 
     const parsed = typeof data === 'string' ? JSON.parse(data) : data;
@@ -396,18 +495,33 @@ export async function getHealthStatuses(): Promise<Array<{
   }
 }
 
+// Stored health probes for an LSP since a point in time, oldest first
+export async function getHealthHistory(lspId: string, sinceMs: number = 0): Promise<HealthProbe[]> {
+  try {
+    if (!store || !isStoreConfigured()) {
+      return [];
+    }
+
+    const probes = await store.zrangeByScore<HealthProbe | string>(getHealthHistoryKey(lspId), sinceMs, Infinity);
+    return probes.map(probe => (typeof probe === 'string' ? JSON.parse(probe) as HealthProbe : probe));
+  } catch (error) {
+    console.error(`Error getting health history for ${lspId}:`, error);
+    return [];
+  }
+}
+
 // Clear all relevant cache keys
 export async function clearCache(): Promise<string[]> {
   try {
-    if (!redis || !isRedisConfigured()) {
-      console.error('Upstash Redis not configured or unavailable');
+    if (!store || !isStoreConfigured()) {
+      console.error('Price store not configured or unavailable');
       return [];
     }
     
     // Get all keys with our namespace
-    const keys = await redis.keys('alby:lsp:*');
+    const keys = await store.keys('alby:lsp:*');
     if (keys.length > 0) {
-      await redis.del(...keys);
+      await store.del(...keys);
     }
     return keys;
   } catch (error) {
@@ -0,0 +1,81 @@
+import { calculateFeePpm } from './fee-ppm';
+
+/**
+ * Fee decomposition for a channel quote
+ * LSPS1 orders and the legacy get_info `options` describe a fee as a fixed base, a
+ * percentage of the channel size and a lease component; most LSPs only send the total.
+ */
+
+// ~10 minute blocks
+export const BLOCKS_PER_DAY = 144;
+export const BLOCKS_PER_YEAR = 52560;
+
+export interface FeeComponents {
+  channel_fee_percent: number; // percent of the channel size
+  channel_fee_base_msat: number;
+  lease_fee_base_msat: number;
+  lease_fee_basis: number; // basis points of the channel size
+}
+
+export interface FeeBreakdownInput extends FeeComponents {
+  channel_size_sat: number;
+  total_fee_msat: number;
+  channel_expiry_blocks?: number | null;
+}
+
+export interface FeeBreakdown {
+  total_fee_msat: number;
+  itemized: boolean; // false when the LSP only reported a total
+  base_fee_msat: number;
+  proportional_fee_msat: number;
+  proportional_ppm: number;
+  lease_fee_msat: number;
+  other_fee_msat: number; // part of the total not explained by the components (e.g. on-chain funding)
+  effective_ppm: number | null; // total fee per million sats of channel size
+  channel_expiry_blocks: number | null;
+  channel_lifetime_days: number | null;
+  annualized_percent: number | null; // total fee as a yearly percentage of the channel size
+}
+
+const positive = (value: unknown): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : undefined;
+
+/**
+ * Pick fee components from an order, falling back per field to get_info options
+ */
+export function resolveFeeComponents(order: Partial<FeeComponents> | null | undefined, options?: Partial<FeeComponents> | null): FeeComponents {
+  const pick = (field: keyof FeeComponents) => positive(order?.[field]) ?? positive(options?.[field]) ?? 0;
+  return {
+    channel_fee_percent: pick('channel_fee_percent'),
+    channel_fee_base_msat: pick('channel_fee_base_msat'),
+    lease_fee_base_msat: pick('lease_fee_base_msat'),
+    lease_fee_basis: pick('lease_fee_basis')
+  };
+}
+
+export function calculateFeeBreakdown(price: FeeBreakdownInput): FeeBreakdown {
+  const channelSizeMsat = price.channel_size_sat * 1000;
+  const base = positive(price.channel_fee_base_msat) ?? 0;
+  const proportional = Math.round(channelSizeMsat * (positive(price.channel_fee_percent) ?? 0) / 100);
+  const lease = (positive(price.lease_fee_base_msat) ?? 0) + Math.round(channelSizeMsat * (positive(price.lease_fee_basis) ?? 0) / 10000);
+  const itemized = base + proportional + lease > 0;
+
+  const expiryBlocks = positive(price.channel_expiry_blocks) ?? null;
+  const feeShare = price.channel_size_sat > 0 ? price.total_fee_msat / channelSizeMsat : 0;
+
+  return {
+    total_fee_msat: price.total_fee_msat,
+    itemized,
+    base_fee_msat: base,
+    proportional_fee_msat: proportional,
+    proportional_ppm: Math.round((positive(price.channel_fee_percent) ?? 0) * 10000),
+    lease_fee_msat: lease,
+    other_fee_msat: itemized ? Math.max(0, price.total_fee_msat - base - proportional - lease) : 0,
+    effective_ppm: calculateFeePpm(price.total_fee_msat, price.channel_size_sat),
+    channel_expiry_blocks: expiryBlocks,
+    channel_lifetime_days: expiryBlocks ? Math.round(expiryBlocks / BLOCKS_PER_DAY * 10) / 10 : null,
+    annualized_percent: expiryBlocks && feeShare > 0
+      ? Math.round(feeShare * (BLOCKS_PER_YEAR / expiryBlocks) * 100 * 1000) / 1000
+      : null
+  };
+}
@@ -0,0 +1,157 @@
+import { calculateFeePpm } from './fee-ppm';
+import type { LSPPrice } from './lsp-api';
+import type { LSP } from './lsps';
+import { getPriceStore, isStoreConfigured } from './store';
+
+/**
+ * Fee-vs-channel-size curves
+ * One curve per LSP across every stored channel size, the size range the LSP accepts
+ * (get_info min/max_channel_balance_sat) and where the cheapest provider changes.
+ */
+
+export interface FeeCurvePoint {
+  channel_size_sat: number;
+  total_fee_msat: number;
+  fee_ppm: number | null; // total fee per million sats of channel size
+  timestamp: string;
+  source?: LSPPrice['source'];
+  in_range: boolean; // within the LSP's advertised min/max channel size
+}
+
+export interface SupportedRange {
+  min_channel_size_sat: number | null;
+  max_channel_size_sat: number | null;
+}
+
+export interface FeeCurve extends SupportedRange {
+  lsp_id: string;
+  lsp_name: string;
+  points: FeeCurvePoint[];
+}
+
+export interface CheapestAtSize {
+  channel_size_sat: number;
+  lsp_id: string;
+  lsp_name: string;
+  total_fee_msat: number;
+  fee_ppm: number | null;
+}
+
+// Size at which the cheapest provider changes
+export interface Crossover {
+  channel_size_sat: number; // first size where `to` is cheapest
+  from_lsp_id: string;
+  to_lsp_id: string;
+}
+
+export interface FeeCurves {
+  channel_sizes: number[];
+  curves: FeeCurve[];
+  cheapest: CheapestAtSize[];
+  crossovers: Crossover[];
+}
+
+const inRange = (size: number, range?: SupportedRange) =>
+  (range?.min_channel_size_sat == null || size >= range.min_channel_size_sat) &&
+  (range?.max_channel_size_sat == null || size <= range.max_channel_size_sat);
+
+/**
+ * Build curves from the latest prices per channel size (pure)
+ * Only priced quotes count (no error, fee > 0). Points outside the LSP's advertised range
+ * are kept for the chart but never count as cheapest.
+ */
+export function buildFeeCurves(pricesBySize: Record<number, LSPPrice[]>, ranges: Record<string, SupportedRange> = {}): FeeCurves {
+  const channelSizes = Object.keys(pricesBySize).map(Number).sort((a, b) => a - b);
+  const curves = new Map<string, FeeCurve>();
+
+  channelSizes.forEach(size => {
+    pricesBySize[size]
+      .filter(price => !price.error && price.total_fee_msat > 0)
+      .forEach(price => {
+        if (!curves.has(price.lsp_id)) {
+          curves.set(price.lsp_id, {
+            lsp_id: price.lsp_id,
+            lsp_name: price.lsp_name,
+            min_channel_size_sat: ranges[price.lsp_id]?.min_channel_size_sat ?? null,
+            max_channel_size_sat: ranges[price.lsp_id]?.max_channel_size_sat ?? null,
+            points: []
+          });
+        }
+        curves.get(price.lsp_id)!.points.push({
+          channel_size_sat: size,
+          total_fee_msat: price.total_fee_msat,
+          fee_ppm: calculateFeePpm(price.total_fee_msat, size),
+          timestamp: price.timestamp,
+          source: price.source,
+          in_range: inRange(size, ranges[price.lsp_id])
+        });
+      });
+  });
+
+  const cheapest = channelSizes.flatMap(size => {
+    const candidates = [...curves.values()].flatMap(curve => curve.points
+      .filter(point => point.channel_size_sat === size && point.in_range)
+      .map(point => ({ channel_size_sat: size, lsp_id: curve.lsp_id, lsp_name: curve.lsp_name, total_fee_msat: point.total_fee_msat, fee_ppm: point.fee_ppm })));
+    return candidates.sort((a, b) => a.total_fee_msat - b.total_fee_msat).slice(0, 1);
+  });
+
+  const crossovers: Crossover[] = cheapest.slice(1)
+    .map((entry, index) => ({ entry, previous: cheapest[index] }))
+    .filter(({ entry, previous }) => entry.lsp_id !== previous.lsp_id)
+    .map(({ entry, previous }) => ({ channel_size_sat: entry.channel_size_sat, from_lsp_id: previous.lsp_id, to_lsp_id: entry.lsp_id }));
+
+  return {
+    channel_sizes: channelSizes,
+    curves: [...curves.values()].sort((a, b) => a.lsp_name.localeCompare(b.lsp_name)),
+    cheapest,
+    crossovers
+  };
+}
+
+// Advertised channel size range: cached /api/lsp-metadata entry, then live get_info, then the registry
+async function getSupportedRange(lsp: LSP): Promise<SupportedRange> {
+  try {
+    const store = getPriceStore();
+    if (store && isStoreConfigured()) {
+      // Written by pages/api/lsp-metadata.ts (24h TTL)
+      const cached = await store.get<{ metadata?: { min_channel_size?: number | null; max_channel_size?: number | null } } | string>(`alby:lsp:meta:${lsp.id}`);
+      const meta = typeof cached === 'string' ? JSON.parse(cached) : cached;
+      if (meta?.metadata && (meta.metadata.min_channel_size != null || meta.metadata.max_channel_size != null)) {
+        return { min_channel_size_sat: meta.metadata.min_channel_size ?? null, max_channel_size_sat: meta.metadata.max_channel_size ?? null };
+      }
+    }
+
+    const { fetchLSPInfo } = await import('./lsp-api');
+    const { info } = await fetchLSPInfo(lsp);
+    if (info) {
+      const min = parseInt(info.min_channel_balance_sat, 10);
+      const max = parseInt(info.max_channel_balance_sat, 10);
+      return { min_channel_size_sat: Number.isFinite(min) ? min : null, max_channel_size_sat: Number.isFinite(max) ? max : null };
+    }
+  } catch (error) {
+    console.error(`Error reading channel size range for ${lsp.name}:`, error);
+  }
+
+  const { getLspRegistryEntry } = await import('./lsps');
+  return { min_channel_size_sat: getLspRegistryEntry(lsp.id)?.minChannelSizeSat ?? null, max_channel_size_sat: null };
+}
+
+// Curves for every stored channel size (1M-10M plus any custom sizes that were fetched)
+export async function getFeeCurves(): Promise<FeeCurves> {
+  const { getAvailableChannelSizes, getLatestPrices } = await import('./db');
+  const { loadActiveLSPs } = await import('./lsps');
+
+  const sizes = await getAvailableChannelSizes();
+  const pricesBySize: Record<number, LSPPrice[]> = {};
+  await Promise.all(sizes.map(async size => {
+    pricesBySize[size] = await getLatestPrices(size);
+  }));
+
+  const lsps = await loadActiveLSPs();
+  const ranges: Record<string, SupportedRange> = {};
+  await Promise.all(lsps.map(async lsp => {
+    ranges[lsp.id] = await getSupportedRange(lsp);
+  }));
+
+  return buildFeeCurves(pricesBySize, ranges);
+}
@@ -0,0 +1,193 @@
+import type { LSPPrice } from './lsp-api';
+
+/**
+ * Per-LSP fee models for channel sizes nobody fetched a quote for (e.g. 1.5M sats)
+ * An LSP fee is modelled as a fixed base plus a proportional part of the channel size:
+ *   total_fee_msat = base_fee_msat + ppm * channel_size_sat / 1000
+ * With quotes at two or more sizes the line is fitted (least squares); with a single quote the
+ * LSP's own get_info/order components (channel_fee_base_msat, channel_fee_percent) are used.
+ */
+
+export type FeeModelMethod = 'fit' | 'components' | 'proportional';
+export type EstimateConfidence = 'high' | 'medium' | 'low';
+
+export interface FeeModel {
+  lsp_id: string;
+  lsp_name: string;
+  method: FeeModelMethod;
+  base_fee_msat: number;
+  ppm: number; // proportional fee per million sats of channel size
+  sample_sizes: number[]; // channel sizes the model was built from
+  max_residual_msat: number; // largest difference between the model and a sample
+  fitted_at: string; // newest sample timestamp
+}
+
+export interface FeeEstimate {
+  method: FeeModelMethod;
+  confidence: EstimateConfidence;
+  low_fee_msat: number;
+  high_fee_msat: number;
+  base_fee_msat: number;
+  ppm: number;
+  sample_sizes: number[];
+  extrapolated: boolean; // requested size is outside the sampled sizes
+}
+
+// Relative uncertainty on top of the fit residual
+const MARGIN = {
+  fit: 0.05,
+  fitTwoSamples: 0.1,
+  components: 0.15,
+  proportional: 0.25
+};
+
+const isPriced = (price: LSPPrice) =>
+  !price.error && price.total_fee_msat > 0 && price.source !== 'estimated' && price.source !== 'lsps2';
+
+const predict = (base: number, ppm: number, size: number) => base + ppm * size / 1000;
+
+/**
+ * Fit a fee model from one LSP's stored quotes (pure)
+ * Uses the newest priced quote per channel size. Returns null without any priced quote.
+ */
+export function fitFeeModel(prices: LSPPrice[]): FeeModel | null {
+  const bySize = new Map<number, LSPPrice>();
+  prices.filter(isPriced).forEach(price => {
+    const existing = bySize.get(price.channel_size_sat);
+    if (!existing || Date.parse(price.timestamp) > Date.parse(existing.timestamp)) {
+      bySize.set(price.channel_size_sat, price);
+    }
+  });
+  const samples = [...bySize.values()].sort((a, b) => a.channel_size_sat - b.channel_size_sat);
+  if (samples.length === 0) return null;
+
+  const newest = samples.reduce((latest, price) => (Date.parse(price.timestamp) > Date.parse(latest.timestamp) ? price : latest));
+  const sampleSizes = samples.map(price => price.channel_size_sat);
+  let method: FeeModelMethod;
+  let base: number;
+  let ppm: number;
+
+  if (samples.length >= 2) {
+    method = 'fit';
+    const n = samples.length;
+    const meanX = samples.reduce((sum, p) => sum + p.channel_size_sat, 0) / n;
+    const meanY = samples.reduce((sum, p) => sum + p.total_fee_msat, 0) / n;
+    const sxx = samples.reduce((sum, p) => sum + (p.channel_size_sat - meanX) ** 2, 0);
+    const sxy = samples.reduce((sum, p) => sum + (p.channel_size_sat - meanX) * (p.total_fee_msat - meanY), 0);
+    const slope = sxy / sxx; // msat per sat
+
+    if (slope < 0) {
+      // Fee drops with size: no proportional part to speak of, use the average as a flat fee
+      base = meanY;
+      ppm = 0;
+    } else if (meanY - slope * meanX < 0) {
+      // A negative base is not a real fee; refit through the origin
+      base = 0;
+      ppm = samples.reduce((sum, p) => sum + p.channel_size_sat * p.total_fee_msat, 0) /
+        samples.reduce((sum, p) => sum + p.channel_size_sat ** 2, 0) * 1000;
+    } else {
+      base = meanY - slope * meanX;
+      ppm = slope * 1000;
+    }
+  } else {
+    const [sample] = samples;
+    const componentPpm = sample.channel_fee_percent * 10000 + sample.lease_fee_basis * 100;
+    const componentBase = sample.channel_fee_base_msat + sample.lease_fee_base_msat;
+
+    if (componentPpm + componentBase > 0) {
+      // Whatever the components do not explain (e.g. on-chain funding) is treated as fixed
+      method = 'components';
+      ppm = componentPpm;
+      base = Math.max(componentBase, sample.total_fee_msat - predict(0, componentPpm, sample.channel_size_sat));
+    } else {
+      // Only a total: scale it with the channel size
+      method = 'proportional';
+      base = 0;
+      ppm = sample.total_fee_msat / sample.channel_size_sat * 1000;
+    }
+  }
+
+  return {
+    lsp_id: samples[0].lsp_id,
+    lsp_name: samples[0].lsp_name,
+    method,
+    base_fee_msat: Math.round(base),
+    ppm: Math.round(ppm * 100) / 100,
+    sample_sizes: sampleSizes,
+    max_residual_msat: Math.round(Math.max(...samples.map(p => Math.abs(p.total_fee_msat - predict(base, ppm, p.channel_size_sat))))),
+    fitted_at: newest.timestamp
+  };
+}
+
+/**
+ * Estimate the fee for a channel size from a model (pure)
+ * The range is the largest fit residual plus a relative margin by method, doubled when the
+ * size lies outside the sampled sizes.
+ */
+export function estimateFee(model: FeeModel, channelSizeSat: number): { total_fee_msat: number; estimate: FeeEstimate } {
+  const total = Math.max(0, predict(model.base_fee_msat, model.ppm, channelSizeSat));
+  const extrapolated = channelSizeSat < model.sample_sizes[0] || channelSizeSat > model.sample_sizes[model.sample_sizes.length - 1];
+
+  const relative = model.method === 'fit'
+    ? (model.sample_sizes.length >= 3 ? MARGIN.fit : MARGIN.fitTwoSamples)
+    : MARGIN[model.method];
+  const margin = model.max_residual_msat + total * relative * (extrapolated ? 2 : 1);
+
+  const confidence: EstimateConfidence = model.method !== 'fit'
+    ? 'low'
+    : model.sample_sizes.length >= 3 && !extrapolated ? 'high' : 'medium';
+
+  return {
+    total_fee_msat: Math.round(total),
+    estimate: {
+      method: model.method,
+      confidence,
+      low_fee_msat: Math.round(Math.max(0, total - margin)),
+      high_fee_msat: Math.round(total + margin),
+      base_fee_msat: model.base_fee_msat,
+      ppm: model.ppm,
+      sample_sizes: model.sample_sizes,
+      extrapolated
+    }
+  };
+}
+
+// Estimated price row for a channel size, shaped like a stored quote
+export function createEstimatedPrice(model: FeeModel, channelSizeSat: number): LSPPrice {
+  const { total_fee_msat, estimate } = estimateFee(model, channelSizeSat);
+  return {
+    lsp_id: model.lsp_id,
+    lsp_name: model.lsp_name,
+    channel_size_sat: channelSizeSat,
+    total_fee_msat,
+    channel_fee_percent: model.ppm / 10000,
+    channel_fee_base_msat: model.base_fee_msat,
+    lease_fee_base_msat: 0,
+    lease_fee_basis: 0,
+    timestamp: model.fitted_at,
+    source: 'estimated',
+    estimate
+  };
+}
+
+// Fee models for every LSP with stored quotes, built from the latest prices of every stored size
+export async function getFeeModels(): Promise<Record<string, FeeModel>> {
+  try {
+    const { getAvailableChannelSizes, getLatestPrices } = await import('./db');
+    const sizes = await getAvailableChannelSizes();
+    const prices = (await Promise.all(sizes.map(size => getLatestPrices(size)))).flat();
+
+    const byLsp = new Map<string, LSPPrice[]>();
+    prices.forEach(price => byLsp.set(price.lsp_id, [...(byLsp.get(price.lsp_id) ?? []), price]));
+
+    const models: Record<string, FeeModel> = {};
+    byLsp.forEach((lspPrices, lspId) => {
+      const model = fitFeeModel(lspPrices);
+      if (model) models[lspId] = model;
+    });
+    return models;
+  } catch (error) {
+    console.error('Error building fee models:', error);
+    return {};
+  }
+}
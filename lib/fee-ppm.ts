@@ -0,0 +1,10 @@
+/**
+ * Fee in parts-per-million of the channel size, the one fee_ppm every output reports
+ * Kept free of imports so browser-bundled modules (lib/fee-breakdown.ts) can use it.
+ */
+
+// total_fee_msat / 1000 / channel_size_sat * 1e6, rounded to two decimals
+export function calculateFeePpm(totalFeeMsat: number, channelSizeSat: number): number | null {
+  if (!(totalFeeMsat > 0) || !(channelSizeSat > 0)) return null;
+  return Math.round((totalFeeMsat * 1000 / channelSizeSat) * 100) / 100;
+}
@@ -0,0 +1,131 @@
+import { isSuspicious } from './anomaly-rule';
+import { LSPPrice } from './lsp-api';
+import type { AnomalyReason, AnomalyStatus } from './price-anomaly';
+
+export type HistoryBucket = 'hour' | 'day' | 'week';
+
+export const HISTORY_BUCKETS: HistoryBucket[] = ['hour', 'day', 'week'];
+
+export interface HistoryBucketPoint {
+  timestamp: string; // Bucket start (UTC)
+  lsp_id: string;
+  lsp_name: string;
+  channel_size: number;
+  bucket: HistoryBucket;
+  min_fee_msat: number;
+  avg_fee_msat: number;
+  max_fee_msat: number;
+  last_fee_msat: number;
+  total_fee_msat: number; // Same as avg_fee_msat, kept for existing chart consumers
+  entry_count: number;
+  source: string;
+}
+
+// A flagged observation, placed in its bucket for charts
+export interface HistoryAnomalyPoint {
+  timestamp: string; // Bucket start (UTC)
+  observed_at: string;
+  lsp_id: string;
+  lsp_name: string;
+  total_fee_msat: number;
+  reason: AnomalyReason;
+  status: AnomalyStatus;
+  ratio: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export function isHistoryBucket(value: unknown): value is HistoryBucket {
+  return typeof value === 'string' && (HISTORY_BUCKETS as string[]).includes(value);
+}
+
+// Start of the UTC hour/day/week (weeks start on Monday, like ISO weeks)
+export function getBucketStart(timeMs: number, bucket: HistoryBucket): number {
+  if (bucket === 'hour') return Math.floor(timeMs / HOUR_MS) * HOUR_MS;
+
+  const dayStart = Math.floor(timeMs / DAY_MS) * DAY_MS;
+  if (bucket === 'day') return dayStart;
+
+  const weekday = (new Date(dayStart).getUTCDay() + 6) % 7; // Monday = 0
+  return dayStart - weekday * DAY_MS;
+}
+
+// Every bucket start between from and to, so charts can show gaps
+export function listBucketStarts(fromMs: number, toMs: number, bucket: HistoryBucket): number[] {
+  const step = bucket === 'hour' ? HOUR_MS : bucket === 'day' ? DAY_MS : 7 * DAY_MS;
+  const starts: number[] = [];
+  for (let start = getBucketStart(fromMs, bucket); start <= toMs; start += step) {
+    starts.push(start);
+  }
+  return starts;
+}
+
+/**
+ * Downsample observations into min/avg/max/last per (bucket, LSP)
+ * Failed fetches (errors or zero fees) are ignored so they do not drag the averages down,
+ * and so are unconfirmed anomalies (see listHistoryAnomalies).
+ */
+export function aggregateHistory(prices: LSPPrice[], bucket: HistoryBucket): HistoryBucketPoint[] {
+  const groups = new Map<string, LSPPrice[]>();
+
+  prices.forEach(price => {
+    if (price.error || !(price.total_fee_msat > 0) || isSuspicious(price)) return;
+    const time = Date.parse(price.timestamp);
+    if (Number.isNaN(time)) return;
+
+    const groupKey = `${getBucketStart(time, bucket)}|${price.lsp_id}`;
+    const group = groups.get(groupKey);
+    if (group) {
+      group.push(price);
+    } else {
+      groups.set(groupKey, [price]);
+    }
+  });
+
+  const points: HistoryBucketPoint[] = [];
+  groups.forEach((entries, groupKey) => {
+    const bucketStart = Number(groupKey.split('|')[0]);
+    const sorted = [...entries].sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+    const fees = sorted.map(entry => entry.total_fee_msat);
+    const last = sorted[sorted.length - 1];
+    const avg = Math.round(fees.reduce((sum, fee) => sum + fee, 0) / fees.length);
+
+    points.push({
+      timestamp: new Date(bucketStart).toISOString(),
+      lsp_id: last.lsp_id,
+      lsp_name: last.lsp_name,
+      channel_size: last.channel_size_sat,
+      bucket,
+      min_fee_msat: Math.min(...fees),
+      avg_fee_msat: avg,
+      max_fee_msat: Math.max(...fees),
+      last_fee_msat: last.total_fee_msat,
+      total_fee_msat: avg,
+      entry_count: fees.length,
+      source: last.source || 'unknown'
+    });
+  });
+
+  // Oldest first for chart display
+  return points.sort((a, b) =>
+    Date.parse(a.timestamp) - Date.parse(b.timestamp) || a.lsp_id.localeCompare(b.lsp_id));
+}
+
+// Flagged observations that are not confirmed, oldest first
+export function listHistoryAnomalies(prices: LSPPrice[], bucket: HistoryBucket): HistoryAnomalyPoint[] {
+  return prices
+    .filter(isSuspicious)
+    .filter(price => !Number.isNaN(Date.parse(price.timestamp)))
+    .map(price => ({
+      timestamp: new Date(getBucketStart(Date.parse(price.timestamp), bucket)).toISOString(),
+      observed_at: price.timestamp,
+      lsp_id: price.lsp_id,
+      lsp_name: price.lsp_name,
+      total_fee_msat: price.total_fee_msat,
+      reason: price.anomaly.reason,
+      status: price.anomaly.status,
+      ratio: price.anomaly.ratio
+    }))
+    .sort((a, b) => Date.parse(a.observed_at) - Date.parse(b.observed_at));
+}
@@ -0,0 +1,131 @@
+import { LSPPrice } from './lsp-api';
+import { LEGACY_HISTORY_KEY_PATTERN, appendPriceObservations } from './db';
+import { getPriceStore, isStoreConfigured } from './store';
+
+export interface LegacyHistoryPoint {
+  timestamp: string;
+  price: LSPPrice;
+}
+
+export interface HistoryMigrationResult {
+  dryRun: boolean;
+  legacyKeys: number;
+  pointsFound: number;
+  pointsWritten: number;
+  invalidPoints: number;
+  deletedKeys: string[];
+  errors: string[];
+}
+
+// Fix timestamps written without a leading zero in the hour ("2025-09-21T8:22:00.000Z")
+export function normalizeLegacyTimestamp(timestamp: string): string {
+  return timestamp.replace(/T(\d):/, 'T0$1:');
+}
+
+/**
+ * Flatten one legacy day blob into individual price observations
+ * Handles both layouts the app has written:
+ * - New format: { channel_<size>: { channelSize, entries: [{ timestamp, prices }] } }
+ * - Old format: { channel_<size>: { channelSize, timestamp, prices } }
+ */
+export function extractLegacyHistoryPoints(dayBlob: unknown): LegacyHistoryPoint[] {
+  if (!dayBlob || typeof dayBlob !== 'object') return [];
+
+  const points: LegacyHistoryPoint[] = [];
+  const pushPrices = (timestamp: unknown, prices: unknown, channelSize: unknown) => {
+    if (!Array.isArray(prices)) return;
+    prices.forEach((price: LSPPrice) => {
+      if (!price || typeof price !== 'object' || !price.lsp_id) return;
+
+      // Prefer the price's own fetch time, fall back to the entry time
+      const candidates = [price.timestamp, timestamp]
+        .filter((value): value is string => typeof value === 'string' && value.length > 0)
+        .map(normalizeLegacyTimestamp);
+      const observedAt = candidates.find(value => !Number.isNaN(Date.parse(value)));
+      if (!observedAt) return;
+
+      points.push({
+        timestamp: observedAt,
+        price: {
+          ...price,
+          channel_size_sat: price.channel_size_sat || Number(channelSize) || 0,
+          timestamp: new Date(observedAt).toISOString()
+        }
+      });
+    });
+  };
+
+  Object.entries(dayBlob as Record<string, unknown>).forEach(([key, channelData]) => {
+    if (!key.startsWith('channel_') || !channelData || typeof channelData !== 'object') return;
+    const data = channelData as {
+      channelSize?: number;
+      timestamp?: string;
+      prices?: unknown;
+      entries?: Array<{ timestamp?: string; prices?: unknown }>;
+    };
+    const channelSize = data.channelSize ?? Number(key.replace('channel_', ''));
+
+    if (Array.isArray(data.entries)) {
+      data.entries.forEach(entry => pushPrices(entry?.timestamp, entry?.prices, channelSize));
+    } else if (Array.isArray(data.prices)) {
+      pushPrices(data.timestamp, data.prices, channelSize);
+    }
+  });
+
+  return points;
+}
+
+/**
+ * One-shot migration of alby:lsp:history:YYYY-MM-DD blobs into per-(channel size, LSP) series
+ * Safe to re-run: identical observations are deduplicated by the sorted sets.
+ */
+export async function migrateLegacyHistory(options: { dryRun?: boolean; deleteLegacy?: boolean } = {}): Promise<HistoryMigrationResult> {
+  const { dryRun = false, deleteLegacy = false } = options;
+  const result: HistoryMigrationResult = {
+    dryRun,
+    legacyKeys: 0,
+    pointsFound: 0,
+    pointsWritten: 0,
+    invalidPoints: 0,
+    deletedKeys: [],
+    errors: []
+  };
+
+  const store = getPriceStore();
+  if (!store || !isStoreConfigured()) {
+    result.errors.push('Price store not configured or unavailable');
+    return result;
+  }
+
+  const legacyKeys = (await store.keys('alby:lsp:history:*'))
+    .filter(key => LEGACY_HISTORY_KEY_PATTERN.test(key))
+    .sort();
+  result.legacyKeys = legacyKeys.length;
+
+  for (const key of legacyKeys) {
+    try {
+      const raw = await store.get(key);
+      const dayBlob = typeof raw === 'string' ? JSON.parse(raw) : raw;
+      const points = extractLegacyHistoryPoints(dayBlob);
+      const valid = points.filter(point => point.price.channel_size_sat > 0);
+
+      result.pointsFound += points.length;
+      result.invalidPoints += points.length - valid.length;
+
+      if (!dryRun) {
+        result.pointsWritten += await appendPriceObservations(valid.map(point => point.price));
+        if (deleteLegacy) {
+          await store.del(key);
+          result.deletedKeys.push(key);
+        }
+      }
+      console.log(`📦 ${dryRun ? 'Checked' : 'Migrated'} ${key}: ${valid.length} observations`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`Error migrating ${key}:`, error);
+      result.errors.push(`${key}: ${message}`);
+    }
+  }
+
+  return result;
+}
@@ -1,4 +1,10 @@
-import { LSP } from './lsps';
+import { resolveFeeComponents } from './fee-breakdown';
+import type { FeeEstimate } from './fee-model';
+import type { JitFeeParams } from './lsps2';
+import type { PriceAnomaly } from './price-anomaly';
+import { type CircuitState, checkCircuit, getCircuitState, recordCircuitResult } from './lsp-circuit-breaker';
+import { checkRateLimit, parseRetryAfter, recordRateLimitEvent } from './lsp-rate-limit';
+import { LSP, getClientPubkeyForLSP, getLspCooldownMs, getLspRegistryEntry, getOrderOverridesForLSP } from './lsps';
 // Removed old individual LSP caching functions - using improved structure
 
 // Error taxonomy for better error handling
@@ -11,6 +17,7 @@ export enum LspErrorCode {
   CHANNEL_SIZE_TOO_SMALL = 'CHANNEL_SIZE_TOO_SMALL',
   CHANNEL_SIZE_TOO_LARGE = 'CHANNEL_SIZE_TOO_LARGE',
   RATE_LIMITED = 'RATE_LIMITED',
+  CIRCUIT_OPEN = 'CIRCUIT_OPEN',
   TLS_ERROR = 'TLS_ERROR',
   CORS_BLOCKED = 'CORS_BLOCKED',
   PEER_NOT_CONNECTED = 'PEER_NOT_CONNECTED',
@@ -84,21 +91,11 @@ async function mapLspError(response: Response): Promise<{ code: LspErrorCode; me
   }
 }
 
-// LNServer candidate URLs for autodiscovery
-const LNSERVER_CANDIDATES = [
-  'https://www.lnserver.com/lsp/wave',        // User's suggestion (likely UI route)
-  'https://lnserver.com/lsp/wave',
-  'https://lnserver.com/api/v1',              // Typical LSPS1 pattern
-  'https://lnserver.com/lsps1/api/v1',
-  'https://lsps1.lnserver.com/api/v1',        // Original attempt
-  'https://api.lnserver.com/lsps1/api/v1',    // Alternative API subdomain
-];
-
 // Cache for resolved LSP base URLs
 const resolvedBaseCache = new Map<string, string>();
 
-// Resolve LSP base URL with autodiscovery for LNServer
-async function resolveLspBase(lsp: LSP): Promise<string | null> {
+// Resolve LSP base URL, probing the registry's urlCandidates when configured (LNServer)
+export async function resolveLspBase(lsp: LSP): Promise<string | null> {
   // Allow override via environment variable
   const envKey = `${lsp.id.toUpperCase()}_LSPS1_BASE`;
   const envBase = process.env[envKey as keyof NodeJS.ProcessEnv] as string | undefined;
@@ -107,18 +104,19 @@ async function resolveLspBase(lsp: LSP): Promise<string | null> {
     return envBase;
   }
 
-  // Check cache first
-  if (resolvedBaseCache.has(lsp.id)) {
-    return resolvedBaseCache.get(lsp.id)!;
-  }
+  // Try every candidate from the registry; most LSPs only have their configured URL
+  const candidates = getLspRegistryEntry(lsp.id)?.urlCandidates ?? [lsp.url];
 
-  // For LNServer, try multiple candidates; for others, use the configured URL
-  const candidates = lsp.id === 'lnserver' ? LNSERVER_CANDIDATES : [lsp.url];
+  // Check cache first (keyed by candidates so registry edits are picked up)
+  const cacheKey = `${lsp.id}:${candidates.join('|')}`;
+  if (resolvedBaseCache.has(cacheKey)) {
+    return resolvedBaseCache.get(cacheKey)!;
+  }
   
   for (const base of candidates) {
     try {
       const infoUrl = new URL('get_info', base + '/').toString();
-      console.log(`Trying LNServer candidate: ${infoUrl}`);
+      console.log(`Trying ${lsp.name} candidate: ${infoUrl}`);
       
       const response = await fetch(infoUrl, {
         method: 'GET',
@@ -130,17 +128,17 @@ async function resolveLspBase(lsp: LSP): Promise<string | null> {
       });
       
       if (response.ok) {
-        console.log(`✅ LNServer endpoint found: ${base}`);
-        resolvedBaseCache.set(lsp.id, base);
+        console.log(`✅ ${lsp.name} endpoint found: ${base}`);
+        resolvedBaseCache.set(cacheKey, base);
         return base;
       }
     } catch (error) {
       // Continue to next candidate
-      console.log(`❌ LNServer candidate failed: ${base} - ${error instanceof Error ? error.message : 'Unknown error'}`);
+      console.log(`❌ ${lsp.name} candidate failed: ${base} - ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
   
-  console.log(`❌ No working LNServer endpoint found for ${lsp.id}`);
+  console.log(`❌ No working endpoint found for ${lsp.id}`);
   return null;
 }
 
@@ -191,6 +189,38 @@ export interface LSPS1CreateOrderResponse {
   lease_fee_base_msat: number;
   lease_fee_basis: number;
   total_fee_msat: number;
+  // LSPS1 order fields, also returned by get_order (not every LSP sends all of them)
+  order_state?: LSPS1OrderState;
+  created_at?: string;
+  channel_expiry_blocks?: number;
+  payment?: LSPS1OrderPayment;
+  channel?: { funded_at: string; funding_outpoint: string; expires_at: string } | null;
+}
+
+export type LSPS1OrderState = 'CREATED' | 'COMPLETED' | 'FAILED';
+
+// One way to pay for an order; amounts are strings per LSPS1
+export interface LSPS1PaymentOption {
+  state: 'EXPECT_PAYMENT' | 'HOLD' | 'PAID' | 'REFUNDED';
+  expires_at: string;
+  fee_total_sat: string;
+  order_total_sat: string;
+  invoice?: string; // bolt11
+  address?: string; // onchain
+  min_onchain_payment_confirmations?: number | null;
+  min_fee_for_0conf?: number;
+}
+
+// Current LSPS1 nests options per method; older LSPs return a single flat payment object
+export interface LSPS1OrderPayment {
+  bolt11?: LSPS1PaymentOption;
+  onchain?: LSPS1PaymentOption;
+  state?: string;
+  expires_at?: string;
+  fee_total_sat?: string;
+  order_total_sat?: string;
+  bolt11_invoice?: string;
+  onchain_address?: string;
 }
 
 // Additional LSPS1 types for comprehensive LSP integration
@@ -237,10 +267,17 @@ export interface LSPPrice {
   lease_fee_basis: number;
   timestamp: string;
   error?: string;
-  source?: 'live' | 'cached' | 'unavailable';
+  source?: 'live' | 'cached' | 'unavailable' | 'lsps2' | 'estimated'; // 'lsps2' = JIT channel quote (see lib/lsps2.ts), 'estimated' = from a fee model (see lib/fee-model.ts)
   stale_seconds?: number; // only when cached
   error_code?: LspErrorCode;
   raw_lsp_error?: unknown; // Store exact LSP error response for debugging
+  channel_expiry_blocks?: number; // channel lifetime the quote was made for (see lib/fee-breakdown.ts)
+  jit_fee_params?: JitFeeParams; // LSPS2 opening_fee_params entry the JIT price was computed from
+  announce_channel?: boolean; // quote was for a public (announced) channel
+  client_balance_sat?: number; // sats pushed to the client side at open
+  force_fetched?: boolean; // fetched on demand by a Pro/admin caller, skipping the cooldown
+  estimate?: FeeEstimate; // only when source is 'estimated': range and how it was derived
+  anomaly?: PriceAnomaly; // flagged as out of line with the LSP's recent prices (see lib/price-anomaly.ts)
   // New fields for cached data with live fetch errors
   live_fetch_error?: string; // Error from failed live fetch
   live_fetch_error_code?: LspErrorCode; // Error code from failed live fetch
@@ -281,6 +318,9 @@ export async function fetchLSPInfo(lsp: LSP): Promise<{ info: LSPS1GetInfoRespon
     if (!response.ok) {
       const errorInfo = toLspError(null, response);
       console.error(`Failed to fetch info from ${lsp.name}: ${response.status} ${response.statusText} - ${errorInfo.message}`);
+      if (errorInfo.code === LspErrorCode.RATE_LIMITED) {
+        await recordRateLimitEvent(lsp.id, { type: 'rate_limited', retryAfterMs: parseRetryAfter(response.headers.get('retry-after')) });
+      }
       return { info: null, error: errorInfo };
     }
 
@@ -301,21 +341,21 @@ export async function fetchLSPInfo(lsp: LSP): Promise<{ info: LSPS1GetInfoRespon
   }
 }
 
-// Get LSP-specific client public key
-function getClientPubkeyForLSP(lspId: string): string {
-  const lspPubkeys: Record<string, string> = {
-    'flashsats': '02e36a9c9e03ffc4bbf1bc9df64bdacd7736d4c97c01a1930578154a4c616ff478', // Dedicated key for Flashsats
-    'megalith': '0281575be148ae504458428cf31985b356d108e2c1bed1cc770f7ecef0bb593713', // Dedicated key for Megalith
-    'olympus': '02e36a9c9e03ffc4bbf1bc9df64bdacd7736d4c97c01a1930578154a4c616ff478', // Dedicated key for Olympus
-    // Default key for all other LSPs
-    'default': '028260d14351cfddedf5f171da5235fa958349e5d22cd75d9a6e3a8cf3f52aa16c'
-  };
-  
-  return lspPubkeys[lspId] || lspPubkeys['default'];
+// Channel lifetime we ask quotes for: up to ~3 months, bounded by get_info
+function getRequestedExpiryBlocks(info: LSPS1GetInfoResponse | undefined): number {
+  return Math.min(13140, info?.max_channel_expiry_blocks ?? 144);
+}
+
+// Order parameters that change the price of an otherwise identical channel (see lib/quote-matrix.ts)
+export interface OrderQuoteParams {
+  channel_expiry_blocks: number;
+  announce_channel: boolean;
+  client_balance_sat: number;
 }
 
 // Build a strictly LSPS1-friendly body (strings + correct field names)
-function buildOrderBodyFor(lspId: string, info: LSPS1GetInfoResponse, channelSizeSat: number, clientPubkey: string) {
+// Explicit quote params win over registry orderOverrides so every quote is labelled with what was asked.
+function buildOrderBodyFor(lspId: string, info: LSPS1GetInfoResponse, channelSizeSat: number, clientPubkey: string, params?: OrderQuoteParams) {
   const sats = String(channelSizeSat);
   const base: Record<string, unknown> = {
     public_key: clientPubkey,                 // YOUR node pubkey
@@ -326,24 +366,37 @@ function buildOrderBodyFor(lspId: string, info: LSPS1GetInfoResponse, channelSiz
     // conservative defaults bounded by get_info:
     funding_confirms_within_blocks: info?.min_funding_confirms_within_blocks ?? 6,
     required_channel_confirmations: info?.min_required_channel_confirmations ?? 3,
-    channel_expiry_blocks: Math.min(13140, info?.max_channel_expiry_blocks ?? 144),
+    channel_expiry_blocks: getRequestedExpiryBlocks(info),
   };
 
-  // Provider-specific tweaks if needed:
-  const overrides: Record<string, Record<string, unknown>> = {
-    olympus: { /* keep token off */ },
-    megalith: { /* keep token off; ensure strings */ },
-    flashsats: { /* parse fee from payment.bolt11 fallback */ },
+  // Provider-specific tweaks come from orderOverrides in the LSP registry
+  const body = { ...base, ...getOrderOverridesForLSP(lspId) };
+  if (!params) return body;
+
+  return {
+    ...body,
+    channel_expiry_blocks: params.channel_expiry_blocks,
+    announce_channel: params.announce_channel,
+    client_balance_sat: String(params.client_balance_sat)
+  };
+}
+
+// Parameters of the standard quote (what fetchLSPPrice asks every LSP for)
+export function getDefaultQuoteParams(lspId: string, info?: LSPS1GetInfoResponse): OrderQuoteParams {
+  const body = buildOrderBodyFor(lspId, info || {} as LSPS1GetInfoResponse, 0, '');
+  return {
+    channel_expiry_blocks: Number(body.channel_expiry_blocks),
+    announce_channel: body.announce_channel === true,
+    client_balance_sat: Number(body.client_balance_sat) || 0
   };
-  
-  return { ...base, ...(overrides[lspId] ?? {}) };
 }
 
 // Create order to get pricing using LSPS1 protocol (matching Alby Hub implementation)
 export async function createLSPOrder(
   lsp: LSP, 
   channelSizeSat: number = 1000000,
-  info?: LSPS1GetInfoResponse
+  info?: LSPS1GetInfoResponse,
+  params?: OrderQuoteParams
 ): Promise<LSPS1CreateOrderResponse | { error: { code: LspErrorCode; message: string }; rawLspError?: unknown } | null> {
   try {
     // Validate channel size against LSP limits
@@ -367,7 +420,8 @@ export async function createLSPOrder(
       lsp.id, 
       info || {} as LSPS1GetInfoResponse, 
       channelSizeSat, 
-      clientPubkey
+      clientPubkey,
+      params
     );
 
     // Resolve the base URL (with autodiscovery for LNServer)
@@ -406,7 +460,9 @@ export async function createLSPOrder(
     }
 
     if (!response.ok) {
-      const errorInfo = await mapLspError(response);
+      const errorInfo = response.status === 429
+        ? { code: LspErrorCode.RATE_LIMITED, message: 'Rate limited by LSP' }
+        : await mapLspError(response);
       // Always log the full response body for debugging
       console.error(`[${lsp.name}] ${response.status} ${response.statusText} body:`, rawBody || '(empty)');
       console.error(`Failed to create order with ${lsp.name}: ${response.status} ${response.statusText} - ${errorInfo.message}`);
@@ -419,6 +475,11 @@ export async function createLSPOrder(
         headers: Object.fromEntries(response.headers.entries())
       };
       
+      // Back off before asking this LSP again (Retry-After when it sends one)
+      if (errorInfo.code === LspErrorCode.RATE_LIMITED) {
+        await recordRateLimitEvent(lsp.id, { type: 'rate_limited', retryAfterMs: parseRetryAfter(response.headers.get('retry-after')) });
+      }
+      
       return { error: errorInfo, rawLspError };
     }
 
@@ -428,7 +489,16 @@ export async function createLSPOrder(
       return null;
     }
 
-    return data as LSPS1CreateOrderResponse;
+    const order = data as LSPS1CreateOrderResponse;
+    await recordRateLimitEvent(lsp.id, { type: 'success' });
+
+    // Keep the quote order so its lifecycle can be followed with get_order (lib/lsp-orders.ts)
+    if (order.order_id) {
+      const { recordCreatedOrder } = await import('./lsp-orders');
+      await recordCreatedOrder(lsp, channelSizeSat, order);
+    }
+
+    return order;
   } catch (error) {
     const errorInfo = toLspError(error);
     console.error(`Error creating order with ${lsp.name}: ${errorInfo.message}`, error);
@@ -436,76 +506,162 @@ export async function createLSPOrder(
   }
 }
 
-// Per-LSP rate limiting and backoff strategies
-const lspRateLimits: Record<string, { lastRequest: number; cooldownMs: number }> = {};
+// Look up an existing order using LSPS1 get_order
+export async function fetchLSPOrder(lsp: LSP, orderId: string): Promise<{ order: LSPS1CreateOrderResponse | null; error?: { code: LspErrorCode; message: string }; status?: number; retryAfterMs?: number | null }> {
+  try {
+    const baseUrl = await resolveLspBase(lsp);
+    if (!baseUrl) {
+      return { order: null, error: { code: LspErrorCode.URL_NOT_FOUND, message: 'LSP endpoint not found or not published' } };
+    }
+
+    const orderUrl = new URL('get_order', baseUrl + '/');
+    orderUrl.searchParams.set('order_id', orderId);
 
-// Export function to get current rate limit status
-export function getRateLimitStatus() {
+    const response = await fetch(orderUrl.toString(), {
+      method: 'GET',
+      headers: {
+        'Accept': 'application/json',
+        'User-Agent': 'Alby-LSP-PriceBoard/1.0',
+      },
+      signal: AbortSignal.timeout(5000),
+    });
+
+    if (!response.ok) {
+      const errorInfo = response.status === 429
+        ? { code: LspErrorCode.RATE_LIMITED, message: 'Rate limited by LSP' }
+        : await mapLspError(response);
+      console.error(`Failed to get order ${orderId} from ${lsp.name}: ${response.status} - ${errorInfo.message}`);
+      return {
+        order: null,
+        error: errorInfo,
+        status: response.status,
+        ...(errorInfo.code === LspErrorCode.RATE_LIMITED ? { retryAfterMs: parseRetryAfter(response.headers.get('retry-after')) } : {})
+      };
+    }
+
+    const data = await response.json();
+    if (!data || typeof data !== 'object' || !data.order_id) {
+      return { order: null, error: { code: LspErrorCode.SCHEMA_MISMATCH, message: 'Invalid get_order response' }, status: response.status };
+    }
+
+    return { order: data as LSPS1CreateOrderResponse, status: response.status };
+  } catch (error) {
+    const errorInfo = toLspError(error);
+    console.error(`Error getting order ${orderId} from ${lsp.name}: ${errorInfo.message}`);
+    return { order: null, error: errorInfo };
+  }
+}
+
+// Per-LSP rate limiting and backoff state lives in the price store (lib/lsp-rate-limit.ts)
+export async function getRateLimitStatus() {
+  const { loadActiveLSPs } = await import('./lsps');
   const now = Date.now();
-  const status: Record<string, { lastRequest: string; cooldownMs: number; timeSinceLastRequest: number; remainingCooldown: number; isRateLimited: boolean; remainingMinutes: number; cooldownMinutes: number }> = {};
-  
-  Object.entries(lspRateLimits).forEach(([lspId, limit]) => {
-    const timeSinceLastRequest = now - limit.lastRequest;
-    const remainingCooldown = Math.max(0, limit.cooldownMs - timeSinceLastRequest);
-    const isRateLimited = remainingCooldown > 0;
-    
-    status[lspId] = {
-      lastRequest: new Date(limit.lastRequest).toISOString(),
-      cooldownMs: limit.cooldownMs,
-      timeSinceLastRequest: timeSinceLastRequest,
-      remainingCooldown: remainingCooldown,
-      isRateLimited: isRateLimited,
-      remainingMinutes: Math.round(remainingCooldown / (60 * 1000)),
-      cooldownMinutes: Math.round(limit.cooldownMs / (60 * 1000))
+  const status: Record<string, {
+    lastRequest: string | null;
+    cooldownMs: number;
+    timeSinceLastRequest: number | null;
+    remainingCooldown: number;
+    isRateLimited: boolean;
+    remainingMinutes: number;
+    cooldownMinutes: number;
+    backoffMs: number;
+    consecutiveRateLimits: number;
+    lastRateLimitedAt: string | null;
+    nextAllowedAt: string | null;
+    circuitState: CircuitState;
+    consecutiveFailures: number;
+    lastFailureCode: LspErrorCode | null;
+    nextProbeAt: string | null;
+  }> = {};
+
+  for (const lsp of await loadActiveLSPs()) {
+    const { remainingMs, state } = await checkRateLimit(lsp.id);
+    const circuit = await getCircuitState(lsp.id);
+    const cooldownMs = getLspCooldownMs(lsp.id);
+    status[lsp.id] = {
+      lastRequest: state.last_request_at,
+      cooldownMs,
+      timeSinceLastRequest: state.last_request_at ? now - Date.parse(state.last_request_at) : null,
+      remainingCooldown: remainingMs,
+      isRateLimited: remainingMs > 0,
+      remainingMinutes: Math.round(remainingMs / (60 * 1000)),
+      cooldownMinutes: Math.round(cooldownMs / (60 * 1000)),
+      backoffMs: state.backoff_ms,
+      consecutiveRateLimits: state.consecutive_rate_limits,
+      lastRateLimitedAt: state.last_rate_limited_at ?? null,
+      nextAllowedAt: state.next_allowed_at,
+      circuitState: circuit.state,
+      consecutiveFailures: circuit.consecutive_failures,
+      lastFailureCode: circuit.last_failure_code ?? null,
+      nextProbeAt: circuit.next_probe_at ?? null
     };
-  });
-  
+  }
+
   return status;
 }
 
-function getLspDelay(lspId: string): number {
-  const now = Date.now();
-  const limit = lspRateLimits[lspId];
-  
-  if (!limit) {
-    // Set initial cooldown based on LSP
-    const cooldowns: Record<string, number> = {
-      'flashsats': 3 * 60 * 60 * 1000,  // 3 hours for Flashsats (very rate limited)
-      'megalith': 60 * 60 * 1000,       // 1 hour for Megalith (whitelist required)
-      'olympus': 10 * 60 * 1000,        // 10 minutes for Olympus
-      'lnserver': 10 * 60 * 1000,  // 10 minutes for LNServer Wave
-    };
-    
-    lspRateLimits[lspId] = {
-      lastRequest: now,
-      cooldownMs: cooldowns[lspId] || 10 * 60 * 1000  // 10 minutes default
-    };
-    return 0;
+/**
+ * Gate for every request that creates orders (prices, force fetches, the quote matrix)
+ * The registry cooldown / Retry-After backoff (lib/lsp-rate-limit.ts) and the circuit breaker
+ * (lib/lsp-circuit-breaker.ts) are checked first; a blocked LSP gets an error price and no
+ * request. The fetcher gets maxRetries (1 while the circuit is half-open, as a single probe),
+ * and `outcome` turns its result into the success or failure the breaker records.
+ * skipCooldown (force fetch) ignores the registry cooldown but not a Retry-After backoff.
+ */
+export async function withLiveFetchGate<T>(
+  lsp: LSP,
+  channelSizeSat: number,
+  fetcher: (maxRetries: number) => Promise<T>,
+  outcome: (result: T) => { ok: boolean; errorCode?: LspErrorCode },
+  options: { skipCooldown?: boolean } = {}
+): Promise<{ blocked: LSPPrice } | { result: T }> {
+  // Rate-limited LSPs are skipped, never waited for; callers fall back to cached data
+  const rateLimit = await checkRateLimit(lsp.id);
+  if (!rateLimit.allowed && (!options.skipCooldown || rateLimit.state.backoff_ms > 0)) {
+    return { blocked: createRateLimitedPrice(lsp, channelSizeSat, rateLimit) };
   }
-  
-  const timeSinceLastRequest = now - limit.lastRequest;
-  const remainingCooldown = Math.max(0, limit.cooldownMs - timeSinceLastRequest);
-  
-  if (remainingCooldown > 0) {
-    const minutes = Math.round(remainingCooldown / (60 * 1000));
-    console.log(`${lspId} rate limited, waiting ${minutes} minutes (${remainingCooldown}ms)`);
-    return remainingCooldown;
+
+  // Open circuits are skipped without a request; a half-open circuit gets a single attempt
+  const circuit = await checkCircuit(lsp.id);
+  if (!circuit.allowed) {
+    const minutes = Math.max(0, Math.ceil(((Date.parse(circuit.state.next_probe_at || '') || 0) - Date.now()) / (60 * 1000)));
+    console.log(`${lsp.name} circuit ${circuit.state.state} after ${circuit.state.consecutive_failures} failures, skipping live fetch`);
+    return {
+      blocked: createErrorPrice(lsp, channelSizeSat, minutes > 0
+        ? `Circuit open after ${circuit.state.consecutive_failures} consecutive failures, next probe in ${minutes} minutes`
+        : 'Circuit half-open, probe request in progress', LspErrorCode.CIRCUIT_OPEN, {
+        circuitState: circuit.state.state,
+        lastFailureCode: circuit.state.last_failure_code,
+        nextProbeAt: circuit.state.next_probe_at
+      })
+    };
   }
-  
-  limit.lastRequest = now;
-  return 0;
+
+  await recordRateLimitEvent(lsp.id, { type: 'request' });
+  const result = await fetcher(circuit.state.state === 'half_open' ? 1 : 2);
+  await recordCircuitResult(lsp.id, outcome(result));
+  return { result };
 }
 
+const priceOutcome = (price: LSPPrice | null) => ({ ok: !!price && !price.error, errorCode: price?.error_code });
+
 // Fetch price for a specific LSP with per-LSP fallback logic
 export async function fetchLSPPrice(lsp: LSP, channelSizeSat: number = 1000000): Promise<LSPPrice | null> {
-  const maxRetries = 2;
+  const gated = await withLiveFetchGate(lsp, channelSizeSat, maxRetries => fetchLSPPriceWithRetries(lsp, channelSizeSat, maxRetries), priceOutcome);
+  return 'blocked' in gated ? gated.blocked : gated.result;
+}
+
+function createRateLimitedPrice(lsp: LSP, channelSizeSat: number, rateLimit: Awaited<ReturnType<typeof checkRateLimit>>): LSPPrice {
+  const minutes = Math.ceil(rateLimit.remainingMs / (60 * 1000));
+  console.log(`${lsp.name} rate limited for another ${minutes} minutes, skipping live fetch`);
+  return createErrorPrice(lsp, channelSizeSat, `Rate limited, next request allowed in ${minutes} minutes`, LspErrorCode.RATE_LIMITED, {
+    nextAllowedAt: rateLimit.state.next_allowed_at,
+    backoffMs: rateLimit.state.backoff_ms
+  });
+}
+
+async function fetchLSPPriceWithRetries(lsp: LSP, channelSizeSat: number, maxRetries: number): Promise<LSPPrice | null> {
   let lastError: string = '';
-  
-  // Apply per-LSP rate limiting
-  const delay = getLspDelay(lsp.id);
-  if (delay > 0) {
-    await new Promise(resolve => setTimeout(resolve, delay));
-  }
 
   for (let attempt = 1; attempt <= maxRetries; attempt++) {
     try {
@@ -543,26 +699,9 @@ export async function fetchLSPPrice(lsp: LSP, channelSizeSat: number = 1000000):
       const orderResult = await createLSPOrder(lsp, channelSizeSat, infoResult.info);
       if (orderResult && !('error' in orderResult)) {
         const order = orderResult as LSPS1CreateOrderResponse;
-        const msat = extractMsatFromOrder(order as Record<string, unknown>);
-        if (msat && msat > 0) {
-          console.log(`Successfully fetched price from ${lsp.name}: ${msat} msat`);
-          
-          const livePrice: LSPPrice = {
-            lsp_id: lsp.id,
-            lsp_name: lsp.name,
-            channel_size_sat: channelSizeSat,
-            total_fee_msat: msat,
-            channel_fee_percent: order.channel_fee_percent ?? 0,
-            channel_fee_base_msat: order.channel_fee_base_msat ?? 0,
-            lease_fee_base_msat: order.lease_fee_base_msat ?? 0,
-            lease_fee_basis: order.lease_fee_basis ?? 0,
-            timestamp: new Date().toISOString(),
-            source: 'live'
-          };
-
-          // Save this successful price for future fallback
-          // Individual LSP caching removed - using improved structure
-          
+        const livePrice = toLivePrice(lsp, channelSizeSat, order, infoResult.info);
+        if (livePrice) {
+          console.log(`Successfully fetched price from ${lsp.name}: ${livePrice.total_fee_msat} msat`);
           return livePrice;
         } else {
           console.log(`Invalid order response from ${lsp.name}:`, order);
@@ -602,83 +741,43 @@ export async function fetchLSPPrice(lsp: LSP, channelSizeSat: number = 1000000):
   return createErrorPrice(lsp, channelSizeSat, lastError, errorInfo.code);
 }
 
-// Fetch price for a specific LSP bypassing rate limiting
+/**
+ * Fetch price for a specific LSP on demand (Pro/admin force fetch)
+ * Same get_info/create_order path as fetchLSPPrice, but the registry cooldown is skipped.
+ * A Retry-After backoff the LSP asked for and an open circuit breaker still apply.
+ * Callers must check authorization first (see authenticateProCaller in lib/admin-auth.ts).
+ */
 export async function fetchLSPPriceBypass(lsp: LSP, channelSizeSat: number = 1000000): Promise<LSPPrice | null> {
-  const maxRetries = 2;
-  let lastError: string = '';
-  
-  // Skip rate limiting - go directly to API calls
-  console.log(`Fetching price from ${lsp.name} (bypassing rate limit) for channel size ${channelSizeSat} sats`);
-
-  for (let attempt = 1; attempt <= maxRetries; attempt++) {
-    try {
-      console.log(`Fetching price from ${lsp.name} (attempt ${attempt}/${maxRetries}) for channel size ${channelSizeSat} sats`);
-      
-      // Get LSP info first
-      const infoResult = await fetchLSPInfo(lsp);
-      if (!infoResult.info) {
-        lastError = typeof infoResult.error === 'string' ? infoResult.error : 'Failed to get LSP info';
-        continue;
-      }
-
-      // Create order to get pricing
-      const orderResult = await createLSPOrder(lsp, channelSizeSat, infoResult.info);
-      if (!orderResult) {
-        lastError = 'Failed to create order';
-        continue;
-      }
+  console.log(`Force fetching price from ${lsp.name} (skipping cooldown) for channel size ${channelSizeSat} sats`);
 
-      // Check if we got an error response
-      if ('error' in orderResult) {
-        lastError = orderResult.error.message;
-        continue;
-      }
-
-      const order = orderResult as LSPS1CreateOrderResponse;
+  const gated = await withLiveFetchGate(lsp, channelSizeSat, maxRetries => fetchLSPPriceWithRetries(lsp, channelSizeSat, maxRetries), priceOutcome, { skipCooldown: true });
+  const price = 'blocked' in gated ? gated.blocked : gated.result;
 
-      // Extract pricing from order
-      const totalFeeMsat = extractMsatFromOrder(order as Record<string, unknown>);
-      if (totalFeeMsat === null) {
-        lastError = 'Invalid order response';
-        continue;
-      }
+  return price ? { ...price, force_fetched: true } : null;
+}
 
-      // Calculate fees
-      const channelFeePercent = (order.channel_fee_percent || 0) * 100;
-      const channelFeeBaseMsat = order.channel_fee_base_msat || 0;
-      const leaseFeeBaseMsat = order.lease_fee_base_msat || 0;
-      const leaseFeeBasis = order.lease_fee_basis || 0;
+/**
+ * Turn a create_order response into a live price
+ * Orders rarely itemize the fee; get_info options fill in what they leave out.
+ * Returns null when the order carries no usable fee.
+ */
+export function toLivePrice(lsp: LSP, channelSizeSat: number, order: LSPS1CreateOrderResponse, info: LSPS1GetInfoResponse, params?: OrderQuoteParams): LSPPrice | null {
+  const msat = extractMsatFromOrder(order as Record<string, unknown>);
+  if (!msat || msat <= 0) return null;
 
-      // Return successful price
-      return {
-        lsp_id: lsp.id,
-        lsp_name: lsp.name,
-        channel_size_sat: channelSizeSat,
-        total_fee_msat: totalFeeMsat,
-        channel_fee_percent: channelFeePercent,
-        channel_fee_base_msat: channelFeeBaseMsat,
-        lease_fee_base_msat: leaseFeeBaseMsat,
-        lease_fee_basis: leaseFeeBasis,
-        timestamp: new Date().toISOString(),
-        error: undefined,
-        source: 'live'
-      };
-    } catch (error) {
-      const errorInfo = toLspError(error);
-      lastError = errorInfo.message;
-      console.error(`Error fetching from ${lsp.name} (attempt ${attempt}):`, error);
-      
-      if (attempt === maxRetries) {
-        // Try to get cached price as fallback
-        // Individual LSP caching removed - using improved structure
-        // No cached price available
-      }
-    }
-  }
-
-  // No cache available - return error
-  const errorInfo = toLspError(null);
-  return createErrorPrice(lsp, channelSizeSat, lastError, errorInfo.code);
+  const requested = params ?? getDefaultQuoteParams(lsp.id, info);
+  return {
+    lsp_id: lsp.id,
+    lsp_name: lsp.name,
+    channel_size_sat: channelSizeSat,
+    total_fee_msat: msat,
+    ...resolveFeeComponents(order, info.options),
+    channel_expiry_blocks: order.channel_expiry_blocks ?? requested.channel_expiry_blocks,
+    announce_channel: requested.announce_channel,
+    client_balance_sat: requested.client_balance_sat,
+    timestamp: new Date().toISOString(),
+    source: 'live'
+  };
 }
 
 // Extract pricing from different LSP response formats
@@ -706,7 +805,7 @@ function extractMsatFromOrder(order: Record<string, unknown>): number | null {
 }
 
 // Helper function to create error price response
-function createErrorPrice(lsp: LSP, channelSizeSat: number, error: string, errorCode?: LspErrorCode, rawLspError?: unknown): LSPPrice {
+export function createErrorPrice(lsp: LSP, channelSizeSat: number, error: string, errorCode?: LspErrorCode, rawLspError?: unknown): LSPPrice {
   return {
     lsp_id: lsp.id,
     lsp_name: lsp.name,
@@ -727,35 +826,41 @@ function createErrorPrice(lsp: LSP, channelSizeSat: number, error: string, error
 
 // Fetch prices from all active LSPs (matching Alby Hub implementation)
 export async function fetchAllLSPPrices(channelSizeSat: number = 1000000, bypassRateLimit: boolean = false): Promise<LSPPrice[]> {
-  const { getActiveLSPs } = await import('./lsps');
-  const activeLSPs = getActiveLSPs();
+  const { loadActiveLSPs } = await import('./lsps');
+  const activeLSPs = await loadActiveLSPs();
   
   console.log(`Fetching prices from ${activeLSPs.length} LSPs for channel size ${channelSizeSat} sats (bypass rate limit: ${bypassRateLimit})`);
   
   // Use Promise.allSettled with individual timeouts to prevent hanging
   const pricePromises = activeLSPs.map(async (lsp) => {
     try {
-      // Special handling for LNServer 1M channels - they don't support this size
-      if (lsp.id === 'lnserver' && channelSizeSat === 1000000) {
-        console.log(`LNServer doesn't support 1M channels, returning channel size too small error`);
+      // Sizes below the registry's minChannelSizeSat are known to be rejected (e.g. LNServer 1M)
+      const minChannelSizeSat = getLspRegistryEntry(lsp.id)?.minChannelSizeSat;
+      if (minChannelSizeSat && channelSizeSat < minChannelSizeSat) {
+        console.log(`${lsp.name} doesn't support ${channelSizeSat} sat channels, returning channel size too small error`);
         return createErrorPrice(lsp, channelSizeSat, 'Channel size too small', LspErrorCode.CHANNEL_SIZE_TOO_SMALL, {
-          reason: 'LNServer does not support 1M channel size',
+          reason: `${lsp.name} requires at least ${minChannelSizeSat} sats`,
           timestamp: new Date().toISOString(),
           lspName: lsp.name
         });
       }
       
       // Add a timeout wrapper for each LSP to prevent hanging
+      let timer: ReturnType<typeof setTimeout> | undefined;
       const timeoutPromise = new Promise<LSPPrice>((_, reject) => {
-        setTimeout(() => reject(new Error(`LSP ${lsp.name} timeout after 12 seconds`)), 12000);
+        timer = setTimeout(() => reject(new Error(`LSP ${lsp.name} timeout after 12 seconds`)), 12000);
       });
       
       const fetchPromise = bypassRateLimit 
         ? fetchLSPPriceBypass(lsp, channelSizeSat)
         : fetchLSPPrice(lsp, channelSizeSat);
       
-      // Race between fetch and timeout
-      return await Promise.race([fetchPromise, timeoutPromise]);
+      // Race between fetch and timeout; the fetch records its own circuit result when it settles
+      try {
+        return await Promise.race([fetchPromise, timeoutPromise]);
+      } finally {
+        clearTimeout(timer);
+      }
     } catch (error) {
       console.error(`Error or timeout fetching from ${lsp.name}:`, error);
       const errorInfo = toLspError(error);
@@ -834,8 +939,8 @@ export async function fetchAllLSPCapabilities(): Promise<Array<{
   isOnline: boolean;
   lastChecked: string;
 }>> {
-  const { getActiveLSPs } = await import('./lsps');
-  const activeLSPs = getActiveLSPs();
+  const { loadActiveLSPs } = await import('./lsps');
+  const activeLSPs = await loadActiveLSPs();
   
   const capabilityPromises = activeLSPs.map(lsp => fetchLSPCapabilities(lsp));
   return Promise.all(capabilityPromises);
@@ -0,0 +1,187 @@
+import { LspErrorCode } from './lsp-api';
+import { getPriceStore, isStoreConfigured } from './store';
+
+/**
+ * Per-LSP circuit breaker, persisted in the price store
+ * closed    → requests go through; consecutive failures are counted
+ * open      → after FAILURE_THRESHOLD failures in a row nobody asks the LSP until the
+ *             open period ends (15 min, doubling on every re-open up to 6 h)
+ * half_open → one probe request is let through; success closes the circuit, failure re-opens it
+ * Only failures that say the LSP itself is unreachable or broken count; rejected channel
+ * sizes, rate limits and whitelist errors come from a working LSP.
+ */
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerState {
+  lsp_id: string;
+  state: CircuitState;
+  consecutive_failures: number;
+  open_count: number; // re-opens without a success in between, drives the open period
+  last_failure_code?: LspErrorCode;
+  last_failure_at?: string;
+  last_success_at?: string;
+  opened_at?: string;
+  next_probe_at?: string; // when an open circuit lets a probe through
+  probe_started_at?: string; // set while the half-open probe is in flight
+}
+
+export const FAILURE_THRESHOLD = 3;
+const BASE_OPEN_MS = 15 * 60 * 1000;
+const MAX_OPEN_MS = 6 * 60 * 60 * 1000;
+// A half-open probe that never reported back is given up on after this long
+const PROBE_TIMEOUT_MS = 60 * 1000;
+
+const getBreakerKey = (lspId: string) => `alby:lsp:breaker:${lspId}`;
+
+// Fallback when no store is configured (state then only lasts as long as the instance)
+const memoryStates = new Map<string, CircuitBreakerState>();
+
+// Evaluated at call time: lsp-api imports this module, so LspErrorCode is not ready at load
+export function isBreakerFailure(code: LspErrorCode | undefined): boolean {
+  switch (code) {
+    case undefined:
+    case LspErrorCode.URL_NOT_FOUND:
+    case LspErrorCode.TIMEOUT:
+    case LspErrorCode.BAD_STATUS:
+    case LspErrorCode.INVALID_JSON:
+    case LspErrorCode.TLS_ERROR:
+    case LspErrorCode.CORS_BLOCKED:
+    case LspErrorCode.UNKNOWN:
+      return true;
+    default:
+      return false;
+  }
+}
+
+export const closedCircuit = (lspId: string): CircuitBreakerState => ({
+  lsp_id: lspId,
+  state: 'closed',
+  consecutive_failures: 0,
+  open_count: 0
+});
+
+const openPeriodMs = (openCount: number) => Math.min(MAX_OPEN_MS, BASE_OPEN_MS * 2 ** Math.max(0, openCount - 1));
+
+/**
+ * Whether a request may go out now (pure)
+ * Returns the state to persist: an expired open circuit moves to half_open and
+ * records that its single probe has started.
+ */
+export function evaluateCircuit(state: CircuitBreakerState, now: Date = new Date()): { allowed: boolean; state: CircuitBreakerState } {
+  const nowMs = now.getTime();
+
+  if (state.state === 'closed') return { allowed: true, state };
+
+  if (state.state === 'half_open') {
+    const probeStarted = Date.parse(state.probe_started_at || '') || 0;
+    if (nowMs - probeStarted < PROBE_TIMEOUT_MS) return { allowed: false, state };
+    return { allowed: true, state: { ...state, probe_started_at: now.toISOString() } };
+  }
+
+  if (nowMs < (Date.parse(state.next_probe_at || '') || 0)) return { allowed: false, state };
+  return { allowed: true, state: { ...state, state: 'half_open', probe_started_at: now.toISOString() } };
+}
+
+/**
+ * Apply a request outcome (pure)
+ * errorCode undefined with ok: true is a success; see isBreakerFailure for what counts as a failure.
+ */
+export function applyCircuitResult(state: CircuitBreakerState, result: { ok: boolean; errorCode?: LspErrorCode }, now: Date = new Date()): CircuitBreakerState {
+  const nowIso = now.toISOString();
+
+  if (result.ok || !isBreakerFailure(result.errorCode)) {
+    // Any answer from a working LSP closes the circuit again
+    return { ...closedCircuit(state.lsp_id), last_success_at: nowIso, last_failure_code: state.last_failure_code, last_failure_at: state.last_failure_at };
+  }
+
+  const failures = state.consecutive_failures + 1;
+  const failed: CircuitBreakerState = {
+    ...state,
+    consecutive_failures: failures,
+    last_failure_code: result.errorCode,
+    last_failure_at: nowIso,
+    probe_started_at: undefined
+  };
+
+  if (state.state === 'half_open' || (state.state === 'closed' && failures >= FAILURE_THRESHOLD)) {
+    const openCount = state.open_count + 1;
+    return {
+      ...failed,
+      state: 'open',
+      open_count: openCount,
+      opened_at: nowIso,
+      next_probe_at: new Date(now.getTime() + openPeriodMs(openCount)).toISOString()
+    };
+  }
+
+  return failed;
+}
+
+export async function getCircuitState(lspId: string): Promise<CircuitBreakerState> {
+  try {
+    const store = getPriceStore();
+    if (!store || !isStoreConfigured()) return memoryStates.get(lspId) ?? closedCircuit(lspId);
+
+    const value = await store.get<CircuitBreakerState | string>(getBreakerKey(lspId));
+    if (!value) return closedCircuit(lspId);
+    return typeof value === 'string' ? JSON.parse(value) as CircuitBreakerState : value;
+  } catch (error) {
+    console.error(`Error reading circuit breaker for ${lspId}:`, error);
+    return memoryStates.get(lspId) ?? closedCircuit(lspId);
+  }
+}
+
+async function saveCircuitState(state: CircuitBreakerState): Promise<void> {
+  memoryStates.set(state.lsp_id, state);
+  try {
+    const store = getPriceStore();
+    if (!store || !isStoreConfigured()) return;
+    await store.set(getBreakerKey(state.lsp_id), JSON.stringify(state));
+  } catch (error) {
+    console.error(`Error saving circuit breaker for ${state.lsp_id}:`, error);
+  }
+}
+
+// Check (and, for an expired open circuit, start the half-open probe) before asking an LSP
+export async function checkCircuit(lspId: string, now: Date = new Date()): Promise<{ allowed: boolean; state: CircuitBreakerState }> {
+  const current = await getCircuitState(lspId);
+  const result = evaluateCircuit(current, now);
+  if (result.state !== current) {
+    console.log(`🔌 ${lspId} circuit half-open, sending one probe request`);
+    await saveCircuitState(result.state);
+  }
+  return result;
+}
+
+/**
+ * Record the outcome of a request to an LSP
+ * Never throws: breaker bookkeeping must not break a price fetch.
+ */
+export async function recordCircuitResult(lspId: string, result: { ok: boolean; errorCode?: LspErrorCode }, now: Date = new Date()): Promise<CircuitBreakerState> {
+  const previous = await getCircuitState(lspId);
+  // Nothing to write for the common case of a healthy LSP staying healthy
+  if (result.ok && previous.state === 'closed' && previous.consecutive_failures === 0 && previous.last_success_at) {
+    return previous;
+  }
+
+  const next = applyCircuitResult(previous, result, now);
+  if (next.state === 'open' && previous.state !== 'open') {
+    console.warn(`🔌 ${lspId} circuit opened after ${next.consecutive_failures} failures (${next.last_failure_code}), next probe at ${next.next_probe_at}`);
+  } else if (next.state === 'closed' && previous.state !== 'closed') {
+    console.log(`🔌 ${lspId} circuit closed again`);
+  }
+  await saveCircuitState(next);
+  return next;
+}
+
+export async function getCircuitStates(lspIds: string[]): Promise<CircuitBreakerState[]> {
+  return Promise.all(lspIds.map(getCircuitState));
+}
+
+// Close the circuit by hand (admin action)
+export async function resetCircuit(lspId: string): Promise<CircuitBreakerState> {
+  const state = closedCircuit(lspId);
+  await saveCircuitState(state);
+  return state;
+}
@@ -0,0 +1,299 @@
+import type { AlbyChannelSuggestion } from './alby-api';
+import { getLSPByAlbyIdentifier, getLSPById, refreshPromotedLSPs } from './lsps';
+import { LspRegistryEntry, validateLspRegistryEntry } from './lsp-registry';
+import { getPriceStore, isStoreConfigured } from './store';
+
+/**
+ * LSP discovery from Alby channel suggestions
+ * LSPs Alby lists that are not in our registry are queued as candidates, probed with
+ * get_info, and can be promoted by an admin. Promoted LSPs are merged into the registry
+ * at runtime (lib/lsps.ts), so no config change or deploy is needed.
+ */
+
+// Outside alby:lsp:* so clearing the price cache keeps the review queue and promotions
+const CANDIDATES_KEY = 'alby:discovery:candidates';
+const PROMOTED_KEY = 'alby:discovery:promoted';
+
+// Avoid slowing down a price fetch with many probes at once
+const MAX_PROBES_PER_RUN = 3;
+// Only rewrite lastSeen this often, every price fetch sees the same suggestions
+const LAST_SEEN_RESOLUTION_MS = 60 * 60 * 1000;
+
+export type DiscoveryStatus = 'pending' | 'promoted' | 'rejected';
+
+export interface DiscoveryProbe {
+  timestamp: string;
+  ok: boolean;
+  error_code?: string;
+  message?: string;
+  min_channel_balance_sat?: number;
+  max_channel_balance_sat?: number;
+}
+
+export interface DiscoveredLSP {
+  albyIdentifier: string;
+  name: string;
+  url: string; // LSPS1 base reported by Alby
+  pubkey: string;
+  image?: string;
+  description?: string;
+  minimumChannelSize?: number;
+  maximumChannelSize?: number;
+  status: DiscoveryStatus;
+  firstSeen: string;
+  lastSeen: string;
+  probe?: DiscoveryProbe;
+  reviewedBy?: string;
+  reviewedAt?: string;
+  promotedId?: string; // registry id once promoted
+}
+
+type CandidateMap = Record<string, DiscoveredLSP>;
+
+function parseStoredValue<T>(value: unknown): T | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value !== 'string') return value as T;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return null;
+  }
+}
+
+async function readCandidates(): Promise<CandidateMap> {
+  const store = getPriceStore();
+  if (!store || !isStoreConfigured()) return {};
+  return parseStoredValue<CandidateMap>(await store.get(CANDIDATES_KEY)) || {};
+}
+
+async function writeCandidates(candidates: CandidateMap): Promise<void> {
+  const store = getPriceStore();
+  if (!store || !isStoreConfigured()) return;
+  await store.set(CANDIDATES_KEY, JSON.stringify(candidates));
+}
+
+// Registry entries promoted from the queue; invalid ones are skipped with a warning
+export async function getPromotedLspEntries(): Promise<LspRegistryEntry[]> {
+  try {
+    const store = getPriceStore();
+    if (!store || !isStoreConfigured()) return [];
+
+    const entries = parseStoredValue<LspRegistryEntry[]>(await store.get(PROMOTED_KEY)) || [];
+    return entries.filter(entry => {
+      const errors = validateLspRegistryEntry(entry);
+      if (errors.length > 0) console.warn(`Skipping invalid promoted LSP ${entry?.id}:`, errors);
+      return errors.length === 0;
+    });
+  } catch (error) {
+    console.error('Error reading promoted LSPs:', error);
+    return [];
+  }
+}
+
+async function writePromotedEntries(entries: LspRegistryEntry[]): Promise<void> {
+  const store = getPriceStore();
+  if (!store || !isStoreConfigured()) throw new Error('Price store not configured');
+  await store.set(PROMOTED_KEY, JSON.stringify(entries));
+  await refreshPromotedLSPs(true);
+}
+
+// Registry id for an Alby identifier, avoiding ids already taken
+export function toDiscoveredLspId(identifier: string): string {
+  const base = identifier.toLowerCase().replace(/[^a-z0-9-]+/g, '-').replace(/^-+|-+$/g, '') || 'lsp';
+  return getLSPById(base) ? `${base}-alby` : base;
+}
+
+const isUnknownLightningLSP = (item: AlbyChannelSuggestion) =>
+  item.paymentMethod === 'lightning' &&
+  item.network === 'bitcoin' &&
+  !!item.identifier &&
+  !getLSPByAlbyIdentifier(item.identifier);
+
+/**
+ * Probe a candidate with LSPS1 get_info
+ */
+export async function probeCandidate(candidate: DiscoveredLSP): Promise<DiscoveryProbe> {
+  const { fetchLSPInfo } = await import('./lsp-api');
+  const { info, error } = await fetchLSPInfo({
+    id: toDiscoveredLspId(candidate.albyIdentifier),
+    name: candidate.name,
+    url: candidate.url,
+    pubkey: candidate.pubkey,
+    active: false
+  });
+
+  if (!info) {
+    return {
+      timestamp: new Date().toISOString(),
+      ok: false,
+      error_code: error?.code,
+      message: error?.message || 'get_info failed'
+    };
+  }
+
+  return {
+    timestamp: new Date().toISOString(),
+    ok: true,
+    min_channel_balance_sat: parseInt(info.min_channel_balance_sat, 10) || undefined,
+    max_channel_balance_sat: parseInt(info.max_channel_balance_sat, 10) || undefined
+  };
+}
+
+/**
+ * Record Alby suggestions that are not in the registry and probe the new ones
+ * Returns the identifiers seen for the first time. Never throws, discovery must not
+ * break the price fetch it piggybacks on.
+ */
+export async function recordDiscoveredLSPs(suggestions: AlbyChannelSuggestion[]): Promise<string[]> {
+  try {
+    const store = getPriceStore();
+    if (!store || !isStoreConfigured()) return [];
+
+    await refreshPromotedLSPs();
+    const unknown = suggestions.filter(isUnknownLightningLSP);
+    if (unknown.length === 0) return [];
+
+    const candidates = await readCandidates();
+    const now = new Date();
+    const newIdentifiers: string[] = [];
+    let changed = false;
+
+    for (const item of unknown) {
+      const existing = candidates[item.identifier];
+      const url = item.lspUrl || item.url;
+
+      if (!existing) {
+        candidates[item.identifier] = {
+          albyIdentifier: item.identifier,
+          name: item.name || item.identifier,
+          url,
+          pubkey: item.pubkey,
+          ...(item.image ? { image: item.image } : {}),
+          ...(item.description ? { description: item.description } : {}),
+          minimumChannelSize: item.minimumChannelSize,
+          maximumChannelSize: item.maximumChannelSize,
+          status: 'pending',
+          firstSeen: now.toISOString(),
+          lastSeen: now.toISOString()
+        };
+        newIdentifiers.push(item.identifier);
+        changed = true;
+        continue;
+      }
+
+      if (existing.url !== url || existing.pubkey !== item.pubkey ||
+          now.getTime() - Date.parse(existing.lastSeen) > LAST_SEEN_RESOLUTION_MS) {
+        candidates[item.identifier] = { ...existing, url, pubkey: item.pubkey, lastSeen: now.toISOString() };
+        changed = true;
+      }
+    }
+
+    for (const identifier of newIdentifiers.slice(0, MAX_PROBES_PER_RUN)) {
+      candidates[identifier].probe = await probeCandidate(candidates[identifier]);
+    }
+
+    if (changed) {
+      await writeCandidates(candidates);
+    }
+    if (newIdentifiers.length > 0) {
+      console.log(`🔎 Discovered ${newIdentifiers.length} new LSPs from Alby: ${newIdentifiers.join(', ')}`);
+    }
+    return newIdentifiers;
+  } catch (error) {
+    console.error('Error recording discovered LSPs:', error);
+    return [];
+  }
+}
+
+// Review queue, pending candidates first, then most recently seen
+export async function getDiscoveredLSPs(status?: DiscoveryStatus): Promise<DiscoveredLSP[]> {
+  const order: Record<DiscoveryStatus, number> = { pending: 0, promoted: 1, rejected: 2 };
+  return Object.values(await readCandidates())
+    .filter(candidate => !status || candidate.status === status)
+    .sort((a, b) => order[a.status] - order[b.status] || b.lastSeen.localeCompare(a.lastSeen));
+}
+
+async function updateCandidate(identifier: string, update: (candidate: DiscoveredLSP) => DiscoveredLSP): Promise<DiscoveredLSP> {
+  const candidates = await readCandidates();
+  const candidate = candidates[identifier];
+  if (!candidate) {
+    throw new Error(`No discovered LSP "${identifier}"`);
+  }
+  candidates[identifier] = update(candidate);
+  await writeCandidates(candidates);
+  return candidates[identifier];
+}
+
+export async function reprobeDiscoveredLSP(identifier: string): Promise<DiscoveredLSP> {
+  const candidates = await readCandidates();
+  if (!candidates[identifier]) {
+    throw new Error(`No discovered LSP "${identifier}"`);
+  }
+  const probe = await probeCandidate(candidates[identifier]);
+  return updateCandidate(identifier, candidate => ({ ...candidate, probe }));
+}
+
+/**
+ * Promote a candidate to an active LSP
+ * Requires a successful probe unless force is set.
+ */
+export async function promoteDiscoveredLSP(
+  identifier: string,
+  options: { actor: string; force?: boolean }
+): Promise<{ candidate: DiscoveredLSP; entry: LspRegistryEntry }> {
+  const candidates = await readCandidates();
+  const candidate = candidates[identifier];
+  if (!candidate) {
+    throw new Error(`No discovered LSP "${identifier}"`);
+  }
+  if (candidate.status === 'promoted') {
+    throw new Error(`${candidate.name} is already promoted`);
+  }
+  if (!candidate.probe?.ok && !options.force) {
+    throw new Error(`${candidate.name} has no successful get_info probe, re-probe it or promote with force`);
+  }
+
+  const entry: LspRegistryEntry = {
+    id: toDiscoveredLspId(identifier),
+    name: candidate.name,
+    url: candidate.url,
+    pubkey: candidate.pubkey,
+    active: true,
+    albyIdentifier: identifier,
+    ...(candidate.image ? { logo: candidate.image } : {})
+  };
+  const errors = validateLspRegistryEntry(entry);
+  if (errors.length > 0) {
+    throw new Error(`Cannot promote ${candidate.name}: ${errors.join('; ')}`);
+  }
+
+  const promoted = (await getPromotedLspEntries()).filter(existing => existing.albyIdentifier !== identifier);
+  await writePromotedEntries([...promoted, entry]);
+
+  const updated = await updateCandidate(identifier, current => ({
+    ...current,
+    status: 'promoted',
+    promotedId: entry.id,
+    reviewedBy: options.actor,
+    reviewedAt: new Date().toISOString()
+  }));
+  console.log(`✅ Promoted discovered LSP ${entry.id} (${candidate.name})`);
+  return { candidate: updated, entry };
+}
+
+/**
+ * Reject a candidate so it leaves the queue; a promoted LSP is removed from the registry again
+ */
+export async function rejectDiscoveredLSP(identifier: string, options: { actor: string }): Promise<DiscoveredLSP> {
+  const promoted = await getPromotedLspEntries();
+  if (promoted.some(entry => entry.albyIdentifier === identifier)) {
+    await writePromotedEntries(promoted.filter(entry => entry.albyIdentifier !== identifier));
+  }
+
+  return updateCandidate(identifier, candidate => ({
+    ...candidate,
+    status: 'rejected',
+    reviewedBy: options.actor,
+    reviewedAt: new Date().toISOString()
+  }));
+}
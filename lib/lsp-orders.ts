@@ -0,0 +1,375 @@
+import type { LSP } from './lsps';
+import type { LSPS1CreateOrderResponse, LSPS1OrderPayment, LSPS1OrderState, LSPS1PaymentOption } from './lsp-api';
+import { getPriceStore, isStoreConfigured } from './store';
+
+/**
+ * LSPS1 order lifecycle tracking
+ * Every quote we create with create_order is a real order on the LSP side. We keep it,
+ * poll get_order until it expires, and record how long each LSP's quote stayed payable
+ * and which payment options (bolt11 / onchain) were offered.
+ */
+
+// Order documents expire on their own; the per-LSP index keeps order ids by creation time
+const ORDER_TTL_SECONDS = 30 * 24 * 60 * 60; // 30 days
+const getOrderKey = (lspId: string, orderId: string) => `alby:lsp:order:${lspId}:${orderId}`;
+const getOrderIndexKey = (lspId: string) => `alby:lsp:orders:${lspId}`;
+
+// Stop polling orders without a declared expiry after this long
+const MAX_TRACKING_MS = 7 * 24 * 60 * 60 * 1000;
+// Orders older than this are not looked at by the poller at all
+const POLL_WINDOW_MS = MAX_TRACKING_MS + 24 * 60 * 60 * 1000;
+
+export type TrackedOrderStatus =
+  | 'tracking'   // still payable, polled with get_order
+  | 'expired'    // payment options passed their expires_at
+  | 'dropped'    // get_order stopped finding the order before it expired
+  | 'completed'  // order_state COMPLETED (someone paid, should not happen for quotes)
+  | 'failed';    // order_state FAILED
+
+export interface OrderPaymentSummary {
+  method: 'bolt11' | 'onchain';
+  state?: string;
+  fee_total_sat?: number;
+  order_total_sat?: number;
+  expires_at?: string;
+  min_onchain_payment_confirmations?: number | null;
+  min_fee_for_0conf?: number;
+}
+
+export interface TrackedOrder {
+  order_id: string;
+  lsp_id: string;
+  lsp_name: string;
+  channel_size_sat: number;
+  created_at: string; // when we created the quote
+  order_state?: LSPS1OrderState;
+  expires_at?: string; // latest expiry of the offered payment options
+  declared_validity_seconds?: number; // expires_at - created_at
+  payment_options: OrderPaymentSummary[];
+  status: TrackedOrderStatus;
+  polls: number;
+  last_polled_at?: string;
+  last_seen_at: string; // last time the LSP returned the order
+  ended_at?: string;
+  observed_validity_seconds?: number; // created_at → ended_at
+  last_error?: string;
+}
+
+export interface LspOrderSummary {
+  lsp_id: string;
+  lsp_name: string;
+  total_orders: number;
+  tracking: number;
+  statuses: Partial<Record<TrackedOrderStatus, number>>;
+  median_declared_validity_seconds: number | null;
+  median_observed_validity_seconds: number | null;
+  payment_methods: { bolt11: number; onchain: number };
+  latest: TrackedOrder | null;
+}
+
+const toNumber = (value: unknown): number | undefined => {
+  const n = typeof value === 'string' ? parseInt(value, 10) : value;
+  return typeof n === 'number' && Number.isFinite(n) ? n : undefined;
+};
+
+function summarizeOption(method: OrderPaymentSummary['method'], option: Partial<LSPS1PaymentOption>): OrderPaymentSummary {
+  return {
+    method,
+    ...(option.state ? { state: option.state } : {}),
+    ...(toNumber(option.fee_total_sat) !== undefined ? { fee_total_sat: toNumber(option.fee_total_sat) } : {}),
+    ...(toNumber(option.order_total_sat) !== undefined ? { order_total_sat: toNumber(option.order_total_sat) } : {}),
+    ...(option.expires_at ? { expires_at: option.expires_at } : {}),
+    ...(option.min_onchain_payment_confirmations !== undefined ? { min_onchain_payment_confirmations: option.min_onchain_payment_confirmations } : {}),
+    ...(option.min_fee_for_0conf !== undefined ? { min_fee_for_0conf: option.min_fee_for_0conf } : {})
+  };
+}
+
+/**
+ * Payment options of an order, for both the nested (bolt11/onchain) and the older flat
+ * payment format. Invoices and addresses are not kept, only what was offered.
+ */
+export function summarizePaymentOptions(payment: LSPS1OrderPayment | undefined | null): OrderPaymentSummary[] {
+  if (!payment || typeof payment !== 'object') return [];
+
+  const options: OrderPaymentSummary[] = [];
+  if (payment.bolt11) options.push(summarizeOption('bolt11', payment.bolt11));
+  if (payment.onchain) options.push(summarizeOption('onchain', payment.onchain));
+  if (options.length > 0) return options;
+
+  // Flat format: one state/expiry shared by an invoice and/or an address
+  const shared = {
+    state: payment.state as LSPS1PaymentOption['state'] | undefined,
+    expires_at: payment.expires_at,
+    fee_total_sat: payment.fee_total_sat,
+    order_total_sat: payment.order_total_sat
+  };
+  if (payment.bolt11_invoice) options.push(summarizeOption('bolt11', shared));
+  if (payment.onchain_address) options.push(summarizeOption('onchain', shared));
+  return options;
+}
+
+// The quote stays payable until the last payment option expires
+const getExpiry = (options: OrderPaymentSummary[]): string | undefined => {
+  const expiries = options.map(option => Date.parse(option.expires_at || '')).filter(Number.isFinite);
+  return expiries.length > 0 ? new Date(Math.max(...expiries)).toISOString() : undefined;
+};
+
+const secondsBetween = (from: string, to: string) => Math.max(0, Math.round((Date.parse(to) - Date.parse(from)) / 1000));
+
+function parseOrder(value: unknown): TrackedOrder | null {
+  if (!value) return null;
+  if (typeof value === 'object') return value as TrackedOrder;
+  try {
+    return JSON.parse(String(value)) as TrackedOrder;
+  } catch {
+    return null;
+  }
+}
+
+async function saveOrder(order: TrackedOrder): Promise<void> {
+  const store = getPriceStore();
+  if (!store || !isStoreConfigured()) return;
+  await store.set(getOrderKey(order.lsp_id, order.order_id), JSON.stringify(order), { ex: ORDER_TTL_SECONDS });
+}
+
+/**
+ * Start tracking an order returned by create_order
+ * Never throws: tracking must not break the price fetch.
+ */
+export async function recordCreatedOrder(lsp: LSP, channelSizeSat: number, response: LSPS1CreateOrderResponse): Promise<TrackedOrder | null> {
+  try {
+    const store = getPriceStore();
+    if (!store || !isStoreConfigured() || !response.order_id) return null;
+
+    const now = new Date().toISOString();
+    const paymentOptions = summarizePaymentOptions(response.payment);
+    const expiresAt = getExpiry(paymentOptions);
+
+    const order: TrackedOrder = {
+      order_id: String(response.order_id),
+      lsp_id: lsp.id,
+      lsp_name: lsp.name,
+      channel_size_sat: channelSizeSat,
+      created_at: now,
+      ...(response.order_state ? { order_state: response.order_state } : {}),
+      ...(expiresAt ? { expires_at: expiresAt, declared_validity_seconds: secondsBetween(now, expiresAt) } : {}),
+      payment_options: paymentOptions,
+      status: 'tracking',
+      polls: 0,
+      last_seen_at: now
+    };
+
+    await saveOrder(order);
+    const indexKey = getOrderIndexKey(lsp.id);
+    await store.zadd(indexKey, { score: Date.parse(now), member: order.order_id });
+    // Order documents expire after ORDER_TTL_SECONDS; drop their index entries with them
+    await store.zremrangeByScore(indexKey, -Infinity, Date.parse(now) - ORDER_TTL_SECONDS * 1000);
+    console.log(`🧾 Tracking ${lsp.name} order ${order.order_id}${expiresAt ? ` (expires ${expiresAt})` : ''}`);
+    return order;
+  } catch (error) {
+    console.error(`Error recording order from ${lsp.name}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Apply one get_order result to a tracked order (pure, so it can be tested without an LSP)
+ */
+export function applyOrderPoll(
+  order: TrackedOrder,
+  result: { order: LSPS1CreateOrderResponse | null; error?: { message: string }; status?: number },
+  now: Date = new Date()
+): TrackedOrder {
+  const nowIso = now.toISOString();
+  const next: TrackedOrder = { ...order, polls: order.polls + 1, last_polled_at: nowIso };
+  const end = (status: TrackedOrderStatus, endedAt: string): TrackedOrder => ({
+    ...next,
+    status,
+    ended_at: endedAt,
+    observed_validity_seconds: secondsBetween(order.created_at, endedAt)
+  });
+
+  if (result.order) {
+    const paymentOptions = summarizePaymentOptions(result.order.payment);
+    const expiresAt = getExpiry(paymentOptions) || order.expires_at;
+    Object.assign(next, {
+      last_seen_at: nowIso,
+      ...(result.order.order_state ? { order_state: result.order.order_state } : {}),
+      ...(paymentOptions.length > 0 ? { payment_options: paymentOptions } : {}),
+      ...(expiresAt ? { expires_at: expiresAt, declared_validity_seconds: secondsBetween(order.created_at, expiresAt) } : {})
+    });
+    delete next.last_error;
+
+    if (next.order_state === 'COMPLETED') return end('completed', nowIso);
+    if (next.order_state === 'FAILED') return end('failed', nowIso);
+    if (next.expires_at && Date.parse(next.expires_at) <= now.getTime()) return end('expired', next.expires_at);
+    return next;
+  }
+
+  // The LSP no longer knows the order: it dropped the quote (before or at its expiry)
+  if (result.status === 404) {
+    const expired = next.expires_at && Date.parse(next.expires_at) <= now.getTime();
+    return expired ? end('expired', next.expires_at!) : end('dropped', nowIso);
+  }
+
+  // Transient failure: keep polling unless the order has certainly expired by now
+  next.last_error = result.error?.message || 'get_order failed';
+  if (next.expires_at && Date.parse(next.expires_at) <= now.getTime()) return end('expired', next.expires_at);
+  if (now.getTime() - Date.parse(order.created_at) > MAX_TRACKING_MS) return end('expired', nowIso);
+  return next;
+}
+
+// Tracked orders for an LSP, newest first
+export async function getTrackedOrders(lspId: string, options: { since?: number; limit?: number } = {}): Promise<TrackedOrder[]> {
+  try {
+    const store = getPriceStore();
+    if (!store || !isStoreConfigured()) return [];
+
+    const orderIds = await store.zrangeByScore<string>(getOrderIndexKey(lspId), options.since ?? -Infinity, Infinity, {
+      rev: true,
+      offset: 0,
+      count: options.limit ?? 50
+    });
+    const orders = await Promise.all(orderIds.map(async orderId => parseOrder(await store.get(getOrderKey(lspId, String(orderId))))));
+    return orders.filter((order): order is TrackedOrder => order !== null);
+  } catch (error) {
+    console.error(`Error reading orders for ${lspId}:`, error);
+    return [];
+  }
+}
+
+/**
+ * End an order without asking the LSP when it is past its declared expiry (or, without one,
+ * tracked for too long). Returns null when the order still needs polling (pure).
+ */
+export function closeExpiredOrder(order: TrackedOrder, now: Date = new Date()): TrackedOrder | null {
+  const endedAt = order.expires_at && Date.parse(order.expires_at) <= now.getTime()
+    ? order.expires_at
+    : !order.expires_at && now.getTime() - Date.parse(order.created_at) > MAX_TRACKING_MS ? now.toISOString() : null;
+  if (!endedAt) return null;
+  return { ...order, status: 'expired', ended_at: endedAt, observed_validity_seconds: secondsBetween(order.created_at, endedAt) };
+}
+
+/**
+ * Poll get_order for every order still being tracked
+ * Expired orders are closed without a request. LSPs are polled in parallel, each LSP's orders
+ * one at a time (least recently polled first); no new poll starts after budgetMs, so a run
+ * finishes within budgetMs plus one get_order timeout (5s).
+ * get_order creates nothing, so the registry cooldown between create_order calls does not
+ * apply; LSPs in a Retry-After backoff or with a circuit that is not closed are skipped, and
+ * a 429 from get_order starts a backoff like one from create_order.
+ */
+export async function pollTrackedOrders(options: { budgetMs?: number; maxPolls?: number } = {}): Promise<{ polled: number; closed: number; ended: number; tracking: number; skipped_lsps: string[]; timed_out: boolean }> {
+  const { budgetMs = 4000, maxPolls = 100 } = options;
+  const startedAt = Date.now();
+  const { loadActiveLSPs, getLSPById } = await import('./lsps');
+  const { fetchLSPOrder, LspErrorCode } = await import('./lsp-api');
+  const { checkRateLimit, recordRateLimitEvent } = await import('./lsp-rate-limit');
+  const { getCircuitState } = await import('./lsp-circuit-breaker');
+
+  const lsps = await loadActiveLSPs();
+  const since = Date.now() - POLL_WINDOW_MS;
+  const open = (await Promise.all(lsps.map(lsp => getTrackedOrders(lsp.id, { since, limit: 200 }))))
+    .flat()
+    .filter(order => order.status === 'tracking');
+
+  // Past their expiry: nothing left to learn from the LSP
+  const pending: TrackedOrder[] = [];
+  let closed = 0;
+  for (const order of open) {
+    const expired = closeExpiredOrder(order);
+    if (expired) {
+      await saveOrder(expired);
+      closed++;
+    } else {
+      pending.push(order);
+    }
+  }
+
+  const byLsp = new Map<string, TrackedOrder[]>();
+  pending
+    .sort((a, b) => (a.last_polled_at || a.created_at).localeCompare(b.last_polled_at || b.created_at))
+    .forEach(order => byLsp.set(order.lsp_id, [...(byLsp.get(order.lsp_id) || []), order]));
+
+  let polled = 0;
+  let ended = 0;
+  let timedOut = false;
+  const skippedLsps: string[] = [];
+  await Promise.all(Array.from(byLsp.entries()).map(async ([lspId, queue]) => {
+    const lsp = getLSPById(lspId);
+    if (!lsp) return;
+
+    // Polls do not probe half-open circuits: that is left to the price fetches
+    const [rateLimit, circuit] = await Promise.all([checkRateLimit(lspId), getCircuitState(lspId)]);
+    if ((!rateLimit.allowed && rateLimit.state.backoff_ms > 0) || circuit.state !== 'closed') {
+      skippedLsps.push(lspId);
+      return;
+    }
+
+    for (const order of queue) {
+      if (Date.now() - startedAt >= budgetMs || polled >= maxPolls) {
+        timedOut = true;
+        return;
+      }
+      polled++;
+      const result = await fetchLSPOrder(lsp, order.order_id);
+      if (result.error?.code === LspErrorCode.RATE_LIMITED) {
+        // Not a poll of the order: leave it as it was and stop asking this LSP
+        await recordRateLimitEvent(lspId, { type: 'rate_limited', retryAfterMs: result.retryAfterMs });
+        skippedLsps.push(lspId);
+        return;
+      }
+      const updated = applyOrderPoll(order, result);
+      await saveOrder(updated);
+      if (updated.status !== 'tracking') {
+        ended++;
+        console.log(`🧾 ${order.lsp_name} order ${order.order_id} ${updated.status} after ${updated.observed_validity_seconds}s`);
+      }
+    }
+  }));
+
+  return { polled, closed, ended, tracking: pending.length - ended, skipped_lsps: skippedLsps, timed_out: timedOut };
+}
+
+const median = (values: number[]): number | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : Math.round((sorted[mid - 1] + sorted[mid]) / 2);
+};
+
+export function summarizeOrders(lspId: string, lspName: string, orders: TrackedOrder[]): LspOrderSummary {
+  const statuses: LspOrderSummary['statuses'] = {};
+  orders.forEach(order => {
+    statuses[order.status] = (statuses[order.status] || 0) + 1;
+  });
+
+  const declared = orders.map(order => order.declared_validity_seconds).filter((v): v is number => typeof v === 'number');
+  // Only finished orders tell how long a quote actually stayed valid
+  const observed = orders
+    .filter(order => order.status !== 'tracking')
+    .map(order => order.observed_validity_seconds)
+    .filter((v): v is number => typeof v === 'number');
+
+  return {
+    lsp_id: lspId,
+    lsp_name: orders[0]?.lsp_name || lspName,
+    total_orders: orders.length,
+    tracking: statuses.tracking || 0,
+    statuses,
+    median_declared_validity_seconds: median(declared),
+    median_observed_validity_seconds: median(observed),
+    payment_methods: {
+      bolt11: orders.filter(order => order.payment_options.some(option => option.method === 'bolt11')).length,
+      onchain: orders.filter(order => order.payment_options.some(option => option.method === 'onchain')).length
+    },
+    latest: orders[0] || null
+  };
+}
+
+// Per-LSP order summaries for the UI
+export async function getOrderSummaries(limitPerLsp: number = 50): Promise<LspOrderSummary[]> {
+  const { loadActiveLSPs } = await import('./lsps');
+  const lsps = await loadActiveLSPs();
+  return Promise.all(lsps.map(async lsp => summarizeOrders(lsp.id, lsp.name, await getTrackedOrders(lsp.id, { limit: limitPerLsp }))));
+}
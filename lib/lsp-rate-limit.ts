@@ -0,0 +1,147 @@
+import { getLspCooldownMs } from './lsps';
+import { getPriceStore, isStoreConfigured } from './store';
+
+/**
+ * Per-LSP rate limiting, persisted in the price store
+ * Every create_order counts against the LSP's limits. Between requests we wait the
+ * registry cooldown; when the LSP answers 429 we back off for its Retry-After, or
+ * exponentially (5 min, 10 min, 20 min, ... up to a day) when it does not say.
+ * Callers skip rate-limited LSPs and serve cached data instead of waiting.
+ */
+
+const INITIAL_BACKOFF_MS = 5 * 60 * 1000;
+const MAX_BACKOFF_MS = 24 * 60 * 60 * 1000;
+// State of LSPs that have not been asked for a week is dropped on its own
+const STATE_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+const getRateLimitKey = (lspId: string) => `alby:lsp:ratelimit:${lspId}`;
+
+export interface RateLimitState {
+  lsp_id: string;
+  last_request_at: string | null;
+  next_allowed_at: string | null; // no request before this time
+  backoff_ms: number; // current adaptive backoff, 0 when the LSP is not pushing back
+  consecutive_rate_limits: number;
+  last_rate_limited_at?: string;
+  retry_after_ms?: number; // last Retry-After the LSP sent
+}
+
+export type RateLimitEvent =
+  | { type: 'request' }
+  | { type: 'rate_limited'; retryAfterMs?: number | null }
+  | { type: 'success' };
+
+// Fallback when no store is configured (state then only lasts as long as the instance)
+const memoryStates = new Map<string, RateLimitState>();
+
+export const emptyRateLimitState = (lspId: string): RateLimitState => ({
+  lsp_id: lspId,
+  last_request_at: null,
+  next_allowed_at: null,
+  backoff_ms: 0,
+  consecutive_rate_limits: 0
+});
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date) into milliseconds
+ */
+export function parseRetryAfter(header: string | null | undefined, now: Date = new Date()): number | null {
+  if (!header) return null;
+  const value = header.trim();
+  if (/^\d+$/.test(value)) return Number(value) * 1000;
+
+  const date = Date.parse(value);
+  return Number.isFinite(date) ? Math.max(0, date - now.getTime()) : null;
+}
+
+/**
+ * Apply a request outcome to the state (pure)
+ * cooldownMs is the registry cooldown between regular requests.
+ */
+export function applyRateLimitEvent(state: RateLimitState, event: RateLimitEvent, cooldownMs: number, now: Date = new Date()): RateLimitState {
+  const nowMs = now.getTime();
+  const later = (ms: number) => new Date(nowMs + ms).toISOString();
+
+  switch (event.type) {
+    case 'request':
+      return {
+        ...state,
+        last_request_at: now.toISOString(),
+        // An active backoff is never shortened by a regular request
+        next_allowed_at: new Date(Math.max(nowMs + cooldownMs, Date.parse(state.next_allowed_at || '') || 0)).toISOString()
+      };
+    case 'rate_limited': {
+      const consecutive = state.consecutive_rate_limits + 1;
+      const exponential = Math.min(MAX_BACKOFF_MS, INITIAL_BACKOFF_MS * 2 ** (consecutive - 1));
+      const retryAfterMs = event.retryAfterMs ?? undefined;
+      const backoffMs = retryAfterMs !== undefined ? Math.min(MAX_BACKOFF_MS, retryAfterMs) : exponential;
+      return {
+        ...state,
+        backoff_ms: backoffMs,
+        consecutive_rate_limits: consecutive,
+        last_rate_limited_at: now.toISOString(),
+        retry_after_ms: retryAfterMs,
+        next_allowed_at: later(Math.max(backoffMs, cooldownMs))
+      };
+    }
+    case 'success':
+      return { ...state, backoff_ms: 0, consecutive_rate_limits: 0 };
+  }
+}
+
+export async function getRateLimitState(lspId: string): Promise<RateLimitState> {
+  try {
+    const store = getPriceStore();
+    if (!store || !isStoreConfigured()) return memoryStates.get(lspId) ?? emptyRateLimitState(lspId);
+
+    const value = await store.get<RateLimitState | string>(getRateLimitKey(lspId));
+    const state = value ? (typeof value === 'string' ? JSON.parse(value) as RateLimitState : value) : emptyRateLimitState(lspId);
+    memoryStates.set(lspId, state);
+    return state;
+  } catch (error) {
+    console.error(`Error reading rate limit state for ${lspId}:`, error);
+    return memoryStates.get(lspId) ?? emptyRateLimitState(lspId);
+  }
+}
+
+async function saveRateLimitState(state: RateLimitState): Promise<void> {
+  memoryStates.set(state.lsp_id, state);
+  try {
+    const store = getPriceStore();
+    if (!store || !isStoreConfigured()) return;
+    await store.set(getRateLimitKey(state.lsp_id), JSON.stringify(state), { ex: STATE_TTL_SECONDS });
+  } catch (error) {
+    console.error(`Error saving rate limit state for ${state.lsp_id}:`, error);
+  }
+}
+
+/**
+ * Record a request outcome for an LSP
+ * Never throws: rate limit bookkeeping must not break a price fetch.
+ */
+export async function recordRateLimitEvent(lspId: string, event: RateLimitEvent, now: Date = new Date()): Promise<RateLimitState> {
+  const previous = await getRateLimitState(lspId);
+  // Successes only matter when there is a backoff to clear
+  if (event.type === 'success' && previous.consecutive_rate_limits === 0 && previous.backoff_ms === 0) return previous;
+
+  const state = applyRateLimitEvent(previous, event, getLspCooldownMs(lspId), now);
+  if (event.type === 'rate_limited') {
+    console.warn(`⏳ ${lspId} rate limited us (${state.consecutive_rate_limits}x in a row), backing off ${Math.round(state.backoff_ms / 60000)} min`);
+  }
+  await saveRateLimitState(state);
+  return state;
+}
+
+// Whether a request to the LSP is allowed now, and how long until it is
+export async function checkRateLimit(lspId: string, now: Date = new Date()): Promise<{ allowed: boolean; remainingMs: number; state: RateLimitState }> {
+  const state = await getRateLimitState(lspId);
+  const remainingMs = Math.max(0, (Date.parse(state.next_allowed_at || '') || 0) - now.getTime());
+  return { allowed: remainingMs === 0, remainingMs, state };
+}
+
+// Forget backoff and cooldown for an LSP (admin action)
+export async function resetRateLimit(lspId: string): Promise<RateLimitState> {
+  const state = emptyRateLimitState(lspId);
+  await saveRateLimitState(state);
+  return state;
+}
@@ -0,0 +1,224 @@
+import bundledRegistryFile from '../config/lsps.json';
+import type { LSP } from './lsps';
+
+/**
+ * Declarative LSP registry (config/lsps.json)
+ * Validation and the bundled copy live here so client components can use them;
+ * reading and hot-reloading the file on disk happens server-side in lib/lsps.ts.
+ */
+
+export const LSP_REGISTRY_VERSION = 1;
+
+export interface LspRegistryEntry {
+  id: string;
+  name: string;
+  url: string;
+  pubkey: string; // LSP node pubkey
+  active: boolean;
+  logo?: string;
+  cooldownMinutes?: number; // minimum time between create_order calls
+  clientPubkey?: string; // pubkey sent as public_key in create_order
+  albyIdentifier?: string; // identifier used by Alby's channel suggestions API
+  orderOverrides?: Record<string, unknown>; // merged into the create_order body
+  urlCandidates?: string[]; // LSPS1 bases to probe when url is not the API base
+  minChannelSizeSat?: number; // smaller sizes are reported as CHANNEL_SIZE_TOO_SMALL without a request
+  lsps2Url?: string; // LSPS2 (JIT channel) base serving get_info; JIT prices are only fetched when set
+  lsps2Token?: string; // token passed to LSPS2 get_info when the LSP requires one
+}
+
+// Order parameter combinations quoted by the quote matrix cron (lib/quote-matrix.ts)
+export interface QuoteMatrixConfig {
+  channelExpiryBlocks: number[];
+  announceChannel: boolean[];
+  clientBalanceSat: number[];
+  maxQuotesPerLsp?: number; // create_order calls per LSP and channel size
+}
+
+export interface LspRegistry {
+  version: number;
+  defaults: {
+    cooldownMinutes: number;
+    clientPubkey: string;
+    quoteMatrix?: QuoteMatrixConfig;
+  };
+  lsps: LspRegistryEntry[];
+}
+
+// Fields the app controls itself; overriding them would break the quote
+const PROTECTED_ORDER_FIELDS = ['public_key', 'channel_size_sat', 'lsp_balance_sat'];
+
+const LSP_ID_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+const PUBKEY_PATTERN = /^0[23][0-9a-f]{64}$/i;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isHttpUrl = (value: unknown): boolean => {
+  if (typeof value !== 'string') return false;
+  try {
+    const url = new URL(value);
+    return url.protocol === 'https:' || url.protocol === 'http:';
+  } catch {
+    return false;
+  }
+};
+
+// Validation errors for a single LSP entry (empty when valid)
+export function validateLspRegistryEntry(entry: unknown, index: number = 0): string[] {
+  const at = `lsps[${index}]`;
+  if (!isPlainObject(entry)) return [`${at} must be an object`];
+
+  const errors: string[] = [];
+  const label = typeof entry.id === 'string' ? `${at} (${entry.id})` : at;
+
+  if (typeof entry.id !== 'string' || !LSP_ID_PATTERN.test(entry.id)) {
+    errors.push(`${at}.id must be lowercase letters, digits and dashes`);
+  }
+  if (typeof entry.name !== 'string' || !entry.name.trim()) {
+    errors.push(`${label}.name is required`);
+  }
+  if (!isHttpUrl(entry.url)) {
+    errors.push(`${label}.url must be an http(s) URL`);
+  }
+  if (typeof entry.pubkey !== 'string' || !PUBKEY_PATTERN.test(entry.pubkey)) {
+    errors.push(`${label}.pubkey must be a 33-byte compressed node pubkey in hex`);
+  }
+  if (typeof entry.active !== 'boolean') {
+    errors.push(`${label}.active must be true or false`);
+  }
+  if (entry.logo !== undefined && typeof entry.logo !== 'string') {
+    errors.push(`${label}.logo must be a string`);
+  }
+  if (entry.cooldownMinutes !== undefined && (typeof entry.cooldownMinutes !== 'number' || !(entry.cooldownMinutes >= 0))) {
+    errors.push(`${label}.cooldownMinutes must be a non-negative number`);
+  }
+  if (entry.clientPubkey !== undefined && (typeof entry.clientPubkey !== 'string' || !PUBKEY_PATTERN.test(entry.clientPubkey))) {
+    errors.push(`${label}.clientPubkey must be a 33-byte compressed node pubkey in hex`);
+  }
+  if (entry.albyIdentifier !== undefined && (typeof entry.albyIdentifier !== 'string' || !entry.albyIdentifier.trim())) {
+    errors.push(`${label}.albyIdentifier must be a non-empty string`);
+  }
+  if (entry.orderOverrides !== undefined) {
+    if (!isPlainObject(entry.orderOverrides)) {
+      errors.push(`${label}.orderOverrides must be an object`);
+    } else {
+      PROTECTED_ORDER_FIELDS.filter(field => field in (entry.orderOverrides as Record<string, unknown>)).forEach(field => {
+        errors.push(`${label}.orderOverrides may not set ${field}`);
+      });
+    }
+  }
+  if (entry.urlCandidates !== undefined && (!Array.isArray(entry.urlCandidates) || !entry.urlCandidates.every(isHttpUrl))) {
+    errors.push(`${label}.urlCandidates must be a list of http(s) URLs`);
+  }
+  if (entry.minChannelSizeSat !== undefined && (!Number.isInteger(entry.minChannelSizeSat) || (entry.minChannelSizeSat as number) <= 0)) {
+    errors.push(`${label}.minChannelSizeSat must be a positive integer`);
+  }
+  if (entry.lsps2Url !== undefined && !isHttpUrl(entry.lsps2Url)) {
+    errors.push(`${label}.lsps2Url must be an http(s) URL`);
+  }
+  if (entry.lsps2Token !== undefined && (typeof entry.lsps2Token !== 'string' || !entry.lsps2Token)) {
+    errors.push(`${label}.lsps2Token must be a non-empty string`);
+  }
+
+  return errors;
+}
+
+function validateQuoteMatrix(matrix: unknown): string[] {
+  if (!isPlainObject(matrix)) return ['defaults.quoteMatrix must be an object'];
+
+  const errors: string[] = [];
+  const isPositiveInt = (value: unknown) => Number.isInteger(value) && (value as number) > 0;
+  const isNonNegativeInt = (value: unknown) => Number.isInteger(value) && (value as number) >= 0;
+
+  if (!Array.isArray(matrix.channelExpiryBlocks) || matrix.channelExpiryBlocks.length === 0 || !matrix.channelExpiryBlocks.every(isPositiveInt)) {
+    errors.push('defaults.quoteMatrix.channelExpiryBlocks must be a non-empty list of positive block counts');
+  }
+  if (!Array.isArray(matrix.announceChannel) || matrix.announceChannel.length === 0 || !matrix.announceChannel.every(value => typeof value === 'boolean')) {
+    errors.push('defaults.quoteMatrix.announceChannel must be a non-empty list of true/false');
+  }
+  if (!Array.isArray(matrix.clientBalanceSat) || matrix.clientBalanceSat.length === 0 || !matrix.clientBalanceSat.every(isNonNegativeInt)) {
+    errors.push('defaults.quoteMatrix.clientBalanceSat must be a non-empty list of non-negative sat amounts');
+  }
+  if (matrix.maxQuotesPerLsp !== undefined && !isPositiveInt(matrix.maxQuotesPerLsp)) {
+    errors.push('defaults.quoteMatrix.maxQuotesPerLsp must be a positive integer');
+  }
+
+  return errors;
+}
+
+/**
+ * Validate a parsed registry file
+ * All problems are reported at once so operators can fix the file in one go.
+ */
+export function validateLspRegistry(raw: unknown): { valid: true; registry: LspRegistry } | { valid: false; errors: string[] } {
+  if (!isPlainObject(raw)) {
+    return { valid: false, errors: ['Registry must be a JSON object'] };
+  }
+
+  const errors: string[] = [];
+
+  if (raw.version !== LSP_REGISTRY_VERSION) {
+    errors.push(`Unsupported registry version "${raw.version}", expected ${LSP_REGISTRY_VERSION}`);
+  }
+
+  const defaults = raw.defaults;
+  if (!isPlainObject(defaults)) {
+    errors.push('defaults must be an object with cooldownMinutes and clientPubkey');
+  } else {
+    if (typeof defaults.cooldownMinutes !== 'number' || !(defaults.cooldownMinutes >= 0)) {
+      errors.push('defaults.cooldownMinutes must be a non-negative number');
+    }
+    if (typeof defaults.clientPubkey !== 'string' || !PUBKEY_PATTERN.test(defaults.clientPubkey)) {
+      errors.push('defaults.clientPubkey must be a 33-byte compressed node pubkey in hex');
+    }
+    if (defaults.quoteMatrix !== undefined) {
+      errors.push(...validateQuoteMatrix(defaults.quoteMatrix));
+    }
+  }
+
+  if (!Array.isArray(raw.lsps) || raw.lsps.length === 0) {
+    errors.push('lsps must be a non-empty list');
+  } else {
+    raw.lsps.forEach((entry, index) => errors.push(...validateLspRegistryEntry(entry, index)));
+
+    // Ids and Alby identifiers are lookup keys, so they must be unique
+    const seenIds = new Set<string>();
+    const seenAlby = new Set<string>();
+    (raw.lsps as Array<Partial<LspRegistryEntry>>).forEach(entry => {
+      if (typeof entry?.id === 'string') {
+        if (seenIds.has(entry.id)) errors.push(`Duplicate LSP id "${entry.id}"`);
+        seenIds.add(entry.id);
+      }
+      if (typeof entry?.albyIdentifier === 'string') {
+        if (seenAlby.has(entry.albyIdentifier)) errors.push(`Duplicate albyIdentifier "${entry.albyIdentifier}"`);
+        seenAlby.add(entry.albyIdentifier);
+      }
+    });
+  }
+
+  return errors.length > 0 ? { valid: false, errors } : { valid: true, registry: raw as unknown as LspRegistry };
+}
+
+// Public LSP shape for an entry (registry-only settings stay server-side)
+export const toLSP = (entry: LspRegistryEntry): LSP => ({
+  id: entry.id,
+  name: entry.name,
+  url: entry.url,
+  pubkey: entry.pubkey,
+  active: entry.active,
+  ...(entry.logo ? { logo: entry.logo } : {})
+});
+
+const bundledValidation = validateLspRegistry(bundledRegistryFile);
+if (!bundledValidation.valid) {
+  throw new Error(`config/lsps.json is invalid: ${bundledValidation.errors.join('; ')}`);
+}
+
+// Registry as shipped with the build; used until (or instead of) a file on disk
+export const BUNDLED_LSP_REGISTRY: LspRegistry = bundledValidation.registry;
+
+// Lookup against the bundled registry, safe for client components
+export function getBundledLSPById(id: string): LSP | undefined {
+  const entry = BUNDLED_LSP_REGISTRY.lsps.find(lsp => lsp.id === id);
+  return entry ? toLSP(entry) : undefined;
+}
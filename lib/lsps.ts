@@ -1,3 +1,7 @@
+import fs from 'fs';
+import path from 'path';
+import { BUNDLED_LSP_REGISTRY, LspRegistry, LspRegistryEntry, toLSP, validateLspRegistry } from './lsp-registry';
+
 export interface LSP {
   id: string;
   name: string;
@@ -17,53 +21,179 @@ export interface LSP {
   };
 }
 
-export const LSPS: LSP[] = [
-  {
-    id: 'olympus',
-    name: 'Olympus',
-    url: 'https://lsps1.lnolymp.us/api/v1',
-    pubkey: '031b301307574bbe9b9ac7b79cbe1700e31e544513eae0b5d7497483083f99e581',
-    active: true
-  },
-  {
-    id: 'lnserver',
-    name: 'LNServer Wave',
-    // TODO: LNServer exists and operates Wave/Focus/Zoom nodes (see https://lnserver.com/ournodes)
-    // but doesn't publicly document LSPS1 REST API endpoints yet. 
-    // Using placeholder URL - will be resolved via autodiscovery in lsp-api.ts
-    url: 'https://lnserver.com',
-    pubkey: '02b4552a7a85274e4da01a7c71ca57407181752e8568b31d51f13c110a2941dce3',
-    active: true
-  },
-  {
-    id: 'megalith',
-    name: 'Megalith',
-    url: 'https://megalithic.me/api/lsps1/v1',
-    pubkey: '03e30fda71887a916ef5548a4d02b06fe04aaa1a8de9e24134ce7f139cf79d7579',
-    active: true
-  },
-  {
-    id: 'flashsats',
-    name: 'Flashsats',
-    url: 'https://flashsats.xyz/api/v1',
-    pubkey: '02e4971e61a3f55718ae31e2eed19aaf2e32caf3eb5ef5ff03e01aa3ada8907e78',
-    active: true
+const DEFAULT_REGISTRY_PATH = 'config/lsps.json';
+// How often the registry file is checked for changes
+const REGISTRY_CHECK_INTERVAL_MS = 5000;
+
+export interface LspRegistryStatus {
+  path: string;
+  source: 'file' | 'bundled';
+  loadedAt: string;
+  lspCount: number;
+  activeCount: number;
+  promotedCount: number; // LSPs promoted from the discovery queue (lib/lsp-discovery.ts)
+  errors: string[]; // validation errors of the last rejected file, if any
+}
+
+let currentRegistry: LspRegistry = BUNDLED_LSP_REGISTRY;
+let registrySource: LspRegistryStatus['source'] = 'bundled';
+let registryLoadedAt = new Date();
+let registryErrors: string[] = [];
+let loadedMtimeMs: number | null = null;
+let lastCheckAt = 0;
+let missingFileWarned = false;
+
+// Entries promoted from the discovery queue live in the price store and are merged in here
+const PROMOTED_REFRESH_INTERVAL_MS = 60 * 1000;
+let promotedEntries: LspRegistryEntry[] = [];
+let promotedLoadedAt = 0;
+
+export const getLspRegistryPath = (): string =>
+  path.resolve(process.cwd(), process.env.LSP_REGISTRY_PATH || DEFAULT_REGISTRY_PATH);
+
+/**
+ * Re-read the registry file when its mtime changes
+ * An invalid file is rejected and the previous registry stays active, so a typo
+ * cannot take every LSP offline. Without a readable file the bundled copy is used.
+ */
+function refreshRegistry(force: boolean = false): void {
+  const now = Date.now();
+  if (!force && now - lastCheckAt < REGISTRY_CHECK_INTERVAL_MS) return;
+  lastCheckAt = now;
+
+  const registryPath = getLspRegistryPath();
+  let mtimeMs: number;
+  try {
+    mtimeMs = fs.statSync(registryPath).mtimeMs;
+  } catch {
+    if (process.env.LSP_REGISTRY_PATH && !missingFileWarned) {
+      missingFileWarned = true;
+      console.warn(`LSP registry ${registryPath} not found, using ${registrySource === 'file' ? 'last loaded' : 'bundled'} registry`);
+    }
+    return;
+  }
+
+  if (!force && mtimeMs === loadedMtimeMs) return;
+  loadedMtimeMs = mtimeMs;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(registryPath, 'utf8'));
+  } catch (error) {
+    registryErrors = [`Could not parse ${registryPath}: ${error instanceof Error ? error.message : 'Unknown error'}`];
+    console.error(`❌ LSP registry rejected, keeping previous registry: ${registryErrors[0]}`);
+    return;
+  }
+
+  const validation = validateLspRegistry(parsed);
+  if (!validation.valid) {
+    registryErrors = validation.errors;
+    console.error(`❌ LSP registry rejected, keeping previous registry:`, validation.errors);
+    return;
   }
-];
+
+  currentRegistry = validation.registry;
+  registrySource = 'file';
+  registryLoadedAt = new Date();
+  registryErrors = [];
+  console.log(`📋 Loaded LSP registry from ${registryPath} (${currentRegistry.lsps.length} LSPs)`);
+}
+
+/**
+ * Reload promoted LSPs from the store
+ * Lookups are synchronous, so async entry points call this (or loadActiveLSPs) first.
+ */
+export async function refreshPromotedLSPs(force: boolean = false): Promise<void> {
+  const now = Date.now();
+  if (!force && now - promotedLoadedAt < PROMOTED_REFRESH_INTERVAL_MS) return;
+  promotedLoadedAt = now;
+
+  const { getPromotedLspEntries } = await import('./lsp-discovery');
+  promotedEntries = await getPromotedLspEntries();
+}
+
+// File registry plus promoted LSPs; the file wins when an id or Alby identifier is in both
+export function getLspRegistry(): LspRegistry {
+  refreshRegistry();
+  if (promotedEntries.length === 0) return currentRegistry;
+
+  const ids = new Set(currentRegistry.lsps.map(lsp => lsp.id));
+  const albyIdentifiers = new Set(currentRegistry.lsps.map(lsp => lsp.albyIdentifier).filter(Boolean));
+  const promoted = promotedEntries.filter(entry =>
+    !ids.has(entry.id) && !(entry.albyIdentifier && albyIdentifiers.has(entry.albyIdentifier))
+  );
+  return { ...currentRegistry, lsps: [...currentRegistry.lsps, ...promoted] };
+}
+
+export function getLspRegistryStatus(): LspRegistryStatus {
+  const registry = getLspRegistry();
+  return {
+    path: getLspRegistryPath(),
+    source: registrySource,
+    loadedAt: registryLoadedAt.toISOString(),
+    lspCount: registry.lsps.length,
+    activeCount: registry.lsps.filter(lsp => lsp.active).length,
+    promotedCount: registry.lsps.length - currentRegistry.lsps.length,
+    errors: registryErrors
+  };
+}
+
+// Reload immediately instead of waiting for the next check
+export function reloadLspRegistry(): LspRegistryStatus {
+  refreshRegistry(true);
+  return getLspRegistryStatus();
+}
+
+// Registry entry with the server-side settings (cooldown, client pubkey, overrides)
+export function getLspRegistryEntry(id: string): LspRegistryEntry | undefined {
+  return getLspRegistry().lsps.find(lsp => lsp.id === id);
+}
+
+// All registered LSPs, including inactive ones
+export function getAllLSPs(): LSP[] {
+  return getLspRegistry().lsps.map(toLSP);
+}
 
 // Helper function to get active LSPs
 export function getActiveLSPs(): LSP[] {
-  return LSPS.filter(lsp => lsp.active);
+  return getAllLSPs().filter(lsp => lsp.active);
+}
+
+// Active LSPs including ones promoted since the last refresh
+export async function loadActiveLSPs(): Promise<LSP[]> {
+  await refreshPromotedLSPs();
+  return getActiveLSPs();
 }
 
 // Helper function to get LSP by ID
 export function getLSPById(id: string): LSP | undefined {
-  return LSPS.find(lsp => lsp.id === id);
+  return getAllLSPs().find(lsp => lsp.id === id);
 }
 
 // Helper function to get LSP by URL
 export function getLSPByURL(url: string): LSP | undefined {
-  return LSPS.find(lsp => lsp.url === url);
+  return getAllLSPs().find(lsp => lsp.url === url);
+}
+
+// Map an identifier from Alby's channel suggestions API to our LSP
+export function getLSPByAlbyIdentifier(identifier: string): LSP | undefined {
+  const entry = getLspRegistry().lsps.find(lsp => lsp.albyIdentifier === identifier);
+  return entry ? toLSP(entry) : undefined;
+}
+
+// Minimum time between create_order calls for an LSP
+export function getLspCooldownMs(id: string): number {
+  const minutes = getLspRegistryEntry(id)?.cooldownMinutes ?? getLspRegistry().defaults.cooldownMinutes;
+  return minutes * 60 * 1000;
+}
+
+// Pubkey sent as public_key in create_order (some LSPs whitelist a dedicated key)
+export function getClientPubkeyForLSP(id: string): string {
+  return getLspRegistryEntry(id)?.clientPubkey || getLspRegistry().defaults.clientPubkey;
+}
+
+export function getOrderOverridesForLSP(id: string): Record<string, unknown> {
+  return getLspRegistryEntry(id)?.orderOverrides ?? {};
 }
 
 // Fetch LSP metadata including icon from LSP endpoint
@@ -138,7 +268,7 @@ async function fetchWithRetry(url: string, { timeoutMs = 5000, retries = 1 } = {
 
 // Fetch metadata for all active LSPs
 export async function fetchAllLSPMetadata(): Promise<LSP[]> {
-  const activeLSPs = getActiveLSPs();
+  const activeLSPs = await loadActiveLSPs();
   const metadataPromises = activeLSPs.map(lsp => fetchLSPMetadata(lsp));
   return Promise.all(metadataPromises);
 }
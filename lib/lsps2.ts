@@ -0,0 +1,305 @@
+import type { LSP } from './lsps';
+import { getLspRegistryEntry, loadActiveLSPs } from './lsps';
+import { LSPPrice, LspErrorCode, toLspError } from './lsp-api';
+import { getPriceStore, isStoreConfigured } from './store';
+
+/**
+ * LSPS2 just-in-time channel pricing
+ * JIT channels are opened when the first payment arrives; the LSP takes its fee out of
+ * that payment according to an `opening_fee_params` entry from its get_info menu:
+ *   fee = max(min_fee_msat, ceil(payment_size_msat * proportional / 1_000_000))
+ * We price a JIT channel for the same amount as the LSPS1 channel size, so both can be
+ * compared side by side. Only LSPs with an `lsps2Url` in the registry are queried.
+ */
+
+export interface LSPS2OpeningFeeParams {
+  min_fee_msat: string;
+  proportional: number; // ppm of the payment size
+  valid_until: string; // ISO 8601
+  min_lifetime: number; // blocks the channel stays open at least
+  max_client_to_self_delay: number;
+  min_payment_size_msat?: string;
+  max_payment_size_msat?: string;
+  promise: string;
+}
+
+export interface LSPS2GetInfoResponse {
+  opening_fee_params_menu: LSPS2OpeningFeeParams[];
+  // Older revisions of the spec put the payment bounds next to the menu
+  min_payment_size_msat?: string;
+  max_payment_size_msat?: string;
+}
+
+// Normalized menu entry (numbers instead of u64 strings)
+export interface JitFeeParams {
+  min_fee_msat: number;
+  proportional_ppm: number;
+  valid_until: string;
+  min_lifetime: number;
+  max_client_to_self_delay: number;
+  min_payment_size_msat: number | null;
+  max_payment_size_msat: number | null;
+}
+
+const JIT_PRICE_TTL_SECONDS = 30 * 24 * 60 * 60; // 30 days
+const getJitPricesKey = (channelSizeSat: number) => `alby:lsp:jit:${channelSizeSat}`;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// LSPS0 encodes msat amounts as decimal strings
+const parseMsat = (value: unknown): number | null => {
+  if (typeof value !== 'string' || !/^\d+$/.test(value)) return null;
+  const n = Number(value);
+  return Number.isSafeInteger(n) ? n : null;
+};
+
+const isUint = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+
+/**
+ * Validate one opening_fee_params entry
+ * Returns the normalized entry, or the reason it was rejected.
+ */
+export function validateOpeningFeeParams(
+  raw: unknown,
+  now: Date = new Date(),
+  fallbackBounds: { min_payment_size_msat?: unknown; max_payment_size_msat?: unknown } = {}
+): { params: JitFeeParams } | { error: string } {
+  if (!isObject(raw)) return { error: 'entry must be an object' };
+
+  const minFee = parseMsat(raw.min_fee_msat);
+  if (minFee === null) return { error: 'min_fee_msat must be a msat amount string' };
+  if (!isUint(raw.proportional)) return { error: 'proportional must be a non-negative integer (ppm)' };
+  if (typeof raw.valid_until !== 'string' || !Number.isFinite(Date.parse(raw.valid_until))) {
+    return { error: 'valid_until must be an ISO 8601 date' };
+  }
+  if (Date.parse(raw.valid_until) <= now.getTime()) return { error: `expired at ${raw.valid_until}` };
+  if (!isUint(raw.min_lifetime)) return { error: 'min_lifetime must be a non-negative integer (blocks)' };
+  if (!isUint(raw.max_client_to_self_delay)) return { error: 'max_client_to_self_delay must be a non-negative integer' };
+  if (typeof raw.promise !== 'string' || !raw.promise) return { error: 'promise is required' };
+
+  const minPayment = raw.min_payment_size_msat ?? fallbackBounds.min_payment_size_msat;
+  const maxPayment = raw.max_payment_size_msat ?? fallbackBounds.max_payment_size_msat;
+
+  return {
+    params: {
+      min_fee_msat: minFee,
+      proportional_ppm: raw.proportional,
+      valid_until: new Date(raw.valid_until).toISOString(),
+      min_lifetime: raw.min_lifetime,
+      max_client_to_self_delay: raw.max_client_to_self_delay,
+      min_payment_size_msat: parseMsat(minPayment),
+      max_payment_size_msat: parseMsat(maxPayment)
+    }
+  };
+}
+
+/**
+ * Validate a get_info response
+ * Invalid or expired entries are dropped and reported; the response is only rejected
+ * when no usable entry is left.
+ */
+export function parseLSPS2Info(data: unknown, now: Date = new Date()): { menu: JitFeeParams[]; errors: string[] } {
+  if (!isObject(data) || !Array.isArray(data.opening_fee_params_menu)) {
+    return { menu: [], errors: ['opening_fee_params_menu is missing'] };
+  }
+
+  const menu: JitFeeParams[] = [];
+  const errors: string[] = [];
+  data.opening_fee_params_menu.forEach((entry, index) => {
+    const result = validateOpeningFeeParams(entry, now, data);
+    if ('params' in result) {
+      menu.push(result.params);
+    } else {
+      errors.push(`opening_fee_params_menu[${index}]: ${result.error}`);
+    }
+  });
+
+  return { menu, errors };
+}
+
+// Fee the LSP deducts from a payment of this size
+export function calculateJitOpeningFeeMsat(params: JitFeeParams, paymentSizeMsat: number): number {
+  return Math.max(params.min_fee_msat, Math.ceil(paymentSizeMsat * params.proportional_ppm / 1_000_000));
+}
+
+const acceptsPayment = (params: JitFeeParams, paymentSizeMsat: number) =>
+  (params.min_payment_size_msat === null || paymentSizeMsat >= params.min_payment_size_msat) &&
+  (params.max_payment_size_msat === null || paymentSizeMsat <= params.max_payment_size_msat);
+
+/**
+ * Cheapest menu entry for a channel size, as an LSPPrice with source 'lsps2'
+ * The fee is reported as a base when the min_fee_msat floor applies and as a
+ * percentage otherwise, so fee breakdowns add up to the total.
+ */
+export function toJitPrice(lsp: LSP, channelSizeSat: number, menu: JitFeeParams[], now: Date = new Date()): LSPPrice {
+  const paymentSizeMsat = channelSizeSat * 1000;
+  const candidates = menu
+    .filter(params => acceptsPayment(params, paymentSizeMsat))
+    .map(params => ({ params, fee: calculateJitOpeningFeeMsat(params, paymentSizeMsat) }))
+    .sort((a, b) => a.fee - b.fee);
+
+  const base: LSPPrice = {
+    lsp_id: lsp.id,
+    lsp_name: lsp.name,
+    channel_size_sat: channelSizeSat,
+    total_fee_msat: 0,
+    channel_fee_percent: 0,
+    channel_fee_base_msat: 0,
+    lease_fee_base_msat: 0,
+    lease_fee_basis: 0,
+    timestamp: now.toISOString(),
+    source: 'lsps2'
+  };
+
+  const cheapest = candidates[0];
+  if (!cheapest) {
+    const sizes = menu.map(params => params.min_payment_size_msat).filter((size): size is number => size !== null);
+    const tooSmall = sizes.length > 0 && paymentSizeMsat < Math.min(...sizes);
+    return {
+      ...base,
+      error: `No JIT fee offer covers ${channelSizeSat} sats`,
+      error_code: tooSmall ? LspErrorCode.CHANNEL_SIZE_TOO_SMALL : LspErrorCode.CHANNEL_SIZE_TOO_LARGE
+    };
+  }
+
+  const floorApplies = cheapest.fee === cheapest.params.min_fee_msat;
+  return {
+    ...base,
+    total_fee_msat: cheapest.fee,
+    channel_fee_percent: floorApplies ? 0 : cheapest.params.proportional_ppm / 10000,
+    channel_fee_base_msat: floorApplies ? cheapest.params.min_fee_msat : 0,
+    channel_expiry_blocks: cheapest.params.min_lifetime || undefined,
+    jit_fee_params: cheapest.params
+  };
+}
+
+// LSPS2 endpoint for an LSP: env override, then the registry's lsps2Url
+export function getLSPS2Base(lsp: LSP): string | null {
+  const envBase = process.env[`${lsp.id.toUpperCase()}_LSPS2_BASE`];
+  return envBase || getLspRegistryEntry(lsp.id)?.lsps2Url || null;
+}
+
+// Fetch the opening fee menu from an LSP's LSPS2 endpoint
+export async function fetchLSPS2Info(lsp: LSP): Promise<{ menu: JitFeeParams[]; error?: { code: LspErrorCode; message: string } }> {
+  const base = getLSPS2Base(lsp);
+  if (!base) {
+    return { menu: [], error: { code: LspErrorCode.URL_NOT_FOUND, message: 'No LSPS2 endpoint configured' } };
+  }
+
+  try {
+    const infoUrl = new URL('get_info', base + '/');
+    const token = getLspRegistryEntry(lsp.id)?.lsps2Token;
+    if (token) infoUrl.searchParams.set('token', token);
+
+    const response = await fetch(infoUrl.toString(), {
+      method: 'GET',
+      headers: {
+        'Accept': 'application/json',
+        'User-Agent': 'Alby-LSP-PriceBoard/1.0'
+      },
+      signal: AbortSignal.timeout(5000)
+    });
+
+    if (!response.ok) {
+      const errorInfo = toLspError(null, response);
+      console.error(`Failed to fetch LSPS2 info from ${lsp.name}: ${response.status} - ${errorInfo.message}`);
+      return { menu: [], error: errorInfo };
+    }
+
+    let data: unknown;
+    try {
+      data = await response.json();
+    } catch {
+      return { menu: [], error: { code: LspErrorCode.INVALID_JSON, message: 'Invalid JSON response' } };
+    }
+
+    const { menu, errors } = parseLSPS2Info(data);
+    if (errors.length > 0) {
+      console.warn(`⚠️ ${lsp.name} LSPS2 menu: ${errors.join('; ')}`);
+    }
+    if (menu.length === 0) {
+      return { menu, error: { code: LspErrorCode.SCHEMA_MISMATCH, message: errors[0] || 'Empty opening_fee_params_menu' } };
+    }
+
+    return { menu };
+  } catch (error) {
+    const errorInfo = toLspError(error);
+    console.error(`Error fetching LSPS2 info from ${lsp.name}: ${errorInfo.message}`);
+    return { menu: [], error: errorInfo };
+  }
+}
+
+// JIT price for one LSP (an error price when the menu could not be fetched)
+export async function fetchJitPrice(lsp: LSP, channelSizeSat: number): Promise<LSPPrice> {
+  const { menu, error } = await fetchLSPS2Info(lsp);
+  if (error) {
+    return { ...toJitPrice(lsp, channelSizeSat, []), error: error.message, error_code: error.code, source: 'unavailable' };
+  }
+  return toJitPrice(lsp, channelSizeSat, menu);
+}
+
+// JIT prices from every active LSP with an LSPS2 endpoint
+export async function fetchAllJitPrices(channelSizeSat: number): Promise<LSPPrice[]> {
+  const lsps = (await loadActiveLSPs()).filter(lsp => getLSPS2Base(lsp));
+  if (lsps.length === 0) return [];
+
+  console.log(`Fetching LSPS2 JIT prices from ${lsps.length} LSPs for ${channelSizeSat} sats`);
+  return Promise.all(lsps.map(lsp => fetchJitPrice(lsp, channelSizeSat)));
+}
+
+// Latest JIT prices for a channel size (one per LSP)
+export async function getJitPrices(channelSizeSat: number): Promise<LSPPrice[]> {
+  try {
+    const store = getPriceStore();
+    if (!store || !isStoreConfigured()) return [];
+
+    const value = await store.get<LSPPrice[] | string>(getJitPricesKey(channelSizeSat));
+    if (!value) return [];
+    return typeof value === 'string' ? JSON.parse(value) as LSPPrice[] : value;
+  } catch (error) {
+    console.error(`Error reading JIT prices for ${channelSizeSat} sats:`, error);
+    return [];
+  }
+}
+
+/**
+ * Store fresh JIT prices, keeping the last good quote of LSPs that failed this time
+ */
+export async function saveJitPrices(channelSizeSat: number, prices: LSPPrice[]): Promise<boolean> {
+  try {
+    const store = getPriceStore();
+    if (!store || !isStoreConfigured() || prices.length === 0) return false;
+
+    const previous = await getJitPrices(channelSizeSat);
+    const merged = new Map(previous.map(price => [price.lsp_id, price]));
+    prices.forEach(price => {
+      const last = merged.get(price.lsp_id);
+      if (price.source === 'unavailable' && last && last.total_fee_msat > 0) {
+        merged.set(price.lsp_id, {
+          ...last,
+          live_fetch_error: price.error,
+          live_fetch_error_code: price.error_code,
+          live_fetch_timestamp: price.timestamp
+        });
+      } else {
+        merged.set(price.lsp_id, price);
+      }
+    });
+
+    await store.set(getJitPricesKey(channelSizeSat), JSON.stringify([...merged.values()]), { ex: JIT_PRICE_TTL_SECONDS });
+    return true;
+  } catch (error) {
+    console.error(`Error saving JIT prices for ${channelSizeSat} sats:`, error);
+    return false;
+  }
+}
+
+// Fetch and store JIT prices for a channel size; used by the price cron
+export async function refreshJitPrices(channelSizeSat: number): Promise<LSPPrice[]> {
+  const prices = await fetchAllJitPrices(channelSizeSat);
+  if (prices.length > 0) {
+    await saveJitPrices(channelSizeSat, prices);
+  }
+  return prices;
+}
@@ -0,0 +1,222 @@
+import { secp256k1 } from '@noble/curves/secp256k1.js';
+import { createCipheriv, createDecipheriv, createHash, hkdfSync } from 'crypto';
+import net from 'net';
+import type { LSP } from './lsps';
+
+/**
+ * Lightning node reachability for the URIs an LSP advertises in get_info
+ * Each `pubkey@host:port` is checked against the registry pubkey and with a TCP connect. With
+ * NODE_CHECK_HANDSHAKE=1 the check also runs BOLT8 acts one and two: only a node holding the
+ * private key for the pubkey can answer act one, so a valid act two proves the node's identity.
+ * This is separate from API health: the HTTPS API can be up while the node is unreachable.
+ */
+
+const CONNECT_TIMEOUT_MS = 3000;
+// Most LSPs advertise one or two addresses; never dial more than this per LSP
+const MAX_URIS_PER_LSP = 3;
+
+export interface NodeUri {
+  pubkey: string;
+  host: string;
+  port: number;
+}
+
+export type NodeUriStatus = 'reachable' | 'unreachable' | 'handshake_failed' | 'skipped';
+
+export interface NodeUriCheck extends NodeUri {
+  uri: string;
+  pubkey_matches: boolean; // same pubkey as the registry entry
+  status: NodeUriStatus;
+  handshake_verified?: boolean; // only when the BOLT8 handshake ran
+  response_time_ms?: number;
+  error?: string;
+}
+
+export type NodeReachabilityStatus = 'reachable' | 'unreachable' | 'pubkey_mismatch' | 'no_uris' | 'unknown';
+
+export interface NodeReachability {
+  status: NodeReachabilityStatus;
+  checked_at: string;
+  uris: NodeUriCheck[];
+}
+
+/**
+ * Parse `pubkey@host:port` (IPv4, [IPv6], DNS or onion host; port defaults to 9735)
+ */
+export function parseNodeUri(uri: string): NodeUri | null {
+  const match = /^([0-9a-f]{66})@(\[[0-9a-f:.]+\]|[^:@[\]\s]+)(?::(\d{1,5}))?$/i.exec(uri.trim());
+  if (!match) return null;
+  const port = match[3] ? Number(match[3]) : 9735;
+  if (port < 1 || port > 65535) return null;
+  return { pubkey: match[1].toLowerCase(), host: match[2].replace(/^\[|\]$/g, ''), port };
+}
+
+// Overall status from the per-URI checks (pure)
+export function summarizeNodeChecks(checks: NodeUriCheck[]): NodeReachabilityStatus {
+  if (checks.length === 0) return 'no_uris';
+  const matching = checks.filter(check => check.pubkey_matches);
+  if (matching.length === 0) return 'pubkey_mismatch';
+  if (matching.some(check => check.status === 'reachable')) return 'reachable';
+  if (matching.every(check => check.status === 'skipped')) return 'unknown';
+  return 'unreachable';
+}
+
+// BOLT8 ECDH: SHA256 of the compressed shared point (throws on an invalid public key)
+const ecdh = (privateKey: Uint8Array, publicKey: Uint8Array) => sha256(Buffer.from(secp256k1.getSharedSecret(privateKey, publicKey, true)));
+
+// --- BOLT8 Noise_XK handshake, initiator side ---
+
+const PROTOCOL_NAME = 'Noise_XK_secp256k1_ChaChaPoly_SHA256';
+const PROLOGUE = 'lightning';
+const ACT_LENGTH = 50;
+
+function sha256(...parts: Buffer[]): Buffer {
+  const hash = createHash('sha256');
+  parts.forEach(part => hash.update(part));
+  return hash.digest();
+}
+
+function hkdf(salt: Buffer, ikm: Buffer): [Buffer, Buffer] {
+  const output = Buffer.from(hkdfSync('sha256', ikm, salt, Buffer.alloc(0), 64));
+  return [output.subarray(0, 32), output.subarray(32)];
+}
+
+// Nonce 0 is all the handshake acts use: 4 zero bytes plus a 64-bit little-endian counter
+const ZERO_NONCE = Buffer.alloc(12);
+
+function encryptEmpty(key: Buffer, ad: Buffer): Buffer {
+  const cipher = createCipheriv('chacha20-poly1305', key, ZERO_NONCE, { authTagLength: 16 });
+  cipher.setAAD(ad, { plaintextLength: 0 });
+  cipher.final();
+  return cipher.getAuthTag();
+}
+
+function verifyEmpty(key: Buffer, ad: Buffer, tag: Buffer): boolean {
+  try {
+    const decipher = createDecipheriv('chacha20-poly1305', key, ZERO_NONCE, { authTagLength: 16 });
+    decipher.setAAD(ad, { plaintextLength: 0 });
+    decipher.setAuthTag(tag);
+    decipher.final();
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export interface HandshakeState {
+  h: Buffer;
+  ck: Buffer;
+  ephemeralKey: Uint8Array;
+}
+
+/**
+ * BOLT8 act one towards a node pubkey (pure apart from the optional random ephemeral key)
+ */
+export function createActOne(remotePubkey: string, ephemeralKey?: Buffer): { actOne: Buffer; state: HandshakeState } {
+  const remoteStatic = Buffer.from(remotePubkey, 'hex');
+  if (!secp256k1.utils.isValidPublicKey(remoteStatic, true)) throw new Error('Invalid node pubkey');
+
+  const e = ephemeralKey ?? secp256k1.utils.randomSecretKey();
+  const ePub = Buffer.from(secp256k1.getPublicKey(e, true));
+
+  let h = sha256(Buffer.from(PROTOCOL_NAME));
+  let ck = h;
+  h = sha256(h, Buffer.from(PROLOGUE));
+  h = sha256(h, remoteStatic);
+
+  h = sha256(h, ePub);
+  const [nextCk, tempK1] = hkdf(ck, ecdh(e, remoteStatic));
+  ck = nextCk;
+  const tag = encryptEmpty(tempK1, h);
+  h = sha256(h, tag);
+
+  return { actOne: Buffer.concat([Buffer.from([0]), ePub, tag]), state: { h, ck, ephemeralKey: e } };
+}
+
+// Check the responder's act two: the tag only verifies if the node knew its static private key
+export function verifyActTwo(state: HandshakeState, actTwo: Buffer): boolean {
+  if (actTwo.length !== ACT_LENGTH || actTwo[0] !== 0) return false;
+  const reBytes = actTwo.subarray(1, 34);
+  if (!secp256k1.utils.isValidPublicKey(reBytes, true)) return false;
+
+  const h = sha256(state.h, reBytes);
+  const [, tempK2] = hkdf(state.ck, ecdh(state.ephemeralKey, reBytes));
+  return verifyEmpty(tempK2, h, actTwo.subarray(34));
+}
+
+// --- network ---
+
+function probeNode(node: NodeUri, handshake: boolean, timeoutMs: number): Promise<Pick<NodeUriCheck, 'status' | 'handshake_verified' | 'response_time_ms' | 'error'>> {
+  return new Promise(resolve => {
+    const started = Date.now();
+    let settled = false;
+    let received = Buffer.alloc(0);
+    let handshakeState: HandshakeState | undefined;
+
+    const socket = net.createConnection({ host: node.host, port: node.port });
+    const finish = (result: Pick<NodeUriCheck, 'status' | 'handshake_verified' | 'error'>) => {
+      if (settled) return;
+      settled = true;
+      socket.destroy();
+      resolve({ ...result, response_time_ms: Date.now() - started });
+    };
+
+    socket.setTimeout(timeoutMs, () => finish(handshakeState
+      ? { status: 'handshake_failed', handshake_verified: false, error: 'No act two before the timeout' }
+      : { status: 'unreachable', error: 'Connection timed out' }));
+    socket.on('error', error => finish({ status: 'unreachable', error: error.message }));
+
+    socket.on('connect', () => {
+      if (!handshake) {
+        finish({ status: 'reachable' });
+        return;
+      }
+      const { actOne, state } = createActOne(node.pubkey);
+      handshakeState = state;
+      socket.write(actOne);
+    });
+
+    socket.on('data', chunk => {
+      received = Buffer.concat([received, chunk]);
+      if (!handshakeState || received.length < ACT_LENGTH) return;
+      finish(verifyActTwo(handshakeState, received.subarray(0, ACT_LENGTH))
+        ? { status: 'reachable', handshake_verified: true }
+        : { status: 'handshake_failed', handshake_verified: false, error: 'Act two did not verify' });
+    });
+
+    // Nodes hang up on an act one for a key they do not hold
+    socket.on('close', () => finish({ status: 'handshake_failed', handshake_verified: false, error: 'Connection closed during the handshake' }));
+  });
+}
+
+/**
+ * Check every advertised URI of an LSP (onion addresses are skipped: no Tor here)
+ */
+export async function checkNodeReachability(
+  lsp: Pick<LSP, 'id' | 'name' | 'pubkey'>,
+  uris: string[],
+  options: { handshake?: boolean; timeoutMs?: number } = {}
+): Promise<NodeReachability> {
+  const handshake = options.handshake ?? process.env.NODE_CHECK_HANDSHAKE === '1';
+  const timeoutMs = options.timeoutMs ?? CONNECT_TIMEOUT_MS;
+  const registryPubkey = lsp.pubkey.toLowerCase();
+
+  const checks = await Promise.all(uris.slice(0, MAX_URIS_PER_LSP).map(async (uri): Promise<NodeUriCheck> => {
+    const node = parseNodeUri(uri);
+    if (!node) {
+      return { uri, pubkey: '', host: '', port: 0, pubkey_matches: false, status: 'skipped', error: 'Not a pubkey@host:port URI' };
+    }
+    const base = { uri, ...node, pubkey_matches: node.pubkey === registryPubkey };
+    if (node.host.endsWith('.onion')) {
+      return { ...base, status: 'skipped', error: 'Onion address' };
+    }
+    return { ...base, ...(await probeNode(node, handshake, timeoutMs)) };
+  }));
+
+  const status = summarizeNodeChecks(checks);
+  if (status !== 'reachable') {
+    console.log(`⚡ ${lsp.name} node: ${status} (${checks.map(check => `${check.host}:${check.port} ${check.status}`).join(', ') || 'no URIs'})`);
+  }
+
+  return { status, checked_at: new Date().toISOString(), uris: checks };
+}
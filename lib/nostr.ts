@@ -0,0 +1,232 @@
+import { AbstractRelay, type AbstractRelayConstructorOptions } from 'nostr-tools/abstract-relay';
+import { decode as decodeNip19 } from 'nostr-tools/nip19';
+import { finalizeEvent as signEvent, getPublicKey, verifyEvent as verifySignedEvent } from 'nostr-tools/pure';
+import WebSocket from 'ws';
+import { calculateFeePpm } from './fee-ppm';
+import type { LSPPrice } from './lsp-api';
+import { getPriceStore, isStoreConfigured } from './store';
+
+/**
+ * Nostr publishing of price snapshots
+ * After each scheduled refresh of a channel size the board signs its current prices as one
+ * event and sends it to the relays in NOSTR_RELAYS, so wallets and bots can subscribe instead
+ * of polling /api/prices. The event is addressable (NIP-78, kind 30078) with one `d` tag per
+ * channel size, so relays keep the latest snapshot per size:
+ *
+ *   kind 30078, tags:
+ *     ["d", "lsp-prices:<channel_size_sat>"]
+ *     ["t", "lsp-prices"]
+ *     ["size", "<channel_size_sat>"]
+ *     ["lsp", "<lsp_id>", "<channel_size_sat>", "<total_fee_msat>", "<source>", "<fee_ppm>"]  one per priced LSP
+ *     ["alt", "<human-readable summary>"]
+ *
+ * Signing, NIP-19 keys and the relay protocol come from nostr-tools, the WebSocket client from ws.
+ */
+
+export const NOSTR_SNAPSHOT_KIND = 30078;
+export const SNAPSHOT_TOPIC = 'lsp-prices';
+
+// Outside the alby:lsp:* namespace so clearing the price cache keeps the log
+const PUBLISH_LOG_KEY = 'alby:nostr:log';
+const PUBLISH_LOG_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+const RELAY_TIMEOUT_MS = 5000;
+
+export interface NostrEventTemplate {
+  kind: number;
+  created_at: number; // epoch seconds
+  tags: string[][];
+  content: string;
+}
+
+export interface NostrEvent extends NostrEventTemplate {
+  id: string;
+  pubkey: string;
+  sig: string;
+}
+
+export interface RelayResult {
+  relay: string;
+  ok: boolean;
+  message?: string; // relay's OK message, NOTICE or connection error
+}
+
+export interface NostrPublishLogEntry {
+  timestamp: string;
+  event_id: string;
+  channel_size_sat: number;
+  lsp_count: number;
+  ok: boolean; // accepted by at least one relay
+  relays: RelayResult[];
+}
+
+export interface NostrConfig {
+  privateKey: Buffer;
+  pubkey: string; // hex, x-only
+  relays: string[];
+}
+
+// --- keys ---
+
+// NOSTR_PRIVATE_KEY as 64 hex characters or nsec1...
+export function parseNostrPrivateKey(value: string): Buffer | null {
+  const trimmed = value.trim();
+  if (/^[0-9a-f]{64}$/i.test(trimmed)) return Buffer.from(trimmed, 'hex');
+  try {
+    const decoded = decodeNip19(trimmed);
+    return decoded.type === 'nsec' ? Buffer.from(decoded.data) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Publishing config from NOSTR_PRIVATE_KEY and NOSTR_RELAYS (comma-separated ws:// or wss:// URLs)
+ * Returns null (publishing off) unless both are set and valid.
+ */
+export function getNostrConfig(): NostrConfig | null {
+  const privateKey = parseNostrPrivateKey(process.env.NOSTR_PRIVATE_KEY || '');
+  const relays = (process.env.NOSTR_RELAYS || '').split(',').map(relay => relay.trim())
+    .filter(relay => /^wss?:\/\/\S+$/i.test(relay));
+  if (!privateKey || relays.length === 0) return null;
+
+  try {
+    return { privateKey, pubkey: getPublicKey(privateKey), relays };
+  } catch {
+    return null;
+  }
+}
+
+// --- events (NIP-01) ---
+
+export function finalizeEvent(template: NostrEventTemplate, privateKey: Buffer): NostrEvent {
+  const { id, pubkey, sig } = signEvent(template, privateKey);
+  return { ...template, id, pubkey, sig };
+}
+
+// Checks the id and signature of the fields as given (nostr-tools caches results on the event object)
+export function verifyEvent(event: NostrEvent): boolean {
+  const { id, pubkey, created_at, kind, tags, content, sig } = event;
+  return verifySignedEvent({ id, pubkey, created_at, kind, tags, content, sig });
+}
+
+const isPriced = (price: LSPPrice) => !price.error && price.total_fee_msat > 0;
+
+/**
+ * Snapshot event for one channel size (pure), cheapest LSP first
+ * Returns null when no LSP has a price at that size.
+ */
+export function buildSnapshotEvent(channelSize: number, prices: LSPPrice[], createdAt: Date = new Date()): NostrEventTemplate | null {
+  const priced = prices
+    .filter(price => price.channel_size_sat === channelSize && isPriced(price))
+    .sort((a, b) => a.total_fee_msat - b.total_fee_msat);
+  if (priced.length === 0) return null;
+
+  const sizeLabel = `${channelSize / 1000000}M sats`;
+  const cheapest = priced[0];
+  const summary = `LSP channel prices for ${sizeLabel}: cheapest ${cheapest.lsp_name} at ` +
+    `${Math.round(cheapest.total_fee_msat / 1000).toLocaleString('en-US')} sats (${priced.length} LSPs)`;
+
+  return {
+    kind: NOSTR_SNAPSHOT_KIND,
+    created_at: Math.floor(createdAt.getTime() / 1000),
+    tags: [
+      ['d', `${SNAPSHOT_TOPIC}:${channelSize}`],
+      ['t', SNAPSHOT_TOPIC],
+      ['size', String(channelSize)],
+      ...priced.map(price => [
+        'lsp',
+        price.lsp_id,
+        String(channelSize),
+        String(price.total_fee_msat),
+        price.source || 'live',
+        String(calculateFeePpm(price.total_fee_msat, channelSize))
+      ]),
+      ['alt', summary]
+    ],
+    content: summary
+  };
+}
+
+// --- relays ---
+
+/**
+ * Send one event to a relay and wait for its NIP-01 OK
+ * Never throws: connection problems and rejections come back as ok: false.
+ */
+export async function publishToRelay(relay: string, event: NostrEvent, timeoutMs: number = RELAY_TIMEOUT_MS): Promise<RelayResult> {
+  const deadline = Date.now() + timeoutMs;
+  let connection: AbstractRelay | undefined;
+  let notice: string | undefined;
+
+  try {
+    connection = new AbstractRelay(relay, {
+      verifyEvent: verifySignedEvent,
+      websocketImplementation: WebSocket as unknown as AbstractRelayConstructorOptions['websocketImplementation']
+    });
+    connection.onnotice = message => { notice = message; };
+    await connection.connect({ timeout: timeoutMs });
+    connection.publishTimeout = Math.max(1, deadline - Date.now());
+    const message = await connection.publish(event);
+    return { relay, ok: true, ...(message ? { message } : {}) };
+  } catch (error) {
+    // Connection failures are rejected with strings, relay rejections with the OK message
+    const reason = error instanceof Error ? error.message : String(error);
+    return { relay, ok: false, message: notice ? `${reason} (NOTICE: ${notice})` : reason };
+  } finally {
+    connection?.close();
+  }
+}
+
+// --- publishing ---
+
+/**
+ * Sign and publish the current prices of one channel size to every configured relay
+ * Returns null when publishing is off or there is nothing to publish. Never throws.
+ */
+export async function publishPriceSnapshot(channelSize: number, prices?: LSPPrice[]): Promise<NostrPublishLogEntry | null> {
+  const config = getNostrConfig();
+  if (!config) return null;
+
+  try {
+    const { getLatestPrices } = await import('./db');
+    const template = buildSnapshotEvent(channelSize, prices ?? await getLatestPrices(channelSize));
+    if (!template) return null;
+
+    const event = finalizeEvent(template, config.privateKey);
+    const relays = await Promise.all(config.relays.map(relay => publishToRelay(relay, event)));
+    const entry: NostrPublishLogEntry = {
+      timestamp: new Date().toISOString(),
+      event_id: event.id,
+      channel_size_sat: channelSize,
+      lsp_count: template.tags.filter(tag => tag[0] === 'lsp').length,
+      ok: relays.some(result => result.ok),
+      relays
+    };
+    console.log(`${entry.ok ? '📡' : '⚠️'} Nostr snapshot for ${channelSize} sats: ${relays.filter(result => result.ok).length}/${relays.length} relays accepted ${event.id}`);
+
+    const store = getPriceStore();
+    if (store && isStoreConfigured()) {
+      const now = Date.now();
+      await store.zadd(PUBLISH_LOG_KEY, { score: now, member: JSON.stringify(entry) });
+      await store.zremrangeByScore(PUBLISH_LOG_KEY, -Infinity, now - PUBLISH_LOG_RETENTION_MS);
+    }
+    return entry;
+  } catch (error) {
+    console.error(`Error publishing Nostr snapshot for ${channelSize} sats:`, error);
+    return null;
+  }
+}
+
+// Most recent publishes first
+export async function getNostrPublishLog(limit: number = 50): Promise<NostrPublishLogEntry[]> {
+  try {
+    const store = getPriceStore();
+    if (!store || !isStoreConfigured()) return [];
+
+    const entries = await store.zrangeByScore<NostrPublishLogEntry | string>(PUBLISH_LOG_KEY, -Infinity, Infinity, { rev: true, offset: 0, count: limit });
+    return entries.map(entry => typeof entry === 'string' ? JSON.parse(entry) : entry);
+  } catch (error) {
+    console.error('Error reading Nostr publish log:', error);
+    return [];
+  }
+}
@@ -0,0 +1,214 @@
+import { API_ERROR_CODES, API_ERROR_STATUS, ApiErrorCode } from '../types/api-response';
+import { API_V1_PREFIX, API_V1_VERSION } from './api-v1';
+import { HISTORY_BUCKETS } from './history-aggregation';
+
+/**
+ * OpenAPI 3 document of /api/v1, served at /api/v1/openapi.json
+ * Built from the same constants the routes validate against (error codes, buckets), so
+ * enums cannot drift from the implementation. __tests__/lib/openapi.test.ts checks that
+ * every route under pages/api/v1 is documented.
+ */
+
+type Schema = Record<string, unknown>;
+
+const ref = (name: string): Schema => ({ $ref: `#/components/schemas/${name}` });
+const nullable = (schema: Schema): Schema => ({ ...schema, nullable: true });
+const integer: Schema = { type: 'integer' };
+const number: Schema = { type: 'number' };
+const string: Schema = { type: 'string' };
+const boolean: Schema = { type: 'boolean' };
+const dateTime: Schema = { type: 'string', format: 'date-time' };
+const arrayOf = (items: Schema): Schema => ({ type: 'array', items });
+const object = (properties: Record<string, Schema>, required: string[] = Object.keys(properties)): Schema =>
+  ({ type: 'object', properties, required });
+
+// Success envelope around a data schema
+const envelope = (data: Schema): Schema => ({
+  type: 'object',
+  properties: { success: { type: 'boolean', enum: [true] }, data, timestamp: dateTime, message: string },
+  required: ['success', 'data', 'timestamp']
+});
+
+const SCHEMAS: Record<string, Schema> = {
+  ErrorResponse: object({
+    success: { type: 'boolean', enum: [false] },
+    error: string,
+    message: string,
+    code: { type: 'string', enum: [...API_ERROR_CODES] },
+    timestamp: dateTime
+  }, ['success', 'error', 'code', 'timestamp']),
+  FeeEstimate: object({
+    method: { type: 'string', enum: ['fit', 'components', 'proportional'] },
+    confidence: { type: 'string', enum: ['high', 'medium', 'low'] },
+    low_fee_msat: number,
+    high_fee_msat: number,
+    base_fee_msat: number,
+    ppm: number,
+    sample_sizes: arrayOf(integer),
+    extrapolated: boolean
+  }),
+  Price: object({
+    lsp_id: string,
+    lsp_name: string,
+    channel_size_sat: integer,
+    total_fee_msat: nullable(integer),
+    fee_ppm: nullable(number),
+    channel_fee_percent: number,
+    channel_fee_base_msat: integer,
+    lease_fee_base_msat: integer,
+    lease_fee_basis: number,
+    channel_expiry_blocks: nullable(integer),
+    announce_channel: nullable(boolean),
+    client_balance_sat: nullable(integer),
+    timestamp: dateTime,
+    source: { type: 'string', enum: ['live', 'cached', 'unavailable', 'lsps2', 'estimated', 'unknown'] },
+    stale_seconds: nullable(integer),
+    error: nullable(object({ code: string, message: string })),
+    estimate: nullable(ref('FeeEstimate')),
+    suspicious: boolean
+  }),
+  QuoteFilters: object({ channel_expiry_blocks: integer, announce_channel: boolean, client_balance_sat: integer }, []),
+  QuoteDimensions: object({
+    channel_expiry_blocks: arrayOf(integer),
+    announce_channel: arrayOf(boolean),
+    client_balance_sat: arrayOf(integer)
+  }),
+  Prices: object({
+    channel_size_sat: integer,
+    last_update: nullable(dateTime),
+    data_source: { type: 'string', enum: ['live', 'cached', 'historical', 'estimated', 'mixed', 'unknown'] },
+    prices: arrayOf(ref('Price')),
+    quote_filters: nullable(ref('QuoteFilters')),
+    quote_dimensions: ref('QuoteDimensions')
+  }),
+  HistoryPoint: object({
+    timestamp: dateTime,
+    lsp_id: string,
+    lsp_name: string,
+    min_fee_msat: integer,
+    avg_fee_msat: integer,
+    max_fee_msat: integer,
+    last_fee_msat: integer,
+    entry_count: integer,
+    source: string
+  }),
+  HistoryAnomaly: object({
+    timestamp: dateTime,
+    observed_at: dateTime,
+    lsp_id: string,
+    lsp_name: string,
+    total_fee_msat: integer,
+    reason: { type: 'string', enum: ['spike', 'drop', 'near_zero'] },
+    status: { type: 'string', enum: ['pending', 'confirmed', 'rejected'] },
+    ratio: number
+  }),
+  History: object({
+    channel_size_sat: integer,
+    bucket: { type: 'string', enum: [...HISTORY_BUCKETS] },
+    from: dateTime,
+    to: dateTime,
+    lsp_ids: nullable(arrayOf(string)),
+    observation_count: integer,
+    points: arrayOf(ref('HistoryPoint')),
+    anomalies: arrayOf(ref('HistoryAnomaly'))
+  }),
+  FeeCurves: object({
+    channel_sizes: arrayOf(integer),
+    curves: arrayOf(object({
+      lsp_id: string,
+      lsp_name: string,
+      min_channel_size_sat: nullable(integer),
+      max_channel_size_sat: nullable(integer),
+      points: arrayOf(object({
+        channel_size_sat: integer,
+        total_fee_msat: integer,
+        fee_ppm: nullable(number),
+        timestamp: dateTime,
+        source: string,
+        in_range: boolean
+      }, ['channel_size_sat', 'total_fee_msat', 'fee_ppm', 'timestamp', 'in_range']))
+    })),
+    cheapest: arrayOf(object({ channel_size_sat: integer, lsp_id: string, lsp_name: string, total_fee_msat: integer, fee_ppm: nullable(number) })),
+    crossovers: arrayOf(object({ channel_size_sat: integer, from_lsp_id: string, to_lsp_id: string }))
+  })
+};
+
+const parameter = (name: string, description: string, schema: Schema, required: boolean = false): Schema =>
+  ({ name, in: 'query', description, required, schema });
+
+const CHANNEL_SIZE = (required: boolean) =>
+  parameter('channelSize', 'Channel size in sats' + (required ? '' : ' (default 1000000)'), { type: 'integer', minimum: 1 }, required);
+
+const errorResponses = (codes: ApiErrorCode[]) => Object.fromEntries(
+  Array.from(new Set(codes.map(code => API_ERROR_STATUS[code]))).map(status => [String(status), {
+    description: codes.filter(code => API_ERROR_STATUS[code] === status).join(', '),
+    content: { 'application/json': { schema: ref('ErrorResponse') } }
+  }])
+);
+
+const operation = (summary: string, description: string, parameters: Schema[], data: Schema, errors: ApiErrorCode[]): Schema => ({
+  get: {
+    summary,
+    description,
+    parameters,
+    responses: {
+      '200': { description: 'OK', content: { 'application/json': { schema: envelope(data) } } },
+      ...errorResponses(['METHOD_NOT_ALLOWED', 'RATE_LIMITED', 'INTERNAL_ERROR', ...errors])
+    }
+  }
+});
+
+export function buildOpenApiDocument(serverUrl?: string): Record<string, unknown> {
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'Alby LSP Price Board API',
+      version: API_V1_VERSION,
+      description: 'Lightning channel prices from LSPS1 providers. Every response is a `{ success, data | error, code, timestamp }` ' +
+        'envelope; branch on `code`, the messages may change. Within v1 fields are only added, never renamed or removed.'
+    },
+    ...(serverUrl ? { servers: [{ url: serverUrl }] } : {}),
+    paths: {
+      [`${API_V1_PREFIX}/prices`]: operation(
+        'Latest prices for a channel size',
+        'Cached prices only; this endpoint never triggers LSP requests. Quote filters select a point of the quote matrix.',
+        [
+          CHANNEL_SIZE(false),
+          parameter('expiryBlocks', 'Channel lifetime in blocks', { type: 'integer', minimum: 1 }),
+          parameter('announce', 'Public (true) or private (false) channel', { type: 'string', enum: ['true', 'false', 'public', 'private'] }),
+          parameter('clientBalance', 'Sats pushed to the client side at open', { type: 'integer', minimum: 0 })
+        ],
+        ref('Prices'),
+        ['INVALID_PARAMETER', 'STORE_UNAVAILABLE']
+      ),
+      [`${API_V1_PREFIX}/history`]: operation(
+        'Price history for a channel size',
+        'Min/avg/max/last fee per bucket and LSP. Suspicious prices are listed in `anomalies` instead of being averaged.',
+        [
+          CHANNEL_SIZE(true),
+          parameter('lspId', 'LSP id, repeatable or comma-separated', string),
+          parameter('bucket', 'Bucket size (default day)', { type: 'string', enum: [...HISTORY_BUCKETS] }),
+          parameter('from', 'Range start (default: `days` before `to`)', dateTime),
+          parameter('to', 'Range end (default now)', dateTime),
+          parameter('days', 'Range length when `from` is not given (default 30)', { type: 'number', minimum: 0, exclusiveMinimum: true })
+        ],
+        ref('History'),
+        ['INVALID_PARAMETER', 'STORE_UNAVAILABLE']
+      ),
+      [`${API_V1_PREFIX}/fee-curve`]: operation(
+        'Fee curve per LSP across channel sizes',
+        'Fee and ppm per LSP at every stored channel size, the sizes each LSP accepts, the cheapest LSP per size and where it changes.',
+        [],
+        ref('FeeCurves'),
+        ['STORE_UNAVAILABLE']
+      ),
+      [`${API_V1_PREFIX}/openapi.json`]: {
+        get: {
+          summary: 'This document',
+          responses: { '200': { description: 'OpenAPI 3 document', content: { 'application/json': { schema: { type: 'object' } } } } }
+        }
+      }
+    },
+    components: { schemas: SCHEMAS }
+  };
+}
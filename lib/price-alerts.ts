@@ -0,0 +1,581 @@
+import { createHmac, randomBytes, randomUUID } from 'crypto';
+import { promises as dns } from 'dns';
+import net from 'net';
+import { calculateFeePpm } from './fee-ppm';
+import type { LSPPrice } from './lsp-api';
+import { getPriceStore, isStoreConfigured } from './store';
+
+/**
+ * Price alerts with webhook delivery
+ * A rule watches one channel size for one LSP (or any LSP) and fires when the fee drops
+ * below a threshold (sats, ppm or fiat) or when a new provider becomes the cheapest.
+ * Rules are evaluated after every savePricesToDB write and only fire on the transition
+ * into the matching state, so an unchanged price does not notify again on every refresh.
+ * Events are queued, not sent, by the write; /api/cron/deliver-alerts POSTs them, signed
+ * with the rule's secret, and retries failed deliveries with backoff.
+ * Each rule's evaluation state and each queued delivery are stored on their own, so an
+ * evaluation or a delivery run never rewrites rules or deliveries it did not handle.
+ */
+
+// Outside the alby:lsp:* namespace so clearing the price cache keeps subscriptions
+const RULES_KEY = 'alby:alerts:rules';
+// Sorted set of PendingDelivery JSON, scored by next_attempt_at (epoch ms)
+const PENDING_KEY = 'alby:alerts:pending';
+const DELIVERY_LOG_KEY = 'alby:alerts:deliveries';
+
+const getRuleStateKey = (ruleId: string) => `alby:alerts:state:${ruleId}`;
+
+const DELIVERY_LOG_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+const WEBHOOK_TIMEOUT_MS = 5000;
+// Fiat rules are skipped for this write when the exchange rate takes longer
+const RATE_LOOKUP_TIMEOUT_MS = 2000;
+// Delay before each retry; the delivery is dropped after the last one fails
+export const RETRY_DELAYS_MS = [60 * 1000, 5 * 60 * 1000, 30 * 60 * 1000, 2 * 60 * 60 * 1000];
+export const MAX_RULES_PER_OWNER = 20;
+
+export type AlertUnit = 'sats' | 'ppm' | 'fiat';
+
+export type AlertCondition =
+  | { type: 'below'; unit: AlertUnit; value: number; currency?: string } // currency is required for fiat
+  | { type: 'new_cheapest' };
+
+export interface AlertRule {
+  id: string;
+  owner: string; // actor that created the rule (admin name or pro:<name>)
+  webhook_url: string;
+  secret: string; // HMAC key for X-Priceboard-Signature, only returned on creation
+  lsp_id: string; // LSP id or 'any'
+  channel_size_sat: number;
+  condition: AlertCondition;
+  active: boolean;
+  created_at: string;
+  last_triggered_at?: string;
+  // Evaluation state
+  matched: Record<string, boolean>; // LSP id → fee was below the threshold at the last evaluation
+  cheapest_lsp_id?: string | null; // undefined until the first evaluation
+}
+
+// Written by evaluatePriceAlerts under the rule's state key, merged into the rule on load
+type AlertRuleState = Pick<AlertRule, 'matched' | 'cheapest_lsp_id' | 'last_triggered_at'>;
+
+export type AlertEventType = 'price.below_threshold' | 'price.new_cheapest';
+
+export interface AlertEvent {
+  id: string;
+  type: AlertEventType;
+  rule_id: string;
+  lsp_id: string;
+  lsp_name: string;
+  channel_size_sat: number;
+  total_fee_msat: number;
+  fee_ppm: number | null;
+  fiat?: { amount: number; currency: string };
+  threshold?: { unit: AlertUnit; value: number; currency?: string };
+  previous_cheapest_lsp_id?: string | null;
+  price_timestamp: string;
+  triggered_at: string;
+}
+
+export interface PendingDelivery {
+  id: string; // same as the event id, sent as X-Priceboard-Delivery
+  rule_id: string;
+  event: AlertEvent;
+  attempts: number; // 0 until the first delivery attempt
+  next_attempt_at: string;
+}
+
+export interface DeliveryAttempt {
+  delivery_id: string;
+  rule_id: string;
+  event_type: AlertEventType;
+  attempt: number;
+  timestamp: string;
+  ok: boolean;
+  status_code?: number;
+  error?: string;
+  will_retry: boolean;
+}
+
+export interface AlertRuleInput {
+  webhook_url?: unknown;
+  lsp_id?: unknown;
+  channel_size_sat?: unknown;
+  condition?: unknown;
+}
+
+const isPriced = (price: LSPPrice) => !price.error && price.total_fee_msat > 0 && price.source !== 'estimated';
+
+// Private, loopback, link-local and unspecified IPv4/IPv6 addresses (IPv4-mapped IPv6 included)
+export function isPrivateAddress(address: string): boolean {
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  const ip = mapped ? mapped[1] : address;
+  if (net.isIPv4(ip)) {
+    return /^(127\.|10\.|192\.168\.|169\.254\.|0\.)/.test(ip) ||
+      /^172\.(1[6-9]|2\d|3[01])\./.test(ip) ||
+      /^100\.(6[4-9]|[7-9]\d|1[01]\d|12[0-7])\./.test(ip);
+  }
+  return net.isIPv6(ip) && /^(::1?|f[cd][0-9a-f]{2}:.*|fe[89ab][0-9a-f]:.*)$/i.test(ip);
+}
+
+// Private host names and IP literals; http and these hosts are only allowed outside production
+const isPrivateHost = (hostname: string) =>
+  /^(localhost|.*\.localhost|.*\.local|.*\.internal)$/i.test(hostname) ||
+  isPrivateAddress(hostname.replace(/^\[(.*)\]$/, '$1'));
+
+/**
+ * Resolve a webhook URL's host and reject private addresses
+ * A public name can point at an internal address, so the literal check in validateAlertRule
+ * is not enough. Returns the problem found, or null when every address is public.
+ */
+export async function checkWebhookHost(webhookUrl: string): Promise<string | null> {
+  const hostname = new URL(webhookUrl).hostname.replace(/^\[(.*)\]$/, '$1');
+  if (isPrivateHost(hostname)) return 'webhook_url must be a public https URL';
+  if (net.isIP(hostname)) return null;
+
+  try {
+    const addresses = await dns.lookup(hostname, { all: true, verbatim: true });
+    if (addresses.length === 0) return `webhook_url host ${hostname} does not resolve`;
+    return addresses.some(({ address }) => isPrivateAddress(address))
+      ? `webhook_url host ${hostname} resolves to a private address`
+      : null;
+  } catch {
+    return `webhook_url host ${hostname} does not resolve`;
+  }
+}
+
+/**
+ * Validate a rule from the API (pure)
+ * Returns the normalized fields or the first problem found.
+ */
+export function validateAlertRule(
+  input: AlertRuleInput,
+  options: { lspIds: string[]; allowPrivateUrls?: boolean }
+): { rule: Pick<AlertRule, 'webhook_url' | 'lsp_id' | 'channel_size_sat' | 'condition'> } | { error: string } {
+  let url: URL;
+  try {
+    url = new URL(String(input.webhook_url));
+  } catch {
+    return { error: 'webhook_url must be a valid URL' };
+  }
+  if (!options.allowPrivateUrls && (url.protocol !== 'https:' || isPrivateHost(url.hostname))) {
+    return { error: 'webhook_url must be a public https URL' };
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    return { error: 'webhook_url must be an http(s) URL' };
+  }
+
+  const lspId = input.lsp_id ?? 'any';
+  if (typeof lspId !== 'string' || (lspId !== 'any' && !options.lspIds.includes(lspId))) {
+    return { error: "lsp_id must be a registered LSP id or 'any'" };
+  }
+
+  const size = Number(input.channel_size_sat);
+  if (!Number.isInteger(size) || size <= 0) {
+    return { error: 'channel_size_sat must be a positive integer' };
+  }
+
+  const condition = (input.condition || {}) as Record<string, unknown>;
+  if (condition.type === 'new_cheapest') {
+    return { rule: { webhook_url: url.toString(), lsp_id: lspId, channel_size_sat: size, condition: { type: 'new_cheapest' } } };
+  }
+  if (condition.type !== 'below') {
+    return { error: "condition.type must be 'below' or 'new_cheapest'" };
+  }
+  const value = Number(condition.value);
+  if (condition.unit !== 'sats' && condition.unit !== 'ppm' && condition.unit !== 'fiat') {
+    return { error: "condition.unit must be 'sats', 'ppm' or 'fiat'" };
+  }
+  if (!Number.isFinite(value) || value <= 0) {
+    return { error: 'condition.value must be a positive number' };
+  }
+  if (condition.unit === 'fiat' && (typeof condition.currency !== 'string' || !/^[a-z]{3}$/i.test(condition.currency))) {
+    return { error: 'condition.currency is required for fiat thresholds (e.g. usd)' };
+  }
+
+  return {
+    rule: {
+      webhook_url: url.toString(),
+      lsp_id: lspId,
+      channel_size_sat: size,
+      condition: {
+        type: 'below',
+        unit: condition.unit,
+        value,
+        ...(condition.unit === 'fiat' ? { currency: (condition.currency as string).toLowerCase() } : {})
+      }
+    }
+  };
+}
+
+/**
+ * Evaluate one rule against the current prices of its channel size (pure)
+ * `fiatPerSat` maps a currency to its value of one sat; fiat rules are skipped without a rate.
+ * new_cheapest does not fire on the first evaluation, which only records the current leader.
+ */
+export function evaluateAlertRule(
+  rule: AlertRule,
+  prices: LSPPrice[],
+  fiatPerSat: Record<string, number> = {},
+  now: Date = new Date()
+): { rule: AlertRule; events: AlertEvent[] } {
+  const priced = prices.filter(price => price.channel_size_sat === rule.channel_size_sat && isPriced(price));
+  const events: AlertEvent[] = [];
+  const toEvent = (type: AlertEventType, price: LSPPrice, extra: Partial<AlertEvent> = {}): AlertEvent => ({
+    id: randomUUID(),
+    type,
+    rule_id: rule.id,
+    lsp_id: price.lsp_id,
+    lsp_name: price.lsp_name,
+    channel_size_sat: price.channel_size_sat,
+    total_fee_msat: price.total_fee_msat,
+    fee_ppm: calculateFeePpm(price.total_fee_msat, price.channel_size_sat),
+    price_timestamp: price.timestamp,
+    triggered_at: now.toISOString(),
+    ...extra
+  });
+
+  if (rule.condition.type === 'new_cheapest') {
+    if (priced.length === 0) return { rule, events };
+    const cheapest = priced.reduce((best, price) => price.total_fee_msat < best.total_fee_msat ? price : best);
+    const previous = rule.cheapest_lsp_id;
+    const changed = previous !== undefined && previous !== cheapest.lsp_id;
+    if (changed && (rule.lsp_id === 'any' || rule.lsp_id === cheapest.lsp_id)) {
+      events.push(toEvent('price.new_cheapest', cheapest, { previous_cheapest_lsp_id: previous }));
+    }
+    return {
+      rule: { ...rule, cheapest_lsp_id: cheapest.lsp_id, ...(events.length > 0 ? { last_triggered_at: now.toISOString() } : {}) },
+      events
+    };
+  }
+
+  const condition = rule.condition;
+  const rate = condition.unit === 'fiat' ? fiatPerSat[condition.currency || ''] : undefined;
+  if (condition.unit === 'fiat' && !rate) return { rule, events };
+
+  const matched = { ...rule.matched };
+  priced
+    .filter(price => rule.lsp_id === 'any' || price.lsp_id === rule.lsp_id)
+    .forEach(price => {
+      const feeSats = price.total_fee_msat / 1000;
+      const fiatAmount = rate ? Math.round(feeSats * rate * 100) / 100 : undefined;
+      const measured = condition.unit === 'sats'
+        ? feeSats
+        : condition.unit === 'ppm'
+          ? calculateFeePpm(price.total_fee_msat, price.channel_size_sat) ?? Infinity
+          : fiatAmount as number;
+      const isBelow = measured < condition.value;
+
+      if (isBelow && !matched[price.lsp_id]) {
+        events.push(toEvent('price.below_threshold', price, {
+          threshold: { unit: condition.unit, value: condition.value, ...(condition.currency ? { currency: condition.currency } : {}) },
+          ...(fiatAmount !== undefined ? { fiat: { amount: fiatAmount, currency: condition.currency as string } } : {})
+        }));
+      }
+      matched[price.lsp_id] = isBelow;
+    });
+
+  return {
+    rule: { ...rule, matched, ...(events.length > 0 ? { last_triggered_at: now.toISOString() } : {}) },
+    events
+  };
+}
+
+/**
+ * Webhook signature: hex HMAC-SHA256 of `${timestamp}.${body}` with the rule secret
+ * Receivers recompute it from the X-Priceboard-Timestamp header and the raw body.
+ */
+export const signWebhook = (secret: string, timestamp: string, body: string): string =>
+  createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+
+// When to try again after a failed attempt, or null when the delivery is given up
+export const nextRetryAt = (attempts: number, now: Date = new Date()): string | null =>
+  attempts <= RETRY_DELAYS_MS.length ? new Date(now.getTime() + RETRY_DELAYS_MS[attempts - 1]).toISOString() : null;
+
+// Rules are returned without their secret except on creation
+export const redactRule = (rule: AlertRule): Omit<AlertRule, 'secret'> => {
+  const redacted: Partial<AlertRule> = { ...rule };
+  delete redacted.secret;
+  return redacted as Omit<AlertRule, 'secret'>;
+};
+
+const parse = <T>(value: unknown, fallback: T): T => {
+  if (value === null || value === undefined) return fallback;
+  return (typeof value === 'string' ? JSON.parse(value) : value) as T;
+};
+
+async function loadRules(): Promise<Record<string, AlertRule>> {
+  const store = getPriceStore();
+  if (!store || !isStoreConfigured()) return {};
+  return parse(await store.get(RULES_KEY), {} as Record<string, AlertRule>);
+}
+
+async function saveRules(rules: Record<string, AlertRule>): Promise<void> {
+  const store = getPriceStore();
+  if (!store || !isStoreConfigured()) throw new Error('Price store not configured');
+  await store.set(RULES_KEY, JSON.stringify(rules));
+}
+
+// Rules with the evaluation state stored under their own keys
+async function withEvaluationState(rules: AlertRule[]): Promise<AlertRule[]> {
+  const store = getPriceStore();
+  if (!store || !isStoreConfigured() || rules.length === 0) return rules;
+  const states = await Promise.all(rules.map(rule => store.get(getRuleStateKey(rule.id))));
+  return rules.map((rule, index) => ({ ...rule, ...parse(states[index], {} as Partial<AlertRuleState>) }));
+}
+
+const toPendingMember = (delivery: PendingDelivery) => ({ score: Date.parse(delivery.next_attempt_at), member: JSON.stringify(delivery) });
+
+// Queued deliveries due by maxTime, each with the member it is stored as (for zrem)
+async function loadPending(maxTime: number = Infinity): Promise<Array<{ delivery: PendingDelivery; member: string }>> {
+  const store = getPriceStore();
+  if (!store || !isStoreConfigured()) return [];
+  const entries = await store.zrangeByScore<PendingDelivery | string>(PENDING_KEY, -Infinity, maxTime);
+  return entries.map(entry => typeof entry === 'string'
+    ? { delivery: JSON.parse(entry) as PendingDelivery, member: entry }
+    : { delivery: entry, member: JSON.stringify(entry) });
+}
+
+// Owners see their own rules, admins (canManageAll) see every rule
+export async function listAlertRules(owner: string, canManageAll: boolean = false): Promise<AlertRule[]> {
+  try {
+    const rules = Object.values(await loadRules());
+    return (await withEvaluationState(rules.filter(rule => canManageAll || rule.owner === owner)))
+      .sort((a, b) => a.created_at.localeCompare(b.created_at));
+  } catch (error) {
+    console.error('Error loading alert rules:', error);
+    return [];
+  }
+}
+
+export async function getAlertRule(id: string, owner: string, canManageAll: boolean = false): Promise<AlertRule | null> {
+  const rule = (await loadRules())[id];
+  return rule && (canManageAll || rule.owner === owner) ? (await withEvaluationState([rule]))[0] : null;
+}
+
+/**
+ * Create a rule for an already validated input
+ * Returns an error when the owner already has MAX_RULES_PER_OWNER rules; throws when the store is unavailable.
+ */
+export async function createAlertRule(
+  fields: Pick<AlertRule, 'webhook_url' | 'lsp_id' | 'channel_size_sat' | 'condition'>,
+  owner: string
+): Promise<{ rule: AlertRule } | { error: string }> {
+  const rules = await loadRules();
+  if (Object.values(rules).filter(rule => rule.owner === owner).length >= MAX_RULES_PER_OWNER) {
+    return { error: `At most ${MAX_RULES_PER_OWNER} alert rules per owner; delete one before creating another` };
+  }
+
+  const rule: AlertRule = {
+    id: randomUUID(),
+    owner,
+    ...fields,
+    secret: randomBytes(32).toString('hex'),
+    active: true,
+    created_at: new Date().toISOString(),
+    matched: {}
+  };
+  await saveRules({ ...rules, [rule.id]: rule });
+  console.log(`🔔 Alert rule ${rule.id} created by ${owner} (${rule.condition.type}, ${rule.lsp_id}, ${rule.channel_size_sat} sats)`);
+  return { rule };
+}
+
+// Pause or resume a rule; resuming resets its state so the current prices can fire again
+export async function setAlertRuleActive(id: string, owner: string, active: boolean, canManageAll: boolean = false): Promise<AlertRule | null> {
+  const rules = await loadRules();
+  const rule = rules[id];
+  if (!rule || !(canManageAll || rule.owner === owner)) return null;
+
+  const resumed = active && !rule.active;
+  const updated: AlertRule = resumed
+    ? { ...rule, active, matched: {}, cheapest_lsp_id: undefined }
+    : { ...rule, active };
+  await saveRules({ ...rules, [id]: updated });
+  if (resumed) await getPriceStore()?.del(getRuleStateKey(id));
+  return resumed ? updated : (await withEvaluationState([updated]))[0];
+}
+
+export async function deleteAlertRule(id: string, owner: string, canManageAll: boolean = false): Promise<boolean> {
+  const rules = await loadRules();
+  const rule = rules[id];
+  if (!rule || !(canManageAll || rule.owner === owner)) return false;
+
+  delete rules[id];
+  await saveRules(rules);
+  const store = getPriceStore();
+  if (store) {
+    await store.del(getRuleStateKey(id));
+    // Queued retries of a deleted rule are dropped
+    const queued = (await loadPending()).filter(({ delivery }) => delivery.rule_id === id);
+    if (queued.length > 0) await store.zrem(PENDING_KEY, ...queued.map(({ member }) => member));
+  }
+  return true;
+}
+
+// Most recent delivery attempts for a rule first
+export async function getDeliveryLog(ruleId: string, limit: number = 50): Promise<DeliveryAttempt[]> {
+  try {
+    const store = getPriceStore();
+    if (!store || !isStoreConfigured()) return [];
+
+    const entries = await store.zrangeByScore<DeliveryAttempt | string>(DELIVERY_LOG_KEY, -Infinity, Infinity, { rev: true });
+    return entries
+      .map(entry => typeof entry === 'string' ? JSON.parse(entry) as DeliveryAttempt : entry)
+      .filter(entry => entry.rule_id === ruleId)
+      .slice(0, limit);
+  } catch (error) {
+    console.error('Error reading alert delivery log:', error);
+    return [];
+  }
+}
+
+/**
+ * POST one event to the rule's webhook
+ * Never throws: the outcome is returned and written to the delivery log.
+ */
+async function attemptDelivery(rule: AlertRule, event: AlertEvent, attempt: number): Promise<DeliveryAttempt> {
+  const body = JSON.stringify(event);
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  let result: Pick<DeliveryAttempt, 'ok' | 'status_code' | 'error'>;
+
+  try {
+    // Checked again on every attempt: the host's DNS records may have changed since creation
+    const hostError = process.env.NODE_ENV === 'production' ? await checkWebhookHost(rule.webhook_url) : null;
+    if (hostError) throw new Error(hostError);
+
+    const response = await fetch(rule.webhook_url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'Alby-LSP-Priceboard-Webhook/1.0',
+        'X-Priceboard-Delivery': event.id,
+        'X-Priceboard-Event': event.type,
+        'X-Priceboard-Timestamp': timestamp,
+        'X-Priceboard-Signature': `sha256=${signWebhook(rule.secret, timestamp, body)}`
+      },
+      body,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS)
+    });
+    result = response.ok
+      ? { ok: true, status_code: response.status }
+      : { ok: false, status_code: response.status, error: `HTTP ${response.status}` };
+  } catch (error) {
+    result = { ok: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+
+  const entry: DeliveryAttempt = {
+    delivery_id: event.id,
+    rule_id: rule.id,
+    event_type: event.type,
+    attempt,
+    timestamp: new Date().toISOString(),
+    ...result,
+    will_retry: !result.ok && nextRetryAt(attempt) !== null
+  };
+  console.log(`${entry.ok ? '📬' : '📭'} Alert webhook ${event.type} for rule ${rule.id}: ${entry.ok ? `HTTP ${entry.status_code}` : entry.error} (attempt ${attempt})`);
+
+  try {
+    const store = getPriceStore();
+    if (store && isStoreConfigured()) {
+      const now = Date.now();
+      await store.zadd(DELIVERY_LOG_KEY, { score: now, member: JSON.stringify(entry) });
+      await store.zremrangeByScore(DELIVERY_LOG_KEY, -Infinity, now - DELIVERY_LOG_RETENTION_MS);
+    }
+  } catch (error) {
+    console.error('Error writing alert delivery log:', error);
+  }
+  return entry;
+}
+
+/**
+ * Deliver queued events that are due, new ones and retries (called by /api/cron/deliver-alerts)
+ * Returns how many were delivered.
+ */
+export async function retryPendingDeliveries(now: Date = new Date()): Promise<number> {
+  try {
+    const store = getPriceStore();
+    if (!store || !isStoreConfigured()) return 0;
+
+    const due = await loadPending(now.getTime());
+    if (due.length === 0) return 0;
+
+    const rules = await loadRules();
+    let delivered = 0;
+    await Promise.all(due.map(async ({ delivery, member }) => {
+      // Removing the member claims the delivery: an overlapping run that removed it first sends it
+      if (await store.zrem(PENDING_KEY, member) === 0) return;
+      const rule = rules[delivery.rule_id];
+      if (!rule) return;
+      const attempts = delivery.attempts + 1;
+      const attempt = await attemptDelivery(rule, delivery.event, attempts);
+      if (attempt.ok) {
+        delivered++;
+        return;
+      }
+      const retryAt = nextRetryAt(attempts);
+      if (retryAt) await store.zadd(PENDING_KEY, toPendingMember({ ...delivery, attempts, next_attempt_at: retryAt }));
+    }));
+
+    return delivered;
+  } catch (error) {
+    console.error('Error retrying alert deliveries:', error);
+    return 0;
+  }
+}
+
+/**
+ * Evaluate every active rule against freshly saved prices (called by savePricesToDB)
+ * `pricesBySize` holds the complete current prices of each written channel size: the stored
+ * snapshot with the written prices merged in, so a write of a single LSP is not mistaken for
+ * the whole market. Triggered events are queued for /api/cron/deliver-alerts.
+ * Never throws: alerts must not break price updates.
+ */
+export async function evaluatePriceAlerts(pricesBySize: Record<number, LSPPrice[]>): Promise<number> {
+  try {
+    const store = getPriceStore();
+    if (!store || !isStoreConfigured()) return 0;
+
+    const active = Object.values(await loadRules()).filter(rule => rule.active && pricesBySize[rule.channel_size_sat]);
+    if (active.length === 0) return 0;
+    const candidates = await withEvaluationState(active);
+
+    // One rate lookup per currency (cached by lib/currency.ts)
+    const fiatPerSat: Record<string, number> = {};
+    const currencies = new Set(candidates.flatMap(rule =>
+      rule.condition.type === 'below' && rule.condition.unit === 'fiat' && rule.condition.currency ? [rule.condition.currency] : []));
+    if (currencies.size > 0) {
+      const { convertSatsToCurrency } = await import('./currency');
+      await Promise.all(Array.from(currencies).map(async currency => {
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        const conversion = await Promise.race([
+          convertSatsToCurrency(100000000, currency),
+          new Promise<null>(resolve => { timer = setTimeout(() => resolve(null), RATE_LOOKUP_TIMEOUT_MS); })
+        ]);
+        clearTimeout(timer);
+        if (conversion && !conversion.error && conversion.amount > 0) fiatPerSat[currency] = conversion.amount / 100000000;
+      }));
+    }
+
+    // Rules deleted or paused during the rate lookup get neither state nor events
+    const current = await loadRules();
+    const results = candidates
+      .map(rule => evaluateAlertRule(rule, pricesBySize[rule.channel_size_sat], fiatPerSat))
+      .filter(result => current[result.rule.id]?.active);
+    await store.setMany(Object.fromEntries(results.map(({ rule }) => {
+      const state: AlertRuleState = { matched: rule.matched, cheapest_lsp_id: rule.cheapest_lsp_id, last_triggered_at: rule.last_triggered_at };
+      return [getRuleStateKey(rule.id), JSON.stringify(state)];
+    })));
+
+    const events = results.flatMap(result => result.events);
+    if (events.length > 0) {
+      console.log(`🔔 ${events.length} price alerts triggered, queued for delivery`);
+      const queuedAt = new Date().toISOString();
+      await store.zadd(PENDING_KEY, ...events.map(event =>
+        toPendingMember({ id: event.id, rule_id: event.rule_id, event, attempts: 0, next_attempt_at: queuedAt })));
+    }
+    return events.length;
+  } catch (error) {
+    console.error('Error evaluating price alerts:', error);
+    return 0;
+  }
+}
@@ -0,0 +1,277 @@
+import { isSuspicious } from './anomaly-rule';
+import type { LSPPrice } from './lsp-api';
+import { getLatestPrices, getPriceSeries, replacePriceObservation, savePricesToDB } from './db';
+import { getPriceStore, isStoreConfigured } from './store';
+
+/**
+ * Price anomaly detection on the stored history
+ * Every new observation is compared with the median of that LSP's recent prices at the same
+ * channel size. A 3x jump, a drop to a third or a near-zero fee (usually a changed response
+ * shape, e.g. a fee field in sats read as msat) is flagged on the observation itself.
+ * With PRICE_ANOMALY_HOLD=1 flagged prices are also held out of the current prices until an
+ * admin confirms them or the LSP quotes the same level again.
+ */
+
+// Held prices and the review log are cache data, cleared with alby:lsp:*
+const HELD_KEY = 'alby:lsp:anomalies:held';
+const LOG_KEY = 'alby:lsp:anomalies:log';
+const LOG_RETENTION_MS = 90 * 24 * 60 * 60 * 1000;
+
+// Baseline: newest successful observations before the new one
+const BASELINE_SIZE = 20;
+const MIN_BASELINE = 5;
+const SPIKE_RATIO = 3;
+const NEAR_ZERO_RATIO = 0.05;
+// In a volatile series a jump within this many robust standard deviations is not flagged
+const MIN_ROBUST_Z = 4;
+// A repeat within this tolerance of a pending point confirms the new level
+const REPEAT_TOLERANCE = 0.2;
+
+export type AnomalyReason = 'spike' | 'drop' | 'near_zero';
+export type AnomalyStatus = 'pending' | 'confirmed' | 'rejected';
+
+export interface PriceAnomaly {
+  reason: AnomalyReason;
+  status: AnomalyStatus;
+  ratio: number; // fee / baseline median
+  baseline_fee_msat: number; // median of the baseline
+  sample_count: number;
+  detected_at: string;
+  resolved_at?: string;
+  resolved_by?: string; // admin actor, or 'repeat' when the LSP quoted the same level again
+}
+
+export interface AnomalyLogEntry {
+  timestamp: string;
+  action: 'flagged' | 'confirmed' | 'rejected';
+  lsp_id: string;
+  channel_size_sat: number;
+  total_fee_msat: number;
+  price_timestamp: string;
+  anomaly: PriceAnomaly;
+}
+
+const isPriced = (price: LSPPrice) => !price.error && price.total_fee_msat > 0;
+
+export const isAnomalyHoldEnabled = (): boolean => process.env.PRICE_ANOMALY_HOLD === '1';
+
+const getHeldKey = (lspId: string, channelSize: number) => `${channelSize}:${lspId}`;
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const isRepeatOf = (price: LSPPrice, other: LSPPrice) =>
+  Math.abs(price.total_fee_msat - other.total_fee_msat) <= other.total_fee_msat * REPEAT_TOLERANCE;
+
+/**
+ * Compare a new observation with the LSP's recent prices (pure)
+ * `recent` is the stored series, in any order; observations at or after the new one are ignored.
+ * Returns null when the price is in line (or the baseline is too short to judge).
+ */
+export function detectPriceAnomaly(price: LSPPrice, recent: LSPPrice[], now: Date = new Date()): PriceAnomaly | null {
+  if (!isPriced(price)) return null;
+  const time = Date.parse(price.timestamp);
+  const earlier = recent
+    .filter(observation => isPriced(observation) && Date.parse(observation.timestamp) < time)
+    .sort((a, b) => Date.parse(b.timestamp) - Date.parse(a.timestamp));
+  const baseline = earlier.filter(observation => !isSuspicious(observation)).slice(0, BASELINE_SIZE);
+  if (baseline.length < MIN_BASELINE) return null;
+
+  const fees = baseline.map(observation => observation.total_fee_msat);
+  const baselineFee = median(fees);
+  const ratio = price.total_fee_msat / baselineFee;
+
+  let reason: AnomalyReason | null = null;
+  if (ratio <= NEAR_ZERO_RATIO) {
+    reason = 'near_zero';
+  } else if (ratio >= SPIKE_RATIO || ratio <= 1 / SPIKE_RATIO) {
+    // Scaled MAD estimates the standard deviation without being skewed by earlier outliers
+    const spread = 1.4826 * median(fees.map(fee => Math.abs(fee - baselineFee)));
+    if (spread === 0 || Math.abs(price.total_fee_msat - baselineFee) / spread >= MIN_ROBUST_Z) {
+      reason = ratio > 1 ? 'spike' : 'drop';
+    }
+  }
+  if (!reason) return null;
+
+  const previous = earlier[0];
+  const repeated = previous?.anomaly?.status === 'pending' && isRepeatOf(price, previous);
+  return {
+    reason,
+    status: repeated ? 'confirmed' : 'pending',
+    ratio: Math.round(ratio * 100) / 100,
+    baseline_fee_msat: Math.round(baselineFee),
+    sample_count: baseline.length,
+    detected_at: now.toISOString(),
+    ...(repeated ? { resolved_at: now.toISOString(), resolved_by: 'repeat' } : {})
+  };
+}
+
+const parse = <T>(value: unknown, fallback: T): T => {
+  if (value === null || value === undefined) return fallback;
+  return (typeof value === 'string' ? JSON.parse(value) : value) as T;
+};
+
+async function loadHeld(): Promise<Record<string, LSPPrice>> {
+  const store = getPriceStore();
+  if (!store || !isStoreConfigured()) return {};
+  return parse(await store.get(HELD_KEY), {} as Record<string, LSPPrice>);
+}
+
+async function saveHeld(held: Record<string, LSPPrice>): Promise<void> {
+  const store = getPriceStore();
+  if (!store || !isStoreConfigured()) return;
+  if (Object.keys(held).length === 0) {
+    await store.del(HELD_KEY);
+  } else {
+    await store.set(HELD_KEY, JSON.stringify(held));
+  }
+}
+
+async function appendLog(entries: AnomalyLogEntry[]): Promise<void> {
+  const store = getPriceStore();
+  if (!store || !isStoreConfigured() || entries.length === 0) return;
+  const now = Date.now();
+  await store.zadd(LOG_KEY, ...entries.map(entry => ({ score: Date.parse(entry.timestamp), member: JSON.stringify(entry) })));
+  await store.zremrangeByScore(LOG_KEY, -Infinity, now - LOG_RETENTION_MS);
+}
+
+const toLogEntry = (action: AnomalyLogEntry['action'], price: LSPPrice): AnomalyLogEntry => ({
+  timestamp: new Date().toISOString(),
+  action,
+  lsp_id: price.lsp_id,
+  channel_size_sat: price.channel_size_sat,
+  total_fee_msat: price.total_fee_msat,
+  price_timestamp: price.timestamp,
+  anomaly: price.anomaly as PriceAnomaly
+});
+
+/**
+ * Screen prices before savePricesToDB writes them
+ * `observed` carries the anomaly flags for the history; `current` is what the current prices
+ * should show (flagged prices replaced by the LSP's previous row while held).
+ * Never throws: on errors the prices are saved unscreened.
+ */
+export async function screenPrices(prices: LSPPrice[], now: Date = new Date()): Promise<{ observed: LSPPrice[]; current: LSPPrice[] }> {
+  try {
+    const log: AnomalyLogEntry[] = [];
+
+    const observed = await Promise.all(prices.map(async price => {
+      if (!isPriced(price) || price.anomaly) return price;
+
+      const recent = await getPriceSeries(price.lsp_id, price.channel_size_sat, { limit: BASELINE_SIZE * 2, newestFirst: true });
+      // Cached rows are re-saved with their original timestamp: keep the stored verdict
+      const stored = recent.find(observation => observation.timestamp === price.timestamp);
+      if (stored) return stored.anomaly ? { ...price, anomaly: stored.anomaly } : price;
+
+      const anomaly = detectPriceAnomaly(price, recent, now);
+      if (!anomaly) return price;
+
+      const flagged: LSPPrice = { ...price, anomaly };
+      log.push(toLogEntry(anomaly.status === 'confirmed' ? 'confirmed' : 'flagged', flagged));
+      if (anomaly.status === 'confirmed') {
+        // The earlier pending points at this level were real price changes
+        await Promise.all(recent
+          .filter(observation => observation.anomaly?.status === 'pending' && isRepeatOf(observation, price))
+          .map(observation => replacePriceObservation({
+            ...observation,
+            anomaly: { ...observation.anomaly as PriceAnomaly, status: 'confirmed', resolved_at: now.toISOString(), resolved_by: 'repeat' }
+          })));
+      }
+      console.log(`🚩 ${price.lsp_name} ${price.channel_size_sat} sats: ${anomaly.reason} (${anomaly.ratio}x the median of ${anomaly.sample_count} prices, ${anomaly.status})`);
+      return flagged;
+    }));
+
+    const held = await loadHeld();
+    let heldChanged = false;
+    const latestBySize = new Map<number, Promise<LSPPrice[]>>();
+    const hold = isAnomalyHoldEnabled();
+
+    const current = await Promise.all(observed.map(async price => {
+      const key = getHeldKey(price.lsp_id, price.channel_size_sat);
+      if (price.anomaly?.status !== 'pending') {
+        // A newer price in line (or confirmed) supersedes the held one
+        if (held[key] && isPriced(price) && Date.parse(price.timestamp) > Date.parse(held[key].timestamp)) {
+          delete held[key];
+          heldChanged = true;
+        }
+        return price;
+      }
+      if (!hold) return price;
+
+      held[key] = price;
+      heldChanged = true;
+      if (!latestBySize.has(price.channel_size_sat)) latestBySize.set(price.channel_size_sat, getLatestPrices(price.channel_size_sat));
+      const previous = (await latestBySize.get(price.channel_size_sat))
+        ?.find(row => row.lsp_id === price.lsp_id && isPriced(row) && !isSuspicious(row));
+      return previous || price;
+    }));
+
+    if (heldChanged) await saveHeld(held);
+    await appendLog(log);
+    return { observed, current };
+  } catch (error) {
+    console.error('Error screening prices for anomalies:', error);
+    return { observed: prices, current: prices };
+  }
+}
+
+// Prices held out of the current prices, waiting for review
+export async function getHeldPrices(): Promise<LSPPrice[]> {
+  try {
+    return Object.values(await loadHeld())
+      .sort((a, b) => a.channel_size_sat - b.channel_size_sat || a.lsp_id.localeCompare(b.lsp_id));
+  } catch (error) {
+    console.error('Error reading held prices:', error);
+    return [];
+  }
+}
+
+// Most recent flags and reviews first
+export async function getAnomalyLog(limit: number = 100): Promise<AnomalyLogEntry[]> {
+  try {
+    const store = getPriceStore();
+    if (!store || !isStoreConfigured()) return [];
+
+    const entries = await store.zrangeByScore<AnomalyLogEntry | string>(LOG_KEY, -Infinity, Infinity, { rev: true, offset: 0, count: limit });
+    return entries.map(entry => typeof entry === 'string' ? JSON.parse(entry) : entry);
+  } catch (error) {
+    console.error('Error reading anomaly log:', error);
+    return [];
+  }
+}
+
+/**
+ * Confirm or reject a held price
+ * Confirming publishes it as the LSP's current price; both mark the stored observation.
+ * Returns null when nothing is held for the LSP and channel size.
+ */
+export async function resolvePriceAnomaly(
+  lspId: string,
+  channelSize: number,
+  action: 'confirm' | 'reject',
+  actor: string
+): Promise<LSPPrice | null> {
+  const held = await loadHeld();
+  const key = getHeldKey(lspId, channelSize);
+  const price = held[key];
+  if (!price?.anomaly) return null;
+
+  const resolved: LSPPrice = {
+    ...price,
+    anomaly: { ...price.anomaly, status: action === 'confirm' ? 'confirmed' : 'rejected', resolved_at: new Date().toISOString(), resolved_by: actor }
+  };
+  await replacePriceObservation(resolved);
+
+  if (action === 'confirm') {
+    const rows = (await getLatestPrices(channelSize)).filter(row => row.lsp_id !== lspId);
+    await savePricesToDB([...rows, resolved]);
+  }
+
+  delete held[key];
+  await saveHeld(held);
+  await appendLog([toLogEntry(action === 'confirm' ? 'confirmed' : 'rejected', resolved)]);
+  return resolved;
+}
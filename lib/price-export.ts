@@ -0,0 +1,75 @@
+import { calculateFeePpm } from './fee-ppm';
+import { LSPPrice } from './lsp-api';
+
+export type ExportFormat = 'csv' | 'ndjson' | 'columnar';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'ndjson', 'columnar'];
+
+// Column order of every export format
+export const EXPORT_COLUMNS = [
+  'timestamp',
+  'lsp_id',
+  'channel_size_sat',
+  'total_fee_msat',
+  'fee_ppm',
+  'source',
+  'error_code'
+] as const;
+
+export type ExportColumn = typeof EXPORT_COLUMNS[number];
+export type ExportRow = Record<ExportColumn, string | number | null>;
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return typeof value === 'string' && (EXPORT_FORMATS as string[]).includes(value);
+}
+
+// One flat row per stored observation
+export function toExportRow(price: LSPPrice): ExportRow {
+  return {
+    timestamp: price.timestamp,
+    lsp_id: price.lsp_id,
+    channel_size_sat: price.channel_size_sat,
+    total_fee_msat: price.total_fee_msat || 0,
+    fee_ppm: calculateFeePpm(price.total_fee_msat, price.channel_size_sat),
+    source: price.source || null,
+    error_code: price.error_code || (price.error ? 'UNKNOWN' : null)
+  };
+}
+
+function escapeCsvValue(value: string | number | null): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function formatCsvHeader(): string {
+  return EXPORT_COLUMNS.join(',') + '\n';
+}
+
+export function formatCsvRow(row: ExportRow): string {
+  return EXPORT_COLUMNS.map(column => escapeCsvValue(row[column])).join(',') + '\n';
+}
+
+export function formatNdjsonRow(row: ExportRow): string {
+  return JSON.stringify(row) + '\n';
+}
+
+// Column-oriented JSON (one array per column, Parquet-style) for notebooks and dataframes
+export interface ColumnarExport {
+  columns: ExportColumn[];
+  rowCount: number;
+  data: Record<ExportColumn, Array<string | number | null>>;
+}
+
+export function createColumnarExport(): ColumnarExport {
+  const data = {} as ColumnarExport['data'];
+  EXPORT_COLUMNS.forEach(column => {
+    data[column] = [];
+  });
+  return { columns: [...EXPORT_COLUMNS], rowCount: 0, data };
+}
+
+export function appendColumnarRow(table: ColumnarExport, row: ExportRow): void {
+  EXPORT_COLUMNS.forEach(column => table.data[column].push(row[column]));
+  table.rowCount++;
+}
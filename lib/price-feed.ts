@@ -0,0 +1,286 @@
+import { isSuspicious } from './anomaly-rule';
+import type { LSPPrice } from './lsp-api';
+import type { HealthProbe } from './simple-health';
+import { getHealthHistory, getPriceSeries, listPriceSeries } from './db';
+import { getLSPById } from './lsps';
+
+/**
+ * RSS/Atom feed of price changes, built from the stored price series and health probes
+ * Quote items: the fee moved by at least the threshold since the last reported fee, the
+ * quote failed, or it came back. Health items: the LSP's API went down or came back up
+ * (two probes in a row, so a single failed check is not reported).
+ */
+
+export type FeedFormat = 'rss' | 'atom';
+export const FEED_FORMATS: FeedFormat[] = ['rss', 'atom'];
+
+export type FeedItemType = 'price_change' | 'unavailable' | 'recovered';
+
+export interface FeedItem {
+  id: string;
+  type: FeedItemType;
+  source: 'quote' | 'health';
+  lsp_id: string;
+  lsp_name: string;
+  channel_size_sat?: number; // quote items only
+  timestamp: string;
+  title: string;
+  summary: string;
+  total_fee_msat?: number;
+  previous_fee_msat?: number;
+  change_percent?: number;
+}
+
+export interface FeedOptions {
+  lspId?: string;
+  channelSize?: number;
+  thresholdPercent?: number;
+  days?: number;
+  limit?: number;
+}
+
+export interface FeedMeta {
+  title: string;
+  description: string;
+  siteUrl: string;
+  selfUrl: string;
+  updated: string;
+}
+
+export const DEFAULT_THRESHOLD_PERCENT = 5;
+export const DEFAULT_FEED_DAYS = 30;
+const DEFAULT_FEED_LIMIT = 50;
+// Consecutive probes needed before an API state change is reported
+const HEALTH_DEBOUNCE = 2;
+
+export function isFeedFormat(value: unknown): value is FeedFormat {
+  return typeof value === 'string' && (FEED_FORMATS as string[]).includes(value);
+}
+
+const isPriced = (price: LSPPrice) => !price.error && price.total_fee_msat > 0;
+
+const formatSats = (msat: number) => `${Math.round(msat / 1000).toLocaleString('en-US')} sats`;
+const formatSize = (channelSize: number) => `${channelSize / 1000000}M sats`;
+
+/**
+ * Price change, unavailable and recovered items for one LSP and channel size (pure)
+ * `series` is oldest first, as returned by getPriceSeries. The first observation only sets
+ * the reference: a feed reports changes, not the starting state.
+ */
+export function detectQuoteEvents(series: LSPPrice[], thresholdPercent: number = DEFAULT_THRESHOLD_PERCENT): FeedItem[] {
+  const items: FeedItem[] = [];
+  let referenceFee: number | null = null;
+  let available: boolean | null = null;
+  let lastTimestamp: string | null = null;
+
+  for (const price of series) {
+    // Cached rows are re-saved with their original timestamp; unreviewed or rejected anomalies are not reported
+    if (price.timestamp === lastTimestamp || isSuspicious(price)) continue;
+    lastTimestamp = price.timestamp;
+
+    const name = price.lsp_name || price.lsp_id;
+    const size = price.channel_size_sat;
+    const base = {
+      source: 'quote' as const,
+      lsp_id: price.lsp_id,
+      lsp_name: name,
+      channel_size_sat: size,
+      timestamp: price.timestamp
+    };
+    const id = (type: FeedItemType) => `${type}:${price.lsp_id}:${size}:${Date.parse(price.timestamp)}`;
+
+    if (!isPriced(price)) {
+      if (available === true) {
+        items.push({
+          ...base,
+          id: id('unavailable'),
+          type: 'unavailable',
+          title: `${name} stopped quoting ${formatSize(size)} channels`,
+          summary: price.error || 'No price returned',
+          ...(referenceFee !== null ? { previous_fee_msat: referenceFee } : {})
+        });
+      }
+      available = false;
+      continue;
+    }
+
+    const fee = price.total_fee_msat;
+    if (available === false) {
+      items.push({
+        ...base,
+        id: id('recovered'),
+        type: 'recovered',
+        title: `${name} quotes ${formatSize(size)} channels again: ${formatSats(fee)}`,
+        summary: referenceFee !== null
+          ? `Quoting again at ${formatSats(fee)} (last quote before the outage: ${formatSats(referenceFee)})`
+          : `Quoting again at ${formatSats(fee)}`,
+        total_fee_msat: fee,
+        ...(referenceFee !== null ? { previous_fee_msat: referenceFee } : {})
+      });
+      referenceFee = fee;
+    } else if (referenceFee !== null) {
+      const changePercent = Math.round(((fee - referenceFee) / referenceFee) * 10000) / 100;
+      if (Math.abs(changePercent) >= thresholdPercent) {
+        items.push({
+          ...base,
+          id: id('price_change'),
+          type: 'price_change',
+          title: `${name} ${formatSize(size)}: ${formatSats(fee)} (${changePercent > 0 ? '+' : ''}${changePercent}%)`,
+          summary: `Fee ${changePercent > 0 ? 'rose' : 'fell'} from ${formatSats(referenceFee)} to ${formatSats(fee)}`,
+          total_fee_msat: fee,
+          previous_fee_msat: referenceFee,
+          change_percent: changePercent
+        });
+        referenceFee = fee;
+      }
+    } else {
+      referenceFee = fee;
+    }
+    available = true;
+  }
+
+  return items;
+}
+
+/**
+ * API down/up items for one LSP from its health probes (pure, probes oldest first)
+ */
+export function detectHealthEvents(lspId: string, lspName: string, probes: HealthProbe[]): FeedItem[] {
+  const items: FeedItem[] = [];
+  let state: boolean | null = null;
+  let streak: HealthProbe[] = [];
+
+  for (const probe of probes) {
+    if (probe.ok === state) {
+      streak = [];
+      continue;
+    }
+    streak.push(probe);
+    if (streak.length < HEALTH_DEBOUNCE && state !== null) continue;
+
+    // Report from the first probe of the new state
+    const first = streak[0];
+    if (state !== null) {
+      const type: FeedItemType = probe.ok ? 'recovered' : 'unavailable';
+      items.push({
+        id: `${type}:${lspId}:health:${Date.parse(first.timestamp)}`,
+        type,
+        source: 'health',
+        lsp_id: lspId,
+        lsp_name: lspName,
+        timestamp: first.timestamp,
+        title: probe.ok ? `${lspName} API is back up` : `${lspName} API is down`,
+        summary: probe.ok
+          ? `Responding again (${probe.response_time_ms} ms)`
+          : first.error || 'Health check failed'
+      });
+    }
+    state = probe.ok;
+    streak = [];
+  }
+
+  return items;
+}
+
+/**
+ * Feed items from the stored data, newest first
+ * Health items are left out of per-size feeds, they are not about a channel size.
+ */
+export async function buildPriceFeed(options: FeedOptions = {}, now: Date = new Date()): Promise<FeedItem[]> {
+  const {
+    lspId,
+    channelSize,
+    thresholdPercent = DEFAULT_THRESHOLD_PERCENT,
+    days = DEFAULT_FEED_DAYS,
+    limit = DEFAULT_FEED_LIMIT
+  } = options;
+  const from = now.getTime() - days * 24 * 60 * 60 * 1000;
+
+  try {
+    const series = (await listPriceSeries(channelSize)).filter(entry => !lspId || entry.lspId === lspId);
+    const items: FeedItem[] = [];
+
+    for (const entry of series) {
+      const prices = await getPriceSeries(entry.lspId, entry.channelSize, { from });
+      items.push(...detectQuoteEvents(prices, thresholdPercent));
+    }
+
+    if (!channelSize) {
+      const lspIds = lspId ? [lspId] : Array.from(new Set(series.map(entry => entry.lspId)));
+      for (const id of lspIds) {
+        const probes = await getHealthHistory(id, from);
+        items.push(...detectHealthEvents(id, getLSPById(id)?.name || id, probes));
+      }
+    }
+
+    return items
+      .sort((a, b) => Date.parse(b.timestamp) - Date.parse(a.timestamp))
+      .slice(0, limit);
+  } catch (error) {
+    console.error('Error building price feed:', error);
+    return [];
+  }
+}
+
+const escapeXml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&apos;');
+
+export function renderRss(meta: FeedMeta, items: FeedItem[]): string {
+  const entries = items.map(item => [
+    '    <item>',
+    `      <title>${escapeXml(item.title)}</title>`,
+    `      <link>${escapeXml(meta.siteUrl)}</link>`,
+    `      <guid isPermaLink="false">${escapeXml(item.id)}</guid>`,
+    `      <pubDate>${new Date(item.timestamp).toUTCString()}</pubDate>`,
+    `      <category>${item.type}</category>`,
+    `      <description>${escapeXml(item.summary)}</description>`,
+    '    </item>'
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">',
+    '  <channel>',
+    `    <title>${escapeXml(meta.title)}</title>`,
+    `    <link>${escapeXml(meta.siteUrl)}</link>`,
+    `    <description>${escapeXml(meta.description)}</description>`,
+    `    <atom:link href="${escapeXml(meta.selfUrl)}" rel="self" type="application/rss+xml"/>`,
+    `    <lastBuildDate>${new Date(meta.updated).toUTCString()}</lastBuildDate>`,
+    ...entries,
+    '  </channel>',
+    '</rss>',
+    ''
+  ].join('\n');
+}
+
+export function renderAtom(meta: FeedMeta, items: FeedItem[]): string {
+  const entries = items.map(item => [
+    '  <entry>',
+    `    <id>urn:lsp-priceboard:${escapeXml(item.id)}</id>`,
+    `    <title>${escapeXml(item.title)}</title>`,
+    `    <link href="${escapeXml(meta.siteUrl)}"/>`,
+    `    <updated>${new Date(item.timestamp).toISOString()}</updated>`,
+    `    <category term="${item.type}"/>`,
+    `    <summary>${escapeXml(item.summary)}</summary>`,
+    '  </entry>'
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <id>${escapeXml(meta.selfUrl)}</id>`,
+    `  <title>${escapeXml(meta.title)}</title>`,
+    `  <subtitle>${escapeXml(meta.description)}</subtitle>`,
+    `  <link href="${escapeXml(meta.siteUrl)}"/>`,
+    `  <link href="${escapeXml(meta.selfUrl)}" rel="self" type="application/atom+xml"/>`,
+    `  <updated>${new Date(meta.updated).toISOString()}</updated>`,
+    '  <author><name>Alby LSP Price Board</name></author>',
+    ...entries,
+    '</feed>',
+    ''
+  ].join('\n');
+}
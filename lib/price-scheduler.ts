@@ -0,0 +1,305 @@
+import { LspErrorCode } from './lsp-api';
+import type { LSPPrice } from './lsp-api';
+import { checkRateLimit } from './lsp-rate-limit';
+import { getLspRegistryEntry, loadActiveLSPs } from './lsps';
+import { getPriceStore, isStoreConfigured } from './store';
+
+/**
+ * Budget-aware price refresh scheduler for /api/cron/fetch-prices
+ * Every (LSP, channel size) pair is a task. Each run refreshes the tasks attempted longest
+ * ago, one channel size at a time (one Alby call plus parallel LSPS1 fetches per size), until
+ * the time budget is spent. Task state is persisted, so the next run resumes where this one
+ * stopped and every size is covered once per cycle instead of once per week.
+ * Cooldowns are per LSP, so a task whose LSP is still cooling down waits in the queue
+ * without being attempted; it runs in a later batch or run once the LSP allows requests.
+ */
+
+// Channel sizes offered in the UI (1M to 10M sats)
+export const CHANNEL_SIZES = Array.from({ length: 10 }, (_, i) => (i + 1) * 1000000);
+
+// Tasks attempted more recently than this are not due yet
+export const MIN_REFRESH_INTERVAL_MS = 60 * 60 * 1000;
+// A price refreshed within this window counts as fresh in the status
+const FRESH_WINDOW_MS = 24 * 60 * 60 * 1000;
+// Do not start another channel size with less budget than this left
+const MIN_BATCH_MS = 3000;
+
+// Outside the alby:lsp:* namespace so clearing the price cache does not reset the queue
+const SCHEDULER_KEY = 'alby:scheduler:queue';
+
+export interface ScheduledTask {
+  lsp_id: string;
+  channel_size_sat: number;
+}
+
+export interface TaskState extends ScheduledTask {
+  last_attempt_at: string | null;
+  last_success_at: string | null;
+  last_error_code?: LspErrorCode | string;
+  consecutive_failures: number;
+}
+
+export interface SchedulerRun {
+  started_at: string;
+  finished_at: string;
+  budget_ms: number;
+  channel_sizes: number[];
+  processed: number;
+  succeeded: number;
+  remaining_due: number;
+  waiting_for_cooldown: number; // due tasks left because their LSP was cooling down
+  timed_out: boolean;
+}
+
+interface SchedulerState {
+  tasks: Record<string, TaskState>;
+  last_run?: SchedulerRun;
+}
+
+export interface ChannelSizeFreshness {
+  channel_size_sat: number;
+  tasks: number;
+  due: number;
+  fresh: number; // refreshed successfully within the last 24h
+  oldest_success_at: string | null; // null when some LSP never succeeded at this size
+  last_attempt_at: string | null;
+}
+
+export const getTaskKey = (task: ScheduledTask) => `${task.channel_size_sat}:${task.lsp_id}`;
+
+const emptyTaskState = (task: ScheduledTask): TaskState => ({
+  ...task,
+  last_attempt_at: null,
+  last_success_at: null,
+  consecutive_failures: 0
+});
+
+const toMs = (timestamp: string | null | undefined) => (timestamp ? Date.parse(timestamp) || 0 : 0);
+
+// When each LSP accepts its next request (ms since epoch), from the rate limiter
+export type LspReadyAt = Record<string, number>;
+
+const readyAt = (task: ScheduledTask, lspReadyAt: LspReadyAt, now: Date) => Math.max(now.getTime(), lspReadyAt[task.lsp_id] ?? 0);
+
+/**
+ * Due tasks in the order they can run (pure)
+ * Tasks whose LSP accepts requests now come first, then the rest by when their LSP's
+ * cooldown ends. Within that, by last attempt (never attempted first), then by last
+ * success, so a failing LSP moves to the back after its attempt instead of blocking the queue.
+ */
+export function orderDueTasks(
+  tasks: ScheduledTask[],
+  states: Record<string, TaskState>,
+  now: Date = new Date(),
+  minIntervalMs: number = MIN_REFRESH_INTERVAL_MS,
+  lspReadyAt: LspReadyAt = {}
+): TaskState[] {
+  return tasks
+    .map(task => states[getTaskKey(task)] ?? emptyTaskState(task))
+    .filter(state => now.getTime() - toMs(state.last_attempt_at) >= minIntervalMs)
+    .sort((a, b) =>
+      readyAt(a, lspReadyAt, now) - readyAt(b, lspReadyAt, now) ||
+      toMs(a.last_attempt_at) - toMs(b.last_attempt_at) ||
+      toMs(a.last_success_at) - toMs(b.last_success_at) ||
+      a.channel_size_sat - b.channel_size_sat
+    );
+}
+
+// Next batch: every task of the first runnable task's channel size whose LSP accepts requests now
+export function nextBatch(ordered: TaskState[], lspReadyAt: LspReadyAt = {}, now: Date = new Date()): TaskState[] {
+  const runnable = ordered.filter(task => readyAt(task, lspReadyAt, now) <= now.getTime());
+  if (runnable.length === 0) return [];
+  return runnable.filter(task => task.channel_size_sat === runnable[0].channel_size_sat);
+}
+
+// When each LSP accepts its next request
+async function getLspReadyAt(lspIds: string[]): Promise<LspReadyAt> {
+  const checks = await Promise.all(lspIds.map(async lspId => [lspId, Date.parse((await checkRateLimit(lspId)).state.next_allowed_at || '') || 0] as const));
+  return Object.fromEntries(checks);
+}
+
+/**
+ * Apply a refresh result to a task (pure)
+ * A rate-limited result is not counted as an attempt: the task stays due and waits for the
+ * LSP's cooldown or backoff instead of being deferred as a failure.
+ */
+export function applyTaskResult(state: TaskState, price: LSPPrice | undefined, now: Date = new Date()): TaskState {
+  const nowIso = now.toISOString();
+  if (price?.source !== 'live' && (price?.live_fetch_error_code || price?.error_code) === LspErrorCode.RATE_LIMITED) {
+    return state;
+  }
+  if (price && price.source === 'live' && !price.error && price.total_fee_msat > 0) {
+    return { ...state, last_attempt_at: nowIso, last_success_at: nowIso, last_error_code: undefined, consecutive_failures: 0 };
+  }
+  return {
+    ...state,
+    last_attempt_at: nowIso,
+    last_error_code: price?.live_fetch_error_code || price?.error_code || 'NO_DATA',
+    consecutive_failures: state.consecutive_failures + 1
+  };
+}
+
+// Every (active LSP, channel size) pair, minus sizes the registry says the LSP rejects
+export async function getScheduledTasks(channelSizes: number[] = CHANNEL_SIZES): Promise<ScheduledTask[]> {
+  const lsps = await loadActiveLSPs();
+  return channelSizes.flatMap(size => lsps
+    .filter(lsp => !(size < (getLspRegistryEntry(lsp.id)?.minChannelSizeSat ?? 0)))
+    .map(lsp => ({ lsp_id: lsp.id, channel_size_sat: size })));
+}
+
+async function getSchedulerState(): Promise<SchedulerState> {
+  try {
+    const store = getPriceStore();
+    if (!store || !isStoreConfigured()) return { tasks: {} };
+
+    const value = await store.get<SchedulerState | string>(SCHEDULER_KEY);
+    if (!value) return { tasks: {} };
+    return typeof value === 'string' ? JSON.parse(value) as SchedulerState : value;
+  } catch (error) {
+    console.error('Error reading scheduler queue:', error);
+    return { tasks: {} };
+  }
+}
+
+async function saveSchedulerState(state: SchedulerState): Promise<void> {
+  try {
+    const store = getPriceStore();
+    if (!store || !isStoreConfigured()) return;
+    await store.set(SCHEDULER_KEY, JSON.stringify(state));
+  } catch (error) {
+    console.error('Error saving scheduler queue:', error);
+  }
+}
+
+/**
+ * Refresh as many due tasks as fit in the budget
+ * State is saved after every channel size, so a run killed by the platform still counts.
+ */
+export async function runScheduledRefresh(options: { budgetMs?: number } = {}): Promise<{ run: SchedulerRun; prices: LSPPrice[] }> {
+  const budgetMs = options.budgetMs ?? 8000;
+  const started = Date.now();
+  const { PriceService } = await import('./price-service');
+  const priceService = PriceService.getInstance();
+
+  const tasks = await getScheduledTasks();
+  const state = await getSchedulerState();
+  const lspReadyAt = await getLspReadyAt([...new Set(tasks.map(task => task.lsp_id))]);
+  let queue = orderDueTasks(tasks, state.tasks, new Date(), MIN_REFRESH_INTERVAL_MS, lspReadyAt);
+  const prices: LSPPrice[] = [];
+  const channelSizes: number[] = [];
+  let processed = 0;
+  let succeeded = 0;
+  let timedOut = false;
+  const rateLimited: TaskState[] = [];
+
+  console.log(`⏱️ Scheduler: ${queue.length}/${tasks.length} tasks due, budget ${budgetMs}ms`);
+
+  while (budgetMs - (Date.now() - started) >= MIN_BATCH_MS) {
+    const batch = nextBatch(queue, lspReadyAt);
+    if (batch.length === 0) break;
+    const size = batch[0].channel_size_sat;
+    const batchKeys = new Set(batch.map(getTaskKey));
+    queue = queue.filter(task => !batchKeys.has(getTaskKey(task)));
+    channelSizes.push(size);
+
+    const remainingMs = budgetMs - (Date.now() - started);
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<null>(resolve => {
+      timer = setTimeout(() => resolve(null), remainingMs);
+    });
+    const results = await Promise.race([
+      priceService.refreshLSPs(size, batch.map(task => task.lsp_id)).catch(error => {
+        console.error(`Scheduler: refresh of ${size} sats failed:`, error);
+        return [] as LSPPrice[];
+      }),
+      timeout
+    ]);
+    clearTimeout(timer);
+
+    const now = new Date();
+    batch.forEach(task => {
+      const price = results?.find(result => result.lsp_id === task.lsp_id);
+      const next = results
+        ? applyTaskResult(task, price, now)
+        : { ...applyTaskResult(task, undefined, now), last_error_code: 'BUDGET_EXCEEDED' };
+      // Rate limited: still due, but not again in this run
+      if (next === task) {
+        rateLimited.push(task);
+        return;
+      }
+      state.tasks[getTaskKey(task)] = next;
+      processed++;
+      if (next.consecutive_failures === 0) succeeded++;
+    });
+
+    if (!results) {
+      console.warn(`⏱️ Scheduler: ${size} sats did not finish within the budget`);
+      timedOut = true;
+      break;
+    }
+    prices.push(...results);
+    await saveSchedulerState(state);
+
+    // Requests just made start these LSPs' cooldowns; their other sizes wait for a later run
+    Object.assign(lspReadyAt, await getLspReadyAt(batch.map(task => task.lsp_id)));
+    queue = orderDueTasks(queue, state.tasks, new Date(), MIN_REFRESH_INTERVAL_MS, lspReadyAt);
+  }
+
+  const remainingDue = queue.length + rateLimited.length;
+  const waitingForCooldown = rateLimited.length + queue.filter(task => (lspReadyAt[task.lsp_id] ?? 0) > Date.now()).length;
+
+  const run: SchedulerRun = {
+    started_at: new Date(started).toISOString(),
+    finished_at: new Date().toISOString(),
+    budget_ms: budgetMs,
+    channel_sizes: channelSizes,
+    processed,
+    succeeded,
+    remaining_due: remainingDue,
+    waiting_for_cooldown: waitingForCooldown,
+    timed_out: timedOut
+  };
+  state.last_run = run;
+  await saveSchedulerState(state);
+
+  console.log(`⏱️ Scheduler: ${succeeded}/${processed} tasks refreshed (${channelSizes.map(size => `${size / 1000000}M`).join(', ') || 'none'}), ${remainingDue} still due (${waitingForCooldown} waiting for an LSP cooldown)`);
+  return { run, prices };
+}
+
+// Freshness per channel size for a set of task states (pure)
+export function summarizeFreshness(tasks: ScheduledTask[], states: Record<string, TaskState>, now: Date = new Date()): ChannelSizeFreshness[] {
+  const due = new Set(orderDueTasks(tasks, states, now).map(getTaskKey));
+  const sizes = [...new Set(tasks.map(task => task.channel_size_sat))].sort((a, b) => a - b);
+
+  return sizes.map(size => {
+    const sizeStates = tasks
+      .filter(task => task.channel_size_sat === size)
+      .map(task => states[getTaskKey(task)] ?? emptyTaskState(task));
+    const successes = sizeStates.map(state => toMs(state.last_success_at));
+    const attempts = sizeStates.map(state => toMs(state.last_attempt_at)).filter(Boolean);
+
+    return {
+      channel_size_sat: size,
+      tasks: sizeStates.length,
+      due: sizeStates.filter(state => due.has(getTaskKey(state))).length,
+      fresh: successes.filter(ms => ms && now.getTime() - ms < FRESH_WINDOW_MS).length,
+      oldest_success_at: successes.some(ms => !ms) ? null : new Date(Math.min(...successes)).toISOString(),
+      last_attempt_at: attempts.length > 0 ? new Date(Math.max(...attempts)).toISOString() : null
+    };
+  });
+}
+
+// Queue depth, last run and freshness per channel size (for /api/admin/scheduler)
+export async function getSchedulerStatus(now: Date = new Date()) {
+  const tasks = await getScheduledTasks();
+  const state = await getSchedulerState();
+
+  return {
+    total_tasks: tasks.length,
+    queue_depth: orderDueTasks(tasks, state.tasks, now).length,
+    min_refresh_interval_ms: MIN_REFRESH_INTERVAL_MS,
+    last_run: state.last_run ?? null,
+    channel_sizes: summarizeFreshness(tasks, state.tasks, now),
+    tasks: Object.values(state.tasks).sort((a, b) => a.channel_size_sat - b.channel_size_sat || a.lsp_id.localeCompare(b.lsp_id))
+  };
+}
@@ -1,6 +1,7 @@
 import { fetchAllLSPPrices, LSPPrice, LspErrorCode } from './lsp-api';
 import { savePricesToDB, getLatestPrices as getLatestPricesFromDB } from './db';
 import { fetchAlbyPricesForChannelSize, getAlbyPriceForLSP } from './alby-api';
+import type { FeeModel } from './fee-model';
 
 // LRU Cache configuration
 const MAX_CACHE_ENTRIES = 100; // Maximum number of cache entries to keep
@@ -121,8 +122,8 @@ export class PriceService {
       }
       
       // For any LSPs not covered by Alby API, try LSPS1
-      const { getActiveLSPs } = await import('./lsps');
-      const activeLSPs = getActiveLSPs();
+      const { loadActiveLSPs } = await import('./lsps');
+      const activeLSPs = await loadActiveLSPs();
       const albyLspIds = new Set(allPrices.map(p => p.lsp_id));
       const missingLSPs = activeLSPs.filter(lsp => !albyLspIds.has(lsp.id));
       
@@ -185,8 +186,8 @@ export class PriceService {
 
   // Smart caching: Show cached first, then fetch live per LSP
   public async getSmartPrices(channelSizeSat: number = 1000000): Promise<LSPPrice[]> {
-    const { getActiveLSPs } = await import('./lsps');
-    const activeLSPs = getActiveLSPs();
+    const { loadActiveLSPs } = await import('./lsps');
+    const activeLSPs = await loadActiveLSPs();
     
     // First, get all cached prices for this channel size
     const cachedPrices = await getLatestPricesFromDB(channelSizeSat);
@@ -258,9 +259,9 @@ export class PriceService {
   public async forceFetchSingleLSP(lspId: string, channelSizeSat: number = 1000000): Promise<LSPPrice[]> {
     console.log(`Force fetching prices for LSP ${lspId} at ${channelSizeSat} sats`);
     
-    const { getActiveLSPs } = await import('./lsps');
+    const { loadActiveLSPs } = await import('./lsps');
     const { fetchLSPPriceBypass } = await import('./lsp-api');
-    const activeLSPs = getActiveLSPs();
+    const activeLSPs = await loadActiveLSPs();
     
     // Find the specific LSP
     const targetLSP = activeLSPs.find(lsp => lsp.id === lspId);
@@ -349,11 +350,17 @@ export class PriceService {
     }
   }
 
+  // Refresh a subset of LSPs for one channel size (used by the cron scheduler, lib/price-scheduler.ts)
+  public async refreshLSPs(channelSizeSat: number, lspIds: string[]): Promise<LSPPrice[]> {
+    console.log(`Refreshing ${lspIds.join(', ')} for ${channelSizeSat} sats`);
+    return await this.fetchLiveDataPerLSP(channelSizeSat, false, lspIds);
+  }
+
   // Fetch live data per LSP, with fallback to cached data
-  private async fetchLiveDataPerLSP(channelSizeSat: number, bypassRateLimit: boolean): Promise<LSPPrice[]> {
-    const { getActiveLSPs } = await import('./lsps');
+  private async fetchLiveDataPerLSP(channelSizeSat: number, bypassRateLimit: boolean, lspIds?: string[]): Promise<LSPPrice[]> {
+    const { loadActiveLSPs } = await import('./lsps');
     const { fetchLSPPrice, fetchLSPPriceBypass } = await import('./lsp-api');
-    const activeLSPs = getActiveLSPs();
+    const activeLSPs = (await loadActiveLSPs()).filter(lsp => !lspIds || lspIds.includes(lsp.id));
     
     // Get existing cached prices for fallback
     const cachedPrices = await getLatestPricesFromDB(channelSizeSat);
@@ -403,30 +410,9 @@ export class PriceService {
           if (!cachedPrice) {
             console.log(`No good cached data for ${lsp.name}, checking historical data...`);
             try {
-              const { getPriceHistory } = await import('./db');
-              const historyData = await getPriceHistory(100);
-              
-              // Find the most recent good historical data for this LSP and channel size
-              // The new format has daily snapshots with channel-specific data
-              let historicalPrice = null;
-              
-              for (const entry of historyData) {
-                if (entry && typeof entry === 'object') {
-                  // Look for channel-specific data in the entry
-                  const channelKey = `channel_${channelSizeSat}`;
-                  if (entry[channelKey] && entry[channelKey].prices) {
-                    const price = entry[channelKey].prices.find(p => 
-                      p.lsp_id === lsp.id && 
-                      !p.error && 
-                      p.total_fee_msat > 0
-                    );
-                    if (price) {
-                      historicalPrice = price;
-                      break; // Use the most recent (first) match
-                    }
-                  }
-                }
-              }
+              const { getLastGoodPrice } = await import('./db');
+              // Most recent good observation in this LSP's series for the channel size
+              const historicalPrice = await getLastGoodPrice(lsp.id, channelSizeSat);
               
               if (historicalPrice) {
                 console.log(`Found historical data for ${lsp.name}: ${historicalPrice.total_fee_msat} msat from ${historicalPrice.timestamp}`);
@@ -607,6 +593,9 @@ export class PriceService {
       case LspErrorCode.RATE_LIMITED:
         newError = 'Rate limited - too many requests';
         break;
+      case LspErrorCode.CIRCUIT_OPEN:
+        newError = 'LSP paused after repeated failures - retrying later';
+        break;
       case LspErrorCode.CHANNEL_SIZE_TOO_SMALL:
         newError = 'Channel size too small for this LSP';
         break;
@@ -636,8 +625,8 @@ export class PriceService {
 
   // Get cached prices only (for API endpoint - never fetches live data)
   public async getCachedPricesOnly(channelSizeSat: number = 1000000): Promise<LSPPrice[]> {
-    const { getActiveLSPs } = await import('./lsps');
-    const activeLSPs = getActiveLSPs();
+    const { loadActiveLSPs } = await import('./lsps');
+    const activeLSPs = await loadActiveLSPs();
     
     // Get cached prices from database
     const cachedPrices = await getLatestPricesFromDB(channelSizeSat);
@@ -657,7 +646,11 @@ export class PriceService {
       }
     }
     
-    // For each active LSP, return cached data or unavailable message
+    // Fee models are only built when some LSP has no data for this size (e.g. a custom 1.5M request)
+    let feeModels: Promise<Record<string, FeeModel>> | undefined;
+    const loadFeeModels = () => (feeModels ??= import('./fee-model').then(({ getFeeModels }) => getFeeModels()));
+
+    // For each active LSP, return cached data, an estimate from its fee model or unavailable message
     const results = await Promise.all(activeLSPs.map(async lsp => {
       let cachedPrice = availablePrices.find(price => price.lsp_id === lsp.id);
       
@@ -665,18 +658,10 @@ export class PriceService {
       if (!cachedPrice || (cachedPrice.error && cachedPrice.total_fee_msat === 0)) {
         console.log(`No good cached data for ${lsp.name}, checking historical data...`);
         try {
-          const { getPriceHistory } = await import('./db');
-          const historyData = await getPriceHistory(channelSizeSat);
+          const { getLastGoodPrice } = await import('./db');
           
           // Find the most recent good historical data for this LSP
-          const historicalPrice = historyData
-            .filter(entry => entry.prices)
-            .flatMap(entry => entry.prices)
-            .find(price => 
-              price.lsp_id === lsp.id && 
-              !price.error && 
-              price.total_fee_msat > 0
-            );
+          const historicalPrice = await getLastGoodPrice(lsp.id, channelSizeSat);
           
           if (historicalPrice) {
             console.log(`Found historical data for ${lsp.name}: ${historicalPrice.total_fee_msat} msat from ${historicalPrice.timestamp}`);
@@ -695,6 +680,18 @@ export class PriceService {
           stale_seconds: Math.floor((Date.now() - Date.parse(cachedPrice.timestamp)) / 1000)
         };
       } else {
+        // Never estimate a size the LSP is known to reject
+        const { getLspRegistryEntry } = await import('./lsps');
+        const sizeRejected = cachedPrice?.error_code === LspErrorCode.CHANNEL_SIZE_TOO_SMALL ||
+          cachedPrice?.error_code === LspErrorCode.CHANNEL_SIZE_TOO_LARGE ||
+          channelSizeSat < (getLspRegistryEntry(lsp.id)?.minChannelSizeSat ?? 0);
+        const model = sizeRejected ? undefined : (await loadFeeModels())[lsp.id];
+        if (model) {
+          const { createEstimatedPrice } = await import('./fee-model');
+          console.log(`No cached data for ${lsp.name}, estimating from its ${model.method} fee model`);
+          return { ...createEstimatedPrice(model, channelSizeSat), lsp_name: lsp.name };
+        }
+
         console.log(`No cached data available for ${lsp.name}`);
         return {
           lsp_id: lsp.id,
@@ -0,0 +1,322 @@
+import type { LSP } from './lsps';
+import type { QuoteMatrixConfig } from './lsp-registry';
+import { getLspRegistry, getLspRegistryEntry, loadActiveLSPs } from './lsps';
+import {
+  LSPPrice,
+  LSPS1CreateOrderResponse,
+  LSPS1GetInfoResponse,
+  LspErrorCode,
+  OrderQuoteParams,
+  createErrorPrice,
+  createLSPOrder,
+  fetchLSPInfo,
+  getDefaultQuoteParams,
+  toLivePrice,
+  withLiveFetchGate
+} from './lsp-api';
+import { getPriceStore, isStoreConfigured } from './store';
+
+/**
+ * Quote matrix
+ * The regular price is a single point per LSP (private channel, no push, ~3 month lease).
+ * The matrix asks each LSP for every configured combination of lease length, public vs
+ * private channel and client balance, bounded by its get_info limits, and stores the
+ * quotes by those dimensions next to the regular prices.
+ */
+
+export const DEFAULT_QUOTE_MATRIX: Required<QuoteMatrixConfig> = {
+  channelExpiryBlocks: [4380, 13140, 26280],
+  announceChannel: [false, true],
+  clientBalanceSat: [0],
+  maxQuotesPerLsp: 6
+};
+
+export interface QuoteMatrixSnapshot {
+  channel_size_sat: number;
+  updated_at: string | null;
+  quotes: LSPPrice[];
+}
+
+export interface QuoteFilters {
+  channel_expiry_blocks?: number;
+  announce_channel?: boolean;
+  client_balance_sat?: number;
+}
+
+export interface QuoteDimensions {
+  channel_expiry_blocks: number[];
+  announce_channel: boolean[];
+  client_balance_sat: number[];
+}
+
+const getQuoteMatrixKey = (channelSizeSat: number) => `alby:lsp:quotes:${channelSizeSat}`;
+
+// Stable identity of a quote within an LSP's matrix
+export const getQuoteParamsKey = (params: OrderQuoteParams) =>
+  `${params.channel_expiry_blocks}:${params.announce_channel ? 'public' : 'private'}:${params.client_balance_sat}`;
+
+export function getQuoteMatrixConfig(): Required<QuoteMatrixConfig> {
+  return { ...DEFAULT_QUOTE_MATRIX, ...getLspRegistry().defaults.quoteMatrix };
+}
+
+const parseSat = (value: unknown): number | null => {
+  const n = typeof value === 'string' ? parseInt(value, 10) : typeof value === 'number' ? value : NaN;
+  return Number.isFinite(n) ? n : null;
+};
+
+/**
+ * Parameter combinations to quote for one LSP
+ * Lease lengths above max_channel_expiry_blocks are capped to it and client balances
+ * outside the initial client balance range are skipped. The LSP's regular quote comes
+ * first so it survives the maxQuotesPerLsp cut.
+ */
+export function expandQuoteMatrix(config: Required<QuoteMatrixConfig>, info: LSPS1GetInfoResponse, defaults: OrderQuoteParams): OrderQuoteParams[] {
+  const maxExpiry = parseSat(info.max_channel_expiry_blocks);
+  const minClientBalance = parseSat(info.min_initial_client_balance_sat) ?? 0;
+  const maxClientBalance = parseSat(info.max_initial_client_balance_sat);
+
+  const expiries = [...new Set(config.channelExpiryBlocks.map(blocks => maxExpiry ? Math.min(blocks, maxExpiry) : blocks))];
+  const clientBalances = config.clientBalanceSat.filter(balance =>
+    balance >= minClientBalance && (maxClientBalance === null || balance <= maxClientBalance)
+  );
+
+  const combinations: OrderQuoteParams[] = [defaults];
+  expiries.forEach(channel_expiry_blocks => {
+    config.announceChannel.forEach(announce_channel => {
+      clientBalances.forEach(client_balance_sat => {
+        combinations.push({ channel_expiry_blocks, announce_channel, client_balance_sat });
+      });
+    });
+  });
+
+  const seen = new Set<string>();
+  return combinations
+    .filter(params => {
+      const key = getQuoteParamsKey(params);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, config.maxQuotesPerLsp);
+}
+
+/**
+ * Quote every matrix combination for one LSP and channel size
+ * The whole run goes through the same gate as a regular price fetch (withLiveFetchGate): it
+ * counts as one request against the LSP's cooldown and is skipped while the LSP is rate
+ * limited or its circuit is open. A half-open circuit gets only the regular quote as a probe.
+ * Orders are created one after another; combinations left when the deadline passes or the
+ * LSP answers 429 are skipped and picked up next run.
+ */
+export async function fetchQuoteMatrix(lsp: LSP, channelSizeSat: number, options: { deadline?: number; config?: Required<QuoteMatrixConfig> } = {}): Promise<LSPPrice[]> {
+  const config = options.config ?? getQuoteMatrixConfig();
+
+  const minChannelSizeSat = getLspRegistryEntry(lsp.id)?.minChannelSizeSat;
+  if (minChannelSizeSat && channelSizeSat < minChannelSizeSat) return [];
+
+  const gated = await withLiveFetchGate(
+    lsp,
+    channelSizeSat,
+    maxRetries => quoteMatrixCombinations(lsp, channelSizeSat, config, { deadline: options.deadline, probeOnly: maxRetries === 1 }),
+    // Any good quote means the LSP is healthy; otherwise the first failure is what the breaker sees
+    quotes => ({ ok: quotes.length === 0 || quotes.some(quote => !quote.error), errorCode: quotes.find(quote => quote.error)?.error_code })
+  );
+  return 'blocked' in gated ? [gated.blocked] : gated.result;
+}
+
+async function quoteMatrixCombinations(
+  lsp: LSP,
+  channelSizeSat: number,
+  config: Required<QuoteMatrixConfig>,
+  options: { deadline?: number; probeOnly: boolean }
+): Promise<LSPPrice[]> {
+  const infoResult = await fetchLSPInfo(lsp);
+  if (!infoResult.info) {
+    return [createErrorPrice(lsp, channelSizeSat, infoResult.error?.message || 'Failed to fetch LSP info', infoResult.error?.code)];
+  }
+
+  const info = infoResult.info;
+  const minChannelBalance = parseSat(info.min_channel_balance_sat);
+  const maxChannelBalance = parseSat(info.max_channel_balance_sat);
+  if ((minChannelBalance !== null && channelSizeSat < minChannelBalance) || (maxChannelBalance !== null && channelSizeSat > maxChannelBalance)) {
+    return [];
+  }
+
+  const combinations = expandQuoteMatrix(config, info, getDefaultQuoteParams(lsp.id, info));
+  const quotes: LSPPrice[] = [];
+  for (const params of options.probeOnly ? combinations.slice(0, 1) : combinations) {
+    if (options.deadline && Date.now() >= options.deadline) {
+      console.log(`⏱️ Quote matrix for ${lsp.name} stopped at the time budget (${quotes.length} quotes)`);
+      break;
+    }
+
+    const result = await createLSPOrder(lsp, channelSizeSat, info, params);
+    const price = result && !('error' in result)
+      ? toLivePrice(lsp, channelSizeSat, result as LSPS1CreateOrderResponse, info, params)
+      : null;
+
+    quotes.push(price ?? {
+      ...createErrorPrice(
+        lsp,
+        channelSizeSat,
+        result && 'error' in result ? result.error.message : 'Live fetch failed; no data available',
+        result && 'error' in result ? result.error.code : LspErrorCode.BAD_STATUS
+      ),
+      ...params
+    });
+
+    // createLSPOrder recorded the Retry-After backoff; stop asking until it has passed
+    if (result && 'error' in result && result.error.code === LspErrorCode.RATE_LIMITED) {
+      console.log(`${lsp.name} rate limited the quote matrix after ${quotes.length} quotes`);
+      break;
+    }
+  }
+
+  return quotes;
+}
+
+function parseSnapshot(value: unknown, channelSizeSat: number): QuoteMatrixSnapshot {
+  const empty = { channel_size_sat: channelSizeSat, updated_at: null, quotes: [] };
+  if (!value) return empty;
+  try {
+    const snapshot = (typeof value === 'string' ? JSON.parse(value) : value) as QuoteMatrixSnapshot;
+    return Array.isArray(snapshot.quotes) ? snapshot : empty;
+  } catch {
+    return empty;
+  }
+}
+
+// Latest matrix quotes for a channel size
+export async function getQuoteMatrix(channelSizeSat: number): Promise<QuoteMatrixSnapshot> {
+  try {
+    const store = getPriceStore();
+    if (!store || !isStoreConfigured()) return parseSnapshot(null, channelSizeSat);
+    return parseSnapshot(await store.get(getQuoteMatrixKey(channelSizeSat)), channelSizeSat);
+  } catch (error) {
+    console.error(`Error reading quote matrix for ${channelSizeSat} sats:`, error);
+    return parseSnapshot(null, channelSizeSat);
+  }
+}
+
+/**
+ * Store fresh quotes, replacing older quotes of the same LSP and parameters
+ * A failed quote does not overwrite a good one; the error is kept as live_fetch_error.
+ */
+export async function saveQuoteMatrix(channelSizeSat: number, quotes: LSPPrice[]): Promise<boolean> {
+  try {
+    const store = getPriceStore();
+    if (!store || !isStoreConfigured() || quotes.length === 0) return false;
+
+    const keyOf = (price: LSPPrice) => `${price.lsp_id}|${getQuoteParamsKey(price as LSPPrice & OrderQuoteParams)}`;
+    const previous = await getQuoteMatrix(channelSizeSat);
+    const merged = new Map(previous.quotes.map(price => [keyOf(price), price]));
+
+    quotes.filter(price => price.channel_expiry_blocks !== undefined).forEach(price => {
+      const last = merged.get(keyOf(price));
+      if (price.error && last && !last.error) {
+        merged.set(keyOf(price), {
+          ...last,
+          live_fetch_error: price.error,
+          live_fetch_error_code: price.error_code,
+          live_fetch_timestamp: price.timestamp
+        });
+      } else {
+        merged.set(keyOf(price), price);
+      }
+    });
+
+    const snapshot: QuoteMatrixSnapshot = {
+      channel_size_sat: channelSizeSat,
+      updated_at: new Date().toISOString(),
+      quotes: [...merged.values()]
+    };
+    await store.set(getQuoteMatrixKey(channelSizeSat), JSON.stringify(snapshot));
+    return true;
+  } catch (error) {
+    console.error(`Error saving quote matrix for ${channelSizeSat} sats:`, error);
+    return false;
+  }
+}
+
+// Quote the matrix for every active LSP (in parallel across LSPs) and store it
+export async function refreshQuoteMatrix(channelSizeSat: number, options: { budgetMs?: number } = {}): Promise<LSPPrice[]> {
+  const lsps = await loadActiveLSPs();
+  const deadline = options.budgetMs ? Date.now() + options.budgetMs : undefined;
+  const config = getQuoteMatrixConfig();
+
+  console.log(`Fetching quote matrix for ${channelSizeSat} sats from ${lsps.length} LSPs (up to ${config.maxQuotesPerLsp} quotes each)`);
+  const results = await Promise.all(lsps.map(lsp => fetchQuoteMatrix(lsp, channelSizeSat, { deadline, config }).catch(error => {
+    console.error(`Quote matrix failed for ${lsp.name}:`, error);
+    return [] as LSPPrice[];
+  })));
+
+  const quotes = results.flat();
+  await saveQuoteMatrix(channelSizeSat, quotes);
+  return quotes;
+}
+
+// Channel size whose matrix was refreshed longest ago (never refreshed first)
+export async function getStalestQuoteMatrixSize(channelSizes: number[]): Promise<number> {
+  const snapshots = await Promise.all(channelSizes.map(size => getQuoteMatrix(size)));
+  return snapshots
+    .map(snapshot => ({ size: snapshot.channel_size_sat, updatedMs: snapshot.updated_at ? Date.parse(snapshot.updated_at) : 0 }))
+    .sort((a, b) => a.updatedMs - b.updatedMs)[0].size;
+}
+
+const firstValue = (value: string | string[] | undefined) => Array.isArray(value) ? value[0] : value;
+
+/**
+ * Parse quote filters from a query string (?expiryBlocks=&announce=&clientBalance=)
+ * Returns null when no filter is set, so callers can keep serving the regular prices.
+ */
+export function parseQuoteFilters(query: Record<string, string | string[] | undefined>): { filters: QuoteFilters | null } | { error: string } {
+  const expiry = firstValue(query.expiryBlocks);
+  const announce = firstValue(query.announce);
+  const clientBalance = firstValue(query.clientBalance);
+  if (expiry === undefined && announce === undefined && clientBalance === undefined) return { filters: null };
+
+  const filters: QuoteFilters = {};
+  if (expiry !== undefined) {
+    if (!/^\d+$/.test(expiry) || Number(expiry) <= 0) return { error: 'expiryBlocks must be a positive number of blocks' };
+    filters.channel_expiry_blocks = Number(expiry);
+  }
+  if (announce !== undefined) {
+    if (!['true', 'false', 'public', 'private'].includes(announce)) return { error: 'announce must be true|false (or public|private)' };
+    filters.announce_channel = announce === 'true' || announce === 'public';
+  }
+  if (clientBalance !== undefined) {
+    if (!/^\d+$/.test(clientBalance)) return { error: 'clientBalance must be a non-negative number of sats' };
+    filters.client_balance_sat = Number(clientBalance);
+  }
+  return { filters };
+}
+
+export function filterQuotes(quotes: LSPPrice[], filters: QuoteFilters): LSPPrice[] {
+  return quotes.filter(quote =>
+    (filters.channel_expiry_blocks === undefined || quote.channel_expiry_blocks === filters.channel_expiry_blocks) &&
+    (filters.announce_channel === undefined || quote.announce_channel === filters.announce_channel) &&
+    (filters.client_balance_sat === undefined || quote.client_balance_sat === filters.client_balance_sat)
+  );
+}
+
+// Stored quotes matching the filters, served like cached prices (cheapest first)
+export async function getFilteredQuotes(channelSizeSat: number, filters: QuoteFilters): Promise<LSPPrice[]> {
+  const now = Date.now();
+  return filterQuotes((await getQuoteMatrix(channelSizeSat)).quotes, filters)
+    .map(quote => quote.source === 'live'
+      ? { ...quote, source: 'cached' as const, stale_seconds: Math.max(0, Math.round((now - Date.parse(quote.timestamp)) / 1000)) }
+      : quote)
+    .sort((a, b) => (a.error ? Infinity : a.total_fee_msat) - (b.error ? Infinity : b.total_fee_msat));
+}
+
+// Values present in a matrix, for building filters
+export function getQuoteDimensions(quotes: LSPPrice[]): QuoteDimensions {
+  const values = <T>(pick: (quote: LSPPrice) => T | undefined) =>
+    [...new Set(quotes.map(pick).filter((value): value is T => value !== undefined))];
+
+  return {
+    channel_expiry_blocks: values(quote => quote.channel_expiry_blocks).sort((a, b) => a - b),
+    announce_channel: values(quote => quote.announce_channel).sort(),
+    client_balance_sat: values(quote => quote.client_balance_sat).sort((a, b) => a - b)
+  };
+}
@@ -1,8 +1,13 @@
+import type { CircuitState } from './lsp-circuit-breaker';
+import type { NodeReachability } from './node-reachability';
 import { LSP } from './lsps';
 
 // Health check configuration
 const HEALTH_CHECK_TIMEOUT_MS = 5000; // 5 seconds timeout for health checks
 
+// Probes are kept for the longest uptime window
+export const HEALTH_HISTORY_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
 export interface SimpleHealthStatus {
   lsp_id: string;
   is_online: boolean; // Whether the LSPS1 HTTP API endpoint is available
@@ -10,40 +15,209 @@ export interface SimpleHealthStatus {
   last_check: string;
   response_time_ms: number;
   error_message?: string;
+  schema_warnings?: string[]; // get_info deviations from LSPS1 that do not stop quotes
+  node?: NodeReachability; // Lightning node behind the advertised get_info URIs, independent of is_online
+  // Price fetch circuit breaker, added by /api/health/lsp-status
+  circuit_state?: CircuitState;
+  consecutive_failures?: number;
+  next_probe_at?: string;
+  // Rolling uptime and latency, added by /api/health/lsp-status
+  history?: HealthHistorySummary;
+}
+
+// One stored probe result (see saveHealthStatuses in lib/db.ts)
+export interface HealthProbe {
+  timestamp: string;
+  ok: boolean;
+  response_time_ms: number;
+  error?: string;
+}
+
+export type HealthWindow = '24h' | '7d' | '30d';
+
+export interface HealthWindowStats {
+  checks: number;
+  uptime_percent: number | null; // null without any probe in the window
+  p50_ms: number | null; // latency of successful probes
+  p95_ms: number | null;
+}
+
+export interface HealthDay {
+  date: string; // YYYY-MM-DD (UTC)
+  checks: number;
+  uptime_percent: number | null;
+}
+
+export interface HealthHistorySummary {
+  windows: Record<HealthWindow, HealthWindowStats>;
+  daily: HealthDay[]; // last 30 days, oldest first
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WINDOW_MS: Record<HealthWindow, number> = { '24h': DAY_MS, '7d': 7 * DAY_MS, '30d': 30 * DAY_MS };
+
+/**
+ * Validate a get_info response against LSPS1 (pure)
+ * Errors make the probe fail: without URIs and channel size bounds no quote can be built.
+ * Older LSPS1 drafts nest the limits in `options`, so those are accepted as well.
+ */
+export function validateGetInfo(data: unknown): { errors: string[]; warnings: string[] } {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return { errors: ['response is not a JSON object'], warnings: [] };
+  }
+  const raw = data as Record<string, unknown>;
+  const options = raw.options && typeof raw.options === 'object' ? raw.options as Record<string, unknown> : {};
+  const info: Record<string, unknown> = { ...options, ...raw };
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  // LSPS1 sends sat amounts as strings; plain numbers are tolerated with a warning
+  const readSat = (field: string, required: boolean): number | null => {
+    const value = info[field];
+    const problems = required ? errors : warnings;
+    if (value === undefined || value === null) {
+      problems.push(`${field} is missing`);
+      return null;
+    }
+    if (typeof value === 'string' && /^\d+$/.test(value)) return Number(value);
+    if (typeof value === 'number' && Number.isInteger(value) && value >= 0) {
+      warnings.push(`${field} should be a string`);
+      return value;
+    }
+    problems.push(`${field} is not an amount`);
+    return null;
+  };
+
+  if (!Array.isArray(info.uris) || info.uris.length === 0) {
+    errors.push('uris is missing or empty');
+  } else if (!info.uris.every(uri => typeof uri === 'string' && /^[0-9a-f]{66}@.+:\d+$/i.test(uri))) {
+    warnings.push('uris should be pubkey@host:port');
+  }
+
+  const minChannel = readSat('min_channel_balance_sat', true);
+  const maxChannel = readSat('max_channel_balance_sat', true);
+  if (minChannel !== null && maxChannel !== null && minChannel > maxChannel) {
+    errors.push('min_channel_balance_sat is above max_channel_balance_sat');
+  }
+
+  ['min_initial_client_balance_sat', 'max_initial_client_balance_sat', 'min_initial_lsp_balance_sat', 'max_initial_lsp_balance_sat']
+    .forEach(field => readSat(field, false));
+  ['max_channel_expiry_blocks', 'min_funding_confirms_within_blocks', 'min_required_channel_confirmations'].forEach(field => {
+    if (!(typeof info[field] === 'number' && Number.isInteger(info[field]) && (info[field] as number) >= 0)) {
+      warnings.push(`${field} is missing or not an integer`);
+    }
+  });
+  if (typeof info.supports_zero_channel_reserve !== 'boolean') {
+    warnings.push('supports_zero_channel_reserve is missing or not a boolean');
+  }
+
+  return { errors, warnings };
+}
+
+// Nearest-rank percentile of sorted values
+const percentile = (sorted: number[], p: number) =>
+  sorted.length > 0 ? sorted[Math.min(sorted.length - 1, Math.ceil(p / 100 * sorted.length) - 1)] : null;
+
+const uptimePercent = (probes: HealthProbe[]) =>
+  probes.length > 0 ? Math.round(probes.filter(probe => probe.ok).length / probes.length * 1000) / 10 : null;
+
+/**
+ * Rolling 24h/7d/30d uptime and p50/p95 latency plus a daily series for charts (pure)
+ */
+export function summarizeHealthHistory(probes: HealthProbe[], now: Date = new Date()): HealthHistorySummary {
+  const withTime = probes
+    .map(probe => ({ probe, ms: Date.parse(probe.timestamp) }))
+    .filter(({ ms }) => !Number.isNaN(ms) && ms <= now.getTime());
+
+  const windows = Object.fromEntries((Object.keys(WINDOW_MS) as HealthWindow[]).map(window => {
+    const inWindow = withTime.filter(({ ms }) => now.getTime() - ms < WINDOW_MS[window]).map(({ probe }) => probe);
+    const latencies = inWindow.filter(probe => probe.ok).map(probe => probe.response_time_ms).sort((a, b) => a - b);
+    return [window, {
+      checks: inWindow.length,
+      uptime_percent: uptimePercent(inWindow),
+      p50_ms: percentile(latencies, 50),
+      p95_ms: percentile(latencies, 95)
+    }];
+  })) as Record<HealthWindow, HealthWindowStats>;
+
+  const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+  const daily = Array.from({ length: 30 }, (_, i) => {
+    const start = today - (29 - i) * DAY_MS;
+    const dayProbes = withTime.filter(({ ms }) => ms >= start && ms < start + DAY_MS).map(({ probe }) => probe);
+    return { date: new Date(start).toISOString().slice(0, 10), checks: dayProbes.length, uptime_percent: uptimePercent(dayProbes) };
+  });
+
+  return { windows, daily };
 }
 
 export class SimpleHealthMonitor {
   /**
    * LSPS1 API Health Check
-   * Checks if the LSP's LSPS1 HTTP API endpoint is responding
-   * NOTE: This checks the web API (HTTPS), NOT the Lightning node itself
-   * The Lightning node may still be online for channels/peering even if API is down
+   * Calls get_info and validates the response, so an endpoint that answers with an error page
+   * or a broken schema counts as down
+   * NOTE: is_online is about the web API (HTTPS), NOT the Lightning node itself
+   * The node behind the advertised URIs is checked separately (`node`, see lib/node-reachability.ts)
    */
   async checkLSPHealth(lsp: LSP): Promise<SimpleHealthStatus> {
-    const startTime = Date.now();
-    
+    let startTime = Date.now();
+
     try {
-      console.log(`Checking ${lsp.name} at ${lsp.url}...`);
-      
-      const response = await fetch(lsp.url, {
-        method: 'HEAD',
+      const { resolveLspBase } = await import('./lsp-api');
+      const baseUrl = await resolveLspBase(lsp);
+      if (!baseUrl) {
+        throw new Error('No working get_info endpoint found');
+      }
+
+      const infoUrl = new URL('get_info', baseUrl + '/').toString();
+      console.log(`Checking ${lsp.name} at ${infoUrl}...`);
+
+      // Latency covers get_info only, not endpoint discovery
+      startTime = Date.now();
+      const response = await fetch(infoUrl, {
+        method: 'GET',
         headers: {
+          'Accept': 'application/json',
           'User-Agent': 'Alby-LSP-HealthCheck/1.0'
         },
         signal: AbortSignal.timeout(HEALTH_CHECK_TIMEOUT_MS)
       });
-      
+      if (!response.ok) {
+        throw new Error(`get_info returned HTTP ${response.status}`);
+      }
+
+      let data: unknown;
+      try {
+        data = await response.json();
+      } catch {
+        throw new Error('get_info returned invalid JSON');
+      }
       const responseTime = Date.now() - startTime;
-      const isOnline = response.status < 500;
 
-      console.log(`${lsp.name} API: ${response.status} (${responseTime}ms) - ${isOnline ? 'AVAILABLE' : 'UNAVAILABLE'}`);
-      
+      const { errors, warnings } = validateGetInfo(data);
+      if (errors.length > 0) {
+        throw new Error(`Invalid get_info: ${errors.join(', ')}`);
+      }
+
+      console.log(`${lsp.name} API: get_info OK (${responseTime}ms)${warnings.length > 0 ? ` - ${warnings.length} schema warnings` : ''}`);
+
+      // The node check never fails the API probe: "API up / node unreachable" is reported as such
+      let node: NodeReachability | undefined;
+      try {
+        const { checkNodeReachability } = await import('./node-reachability');
+        const uris = (data as { uris?: unknown }).uris;
+        node = await checkNodeReachability(lsp, Array.isArray(uris) ? uris.filter((uri): uri is string => typeof uri === 'string') : []);
+      } catch (error) {
+        console.error(`Node reachability check failed for ${lsp.name}:`, error);
+      }
+
       return {
         lsp_id: lsp.id,
-        is_online: isOnline,
-        status: isOnline ? 'online' : 'offline',
+        is_online: true,
+        status: 'online',
         last_check: new Date().toISOString(),
-        response_time_ms: responseTime
+        response_time_ms: responseTime,
+        ...(warnings.length > 0 ? { schema_warnings: warnings } : {}),
+        ...(node ? { node } : {})
       };
     } catch (error) {
       const responseTime = Date.now() - startTime;
@@ -72,8 +246,8 @@ export class SimpleHealthMonitor {
    * Check all LSPs' LSPS1 API endpoints
    */
   async checkAllLSPs(): Promise<SimpleHealthStatus[]> {
-    const { getActiveLSPs } = await import('./lsps');
-    const activeLSPs = getActiveLSPs();
+    const { loadActiveLSPs } = await import('./lsps');
+    const activeLSPs = await loadActiveLSPs();
 
     console.log(`Checking LSPS1 API availability for ${activeLSPs.length} LSPs...`);
 
@@ -84,9 +258,27 @@ export class SimpleHealthMonitor {
     const offline = healthStatuses.filter(h => !h.is_online).length;
 
     console.log(`API health check complete: ${online} available, ${offline} unavailable`);
-    
+
     return healthStatuses;
   }
+
+  /**
+   * Latest stored probe of a single LSP (null when it was not part of the last round)
+   */
+  async getHealthStatus(lspId: string): Promise<SimpleHealthStatus | null> {
+    const { getHealthStatuses } = await import('./db');
+    const statuses = (await getHealthStatuses()) as SimpleHealthStatus[] | null;
+    return statuses?.find(status => status.lsp_id === lspId) ?? null;
+  }
+
+  /**
+   * Uptime and latency from the stored probe history
+   */
+  async getHistorySummary(lspId: string, now: Date = new Date()): Promise<HealthHistorySummary> {
+    const { getHealthHistory } = await import('./db');
+    const probes = await getHealthHistory(lspId, now.getTime() - HEALTH_HISTORY_RETENTION_MS);
+    return summarizeHealthHistory(probes, now);
+  }
 }
 
 export const simpleHealthMonitor = new SimpleHealthMonitor();
@@ -0,0 +1,238 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { PriceStore, SortedSetMember, StoreRangeOptions, StoreSetOptions } from './types';
+
+interface FileStoreEntry {
+  value?: string;
+  zset?: Record<string, number>; // member → score, present for sorted set keys
+  expiresAt?: number; // epoch ms
+}
+
+interface FileStoreSnapshot {
+  version: 1;
+  entries: Record<string, FileStoreEntry>;
+}
+
+// Convert a Redis KEYS glob ("alby:lsp:*") into a RegExp
+export function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`^${escaped.replace(/\*/g, '.*').replace(/\?/g, '.')}$`);
+}
+
+// Mirror Upstash: strings are stored as-is, everything else as JSON
+function serialize(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+// Mirror Upstash automatic deserialization: return parsed JSON when possible
+function deserialize<T>(raw: string): T {
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    return raw as unknown as T;
+  }
+}
+
+/**
+ * JSON-file implementation of the PriceStore for self-hosted deployments
+ * The whole keyspace lives in one file that is rewritten atomically (tmp + rename).
+ * The file is reloaded when its mtime changes so separate route bundles stay in sync.
+ */
+export class FileStore implements PriceStore {
+  readonly backend = 'file' as const;
+  private entries: Record<string, FileStoreEntry> = {};
+  private loadedMtimeMs = -1;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  private async load(): Promise<void> {
+    try {
+      const stat = await fs.stat(this.filePath);
+      if (stat.mtimeMs === this.loadedMtimeMs) return;
+
+      const raw = await fs.readFile(this.filePath, 'utf8');
+      const snapshot = raw ? (JSON.parse(raw) as FileStoreSnapshot) : null;
+      this.entries = snapshot?.entries ?? {};
+      this.loadedMtimeMs = stat.mtimeMs;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        this.entries = {};
+        this.loadedMtimeMs = -1;
+        return;
+      }
+      throw error;
+    }
+  }
+
+  private async flush(): Promise<void> {
+    const snapshot: FileStoreSnapshot = { version: 1, entries: this.entries };
+    const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(tmpPath, JSON.stringify(snapshot), 'utf8');
+    await fs.rename(tmpPath, this.filePath);
+
+    const stat = await fs.stat(this.filePath);
+    this.loadedMtimeMs = stat.mtimeMs;
+  }
+
+  // Serialize read-modify-write cycles so concurrent writers in this process never interleave
+  private mutate<T>(fn: () => T): Promise<T> {
+    const run = this.writeQueue.then(async () => {
+      await this.load();
+      const result = fn();
+      await this.flush();
+      return result;
+    });
+    this.writeQueue = run.then(() => undefined, () => undefined);
+    return run;
+  }
+
+  private liveEntry(key: string): FileStoreEntry | null {
+    const entry = this.entries[key];
+    if (!entry) return null;
+    if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      delete this.entries[key];
+      return null;
+    }
+    return entry;
+  }
+
+  async get<T = unknown>(key: string): Promise<T | null> {
+    await this.load();
+    const entry = this.liveEntry(key);
+    return entry?.value !== undefined ? deserialize<T>(entry.value) : null;
+  }
+
+  async set(key: string, value: unknown, options?: StoreSetOptions): Promise<void> {
+    await this.mutate(() => {
+      this.entries[key] = {
+        value: serialize(value),
+        ...(options?.ex ? { expiresAt: Date.now() + options.ex * 1000 } : {})
+      };
+    });
+  }
+
+  async setMany(entries: Record<string, unknown>): Promise<void> {
+    if (Object.keys(entries).length === 0) return;
+    await this.mutate(() => {
+      Object.entries(entries).forEach(([key, value]) => {
+        this.entries[key] = { value: serialize(value) };
+      });
+    });
+  }
+
+  async del(...keys: string[]): Promise<number> {
+    if (keys.length === 0) return 0;
+    return await this.mutate(() => {
+      let removed = 0;
+      keys.forEach(key => {
+        if (this.liveEntry(key)) {
+          delete this.entries[key];
+          removed++;
+        }
+      });
+      return removed;
+    });
+  }
+
+  async keys(pattern: string): Promise<string[]> {
+    await this.load();
+    const matcher = globToRegExp(pattern);
+    return Object.keys(this.entries).filter(key => matcher.test(key) && this.liveEntry(key) !== null);
+  }
+
+  async type(key: string): Promise<string> {
+    await this.load();
+    const entry = this.liveEntry(key);
+    if (!entry) return 'none';
+    return entry.zset ? 'zset' : 'string';
+  }
+
+  async ttl(key: string): Promise<number> {
+    await this.load();
+    const entry = this.liveEntry(key);
+    if (!entry) return -2;
+    if (entry.expiresAt === undefined) return -1;
+    return Math.max(0, Math.ceil((entry.expiresAt - Date.now()) / 1000));
+  }
+
+  async zadd(key: string, ...members: SortedSetMember[]): Promise<number> {
+    if (members.length === 0) return 0;
+    return await this.mutate(() => {
+      const existing = this.liveEntry(key);
+      const zset = existing?.zset ?? {};
+      let added = 0;
+      members.forEach(({ score, member }) => {
+        if (!(member in zset)) added++;
+        zset[member] = score;
+      });
+      this.entries[key] = { zset };
+      return added;
+    });
+  }
+
+  async zaddMany(membersByKey: Record<string, SortedSetMember[]>): Promise<number> {
+    const keys = Object.keys(membersByKey).filter(key => membersByKey[key].length > 0);
+    if (keys.length === 0) return 0;
+    return await this.mutate(() => keys.reduce((added, key) => {
+      const zset = this.liveEntry(key)?.zset ?? {};
+      membersByKey[key].forEach(({ score, member }) => {
+        if (!(member in zset)) added++;
+        zset[member] = score;
+      });
+      this.entries[key] = { zset };
+      return added;
+    }, 0));
+  }
+
+  async zrangeByScore<T = unknown>(key: string, min: number, max: number, options: StoreRangeOptions = {}): Promise<T[]> {
+    await this.load();
+    const zset = this.liveEntry(key)?.zset;
+    if (!zset) return [];
+
+    // Same ordering as Redis: by score, then lexicographically by member
+    const sorted = Object.entries(zset)
+      .filter(([, score]) => score >= min && score <= max)
+      .sort(([memberA, scoreA], [memberB, scoreB]) =>
+        scoreA - scoreB || (memberA < memberB ? -1 : memberA > memberB ? 1 : 0));
+    if (options.rev) sorted.reverse();
+
+    const offset = options.offset ?? 0;
+    const page = options.count !== undefined
+      ? sorted.slice(offset, offset + options.count)
+      : sorted.slice(offset);
+    return page.map(([member]) => deserialize<T>(member));
+  }
+
+  async zcard(key: string): Promise<number> {
+    await this.load();
+    const zset = this.liveEntry(key)?.zset;
+    return zset ? Object.keys(zset).length : 0;
+  }
+
+  async zrem(key: string, ...members: string[]): Promise<number> {
+    if (members.length === 0) return 0;
+    return await this.mutate(() => {
+      const zset = this.liveEntry(key)?.zset;
+      if (!zset) return 0;
+      const removed = members.filter(member => member in zset);
+      removed.forEach(member => delete zset[member]);
+      if (Object.keys(zset).length === 0) delete this.entries[key];
+      return removed.length;
+    });
+  }
+
+  async zremrangeByScore(key: string, min: number, max: number): Promise<number> {
+    return await this.mutate(() => {
+      const zset = this.liveEntry(key)?.zset;
+      if (!zset) return 0;
+      const removed = Object.entries(zset).filter(([, score]) => score >= min && score <= max);
+      removed.forEach(([member]) => delete zset[member]);
+      // Redis deletes a sorted set once it is empty
+      if (Object.keys(zset).length === 0) delete this.entries[key];
+      return removed.length;
+    });
+  }
+}
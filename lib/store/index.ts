@@ -0,0 +1,53 @@
+import path from 'path';
+import { isRedisConfigured, getRedisInstance } from '../redis-config';
+import { FileStore } from './file-store';
+import { UpstashStore } from './upstash-store';
+import type { PriceStore, StoreBackend } from './types';
+
+export type { PriceStore, StoreBackend, StoreSetOptions, SortedSetMember, StoreRangeOptions } from './types';
+
+const DEFAULT_FILE_STORE_PATH = path.join(process.cwd(), 'data', 'priceboard.json');
+
+let storeInstance: PriceStore | null | undefined;
+
+/**
+ * Resolve which backend to use from PRICE_STORE
+ * - PRICE_STORE=file     → local JSON file (PRICE_STORE_FILE, default ./data/priceboard.json)
+ * - PRICE_STORE=upstash  → Upstash Redis (requires KV_REST_API_URL / KV_REST_API_TOKEN)
+ * - unset                → Upstash when configured, otherwise no persistence
+ */
+export const getStoreBackend = (): StoreBackend | null => {
+  const configured = process.env.PRICE_STORE?.trim().toLowerCase();
+
+  if (configured === 'file') return 'file';
+  if (configured && configured !== 'upstash') {
+    console.warn(`Unknown PRICE_STORE "${configured}", falling back to Upstash detection`);
+  }
+  return isRedisConfigured() ? 'upstash' : null;
+};
+
+/**
+ * Check if a storage backend is configured
+ */
+export const isStoreConfigured = (): boolean => {
+  return getStoreBackend() !== null;
+};
+
+/**
+ * Get the shared PriceStore instance if configured, null otherwise
+ */
+export const getPriceStore = (): PriceStore | null => {
+  if (storeInstance !== undefined) return storeInstance;
+
+  const backend = getStoreBackend();
+  if (backend === 'file') {
+    storeInstance = new FileStore(process.env.PRICE_STORE_FILE || DEFAULT_FILE_STORE_PATH);
+  } else if (backend === 'upstash') {
+    const redis = getRedisInstance();
+    storeInstance = redis ? new UpstashStore(redis) : null;
+  } else {
+    storeInstance = null;
+  }
+
+  return storeInstance;
+};
@@ -0,0 +1,52 @@
+/**
+ * Storage backend abstraction
+ * Every persistence call in the app goes through a PriceStore so the board can
+ * run against Upstash Redis (Vercel) or a local file (self-hosted / offline).
+ */
+
+export type StoreBackend = 'upstash' | 'file';
+
+export interface StoreSetOptions {
+  ex?: number; // Expire after N seconds (same semantics as Redis SET EX)
+}
+
+export interface SortedSetMember {
+  score: number;
+  member: string;
+}
+
+export interface StoreRangeOptions {
+  offset?: number;
+  count?: number;
+  rev?: boolean; // Highest score first
+}
+
+export interface PriceStore {
+  readonly backend: StoreBackend;
+
+  // Values are returned deserialized when they hold JSON (matches Upstash automatic deserialization)
+  get<T = unknown>(key: string): Promise<T | null>;
+  set(key: string, value: unknown, options?: StoreSetOptions): Promise<void>;
+  // Write several keys in one round trip (pipeline on Upstash, single flush on file)
+  setMany(entries: Record<string, unknown>): Promise<void>;
+  del(...keys: string[]): Promise<number>;
+  // Glob-style pattern matching ("alby:lsp:*"), same as Redis KEYS
+  keys(pattern: string): Promise<string[]>;
+  // Redis type name of the key ('string', 'zset', ... or 'none')
+  type(key: string): Promise<string>;
+  // Seconds until expiry, -1 when the key has no expiry, -2 when it does not exist
+  ttl(key: string): Promise<number>;
+
+  // Sorted sets (used for time series, score = epoch ms)
+  // Re-adding an identical member only updates its score, so writes are idempotent
+  zadd(key: string, ...members: SortedSetMember[]): Promise<number>;
+  // zadd on several keys in one round trip (pipeline on Upstash, single flush on file)
+  zaddMany(membersByKey: Record<string, SortedSetMember[]>): Promise<number>;
+  // Members with min <= score <= max, deserialized like get()
+  zrangeByScore<T = unknown>(key: string, min: number, max: number, options?: StoreRangeOptions): Promise<T[]>;
+  zcard(key: string): Promise<number>;
+  // Remove the given members (serialized as they were added), returns how many were removed
+  zrem(key: string, ...members: string[]): Promise<number>;
+  // Remove members with min <= score <= max (retention trimming), returns how many were removed
+  zremrangeByScore(key: string, min: number, max: number): Promise<number>;
+}
@@ -0,0 +1,106 @@
+import { Redis } from '@upstash/redis';
+import { PriceStore, SortedSetMember, StoreRangeOptions, StoreSetOptions } from './types';
+
+/**
+ * Upstash Redis (Vercel KV) implementation of the PriceStore
+ */
+export class UpstashStore implements PriceStore {
+  readonly backend = 'upstash' as const;
+
+  constructor(private readonly redis: Redis) {}
+
+  async get<T = unknown>(key: string): Promise<T | null> {
+    return await this.redis.get<T>(key);
+  }
+
+  async set(key: string, value: unknown, options?: StoreSetOptions): Promise<void> {
+    if (options?.ex) {
+      await this.redis.set(key, value, { ex: options.ex });
+    } else {
+      await this.redis.set(key, value);
+    }
+  }
+
+  async setMany(entries: Record<string, unknown>): Promise<void> {
+    const keys = Object.keys(entries);
+    if (keys.length === 0) return;
+
+    const pipeline = this.redis.pipeline();
+    keys.forEach(key => pipeline.set(key, entries[key]));
+    await pipeline.exec();
+  }
+
+  async del(...keys: string[]): Promise<number> {
+    if (keys.length === 0) return 0;
+    return await this.redis.del(...keys);
+  }
+
+  async keys(pattern: string): Promise<string[]> {
+    return await this.redis.keys(pattern);
+  }
+
+  async type(key: string): Promise<string> {
+    return await this.redis.type(key);
+  }
+
+  async ttl(key: string): Promise<number> {
+    return await this.redis.ttl(key);
+  }
+
+  async zadd(key: string, ...members: SortedSetMember[]): Promise<number> {
+    if (members.length === 0) return 0;
+    const [first, ...rest] = members;
+    return (await this.redis.zadd(key, first, ...rest)) ?? 0;
+  }
+
+  async zaddMany(membersByKey: Record<string, SortedSetMember[]>): Promise<number> {
+    const keys = Object.keys(membersByKey).filter(key => membersByKey[key].length > 0);
+    if (keys.length === 0) return 0;
+
+    const pipeline = this.redis.pipeline();
+    keys.forEach(key => {
+      const [first, ...rest] = membersByKey[key];
+      pipeline.zadd(key, first, ...rest);
+    });
+    const results = await pipeline.exec<Array<number | null>>();
+    return results.reduce<number>((sum, count) => sum + (count ?? 0), 0);
+  }
+
+  async zrangeByScore<T = unknown>(key: string, min: number, max: number, options: StoreRangeOptions = {}): Promise<T[]> {
+    const limit = options.count !== undefined
+      ? { offset: options.offset ?? 0, count: options.count }
+      : {};
+    // With REV, Redis expects the range as (max, min)
+    const [start, stop] = options.rev
+      ? [toScoreBound(max), toScoreBound(min)]
+      : [toScoreBound(min), toScoreBound(max)];
+
+    return await this.redis.zrange<T[]>(key, start, stop, {
+      byScore: true,
+      rev: options.rev,
+      ...limit
+    });
+  }
+
+  async zcard(key: string): Promise<number> {
+    return await this.redis.zcard(key);
+  }
+
+  async zrem(key: string, ...members: string[]): Promise<number> {
+    if (members.length === 0) return 0;
+    return await this.redis.zrem(key, ...members);
+  }
+
+  async zremrangeByScore(key: string, min: number, max: number): Promise<number> {
+    // The client only takes numeric bounds; clamp Infinity (scores are epoch ms)
+    const clamp = (score: number) => Math.min(Math.max(score, -Number.MAX_SAFE_INTEGER), Number.MAX_SAFE_INTEGER);
+    return await this.redis.zremrangebyscore(key, clamp(min), clamp(max));
+  }
+}
+
+// Redis needs "+inf"/"-inf" instead of JavaScript Infinity
+function toScoreBound(score: number): number | '+inf' | '-inf' {
+  if (score === Infinity) return '+inf';
+  if (score === -Infinity) return '-inf';
+  return score;
+}
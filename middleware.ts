@@ -1,43 +1,56 @@
 import { Ratelimit } from '@upstash/ratelimit';
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { getRedisInstance } from './lib/redis-config';
+import { ADMIN_ACTOR_HEADER, ADMIN_SESSION_COOKIE, authenticateAdmin, isAdminAuthConfigured } from './lib/admin-auth';
 
 const redis = getRedisInstance();
 
-const limiter = redis ? new Ratelimit({ 
-  redis, 
+const limiter = redis ? new Ratelimit({
+  redis,
   limiter: Ratelimit.slidingWindow(60, '1 m') // 60 requests per minute
 }) : null;
 
-export async function middleware(req: Request) {
-  const url = new URL(req.url);
-  
-  // Only apply rate limiting to /api/prices
-  if (url.pathname !== '/api/prices' || !limiter) {
+// Admin-only pages and API routes (login/logout stay public)
+const ADMIN_PAGES = ['/db-viewer', '/backup'];
+const ADMIN_API_ROUTES = ['/api/db-viewer', '/api/backup-data', '/api/import-backup', '/api/migrate-history'];
+const PUBLIC_ADMIN_API_ROUTES = ['/api/admin/login', '/api/admin/logout'];
+
+const isCronRoute = (pathname: string) => pathname.startsWith('/api/cron/');
+
+const isAdminRoute = (pathname: string) =>
+  ADMIN_PAGES.includes(pathname) ||
+  ADMIN_API_ROUTES.includes(pathname) ||
+  (pathname.startsWith('/api/admin/') && !PUBLIC_ADMIN_API_ROUTES.includes(pathname)) ||
+  isCronRoute(pathname);
+
+async function rateLimitPrices(req: NextRequest) {
+  if (!limiter) {
     return NextResponse.next();
   }
 
   // Get client IP (considering proxies)
-  const ip = req.headers.get('x-forwarded-for')?.split(',')[0]?.trim() || 
-             req.headers.get('x-real-ip') || 
+  const ip = req.headers.get('x-forwarded-for')?.split(',')[0]?.trim() ||
+             req.headers.get('x-real-ip') ||
              'global';
 
   try {
     const { success, reset } = await limiter.limit(ip);
-    
+
     if (success) {
       return NextResponse.next();
     }
 
     // Rate limit exceeded
     const retryAfter = Math.max(1, Math.ceil((reset - Date.now()) / 1000));
-    const res = NextResponse.json({ 
-      success: false, 
+    const res = NextResponse.json({
+      success: false,
       error: 'Rate limit exceeded',
       message: 'Too many requests. Please try again later.',
-      retry_after: retryAfter
+      code: 'RATE_LIMITED', // ApiErrorCode, see types/api-response.ts
+      retry_after: retryAfter,
+      timestamp: new Date().toISOString()
     }, { status: 429 });
-    
+
     res.headers.set('Retry-After', retryAfter.toString());
     return res;
   } catch (error) {
@@ -47,6 +60,72 @@ export async function middleware(req: Request) {
   }
 }
 
-export const config = { 
-  matcher: ['/api/prices'] 
+async function requireAdmin(req: NextRequest) {
+  const { pathname } = req.nextUrl;
+  const isApi = pathname.startsWith('/api/');
+
+  // CORS preflight carries no credentials
+  if (isApi && req.method === 'OPTIONS') {
+    return NextResponse.next();
+  }
+
+  const identity = await authenticateAdmin(
+    req.headers.get('authorization'),
+    req.cookies.get(ADMIN_SESSION_COOKIE)?.value,
+    { allowCron: isCronRoute(pathname) }
+  );
+
+  if (identity) {
+    // Pass the actor on for audit logging; overwrites anything the client sent
+    const headers = new Headers(req.headers);
+    headers.set(ADMIN_ACTOR_HEADER, identity.actor);
+    return NextResponse.next({ request: { headers } });
+  }
+
+  if (!isApi) {
+    const loginUrl = new URL('/login', req.url);
+    loginUrl.searchParams.set('next', pathname);
+    return NextResponse.redirect(loginUrl);
+  }
+
+  console.warn(`Rejected unauthenticated request to ${pathname}`);
+  const configured = isAdminAuthConfigured() || (isCronRoute(pathname) && !!process.env.CRON_SECRET);
+  return NextResponse.json({
+    success: false,
+    error: configured ? 'Unauthorized' : 'Admin authentication not configured',
+    message: configured
+      ? 'Log in at /login or send Authorization: Bearer <token>'
+      : 'Set ADMIN_API_TOKEN (and CRON_SECRET for cron routes) to enable admin routes',
+    timestamp: new Date().toISOString()
+  }, { status: configured ? 401 : 503 });
+}
+
+export async function middleware(req: NextRequest) {
+  const { pathname } = req.nextUrl;
+
+  // The public price API, legacy and versioned, shares one limit
+  if (pathname === '/api/prices' || pathname.startsWith('/api/v1/')) {
+    return rateLimitPrices(req);
+  }
+
+  if (isAdminRoute(pathname)) {
+    return requireAdmin(req);
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  matcher: [
+    '/api/prices',
+    '/api/v1/:path*',
+    '/api/db-viewer',
+    '/api/backup-data',
+    '/api/import-backup',
+    '/api/migrate-history',
+    '/api/admin/:path*',
+    '/api/cron/:path*',
+    '/db-viewer',
+    '/backup'
+  ]
 };
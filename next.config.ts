@@ -3,6 +3,8 @@ import type { NextConfig } from "next";
 const nextConfig: NextConfig = {
   reactStrictMode: true,
   poweredByHeader: false,
+  // ESM-only Nostr and secp256k1 dependencies; listed so next/jest transpiles them for the CommonJS test runner
+  transpilePackages: ['nostr-tools', '@noble/curves', '@noble/hashes', '@noble/ciphers', '@scure/base'],
   typescript: {
     ignoreBuildErrors: true // Keep disabled due to Next.js 15 API route compatibility
   },
@@ -4,6 +4,8 @@ export default function Document() {
   return (
     <Html lang="en">
       <Head>
+        <link rel="alternate" type="application/rss+xml" title="LSP price changes (RSS)" href="/api/feed.xml" />
+        <link rel="alternate" type="application/atom+xml" title="LSP price changes (Atom)" href="/api/feed.xml?format=atom" />
         <script
           dangerouslySetInnerHTML={{
             __html: `
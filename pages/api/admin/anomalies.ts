@@ -0,0 +1,59 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getRequestActor, recordAdminAction } from '../../../lib/admin-audit';
+import { getAnomalyLog, getHeldPrices, isAnomalyHoldEnabled, resolvePriceAnomaly } from '../../../lib/price-anomaly';
+
+// Price anomaly review (protected by middleware.ts, see lib/price-anomaly.ts)
+// GET                                                  → held prices and the recent flag/review log
+// POST { lspId, channelSize, action: 'confirm' }       → publish a held price as current (audited)
+// POST { lspId, channelSize, action: 'reject' }        → drop a held price, keep the previous one (audited)
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method === 'GET') {
+    const limit = Math.min(Math.max(Number(req.query.limit) || 100, 1), 1000);
+    return res.status(200).json({
+      success: true,
+      holdEnabled: isAnomalyHoldEnabled(),
+      held: await getHeldPrices(),
+      log: await getAnomalyLog(limit),
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { lspId, channelSize, action } = (req.body || {}) as { lspId?: string; channelSize?: number; action?: string };
+  if (typeof lspId !== 'string' || !Number.isInteger(Number(channelSize)) || (action !== 'confirm' && action !== 'reject')) {
+    return res.status(400).json({
+      success: false,
+      error: 'Invalid request',
+      message: "Send { lspId, channelSize, action: 'confirm' | 'reject' }",
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  try {
+    const price = await resolvePriceAnomaly(lspId, Number(channelSize), action, getRequestActor(req));
+    await recordAdminAction(req, `price-anomaly.${action}`, {
+      target: `${lspId}:${channelSize}`,
+      success: !!price,
+      ...(price ? { details: { total_fee_msat: price.total_fee_msat, timestamp: price.timestamp } } : {})
+    });
+    if (!price) {
+      return res.status(404).json({
+        success: false,
+        error: 'No held price for this LSP and channel size',
+        timestamp: new Date().toISOString()
+      });
+    }
+    res.status(200).json({ success: true, price, timestamp: new Date().toISOString() });
+  } catch (error) {
+    console.error('Error resolving price anomaly:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to resolve price anomaly',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+}
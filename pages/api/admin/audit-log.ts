@@ -0,0 +1,28 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getAdminAuditLog } from '../../../lib/admin-audit';
+
+// Admin audit trail, newest first (protected by middleware.ts)
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const limit = Math.min(Math.max(Number(req.query.limit) || 100, 1), 1000);
+
+  try {
+    const entries = await getAdminAuditLog(limit);
+    res.status(200).json({
+      success: true,
+      count: entries.length,
+      entries,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error reading audit log:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to read audit log',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
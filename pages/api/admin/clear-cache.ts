@@ -0,0 +1,33 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { clearCache } from '../../../lib/db';
+import { recordAdminAction } from '../../../lib/admin-audit';
+
+// Delete every alby:lsp:* key (protected by middleware.ts, audited)
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const clearedKeys = await clearCache();
+    await recordAdminAction(req, 'cache.clear', {
+      target: 'alby:lsp:*',
+      details: { clearedKeys: clearedKeys.length }
+    });
+
+    res.status(200).json({
+      success: true,
+      message: `Cleared ${clearedKeys.length} keys`,
+      clearedKeys,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error clearing cache:', error);
+    await recordAdminAction(req, 'cache.clear', { target: 'alby:lsp:*', success: false });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to clear cache',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
@@ -0,0 +1,92 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { recordAdminAction, getRequestActor } from '../../../lib/admin-audit';
+import {
+  DiscoveryStatus,
+  getDiscoveredLSPs,
+  promoteDiscoveredLSP,
+  recordDiscoveredLSPs,
+  rejectDiscoveredLSP,
+  reprobeDiscoveredLSP
+} from '../../../lib/lsp-discovery';
+
+const STATUSES: DiscoveryStatus[] = ['pending', 'promoted', 'rejected'];
+const ACTIONS = ['discover', 'probe', 'promote', 'reject'] as const;
+type DiscoveryAction = typeof ACTIONS[number];
+
+// Review queue of LSPs discovered from Alby channel suggestions (protected by middleware.ts)
+// GET  ?status=pending                                → list candidates
+// POST { action: "discover" }                         → fetch Alby suggestions and queue unknown LSPs now
+// POST { action: "probe"|"promote"|"reject", identifier, force? } → review a candidate (audited)
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method === 'GET') {
+    const status = typeof req.query.status === 'string' ? req.query.status as DiscoveryStatus : undefined;
+    if (status && !STATUSES.includes(status)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid status',
+        message: `status must be one of: ${STATUSES.join(', ')}`,
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const candidates = await getDiscoveredLSPs(status);
+    return res.status(200).json({
+      success: true,
+      count: candidates.length,
+      candidates,
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { action, identifier, force } = (req.body || {}) as { action?: DiscoveryAction; identifier?: string; force?: boolean };
+  if (!action || !ACTIONS.includes(action) || (action !== 'discover' && typeof identifier !== 'string')) {
+    return res.status(400).json({
+      success: false,
+      error: 'Invalid request',
+      message: `Send { action: ${ACTIONS.join('|')}, identifier } (identifier is not needed for discover)`,
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  const actor = getRequestActor(req);
+
+  try {
+    let result: unknown;
+    switch (action) {
+      case 'discover': {
+        const { fetchAlbyChannelSuggestions } = await import('../../../lib/alby-api');
+        result = { newIdentifiers: await recordDiscoveredLSPs(await fetchAlbyChannelSuggestions()) };
+        break;
+      }
+      case 'probe':
+        result = await reprobeDiscoveredLSP(identifier!);
+        break;
+      case 'promote':
+        result = await promoteDiscoveredLSP(identifier!, { actor, force: force === true });
+        break;
+      case 'reject':
+        result = await rejectDiscoveredLSP(identifier!, { actor });
+        break;
+    }
+
+    await recordAdminAction(req, `lsp-discovery.${action}`, {
+      ...(identifier ? { target: identifier } : {}),
+      ...(action === 'promote' && force ? { details: { force: true } } : {})
+    });
+
+    res.status(200).json({ success: true, action, result, timestamp: new Date().toISOString() });
+  } catch (error) {
+    console.error(`LSP discovery ${action} failed:`, error);
+    await recordAdminAction(req, `lsp-discovery.${action}`, { ...(identifier ? { target: identifier } : {}), success: false });
+    res.status(400).json({
+      success: false,
+      error: `Failed to ${action} LSP`,
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+}
@@ -0,0 +1,67 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import {
+  ADMIN_SESSION_COOKIE,
+  ADMIN_SESSION_TTL_SECONDS,
+  createSessionToken,
+  findAdminBySecret,
+  isAdminAuthConfigured,
+  serializeSessionCookie,
+  verifySessionToken
+} from '../../../lib/admin-auth';
+import { recordAdminAction } from '../../../lib/admin-audit';
+
+// GET  → current session
+// POST { token } → exchange an admin secret for a signed session cookie
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method === 'GET') {
+    const actor = await verifySessionToken(req.cookies[ADMIN_SESSION_COOKIE]);
+    return res.status(200).json({
+      success: true,
+      authenticated: !!actor,
+      actor,
+      configured: isAdminAuthConfigured()
+    });
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!isAdminAuthConfigured()) {
+    return res.status(503).json({
+      success: false,
+      error: 'Admin authentication not configured',
+      message: 'Set ADMIN_API_TOKEN or ADMIN_USERS to enable admin login'
+    });
+  }
+
+  const token = typeof req.body?.token === 'string' ? req.body.token.trim() : '';
+  const actor = token ? findAdminBySecret(token) : null;
+
+  if (!actor) {
+    await recordAdminAction(req, 'login', { actor: 'unknown', success: false });
+    return res.status(401).json({
+      success: false,
+      error: 'Invalid token'
+    });
+  }
+
+  try {
+    const session = await createSessionToken(actor);
+    res.setHeader('Set-Cookie', serializeSessionCookie(session, ADMIN_SESSION_TTL_SECONDS));
+    await recordAdminAction(req, 'login', { actor });
+
+    res.status(200).json({
+      success: true,
+      actor,
+      expiresIn: ADMIN_SESSION_TTL_SECONDS
+    });
+  } catch (error) {
+    console.error('Admin login failed:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Login failed',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
@@ -0,0 +1,17 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { ADMIN_SESSION_COOKIE, serializeSessionCookie, verifySessionToken } from '../../../lib/admin-auth';
+import { recordAdminAction } from '../../../lib/admin-audit';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const actor = await verifySessionToken(req.cookies[ADMIN_SESSION_COOKIE]);
+  res.setHeader('Set-Cookie', serializeSessionCookie('', 0));
+  if (actor) {
+    await recordAdminAction(req, 'logout', { actor });
+  }
+
+  res.status(200).json({ success: true });
+}
@@ -0,0 +1,29 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getLspRegistry, getLspRegistryStatus, reloadLspRegistry } from '../../../lib/lsps';
+import { recordAdminAction } from '../../../lib/admin-audit';
+
+// Loaded LSP registry (protected by middleware.ts)
+// GET  → current registry and where it was loaded from
+// POST → reload config/lsps.json now instead of waiting for the change check (audited)
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const status = req.method === 'POST' ? reloadLspRegistry() : getLspRegistryStatus();
+
+  if (req.method === 'POST') {
+    await recordAdminAction(req, 'lsp-registry.reload', {
+      target: status.path,
+      success: status.errors.length === 0,
+      details: { source: status.source, lspCount: status.lspCount, errors: status.errors.length }
+    });
+  }
+
+  res.status(200).json({
+    success: status.errors.length === 0,
+    status,
+    registry: getLspRegistry(),
+    timestamp: new Date().toISOString()
+  });
+}
@@ -0,0 +1,64 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { npubEncode } from 'nostr-tools/nip19';
+import { recordAdminAction } from '../../../lib/admin-audit';
+import { getNostrConfig, getNostrPublishLog, NOSTR_SNAPSHOT_KIND, publishPriceSnapshot } from '../../../lib/nostr';
+
+// Nostr snapshot publishing (protected by middleware.ts, see lib/nostr.ts)
+// GET                    → publishing key, relays and the recent publish log
+// POST { channelSize }   → publish the current prices of one size now (audited)
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const config = getNostrConfig();
+
+  if (req.method === 'GET') {
+    const limit = Math.min(Math.max(Number(req.query.limit) || 50, 1), 500);
+    return res.status(200).json({
+      success: true,
+      configured: !!config,
+      kind: NOSTR_SNAPSHOT_KIND,
+      pubkey: config?.pubkey || null,
+      npub: config ? npubEncode(config.pubkey) : null,
+      relays: config?.relays || [],
+      log: await getNostrPublishLog(limit),
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!config) {
+    return res.status(503).json({
+      success: false,
+      error: 'Nostr publishing not configured',
+      message: 'Set NOSTR_PRIVATE_KEY and NOSTR_RELAYS',
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  const channelSize = Number((req.body || {}).channelSize);
+  if (!Number.isInteger(channelSize) || channelSize <= 0) {
+    return res.status(400).json({
+      success: false,
+      error: 'Invalid request',
+      message: 'Send { channelSize } in sats',
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  const entry = await publishPriceSnapshot(channelSize);
+  await recordAdminAction(req, 'nostr.publish', {
+    target: String(channelSize),
+    success: !!entry?.ok,
+    ...(entry ? { details: { event_id: entry.event_id, relays: entry.relays.length } } : {})
+  });
+
+  if (!entry) {
+    return res.status(404).json({
+      success: false,
+      error: 'No prices to publish for this channel size',
+      timestamp: new Date().toISOString()
+    });
+  }
+  res.status(entry.ok ? 200 : 502).json({ success: entry.ok, publish: entry, timestamp: new Date().toISOString() });
+}
@@ -0,0 +1,39 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getRateLimitStatus } from '../../../lib/lsp-api';
+import { resetCircuit } from '../../../lib/lsp-circuit-breaker';
+import { resetRateLimit } from '../../../lib/lsp-rate-limit';
+import { getLSPById } from '../../../lib/lsps';
+import { recordAdminAction } from '../../../lib/admin-audit';
+
+// Per-LSP rate limit, backoff and circuit breaker state (protected by middleware.ts)
+// GET                              → cooldown, backoff, circuit state and next allowed request per active LSP
+// POST { lspId }                   → clear the backoff so the next fetch asks the LSP again (audited)
+// POST { lspId, reset: 'circuit' } → close the circuit breaker (audited)
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method === 'GET') {
+    return res.status(200).json({
+      success: true,
+      rateLimits: await getRateLimitStatus(),
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { lspId, reset = 'rate-limit' } = (req.body || {}) as { lspId?: string; reset?: string };
+  if (typeof lspId !== 'string' || !getLSPById(lspId) || (reset !== 'rate-limit' && reset !== 'circuit')) {
+    return res.status(400).json({
+      success: false,
+      error: 'Invalid request',
+      message: "Send { lspId } of a registered LSP, optionally with reset: 'rate-limit' | 'circuit'",
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  const state = reset === 'circuit' ? await resetCircuit(lspId) : await resetRateLimit(lspId);
+  await recordAdminAction(req, reset === 'circuit' ? 'circuit-breaker.reset' : 'rate-limit.reset', { target: lspId });
+
+  res.status(200).json({ success: true, state, timestamp: new Date().toISOString() });
+}
@@ -0,0 +1,26 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getSchedulerStatus } from '../../../lib/price-scheduler';
+
+// Price refresh queue of /api/cron/fetch-prices (protected by middleware.ts)
+// GET → queue depth, last run and freshness per channel size and per (LSP, size) task
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    res.status(200).json({
+      success: true,
+      scheduler: await getSchedulerStatus(),
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error reading scheduler status:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to read scheduler status',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+}
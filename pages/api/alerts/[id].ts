@@ -0,0 +1,74 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { ADMIN_SESSION_COOKIE, authenticateProCaller } from '../../../lib/admin-auth';
+import { recordAdminAction } from '../../../lib/admin-audit';
+import { deleteAlertRule, getAlertRule, getDeliveryLog, redactRule, setAlertRuleActive } from '../../../lib/price-alerts';
+
+// One price alert rule (owner or admin)
+// GET                     → the rule and its recent webhook delivery attempts
+// PATCH { active: bool }  → pause or resume the rule (audited)
+// DELETE                  → remove the rule and its queued retries (audited)
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'PATCH' && req.method !== 'DELETE') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const identity = await authenticateProCaller(req.headers.authorization, req.cookies[ADMIN_SESSION_COOKIE]);
+  if (!identity) {
+    return res.status(401).json({
+      success: false,
+      error: 'Unauthorized',
+      message: 'Price alerts require an admin session or Authorization: Bearer <Pro API token>',
+      timestamp: new Date().toISOString()
+    });
+  }
+  const isAdmin = identity.method !== 'pro';
+  const id = req.query.id as string;
+
+  const notFound = () => res.status(404).json({
+    success: false,
+    error: 'Alert rule not found',
+    id,
+    timestamp: new Date().toISOString()
+  });
+
+  try {
+    if (req.method === 'GET') {
+      const rule = await getAlertRule(id, identity.actor, isAdmin);
+      if (!rule) return notFound();
+      return res.status(200).json({
+        success: true,
+        rule: redactRule(rule),
+        deliveries: await getDeliveryLog(id),
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    if (req.method === 'PATCH') {
+      const { active } = (req.body || {}) as { active?: unknown };
+      if (typeof active !== 'boolean') {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid request',
+          message: 'Send { active: true | false }',
+          timestamp: new Date().toISOString()
+        });
+      }
+      const rule = await setAlertRuleActive(id, identity.actor, active, isAdmin);
+      if (!rule) return notFound();
+      await recordAdminAction(req, active ? 'alerts.resume' : 'alerts.pause', { actor: identity.actor, target: id });
+      return res.status(200).json({ success: true, rule: redactRule(rule), timestamp: new Date().toISOString() });
+    }
+
+    if (!(await deleteAlertRule(id, identity.actor, isAdmin))) return notFound();
+    await recordAdminAction(req, 'alerts.delete', { actor: identity.actor, target: id });
+    res.status(200).json({ success: true, id, timestamp: new Date().toISOString() });
+  } catch (error) {
+    console.error('Error managing alert rule:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to manage alert rule',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+}
@@ -0,0 +1,77 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { ADMIN_SESSION_COOKIE, authenticateProCaller } from '../../../lib/admin-auth';
+import { recordAdminAction } from '../../../lib/admin-audit';
+import { getAllLSPs } from '../../../lib/lsps';
+import { checkWebhookHost, createAlertRule, listAlertRules, redactRule, validateAlertRule } from '../../../lib/price-alerts';
+
+// Price alert subscriptions (admins and Pro API token holders, see lib/price-alerts.ts)
+// GET  → the caller's rules (admins see every rule), without secrets
+// POST { webhook_url, lsp_id?, channel_size_sat, condition } → create a rule; the response
+//      carries the webhook signing secret, which is not shown again (audited); 409 once the
+//      caller has MAX_RULES_PER_OWNER rules
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const identity = await authenticateProCaller(req.headers.authorization, req.cookies[ADMIN_SESSION_COOKIE]);
+  if (!identity) {
+    return res.status(401).json({
+      success: false,
+      error: 'Unauthorized',
+      message: 'Price alerts require an admin session or Authorization: Bearer <Pro API token>',
+      timestamp: new Date().toISOString()
+    });
+  }
+  const isAdmin = identity.method !== 'pro';
+
+  if (req.method === 'GET') {
+    const rules = await listAlertRules(identity.actor, isAdmin);
+    return res.status(200).json({ success: true, rules: rules.map(redactRule), timestamp: new Date().toISOString() });
+  }
+
+  const allowPrivateUrls = process.env.NODE_ENV !== 'production';
+  const validation = validateAlertRule(req.body || {}, {
+    lspIds: getAllLSPs().map(lsp => lsp.id),
+    allowPrivateUrls
+  });
+  // The host's addresses too, not only the URL as written
+  const hostError = 'error' in validation || allowPrivateUrls ? null : await checkWebhookHost(validation.rule.webhook_url);
+  if ('error' in validation || hostError) {
+    return res.status(400).json({
+      success: false,
+      error: 'Invalid alert rule',
+      message: 'error' in validation ? validation.error : hostError,
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  try {
+    const created = await createAlertRule(validation.rule, identity.actor);
+    if ('error' in created) {
+      await recordAdminAction(req, 'alerts.create', { actor: identity.actor, success: false, details: { error: created.error } });
+      return res.status(409).json({
+        success: false,
+        error: 'Alert rule limit reached',
+        message: created.error,
+        timestamp: new Date().toISOString()
+      });
+    }
+    const { rule } = created;
+    await recordAdminAction(req, 'alerts.create', {
+      actor: identity.actor,
+      target: rule.id,
+      details: { lsp_id: rule.lsp_id, channel_size_sat: rule.channel_size_sat, condition: rule.condition }
+    });
+    res.status(201).json({ success: true, rule, timestamp: new Date().toISOString() });
+  } catch (error) {
+    console.error('Error creating alert rule:', error);
+    await recordAdminAction(req, 'alerts.create', { actor: identity.actor, success: false });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create alert rule',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+}
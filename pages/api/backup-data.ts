@@ -1,5 +1,27 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-import { Redis } from '@upstash/redis';
+import { getPriceStore } from '../../lib/store';
+import { parsePriceSeriesKey } from '../../lib/db';
+import { recordAdminAction } from '../../lib/admin-audit';
+
+type BackupPrice = { lsp_id: string; lsp_name: string; total_fee_msat: number; source: string; timestamp: string };
+
+// Series are exported as { channelSize, lspId, prices }; legacy day blobs are exported as stored
+type BackupHistoryEntry = { channelSize?: number; lspId?: string; timestamp?: string; prices?: BackupPrice[] };
+
+interface BackupData {
+  exportInfo: {
+    timestamp: string;
+    totalKeys: number;
+    channelKeys: number;
+    historyKeys: number;
+    metadataKeys: number;
+    format: string;
+    version: string;
+  };
+  channelData: Record<string, unknown>;
+  historicalData: Record<string, unknown>;
+  metadata: unknown;
+}
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'GET') {
@@ -7,12 +29,12 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
 
   try {
-    const redis = Redis.fromEnv();
+    const store = getPriceStore();
     
-    if (!redis) {
+    if (!store) {
       return res.status(500).json({ 
-        error: 'Redis not available',
-        message: 'Redis instance could not be created.'
+        error: 'Price store not available',
+        message: 'No storage backend configured.'
       });
     }
 
@@ -20,15 +42,15 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     const includeMetadata = req.query.metadata === 'true';
 
     // Get all keys
-    const allKeys = await redis.keys('alby:lsp:*');
+    const allKeys = await store.keys('alby:lsp:*');
     
     // Separate different types of data
     const channelKeys = allKeys.filter(key => key.startsWith('alby:lsp:channel:'));
-    const historyKeys = allKeys.filter(key => key.startsWith('alby:lsp:history:'));
+    const historyKeys = allKeys.filter(key => key.startsWith('alby:lsp:series:') || key.startsWith('alby:lsp:history:'));
     const metadataKeys = allKeys.filter(key => key === 'alby:lsp:metadata');
 
     // Collect all data
-    const backupData = {
+    const backupData: BackupData = {
       exportInfo: {
         timestamp: new Date().toISOString(),
         totalKeys: allKeys.length,
@@ -36,7 +58,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         historyKeys: historyKeys.length,
         metadataKeys: metadataKeys.length,
         format: format,
-        version: '1.0'
+        version: '1.1' // 1.1: history exported as per-LSP series
       },
       channelData: {},
       historicalData: {},
@@ -46,7 +68,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     // Fetch channel data
     for (const key of channelKeys) {
       try {
-        const data = await redis.get(key);
+        const data = await store.get(key);
         const channelSize = key.split(':')[3];
         backupData.channelData[channelSize] = data;
       } catch (error) {
@@ -57,8 +79,10 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     // Fetch historical data
     for (const key of historyKeys) {
       try {
-        const data = await redis.get(key);
-        backupData.historicalData[key] = data;
+        const series = parsePriceSeriesKey(key);
+        backupData.historicalData[key] = series
+          ? { ...series, prices: await store.zrangeByScore(key, -Infinity, Infinity) }
+          : await store.get(key);
       } catch (error) {
         console.warn(`Error fetching historical data for ${key}:`, error);
       }
@@ -67,12 +91,17 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     // Fetch metadata if requested
     if (includeMetadata && metadataKeys.length > 0) {
       try {
-        backupData.metadata = await redis.get('alby:lsp:metadata');
+        backupData.metadata = await store.get('alby:lsp:metadata');
       } catch (error) {
         console.warn('Error fetching metadata:', error);
       }
     }
 
+    await recordAdminAction(req, 'backup.export', {
+      target: 'alby:lsp:*',
+      details: { format, keys: allKeys.length }
+    });
+
     // Generate filename with timestamp
     const timestamp = new Date().toISOString().replace(/[:.]/g, '-').split('T')[0];
     const filename = `alby-lsp-backup-${timestamp}`;
@@ -118,7 +147,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
 }
 
-function convertToCSV(data: { channelData: Record<string, unknown>; historyData: Record<string, unknown> }): string {
+function convertToCSV(data: BackupData): string {
   const rows = [];
   
   // Header
@@ -127,7 +156,7 @@ function convertToCSV(data: { channelData: Record<string, unknown>; historyData:
   // Channel data
   Object.entries(data.channelData).forEach(([channelSize, prices]: [string, unknown]) => {
     if (Array.isArray(prices)) {
-      prices.forEach((price: { lsp_id: string; lsp_name: string; total_fee_msat: number; source: string; timestamp: string }) => {
+      prices.forEach((price: BackupPrice) => {
         rows.push([
           'channel',
           `alby:lsp:channel:${channelSize}`,
@@ -143,14 +172,14 @@ function convertToCSV(data: { channelData: Record<string, unknown>; historyData:
   });
   
   // Historical data
-  Object.entries(data.historicalData).forEach(([key, historyEntry]: [string, unknown]) => {
+  Object.entries(data.historicalData as Record<string, BackupHistoryEntry>).forEach(([key, historyEntry]) => {
     if (historyEntry && historyEntry.prices && Array.isArray(historyEntry.prices)) {
-      historyEntry.prices.forEach((price: { lsp_id: string; lsp_name: string; total_fee_msat: number; source: string; timestamp: string }) => {
+      historyEntry.prices.forEach((price: BackupPrice) => {
         rows.push([
           'history',
           key,
           historyEntry.channelSize || '',
-          historyEntry.timestamp || '',
+          historyEntry.timestamp || price.timestamp || '',
           price.lsp_id || '',
           price.lsp_name || '',
           price.total_fee_msat || '',
@@ -163,7 +192,7 @@ function convertToCSV(data: { channelData: Record<string, unknown>; historyData:
   return rows.join('\n');
 }
 
-function convertToSQL(data: { channelData: Record<string, unknown>; historicalData: Record<string, unknown> }): string {
+function convertToSQL(data: BackupData): string {
   const sql = [];
   
   sql.push('-- Alby LSP Price Board Database Backup');
@@ -198,16 +227,16 @@ function convertToSQL(data: { channelData: Record<string, unknown>; historicalDa
   // Insert channel data
   Object.entries(data.channelData).forEach(([channelSize, prices]: [string, unknown]) => {
     if (Array.isArray(prices)) {
-      prices.forEach((price: { lsp_id: string; lsp_name: string; total_fee_msat: number; source: string; timestamp: string }) => {
+      prices.forEach((price: BackupPrice) => {
         sql.push(`INSERT INTO channel_prices (channel_size, lsp_id, lsp_name, total_fee_msat, source, timestamp) VALUES (${channelSize}, '${price.lsp_id || ''}', '${price.lsp_name || ''}', ${price.total_fee_msat || 0}, '${price.source || ''}', '${price.timestamp || ''}');`);
       });
     }
   });
   
   // Insert historical data
-  Object.entries(data.historicalData).forEach(([key, historyEntry]: [string, unknown]) => {
+  Object.entries(data.historicalData as Record<string, BackupHistoryEntry>).forEach(([key, historyEntry]) => {
     if (historyEntry && historyEntry.prices && Array.isArray(historyEntry.prices)) {
-      historyEntry.prices.forEach((price: { lsp_id: string; lsp_name: string; total_fee_msat: number; source: string; timestamp: string }) => {
+      historyEntry.prices.forEach((price: BackupPrice) => {
         sql.push(`INSERT INTO historical_prices (history_key, channel_size, lsp_id, lsp_name, total_fee_msat, source, timestamp) VALUES ('${key}', ${historyEntry.channelSize || 0}, '${price.lsp_id || ''}', '${price.lsp_name || ''}', ${price.total_fee_msat || 0}, '${price.source || ''}', '${price.timestamp || ''}');`);
       });
     }
@@ -216,7 +245,7 @@ function convertToSQL(data: { channelData: Record<string, unknown>; historicalDa
   return sql.join('\n');
 }
 
-function convertToTXT(data: { channelData: Record<string, unknown>; historicalData: Record<string, unknown> }): string {
+function convertToTXT(data: BackupData): string {
   const lines = [];
   
   lines.push('ALBY LSP PRICE BOARD - DATABASE BACKUP');
@@ -235,7 +264,7 @@ function convertToTXT(data: { channelData: Record<string, unknown>; historicalDa
     lines.push(`\nChannel Size: ${channelSize} sats`);
     lines.push('-'.repeat(30));
     if (Array.isArray(prices)) {
-      prices.forEach((price: { lsp_id: string; lsp_name: string; total_fee_msat: number; source: string; timestamp: string }) => {
+      prices.forEach((price: BackupPrice) => {
         lines.push(`LSP: ${price.lsp_name || 'Unknown'} (${price.lsp_id || 'N/A'})`);
         lines.push(`  Fee: ${price.total_fee_msat || 0} msat`);
         lines.push(`  Source: ${price.source || 'Unknown'}`);
@@ -248,7 +277,7 @@ function convertToTXT(data: { channelData: Record<string, unknown>; historicalDa
   // Historical data
   lines.push('\nHISTORICAL DATA');
   lines.push('===============');
-  Object.entries(data.historicalData).forEach(([key, historyEntry]: [string, unknown]) => {
+  Object.entries(data.historicalData as Record<string, BackupHistoryEntry>).forEach(([key, historyEntry]) => {
     lines.push(`\nHistory Key: ${key}`);
     lines.push('-'.repeat(40));
     if (historyEntry && historyEntry.prices && Array.isArray(historyEntry.prices)) {
@@ -256,7 +285,7 @@ function convertToTXT(data: { channelData: Record<string, unknown>; historicalDa
       lines.push(`Entry Timestamp: ${historyEntry.timestamp || 'Unknown'}`);
       lines.push(`Prices Count: ${historyEntry.prices.length}`);
       lines.push('');
-      historyEntry.prices.forEach((price: { lsp_id: string; lsp_name: string; total_fee_msat: number; source: string; timestamp: string }, index: number) => {
+      historyEntry.prices.forEach((price: BackupPrice, index: number) => {
         lines.push(`  ${index + 1}. LSP: ${price.lsp_name || 'Unknown'} (${price.lsp_id || 'N/A'})`);
         lines.push(`     Fee: ${price.total_fee_msat || 0} msat`);
         lines.push(`     Source: ${price.source || 'Unknown'}`);
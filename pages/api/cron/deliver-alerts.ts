@@ -0,0 +1,35 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { retryPendingDeliveries } from '../../../lib/price-alerts';
+import { getRequestActor } from '../../../lib/admin-audit';
+
+// Deliver queued price alert webhooks (see lib/price-alerts.ts)
+// Runs on its own so slow subscribers never hold up price refreshes; deliveries run in parallel,
+// each bounded by the 5s webhook timeout, which fits the 10s function limit
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Accept both GET and POST requests (Vercel Cron can use either)
+  // Authentication (CRON_SECRET or admin credentials) is enforced by middleware.ts
+  if (req.method !== 'POST' && req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  console.log(`Alert delivery cron request: method=${req.method}, actor=${getRequestActor(req)}`);
+
+  try {
+    const delivered = await retryPendingDeliveries();
+
+    res.status(200).json({
+      success: true,
+      message: `Delivered ${delivered} price alerts`,
+      delivered,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error delivering price alerts:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Alert delivery failed',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+}
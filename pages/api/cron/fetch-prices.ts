@@ -1,10 +1,27 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
+import { getRequestActor } from '../../../lib/admin-audit';
+
+// Refresh the stalest (LSP, channel size) prices within the time budget (see lib/price-scheduler.ts)
+// ?budgetMs=N bounds the whole run (default 8000, fits the 10s function limit): the scheduler gets
+// all but FOLLOW_UP_MS of it, JIT quotes and the Nostr publish get the rest
+// Price alert webhooks are delivered by /api/cron/deliver-alerts
+// Queue depth and freshness per size: GET /api/admin/scheduler
+
+// Part of the budget kept for the JIT and Nostr steps after the scheduler
+const FOLLOW_UP_MS = 2000;
+
+// Resolves to the fallback once the deadline has passed, so a slow step cannot outlive the budget
+function beforeDeadline<T>(promise: Promise<T>, deadline: number, fallback: T): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<T>(resolve => {
+    timer = setTimeout(() => resolve(fallback), Math.max(0, deadline - Date.now()));
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   // Accept both GET and POST requests (Vercel Cron can use either)
-  // Verify it's actually a cron request by checking for Vercel cron headers
-  const isVercelCron = req.headers['x-vercel-cron'] || req.headers['user-agent']?.includes('vercel-cron');
-
+  // Authentication (CRON_SECRET or admin credentials) is enforced by middleware.ts
   if (req.method !== 'POST' && req.method !== 'GET') {
     return res.status(405).json({
       error: 'Method not allowed',
@@ -12,103 +29,72 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     });
   }
 
-  // Log the request method for debugging
-  console.log(`Cron request received: method=${req.method}, isVercelCron=${isVercelCron}`);
-
-  try {
-    // Day-of-week based channel size fetching to stay within Vercel free tier 10s limit
-    // Monday = 1M, Tuesday = 2M, Wednesday = 3M, Thursday = 4M, Friday = 5M, Saturday = 7M, Sunday = 10M
-    // This ensures each cron execution fetches only ONE channel size, keeping execution time under 10 seconds
-    // NOTE: In the future, we could parallelize fetching multiple channel sizes if we upgrade to a paid plan
-    const dayOfWeek = new Date().getUTCDay(); // 0 = Sunday, 1 = Monday, ..., 6 = Saturday
-
-    const channelSizeByDay: Record<number, number> = {
-      0: 10000000, // Sunday = 10M sats
-      1: 1000000,  // Monday = 1M sats
-      2: 2000000,  // Tuesday = 2M sats
-      3: 3000000,  // Wednesday = 3M sats
-      4: 4000000,  // Thursday = 4M sats
-      5: 5000000,  // Friday = 5M sats
-      6: 7000000,  // Saturday = 7M sats
-    };
+  // Log the request method and caller for debugging
+  console.log(`Cron request received: method=${req.method}, actor=${getRequestActor(req)}`);
 
-    const channelSize = channelSizeByDay[dayOfWeek];
-    console.log(`Today is ${['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'][dayOfWeek]}, fetching ${channelSize / 1000000}M sats channel size`);
+  const budgetMs = Math.min(Math.max(Number(req.query.budgetMs) || 8000, 1000 + FOLLOW_UP_MS), 55000);
+  const deadline = Date.now() + budgetMs;
 
-    const allPrices = [];
-
-    // STEP 1: Get cached health status from Redis (checked by separate cron job at 23:55 UTC)
-    console.log('Reading cached LSP health status...');
+  try {
+    // STEP 1: Read cached LSP health status (checked by the separate health-check cron)
     const { getHealthStatuses } = await import('../../../lib/db');
-    let healthStatuses = await getHealthStatuses();
-
-    // Validate cached health status is recent (within 10 minutes)
-    const HEALTH_CACHE_MAX_AGE_MS = 10 * 60 * 1000; // 10 minutes
-    if (healthStatuses && healthStatuses.length > 0) {
-      const oldestCheckTime = Math.min(...healthStatuses.map(h => new Date(h.last_check).getTime()));
-      const ageMs = Date.now() - oldestCheckTime;
-
-      if (ageMs > HEALTH_CACHE_MAX_AGE_MS) {
-        console.warn(`Cached health status is stale (${Math.round(ageMs / 1000)}s old) - performing fresh check`);
-        const { simpleHealthMonitor } = await import('../../../lib/simple-health');
-        healthStatuses = await simpleHealthMonitor.checkAllLSPs();
-      } else {
-        console.log(`Using cached health status: ${healthStatuses.filter(h => h.is_online).length}/${healthStatuses.length} LSPs online`);
-      }
-    } else {
-      console.warn('No cached health status found - performing fresh check');
-      const { simpleHealthMonitor } = await import('../../../lib/simple-health');
-      healthStatuses = await simpleHealthMonitor.checkAllLSPs();
-    }
+    const healthStatuses = await getHealthStatuses();
 
-    // STEP 2: Use the PriceService with fallback logic
-    const { PriceService } = await import('../../../lib/price-service');
-    const priceService = PriceService.getInstance();
-    const prices = await priceService.forceFetchPricesNew(channelSize, true);
+    // STEP 2: Refresh due tasks, stalest first, until the budget is spent
+    const { runScheduledRefresh } = await import('../../../lib/price-scheduler');
+    const { run, prices } = await runScheduledRefresh({ budgetMs: Math.max(0, deadline - FOLLOW_UP_MS - Date.now()) });
 
-    // STEP 3: Merge health status with price data (if available)
-    const pricesWithHealth = prices.map(price => {
-      if (!healthStatuses) {
-        return price; // No health data available
-      }
+    // STEP 3 and 4, side by side with what is left of the budget; both are best effort
+    // STEP 3: LSPS2 JIT quotes for the refreshed sizes (only LSPs with an lsps2Url)
+    // STEP 4: Publish the refreshed sizes to Nostr relays (only with NOSTR_PRIVATE_KEY and NOSTR_RELAYS)
+    const { refreshJitPrices } = await import('../../../lib/lsps2');
+    const { publishPriceSnapshot } = await import('../../../lib/nostr');
+    const [jitResults, nostrEntries] = await Promise.all([
+      beforeDeadline(Promise.all(run.channel_sizes.map(size => refreshJitPrices(size).catch(error => {
+        console.error(`JIT price refresh failed for ${size} sats:`, error);
+        return [];
+      }))), deadline, []),
+      beforeDeadline(Promise.all(run.channel_sizes.map(size => publishPriceSnapshot(size))), deadline, [])
+    ]);
+    const jitPrices = jitResults.flat();
+    const nostrPublished = nostrEntries.filter(entry => entry?.ok).length;
 
-      const healthStatus = healthStatuses.find(h => h.lsp_id === price.lsp_id);
-      return {
-        ...price,
-        is_online: healthStatus?.is_online,
-        health_status: healthStatus?.status,
-        health_check_timestamp: healthStatus?.last_check,
-        health_response_time_ms: healthStatus?.response_time_ms
-      };
-    });
-
-    allPrices.push(...pricesWithHealth);
-    
-    // Return success response
     res.status(200).json({
       success: true,
-      message: `Prices${healthStatuses ? ' and health status' : ''} fetched and saved successfully for ${channelSize / 1000000}M sats channel size`,
-      count: allPrices.length,
-      channelSize: channelSize,
-      dayOfWeek: ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'][dayOfWeek],
+      message: run.processed > 0
+        ? `Refreshed ${run.succeeded}/${run.processed} prices for ${run.channel_sizes.map(size => `${size / 1000000}M`).join(', ')} sats`
+        : 'No prices due for refresh',
+      count: prices.length,
+      channelSizes: run.channel_sizes,
+      processed: run.processed,
+      succeeded: run.succeeded,
+      remainingDue: run.remaining_due,
+      waitingForCooldown: run.waiting_for_cooldown,
+      timedOut: run.timed_out,
       timestamp: new Date().toISOString(),
       lspsOnline: healthStatuses ? healthStatuses.filter(h => h.is_online).length : undefined,
       lspsTotal: healthStatuses ? healthStatuses.length : undefined,
       healthDataAvailable: !!healthStatuses,
-      prices: allPrices.map(price => ({
-        lsp_id: price.lsp_id,
-        lsp_name: price.lsp_name,
-        channel_size_sat: price.channel_size_sat,
-        total_fee_msat: price.total_fee_msat,
-        timestamp: price.timestamp,
-        is_online: price.is_online,
-        health_status: price.health_status
-      }))
+      jitCount: jitPrices.filter(price => !price.error).length,
+      nostrPublished,
+      prices: prices.map(price => {
+        const healthStatus = healthStatuses?.find(h => h.lsp_id === price.lsp_id);
+        return {
+          lsp_id: price.lsp_id,
+          lsp_name: price.lsp_name,
+          channel_size_sat: price.channel_size_sat,
+          total_fee_msat: price.total_fee_msat,
+          timestamp: price.timestamp,
+          source: price.source,
+          is_online: healthStatus?.is_online,
+          health_status: healthStatus?.status
+        };
+      })
     });
-    
+
   } catch (error) {
     console.error('Cron job error:', error);
-    
+
     res.status(500).json({
       success: false,
       error: 'Failed to fetch prices',
@@ -1,24 +1,24 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 import { simpleHealthMonitor } from '../../../lib/simple-health';
+import { getRequestActor } from '../../../lib/admin-audit';
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   // Accept both GET and POST requests (Vercel Cron can use either)
-  const isVercelCron = req.headers['x-vercel-cron'] || req.headers['user-agent']?.includes('vercel-cron');
-
+  // Authentication (CRON_SECRET or admin credentials) is enforced by middleware.ts
   if (req.method !== 'POST' && req.method !== 'GET') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
-  // Log the request method for debugging
-  console.log(`Health check cron request: method=${req.method}, isVercelCron=${isVercelCron}`);
+  // Log the request method and caller for debugging
+  console.log(`Health check cron request: method=${req.method}, actor=${getRequestActor(req)}`);
 
   try {
     console.log('Starting scheduled health check for all LSPs...');
 
-    // Check health status of all LSPs
+    // Check health status of all LSPs; this is the only place probes run (the health routes only read)
     const healthStatuses = await simpleHealthMonitor.checkAllLSPs();
 
-    // Save health statuses to Redis cache for use by price fetch cron
+    // Save health statuses to the price store for use by price fetch cron
     const { saveHealthStatuses } = await import('../../../lib/db');
     const saved = await saveHealthStatuses(healthStatuses);
 
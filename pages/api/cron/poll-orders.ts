@@ -0,0 +1,40 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { pollTrackedOrders } from '../../../lib/lsp-orders';
+import { getRequestActor } from '../../../lib/admin-audit';
+
+// Poll get_order for quote orders that are still payable (see lib/lsp-orders.ts)
+// Runs every 5 minutes so quote validity (typically about an hour) is measured to within a few minutes
+// ?budgetMs=N stops starting polls after N ms (default 4000: plus one 5s get_order timeout, fits the 10s limit)
+// ?maxPolls=N bounds the number of LSP requests per run (default 100)
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Accept both GET and POST requests (Vercel Cron can use either)
+  // Authentication (CRON_SECRET or admin credentials) is enforced by middleware.ts
+  if (req.method !== 'POST' && req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  console.log(`Order polling cron request: method=${req.method}, actor=${getRequestActor(req)}`);
+
+  const budgetMs = Math.min(Math.max(Number(req.query.budgetMs) || 4000, 500), 50000);
+  const maxPolls = Math.min(Math.max(Number(req.query.maxPolls) || 100, 1), 500);
+
+  try {
+    const summary = await pollTrackedOrders({ budgetMs, maxPolls });
+    console.log('Order polling completed:', summary);
+
+    res.status(200).json({
+      success: true,
+      message: `Polled ${summary.polled} orders, ${summary.ended + summary.closed} no longer payable${summary.skipped_lsps.length ? `, skipped ${summary.skipped_lsps.join(', ')}` : ''}`,
+      summary,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error polling orders:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Order polling failed',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+}
@@ -0,0 +1,45 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getStalestQuoteMatrixSize, refreshQuoteMatrix } from '../../../lib/quote-matrix';
+import { CHANNEL_SIZES } from '../../../lib/price-scheduler';
+import { getRequestActor } from '../../../lib/admin-audit';
+
+// Quote every order parameter combination for one channel size (see lib/quote-matrix.ts)
+// ?channelSize=N picks the size (default: the size refreshed longest ago)
+// ?budgetMs=N stops creating orders after N ms (default 8000, fits the 10s function limit)
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Accept both GET and POST requests (Vercel Cron can use either)
+  // Authentication (CRON_SECRET or admin credentials) is enforced by middleware.ts
+  if (req.method !== 'POST' && req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  console.log(`Quote matrix cron request: method=${req.method}, actor=${getRequestActor(req)}`);
+
+  const budgetMs = Math.min(Math.max(Number(req.query.budgetMs) || 8000, 1000), 55000);
+
+  try {
+    const channelSize = Number(req.query.channelSize) > 0
+      ? Math.floor(Number(req.query.channelSize))
+      : await getStalestQuoteMatrixSize(CHANNEL_SIZES);
+
+    const quotes = await refreshQuoteMatrix(channelSize, { budgetMs });
+    const successCount = quotes.filter(quote => !quote.error).length;
+
+    res.status(200).json({
+      success: true,
+      message: `Fetched ${successCount}/${quotes.length} matrix quotes for ${channelSize / 1000000}M sats`,
+      channelSize,
+      count: quotes.length,
+      successCount,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error fetching quote matrix:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Quote matrix fetch failed',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+}
@@ -1,5 +1,14 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-import { Redis } from '@upstash/redis';
+import { getPriceStore, PriceStore } from '../../lib/store';
+import { recordAdminAction } from '../../lib/admin-audit';
+
+// Time series keys are sorted sets, everything else is a plain value
+async function readKey(store: PriceStore, key: string, type: string): Promise<unknown> {
+  if (type === 'zset') {
+    return await store.zrangeByScore(key, -Infinity, Infinity);
+  }
+  return await store.get(key);
+}
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'GET') {
@@ -7,13 +16,13 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
 
   try {
-    // Create Redis instance directly using environment variables
-    const redis = Redis.fromEnv();
+    // Use the configured storage backend (Upstash or local file)
+    const store = getPriceStore();
     
-    if (!redis) {
+    if (!store) {
       return res.status(500).json({ 
-        error: 'Redis not available',
-        message: 'Redis instance could not be created. Check environment variables.'
+        error: 'Price store not available',
+        message: 'No storage backend configured. Set PRICE_STORE or the KV_REST_API_* environment variables.'
       });
     }
 
@@ -22,23 +31,23 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     switch (action) {
       case 'list':
         // List all keys matching pattern
-        const keys = await redis.keys(pattern as string);
+        const keys = await store.keys(pattern as string);
+        await recordAdminAction(req, 'db-viewer.list', { target: pattern as string });
         const keyData = await Promise.all(
           keys.slice(0, 50).map(async (k) => {
             try {
-              const type = await redis.type(k);
-              const ttl = await redis.ttl(k);
-              let size = 'N/A';
+              const type = await store.type(k);
+              const ttl = await store.ttl(k);
+              let size: string | number = 'N/A';
               
               // Get size based on data type
-              if (type === 'string') {
-                size = await redis.strlen(k) || 'N/A';
-              } else if (type === 'list') {
-                size = await redis.llen(k) || 'N/A';
-              } else if (type === 'set') {
-                size = await redis.scard(k) || 'N/A';
-              } else if (type === 'hash') {
-                size = await redis.hlen(k) || 'N/A';
+              if (type === 'zset') {
+                size = await store.zcard(k);
+              } else if (type === 'string') {
+                const value = await store.get(k);
+                if (value != null) {
+                  size = (typeof value === 'string' ? value : JSON.stringify(value)).length;
+                }
               }
               
               return {
@@ -71,8 +80,9 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
           return res.status(400).json({ error: 'Key parameter required for get action' });
         }
 
-        const data = await redis.get(key as string);
-        const dataType = await redis.type(key as string);
+        const dataType = await store.type(key as string);
+        const data = await readKey(store, key as string, dataType);
+        await recordAdminAction(req, 'db-viewer.get', { target: key as string });
         
         let parsedData;
         try {
@@ -92,12 +102,13 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
       case 'search':
         const searchPattern = req.query.pattern || 'alby:lsp:*';
-        const searchKeys = await redis.keys(searchPattern as string);
+        const searchKeys = await store.keys(searchPattern as string);
+        await recordAdminAction(req, 'db-viewer.search', { target: searchPattern as string });
         
         const searchResults = await Promise.all(
           searchKeys.slice(0, 20).map(async (k) => {
-            const data = await redis.get(k);
-            const type = await redis.type(k);
+            const type = await store.type(k);
+            const data = await readKey(store, k, type);
             let parsedData;
             try {
               parsedData = typeof data === 'string' ? JSON.parse(data) : data;
@@ -0,0 +1,122 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getPriceSeries, listPriceSeries } from '../../lib/db';
+import { allowCORS, parseListParam } from '../../lib/api-helpers';
+import {
+  appendColumnarRow,
+  createColumnarExport,
+  EXPORT_FORMATS,
+  formatCsvHeader,
+  formatCsvRow,
+  formatNdjsonRow,
+  isExportFormat,
+  toExportRow
+} from '../../lib/price-export';
+
+// Exports can be large; rows are streamed instead of buffered
+export const config = {
+  api: {
+    responseLimit: false
+  }
+};
+
+const CONTENT_TYPES = {
+  csv: 'text/csv; charset=utf-8',
+  ndjson: 'application/x-ndjson',
+  columnar: 'application/json'
+};
+
+// Flat export of every stored observation
+// GET /api/export-history?format=csv|ndjson|columnar&from=ISO&to=ISO&lspId=olympus&channelSize=1000000
+// Rows are grouped by channel size and LSP, oldest first within each group
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  allowCORS(res);
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { format = 'csv', from, to } = req.query;
+
+  if (!isExportFormat(format)) {
+    return res.status(400).json({
+      success: false,
+      error: `Invalid format, expected one of: ${EXPORT_FORMATS.join(', ')}`
+    });
+  }
+
+  const fromMs = from ? Date.parse(String(from)) : -Infinity;
+  const toMs = to ? Date.parse(String(to)) : Infinity;
+  if (Number.isNaN(fromMs) || Number.isNaN(toMs)) {
+    return res.status(400).json({
+      success: false,
+      error: 'from and to must be valid ISO 8601 dates'
+    });
+  }
+
+  const lspIds = parseListParam(req.query.lspId);
+  const channelSizes = parseListParam(req.query.channelSize)?.map(Number);
+  if (channelSizes?.some(size => !Number.isFinite(size) || size <= 0)) {
+    return res.status(400).json({
+      success: false,
+      error: 'channelSize must be a positive number'
+    });
+  }
+
+  try {
+    const series = (await listPriceSeries()).filter(({ lspId, channelSize }) =>
+      (!lspIds || lspIds.includes(lspId)) &&
+      (!channelSizes || channelSizes.includes(channelSize))
+    );
+
+    console.log(`Exporting ${series.length} price series as ${format}`);
+
+    const dateStamp = new Date().toISOString().split('T')[0];
+    const extension = format === 'columnar' ? 'json' : format;
+    res.setHeader('Content-Type', CONTENT_TYPES[format]);
+    res.setHeader('Content-Disposition', `attachment; filename="alby-lsp-history-${dateStamp}.${extension}"`);
+
+    if (format === 'columnar') {
+      const table = createColumnarExport();
+      for (const { lspId, channelSize } of series) {
+        const prices = await getPriceSeries(lspId, channelSize, { from: fromMs, to: toMs });
+        prices.forEach(price => appendColumnarRow(table, toExportRow(price)));
+      }
+      return res.status(200).json(table);
+    }
+
+    // Stream one series at a time so memory stays flat regardless of history length
+    res.status(200);
+    if (format === 'csv') {
+      res.write(formatCsvHeader());
+    }
+
+    let rowCount = 0;
+    for (const { lspId, channelSize } of series) {
+      const prices = await getPriceSeries(lspId, channelSize, { from: fromMs, to: toMs });
+      const chunk = prices
+        .map(price => format === 'csv' ? formatCsvRow(toExportRow(price)) : formatNdjsonRow(toExportRow(price)))
+        .join('');
+      if (chunk) res.write(chunk);
+      rowCount += prices.length;
+    }
+
+    console.log(`Exported ${rowCount} observations`);
+    res.end();
+  } catch (error) {
+    console.error('History export error:', error);
+    if (res.headersSent) {
+      // Too late for a JSON error, cut the stream so clients notice
+      res.destroy(error instanceof Error ? error : undefined);
+      return;
+    }
+    res.status(500).json({
+      success: false,
+      error: 'Failed to export history',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
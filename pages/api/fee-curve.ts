@@ -0,0 +1,36 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { allowCORS } from '../../lib/api-helpers';
+import { getFeeCurves } from '../../lib/fee-curve';
+
+// Fee-vs-channel-size curve per LSP from the stored prices (read-only)
+// GET /api/fee-curve → points per LSP (total fee and ppm), supported size range, cheapest LSP per size and crossovers
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  allowCORS(res);
+
+  if (req.method === 'OPTIONS') {
+    return res.status(204).end();
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const curves = await getFeeCurves();
+
+    res.setHeader('Cache-Control', 's-maxage=300, stale-while-revalidate=600');
+    res.status(200).json({
+      success: true,
+      ...curves,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error building fee curves:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to build fee curves',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+}
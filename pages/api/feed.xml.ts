@@ -0,0 +1,79 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { allowCORS, getRequestOrigin } from '../../lib/api-helpers';
+import {
+  buildPriceFeed,
+  DEFAULT_FEED_DAYS,
+  DEFAULT_THRESHOLD_PERCENT,
+  FEED_FORMATS,
+  isFeedFormat,
+  renderAtom,
+  renderRss
+} from '../../lib/price-feed';
+
+const CONTENT_TYPES = {
+  rss: 'application/rss+xml; charset=utf-8',
+  atom: 'application/atom+xml; charset=utf-8'
+};
+
+// Feed of price changes, unavailable quotes and recoveries
+// GET /api/feed.xml?format=rss|atom&lspId=olympus&channelSize=1000000&threshold=5&days=30
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  allowCORS(res);
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { format = 'rss' } = req.query;
+  if (!isFeedFormat(format)) {
+    return res.status(400).json({
+      success: false,
+      error: `Invalid format, expected one of: ${FEED_FORMATS.join(', ')}`
+    });
+  }
+
+  const lspId = req.query.lspId ? String(req.query.lspId) : undefined;
+  const channelSize = req.query.channelSize ? Number(req.query.channelSize) : undefined;
+  const thresholdPercent = req.query.threshold ? Number(req.query.threshold) : DEFAULT_THRESHOLD_PERCENT;
+  const days = req.query.days ? Number(req.query.days) : DEFAULT_FEED_DAYS;
+
+  if (channelSize !== undefined && !(Number.isFinite(channelSize) && channelSize > 0)) {
+    return res.status(400).json({ success: false, error: 'channelSize must be a positive number' });
+  }
+  if (!(Number.isFinite(thresholdPercent) && thresholdPercent >= 0)) {
+    return res.status(400).json({ success: false, error: 'threshold must be a non-negative percentage' });
+  }
+  if (!(Number.isFinite(days) && days > 0 && days <= 90)) {
+    return res.status(400).json({ success: false, error: 'days must be between 1 and 90' });
+  }
+
+  try {
+    const items = await buildPriceFeed({ lspId, channelSize, thresholdPercent, days });
+
+    const siteUrl = getRequestOrigin(req);
+    const scope = [lspId, channelSize ? `${channelSize / 1000000}M sats` : null].filter(Boolean).join(', ');
+    const xml = (format === 'atom' ? renderAtom : renderRss)({
+      title: `Alby LSP Price Board${scope ? ` - ${scope}` : ''}`,
+      description: `LSP fee changes of ${thresholdPercent}% or more, unavailable quotes and recoveries`,
+      siteUrl,
+      selfUrl: `${siteUrl}${req.url || '/api/feed.xml'}`,
+      updated: items[0]?.timestamp || new Date().toISOString()
+    }, items);
+
+    res.setHeader('Content-Type', CONTENT_TYPES[format]);
+    res.setHeader('Cache-Control', 'public, s-maxage=300, stale-while-revalidate=600');
+    return res.status(200).send(xml);
+  } catch (error) {
+    console.error('Price feed error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to build price feed',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+}
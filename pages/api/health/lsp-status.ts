@@ -1,5 +1,8 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-import { simpleHealthMonitor } from '../../../lib/simple-health';
+import { getCircuitStates } from '../../../lib/lsp-circuit-breaker';
+import { type SimpleHealthStatus, simpleHealthMonitor } from '../../../lib/simple-health';
+
+// Read-only: probes run in /api/cron/health-check, so page views never reach the LSPs
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'GET') {
@@ -7,15 +10,27 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
 
   try {
-    // Perform REAL-TIME health check when this endpoint is called
-    // This runs every time a user visits the site
-    const healthStatuses = await simpleHealthMonitor.checkAllLSPs();
+    const { getHealthStatuses } = await import('../../../lib/db');
+
+    // Latest probe round saved by the health-check cron (empty until it has run)
+    const statuses = ((await getHealthStatuses()) || []) as SimpleHealthStatus[];
+
+    // An LSP can answer get_info while its price API keeps failing; show the breaker too
+    const circuits = await getCircuitStates(statuses.map(status => status.lsp_id));
+    const histories = await Promise.all(statuses.map(status => simpleHealthMonitor.getHistorySummary(status.lsp_id)));
+    const data = statuses.map((status, index) => ({
+      ...status,
+      circuit_state: circuits[index].state,
+      consecutive_failures: circuits[index].consecutive_failures,
+      next_probe_at: circuits[index].next_probe_at,
+      history: histories[index]
+    }));
 
     res.status(200).json({
       success: true,
-      data: healthStatuses,
+      data,
       timestamp: new Date().toISOString(),
-      message: 'Real-time LSPS1 API availability check - checks HTTP API endpoints, not Lightning nodes'
+      message: 'LSPS1 get_info probes from the health-check cron (every 10 minutes) with 24h/7d/30d uptime and latency - checks HTTP API endpoints, not Lightning nodes'
     });
   } catch (error) {
     console.error('Error fetching LSP health statuses:', error);
@@ -25,9 +25,9 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
     res.status(200).json({
       success: true,
-      data: healthStatus,
+      data: { ...healthStatus, history: await simpleHealthMonitor.getHistorySummary(lsp_id) },
       timestamp: new Date().toISOString(),
-      message: 'Health status checked every 30 minutes'
+      message: 'Latest get_info probe from the health-check cron with uptime and latency from the stored history'
     });
   } catch (error) {
     console.error(`Error fetching health status for ${lsp_id}:`, error);
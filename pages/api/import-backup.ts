@@ -0,0 +1,63 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { recordAdminAction } from '../../lib/admin-audit';
+import { importBackup, validateBackupDump } from '../../lib/backup-import';
+
+// Backups of a full history can be several MB
+export const config = {
+  api: {
+    bodyParser: {
+      sizeLimit: '25mb'
+    }
+  }
+};
+
+// Restore a JSON dump produced by /api/backup-data
+// POST /api/import-backup?dryRun=true   → diff only, nothing is written
+// Admin only (middleware.ts); every import is written to the audit log
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const validation = validateBackupDump(req.body);
+  if (!validation.valid) {
+    return res.status(400).json({
+      success: false,
+      error: 'Invalid backup',
+      message: validation.error,
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  const dryRun = req.query.dryRun === 'true';
+
+  try {
+    console.log(`Importing backup from ${validation.dump.exportInfo.timestamp || 'unknown date'} (dryRun=${dryRun})...`);
+    const result = await importBackup(validation.dump, { dryRun });
+    await recordAdminAction(req, dryRun ? 'backup.import.preview' : 'backup.import', {
+      success: result.errors.length === 0,
+      details: {
+        version: result.version,
+        newKeys: result.newKeys.length,
+        overwrittenKeys: result.overwrittenKeys.length,
+        newHistoryEntries: result.history.newEntries,
+        conflicts: result.history.conflicts.length
+      }
+    });
+
+    res.status(200).json({
+      success: result.errors.length === 0,
+      message: dryRun ? 'Dry run completed, nothing was written' : 'Backup imported',
+      result,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Backup import failed:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Backup import failed',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+}
@@ -0,0 +1,59 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { allowCORS } from '../../lib/api-helpers';
+import { getJitPrices } from '../../lib/lsps2';
+
+// LSPS2 JIT channel prices stored by the price cron (read-only)
+// GET /api/jit-prices?channelSize=2000000 → one JIT quote per LSP with an LSPS2 endpoint
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  allowCORS(res);
+
+  if (req.method === 'OPTIONS') {
+    return res.status(204).end();
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const channelSize = Number(req.query.channelSize) > 0 ? Math.floor(Number(req.query.channelSize)) : 1000000;
+
+  try {
+    const rows = await getJitPrices(channelSize);
+
+    // Same shape as /api/prices rows, plus the opening_fee_params the fee came from
+    const prices = rows.map(price => ({
+      lsp_id: price.lsp_id,
+      lsp_name: price.lsp_name,
+      channel_size: price.channel_size_sat,
+      price: price.total_fee_msat,
+      channel_fee_percent: price.channel_fee_percent,
+      channel_fee_base_msat: price.channel_fee_base_msat,
+      lease_fee_base_msat: price.lease_fee_base_msat,
+      lease_fee_basis: price.lease_fee_basis,
+      channel_expiry_blocks: price.channel_expiry_blocks ?? null,
+      timestamp: price.timestamp,
+      error: price.error ?? null,
+      source: price.source ?? 'unknown',
+      error_code: price.error_code ?? null,
+      live_fetch_error: price.live_fetch_error ?? null,
+      jit_fee_params: price.jit_fee_params ?? null
+    }));
+
+    res.setHeader('Cache-Control', 's-maxage=60, stale-while-revalidate=300');
+    res.status(200).json({
+      success: true,
+      channel_size: channelSize,
+      total_lsps: prices.length,
+      prices,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error reading JIT prices:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to read JIT prices',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+}
@@ -1,11 +1,9 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
-import { getActiveLSPs, type LSP } from '../../lib/lsps';
-import { Redis } from '@upstash/redis';
+import { loadActiveLSPs, type LSP } from '../../lib/lsps';
+import { getPriceStore } from '../../lib/store';
 
-// Optional: Upstash for caching (safe to omit if not configured)
-const redis = process.env.UPSTASH_REDIS_REST_URL && process.env.UPSTASH_REDIS_REST_TOKEN
-  ? Redis.fromEnv()
-  : null;
+// Optional: price store for caching (safe to omit if not configured)
+const store = getPriceStore();
 
 type LspErrorCode =
   | 'TIMEOUT'
@@ -47,7 +45,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     // Don't cache diagnostics-like endpoints
     res.setHeader('Cache-Control', 'no-store, no-cache, must-revalidate, proxy-revalidate');
 
-    const lsps = getActiveLSPs();
+    const lsps = await loadActiveLSPs();
     const results = await Promise.all(lsps.map(fetchSingleLspMetaSafe));
 
     const ok = results.some(r => r.status !== 'error');
@@ -166,17 +164,18 @@ function safeWebsiteFromBase(base: string): string | null {
 }
 
 async function saveCache(id: string, value: LspMetaResponse) {
-  if (!redis) return;
+  if (!store) return;
   try {
-    await redis.set(`alby:lsp:meta:${id}`, JSON.stringify(value), { ex: TTL_SECONDS });
+    await store.set(`alby:lsp:meta:${id}`, JSON.stringify(value), { ex: TTL_SECONDS });
   } catch { /* ignore cache errors */ }
 }
 
 async function loadCache(id: string): Promise<LspMetaResponse | null> {
-  if (!redis) return null;
+  if (!store) return null;
   try {
-    const raw = await redis.get<string>(`alby:lsp:meta:${id}`);
-    return raw ? (JSON.parse(raw) as LspMetaResponse) : null;
+    const raw = await store.get<LspMetaResponse | string>(`alby:lsp:meta:${id}`);
+    if (!raw) return null;
+    return typeof raw === 'string' ? (JSON.parse(raw) as LspMetaResponse) : raw;
   } catch {
     return null;
   }
@@ -0,0 +1,59 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { migrateLegacyHistory } from '../../lib/history-migration';
+import { recordAdminAction } from '../../lib/admin-audit';
+import { ADMIN_SESSION_COOKIE, authenticateAdmin } from '../../lib/admin-auth';
+
+// One-shot migration of the per-day history blobs into per-LSP time series
+// POST /api/migrate-history?dryRun=true            → report what would be migrated
+// POST /api/migrate-history?deleteLegacy=true      → migrate and remove the day blobs
+// Admin only: checked here as well as in middleware.ts, since deleteLegacy is destructive
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const identity = await authenticateAdmin(req.headers.authorization, req.cookies[ADMIN_SESSION_COOKIE]);
+  if (!identity) {
+    return res.status(401).json({
+      success: false,
+      error: 'Unauthorized',
+      message: 'A valid admin token or session is required to migrate history',
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  const dryRun = req.query.dryRun === 'true';
+  const deleteLegacy = req.query.deleteLegacy === 'true';
+
+  try {
+    console.log(`Starting history migration (dryRun=${dryRun}, deleteLegacy=${deleteLegacy})...`);
+    const result = await migrateLegacyHistory({ dryRun, deleteLegacy });
+    await recordAdminAction(req, dryRun ? 'history.migrate.preview' : 'history.migrate', {
+      target: 'alby:lsp:history:*',
+      success: result.errors.length === 0,
+      details: { pointsWritten: result.pointsWritten, deletedKeys: result.deletedKeys.length }
+    });
+
+    console.log('History migration completed:', {
+      legacyKeys: result.legacyKeys,
+      pointsFound: result.pointsFound,
+      pointsWritten: result.pointsWritten,
+      errors: result.errors.length
+    });
+
+    res.status(result.errors.length > 0 ? 207 : 200).json({
+      success: result.errors.length === 0,
+      message: dryRun ? 'Dry run completed, nothing was written' : 'History migration completed',
+      result,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('History migration failed:', error);
+    res.status(500).json({
+      success: false,
+      error: 'History migration failed',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+}
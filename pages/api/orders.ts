@@ -0,0 +1,53 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getOrderSummaries, getTrackedOrders, summarizeOrders } from '../../lib/lsp-orders';
+import { getLSPById } from '../../lib/lsps';
+
+// Quote order lifecycle per LSP (how long quotes stay valid, payment options offered)
+// GET /api/orders              → summary for every active LSP
+// GET /api/orders?lspId=olympus → summary and recent orders for one LSP
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const lspId = typeof req.query.lspId === 'string' ? req.query.lspId : undefined;
+  const limit = Math.min(Math.max(Number(req.query.limit) || 50, 1), 200);
+
+  try {
+    res.setHeader('Cache-Control', 's-maxage=60, stale-while-revalidate=300');
+
+    if (lspId) {
+      const lsp = getLSPById(lspId);
+      if (!lsp) {
+        return res.status(404).json({
+          success: false,
+          error: 'Unknown LSP',
+          message: `No LSP with id "${lspId}"`,
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      const orders = await getTrackedOrders(lspId, { limit });
+      return res.status(200).json({
+        success: true,
+        summary: summarizeOrders(lsp.id, lsp.name, orders),
+        orders,
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      summaries: await getOrderSummaries(limit),
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error reading tracked orders:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to read tracked orders',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+}
@@ -1,7 +1,9 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 import { PriceService } from '../../lib/price-service';
-import { LSPPrice } from '../../lib/lsp-api';
-import { allowCORS, getDataSourceDescription } from '../../lib/api-helpers';
+import { allowCORS, determineDataSource, getDataSourceDescription } from '../../lib/api-helpers';
+import { ADMIN_SESSION_COOKIE, authenticateProCaller } from '../../lib/admin-auth';
+import { recordAdminAction } from '../../lib/admin-audit';
+import { getFilteredQuotes, getQuoteDimensions, getQuoteMatrix, parseQuoteFilters } from '../../lib/quote-matrix';
 
 // Parse channel size from query parameter with validation
 function parseChannelSizeFromQuery(channelSize: string | string[] | undefined): number {
@@ -12,29 +14,8 @@ function parseChannelSizeFromQuery(channelSize: string | string[] | undefined):
   return 1000000;
 }
 
-// Helper function to determine overall data source
-function determineDataSource(prices: LSPPrice[]): string {
-  const now = new Date();
-  const oneHourAgo = new Date(now.getTime() - 60 * 60 * 1000); // 1 hour ago
-  
-  // Check if cached data is fresh (less than 1 hour old)
-  const adjustedSources = prices.map(p => {
-    if (p.source === 'cached' && p.timestamp) {
-      const priceTime = new Date(p.timestamp);
-      if (priceTime > oneHourAgo) {
-        return 'live'; // Treat fresh cached data as live
-      }
-    }
-    return p.source;
-  }).filter(Boolean);
-  
-  const uniqueSources = [...new Set(adjustedSources)];
-  
-  if (uniqueSources.length === 0) return 'unknown';
-  if (uniqueSources.length === 1) return uniqueSources[0];
-  return 'mixed';
-}
-
+// Internal: backs the board's own UI (refresh and force fetch), so it is not part of the /api/prices
+// deprecation and has no v1 successor; integrations should read /api/v1/prices
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   allowCORS(res);
 
@@ -60,10 +41,37 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
     console.log(`UI: Fetching prices for channel size ${channelSize} sats (fresh: ${force}, bypass rate limit: ${bypassRateLimit}${lspId ? `, LSP: ${lspId}` : ''})`);
 
+    const quoteFilter = parseQuoteFilters(req.query);
+    if ('error' in quoteFilter) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid quote filter',
+        message: quoteFilter.error,
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    // ?force=1 skips LSP cooldowns, so only admins and Pro API token holders may use it
+    if (bypassRateLimit && !quoteFilter.filters) {
+      const identity = await authenticateProCaller(req.headers.authorization, req.cookies[ADMIN_SESSION_COOKIE]);
+      if (!identity) {
+        return res.status(401).json({
+          success: false,
+          error: 'Unauthorized',
+          message: 'Force fetch requires an admin session or Authorization: Bearer <Pro API token>',
+          timestamp: new Date().toISOString()
+        });
+      }
+      await recordAdminAction(req, 'prices.force-fetch', { actor: identity.actor, target: lspId || 'all', details: { channelSize } });
+    }
+
     const priceService = PriceService.getInstance();
     let rows;
     
-    if (bypassRateLimit) {
+    if (quoteFilter.filters) {
+      // Quote matrix points are only refreshed by /api/cron/quote-matrix
+      rows = await getFilteredQuotes(channelSize, quoteFilter.filters);
+    } else if (bypassRateLimit) {
       if (lspId) {
         // Force fetch specific LSP with rate limiting bypassed
         rows = await priceService.forceFetchSingleLSP(lspId, channelSize);
@@ -89,11 +97,16 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       channel_fee_base_msat: price.channel_fee_base_msat,
       lease_fee_base_msat: price.lease_fee_base_msat,
       lease_fee_basis: price.lease_fee_basis,
+      channel_expiry_blocks: price.channel_expiry_blocks ?? null,
+      announce_channel: price.announce_channel ?? null,
+      client_balance_sat: price.client_balance_sat ?? null,
       timestamp: price.timestamp,
       error: price.error || null,
       source: price.source || 'unknown',
       stale_seconds: price.stale_seconds || null,
-      error_code: price.error_code || null
+      error_code: price.error_code || null,
+      force_fetched: price.force_fetched ?? false,
+      estimate: price.estimate ?? null
     }));
 
     const dataSource = determineDataSource(prices);
@@ -112,6 +125,8 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       data_source: dataSource,
       data_source_description: dataSourceDescription,
       channel_size: channelSize,
+      quote_filters: quoteFilter.filters,
+      quote_dimensions: getQuoteDimensions((await getQuoteMatrix(channelSize)).quotes),
       timestamp: new Date().toISOString()
     });
 
@@ -1,6 +1,8 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { priceService } from '../../lib/price-service';
-import { allowCORS, getDataSourceDescription } from '../../lib/api-helpers';
+import { allowCORS, determineDataSource, getDataSourceDescription, markDeprecated } from '../../lib/api-helpers';
+import type { FeeEstimate } from '../../lib/fee-model';
+import { QuoteDimensions, QuoteFilters, getFilteredQuotes, getQuoteDimensions, getQuoteMatrix, parseQuoteFilters } from '../../lib/quote-matrix';
 
 // TypeScript types for API response
 type PriceApiResponse = {
@@ -18,12 +20,18 @@ type PriceApiResponse = {
     channel_fee_base_msat: number;
     lease_fee_base_msat: number;
     lease_fee_basis: number;
+    channel_expiry_blocks: number | null;
+    announce_channel: boolean | null;
+    client_balance_sat: number | null;
     timestamp: string;
     error: string | null;
     source: string;
     stale_seconds: number | null;
     error_code: string | null;
+    estimate: FeeEstimate | null; // only on source 'estimated'
   }>;
+  quote_filters: QuoteFilters | null;
+  quote_dimensions: QuoteDimensions;
 };
 
 // Robust query parameter parsing
@@ -35,8 +43,10 @@ function parseChannelSizeFromQuery(q: unknown): number {
 }
 
 
+// Deprecated: superseded by /api/v1/prices, kept with its original shape for existing integrations
 export default async function handler(req: NextApiRequest, res: NextApiResponse<PriceApiResponse | { success: false; error: string; message: string; timestamp: string }>) {
   allowCORS(res);
+  markDeprecated(res, '/api/v1/prices');
 
   // Handle OPTIONS preflight request
   if (req.method === 'OPTIONS') {
@@ -60,9 +70,23 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse<
 
     console.log(`Fetching prices for channel size ${channelSize} sats (force: ${force}, bypass rate limit: ${bypassRateLimit})`);
 
+    // Optional quote matrix filters (?expiryBlocks=&announce=&clientBalance=)
+    const quoteFilter = parseQuoteFilters(req.query);
+    if ('error' in quoteFilter) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid quote filter',
+        message: quoteFilter.error,
+        timestamp: new Date().toISOString()
+      });
+    }
+
     // API endpoint is read-only - only serve cached data
     console.log(`API: Serving cached data only for channel size ${channelSize} sats`);
-    const rows = await priceService.getCachedPricesOnly(channelSize);
+    const rows = quoteFilter.filters
+      ? await getFilteredQuotes(channelSize, quoteFilter.filters)
+      : await priceService.getCachedPricesOnly(channelSize);
+    const quoteDimensions = getQuoteDimensions((await getQuoteMatrix(channelSize)).quotes);
 
     // Map to API response format
     const prices = rows.map(price => ({
@@ -74,30 +98,18 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse<
       channel_fee_base_msat: price.channel_fee_base_msat,
       lease_fee_base_msat: price.lease_fee_base_msat,
       lease_fee_basis: price.lease_fee_basis,
+      channel_expiry_blocks: price.channel_expiry_blocks ?? null,
+      announce_channel: price.announce_channel ?? null,
+      client_balance_sat: price.client_balance_sat ?? null,
       timestamp: price.timestamp,
       error: price.error ?? null,
       source: price.source ?? 'unknown',
       stale_seconds: price.stale_seconds ?? null,
       error_code: price.error_code ?? null,
+      estimate: price.estimate ?? null,
     }));
 
-    // Determine overall data source with 1-hour rule
-    const now = new Date();
-    const oneHourAgo = new Date(now.getTime() - 60 * 60 * 1000); // 1 hour ago
-    
-    // Check if cached data is fresh (less than 1 hour old)
-    const adjustedSources = prices.map(p => {
-      if (p.source === 'cached' && p.timestamp) {
-        const priceTime = new Date(p.timestamp);
-        if (priceTime > oneHourAgo) {
-          return 'live'; // Treat fresh cached data as live
-        }
-      }
-      return p.source;
-    }).filter(Boolean);
-    
-    const sources = Array.from(new Set(adjustedSources));
-    const dataSource = sources.length === 1 ? sources[0]! : (sources.length > 1 ? 'mixed' : 'unknown');
+    const dataSource = determineDataSource(prices);
 
     // Calculate last update from actual data timestamps
     const lastUpdateMs = prices.reduce((acc, p) => Math.max(acc, Date.parse(p.timestamp)), 0);
@@ -113,7 +125,9 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse<
       total_lsps: prices.length,
       data_source: dataSource,
       data_source_description: getDataSourceDescription(dataSource),
-      prices
+      prices,
+      quote_filters: quoteFilter.filters,
+      quote_dimensions: quoteDimensions
     });
     
   } catch (error) {
@@ -0,0 +1,22 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { acceptV1Request, sendV1Error, sendV1Success } from '../../../lib/api-v1';
+import { getFeeCurves } from '../../../lib/fee-curve';
+import { isStoreConfigured } from '../../../lib/store';
+
+// Fee-vs-channel-size curve per LSP from the stored prices
+// GET /api/v1/fee-curve
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (!acceptV1Request(req, res)) return;
+
+  if (!isStoreConfigured()) {
+    return sendV1Error(res, 'STORE_UNAVAILABLE', 'Price store not configured');
+  }
+
+  try {
+    res.setHeader('Cache-Control', 's-maxage=300, stale-while-revalidate=600');
+    return sendV1Success(res, await getFeeCurves());
+  } catch (error) {
+    console.error('v1 fee curve error:', error);
+    return sendV1Error(res, 'INTERNAL_ERROR', 'Failed to build fee curves', error instanceof Error ? error.message : 'Unknown error');
+  }
+}
@@ -0,0 +1,71 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { parseListParam } from '../../../lib/api-helpers';
+import { acceptV1Request, sendV1Error, sendV1Success } from '../../../lib/api-v1';
+import { getPriceHistory } from '../../../lib/db';
+import { aggregateHistory, HISTORY_BUCKETS, isHistoryBucket, listHistoryAnomalies } from '../../../lib/history-aggregation';
+import { isStoreConfigured } from '../../../lib/store';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Bucketed price history for exactly the requested channel size (no 1M fallback, unlike /api/historical-data)
+// GET /api/v1/history?channelSize=1000000&bucket=day&from=ISO&to=ISO&days=30&lspId=olympus
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (!acceptV1Request(req, res)) return;
+
+  const { bucket = 'day', from, to, days = '30' } = req.query;
+
+  const channelSize = Number(req.query.channelSize);
+  if (!Number.isInteger(channelSize) || channelSize <= 0) {
+    return sendV1Error(res, 'INVALID_PARAMETER', 'Invalid channelSize', 'channelSize is required and must be a positive whole number of sats');
+  }
+  if (!isHistoryBucket(bucket)) {
+    return sendV1Error(res, 'INVALID_PARAMETER', 'Invalid bucket', `Expected one of: ${HISTORY_BUCKETS.join(', ')}`);
+  }
+  const daysNum = Number(days);
+  if (!Number.isFinite(daysNum) || daysNum <= 0) {
+    return sendV1Error(res, 'INVALID_PARAMETER', 'Invalid days', 'days must be a positive number');
+  }
+
+  const end = to ? Date.parse(String(to)) : Date.now();
+  const start = from ? Date.parse(String(from)) : end - daysNum * DAY_MS;
+  if (Number.isNaN(start) || Number.isNaN(end)) {
+    return sendV1Error(res, 'INVALID_PARAMETER', 'Invalid date range', 'from and to must be valid ISO 8601 dates');
+  }
+  if (start > end) {
+    return sendV1Error(res, 'INVALID_PARAMETER', 'Invalid date range', 'from must be before to');
+  }
+
+  if (!isStoreConfigured()) {
+    return sendV1Error(res, 'STORE_UNAVAILABLE', 'Price store not configured');
+  }
+
+  try {
+    const lspIds = parseListParam(req.query.lspId);
+    const prices = (await getPriceHistory({ channelSize, from: start, to: end, lspIds })).flatMap(entry => entry.prices);
+
+    res.setHeader('Cache-Control', 's-maxage=300, stale-while-revalidate=600');
+    return sendV1Success(res, {
+      channel_size_sat: channelSize,
+      bucket,
+      from: new Date(start).toISOString(),
+      to: new Date(end).toISOString(),
+      lsp_ids: lspIds || null,
+      observation_count: prices.length,
+      points: aggregateHistory(prices, bucket).map(point => ({
+        timestamp: point.timestamp,
+        lsp_id: point.lsp_id,
+        lsp_name: point.lsp_name,
+        min_fee_msat: point.min_fee_msat,
+        avg_fee_msat: point.avg_fee_msat,
+        max_fee_msat: point.max_fee_msat,
+        last_fee_msat: point.last_fee_msat,
+        entry_count: point.entry_count,
+        source: point.source
+      })),
+      anomalies: listHistoryAnomalies(prices, bucket)
+    });
+  } catch (error) {
+    console.error('v1 history error:', error);
+    return sendV1Error(res, 'INTERNAL_ERROR', 'Failed to fetch price history', error instanceof Error ? error.message : 'Unknown error');
+  }
+}
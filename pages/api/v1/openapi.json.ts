@@ -0,0 +1,12 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getRequestOrigin } from '../../../lib/api-helpers';
+import { acceptV1Request } from '../../../lib/api-v1';
+import { buildOpenApiDocument } from '../../../lib/openapi';
+
+// OpenAPI 3 document of /api/v1 (plain document, no envelope)
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (!acceptV1Request(req, res)) return;
+
+  res.setHeader('Cache-Control', 's-maxage=3600');
+  return res.status(200).json(buildOpenApiDocument(getRequestOrigin(req)));
+}
@@ -0,0 +1,47 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { determineDataSource } from '../../../lib/api-helpers';
+import { acceptV1Request, sendV1Error, sendV1Success, toPriceV1 } from '../../../lib/api-v1';
+import { priceService } from '../../../lib/price-service';
+import { getFilteredQuotes, getQuoteDimensions, getQuoteMatrix, parseQuoteFilters } from '../../../lib/quote-matrix';
+import { isStoreConfigured } from '../../../lib/store';
+
+// Latest cached prices for a channel size (read-only, never calls the LSPs)
+// GET /api/v1/prices?channelSize=1000000&expiryBlocks=&announce=&clientBalance=
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (!acceptV1Request(req, res)) return;
+
+  const channelSize = req.query.channelSize === undefined ? 1000000 : Number(req.query.channelSize);
+  if (!Number.isInteger(channelSize) || channelSize <= 0) {
+    return sendV1Error(res, 'INVALID_PARAMETER', 'Invalid channelSize', 'channelSize must be a positive whole number of sats');
+  }
+
+  const quoteFilter = parseQuoteFilters(req.query);
+  if ('error' in quoteFilter) {
+    return sendV1Error(res, 'INVALID_PARAMETER', 'Invalid quote filter', quoteFilter.error);
+  }
+
+  if (!isStoreConfigured()) {
+    return sendV1Error(res, 'STORE_UNAVAILABLE', 'Price store not configured');
+  }
+
+  try {
+    const rows = quoteFilter.filters
+      ? await getFilteredQuotes(channelSize, quoteFilter.filters)
+      : await priceService.getCachedPricesOnly(channelSize);
+    const prices = rows.map(toPriceV1);
+    const lastUpdateMs = prices.reduce((latest, price) => Math.max(latest, Date.parse(price.timestamp) || 0), 0);
+
+    res.setHeader('Cache-Control', 's-maxage=60, stale-while-revalidate=300');
+    return sendV1Success(res, {
+      channel_size_sat: channelSize,
+      last_update: lastUpdateMs ? new Date(lastUpdateMs).toISOString() : null,
+      data_source: determineDataSource(prices),
+      prices,
+      quote_filters: quoteFilter.filters,
+      quote_dimensions: getQuoteDimensions((await getQuoteMatrix(channelSize)).quotes)
+    });
+  } catch (error) {
+    console.error('v1 prices error:', error);
+    return sendV1Error(res, 'INTERNAL_ERROR', 'Failed to fetch prices', error instanceof Error ? error.message : 'Unknown error');
+  }
+}
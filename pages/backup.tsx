@@ -1,10 +1,70 @@
 import { useState } from 'react';
 import Head from 'next/head';
 
+interface ImportResult {
+  dryRun: boolean;
+  version: string;
+  newKeys: string[];
+  overwrittenKeys: string[];
+  skippedKeys: string[];
+  history: {
+    series: number;
+    newEntries: number;
+    duplicateEntries: number;
+    conflicts: Array<{ lsp_id: string; channel_size_sat: number; timestamp: string; existing_fee_msat: number; backup_fee_msat: number }>;
+  };
+  errors: string[];
+}
+
 export default function BackupPage() {
   const [isDownloading, setIsDownloading] = useState(false);
   const [selectedFormat, setSelectedFormat] = useState('json');
   const [includeMetadata, setIncludeMetadata] = useState(true);
+  const [importDump, setImportDump] = useState<unknown>(null);
+  const [importFileName, setImportFileName] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importResult, setImportResult] = useState<ImportResult | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const handleImportFile = async (file: File | undefined) => {
+    setImportResult(null);
+    setImportError(null);
+    setImportDump(null);
+    setImportFileName(file?.name || null);
+    if (!file) return;
+
+    try {
+      setImportDump(JSON.parse(await file.text()));
+    } catch {
+      setImportError('This file is not valid JSON. Only JSON backups can be imported.');
+    }
+  };
+
+  // Always preview first; the real import is only offered after a successful dry run
+  const handleImport = async (dryRun: boolean) => {
+    if (!importDump) return;
+    setIsImporting(true);
+    setImportError(null);
+
+    try {
+      const response = await fetch(`/api/import-backup?dryRun=${dryRun}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(importDump)
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || data.error || 'Import failed');
+      }
+      setImportResult(data.result);
+    } catch (error) {
+      console.error('Import failed:', error);
+      setImportError(error instanceof Error ? error.message : 'Import failed');
+    } finally {
+      setIsImporting(false);
+    }
+  };
 
   const handleDownload = async () => {
     setIsDownloading(true);
@@ -172,6 +232,111 @@ export default function BackupPage() {
                   <p><strong>TXT:</strong> Human-readable text format for quick inspection and manual review.</p>
                 </div>
               </div>
+
+              {/* Restore from backup */}
+              <div className="border-t border-gray-200 pt-6">
+                <h2 className="text-xl font-semibold text-gray-900 mb-2">📤 Restore from Backup</h2>
+                <p className="text-sm text-gray-600 mb-4">
+                  Import a JSON backup into this deployment. History is merged by timestamp; current snapshots are only
+                  replaced when the backup is newer. Run a preview first to see what would change.
+                </p>
+
+                <label className="block mb-4">
+                  <span className="block text-sm font-medium text-gray-700 mb-1">Backup file (JSON)</span>
+                  <input
+                    type="file"
+                    accept="application/json,.json"
+                    onChange={(e) => handleImportFile(e.target.files?.[0])}
+                    className="block w-full text-sm text-gray-700"
+                  />
+                </label>
+
+                <div className="flex flex-wrap gap-3">
+                  <button
+                    onClick={() => handleImport(true)}
+                    disabled={!importDump || isImporting}
+                    className="px-4 py-2 rounded-md text-sm font-medium bg-gray-100 text-gray-800 hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {isImporting ? 'Working...' : '🔍 Preview Changes'}
+                  </button>
+                  {importResult?.dryRun && importResult.errors.length === 0 && (
+                    <button
+                      onClick={() => handleImport(false)}
+                      disabled={isImporting}
+                      className="px-4 py-2 rounded-md text-sm font-medium bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+                    >
+                      ✅ Import {importFileName}
+                    </button>
+                  )}
+                </div>
+
+                {importError && (
+                  <div className="mt-4 bg-red-50 border border-red-200 rounded-md p-3 text-sm text-red-700">
+                    {importError}
+                  </div>
+                )}
+
+                {importResult && (
+                  <div className="mt-4 bg-gray-50 rounded-lg p-4 text-sm text-gray-700 space-y-2">
+                    <p className="font-medium text-gray-900">
+                      {importResult.dryRun ? 'Preview' : 'Imported'} (backup version {importResult.version})
+                    </p>
+                    <p>New keys: {importResult.newKeys.length > 0 ? importResult.newKeys.join(', ') : 'none'}</p>
+                    <p>Overwritten keys: {importResult.overwrittenKeys.length > 0 ? importResult.overwrittenKeys.join(', ') : 'none'}</p>
+                    {importResult.skippedKeys.length > 0 && (
+                      <p>Kept (stored data is newer): {importResult.skippedKeys.join(', ')}</p>
+                    )}
+                    <p>
+                      History: {importResult.history.newEntries} new, {importResult.history.duplicateEntries} already present
+                      across {importResult.history.series} series
+                    </p>
+                    {importResult.history.conflicts.length > 0 && (
+                      <div>
+                        <p className="text-amber-700">
+                          {importResult.history.conflicts.length} conflicting entries (stored values are kept):
+                        </p>
+                        <ul className="list-disc ml-5 max-h-40 overflow-auto">
+                          {importResult.history.conflicts.slice(0, 50).map((conflict) => (
+                            <li key={`${conflict.lsp_id}-${conflict.channel_size_sat}-${conflict.timestamp}`}>
+                              {conflict.lsp_id} {conflict.channel_size_sat.toLocaleString()} sats @ {conflict.timestamp}:
+                              stored {conflict.existing_fee_msat} msat, backup {conflict.backup_fee_msat} msat
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+                    {importResult.errors.length > 0 && (
+                      <ul className="list-disc ml-5 text-red-700">
+                        {importResult.errors.map((error) => <li key={error}>{error}</li>)}
+                      </ul>
+                    )}
+                  </div>
+                )}
+              </div>
+
+              {/* Flat history export */}
+              <div className="bg-gray-50 rounded-lg p-4">
+                <h3 className="text-lg font-medium text-gray-900 mb-3">Price History Export</h3>
+                <p className="text-sm text-gray-600 mb-3">
+                  One row per observation (timestamp, lsp_id, channel_size_sat, total_fee_msat, fee_ppm, source, error_code).
+                  Filter with <code>from</code>, <code>to</code>, <code>lspId</code> and <code>channelSize</code> query parameters.
+                </p>
+                <div className="flex flex-wrap gap-3">
+                  {[
+                    { format: 'csv', label: '📄 CSV' },
+                    { format: 'ndjson', label: '🧾 NDJSON' },
+                    { format: 'columnar', label: '📊 Columnar JSON' }
+                  ].map(({ format, label }) => (
+                    <a
+                      key={format}
+                      href={`/api/export-history?format=${format}`}
+                      className="px-4 py-2 text-sm rounded-md border border-gray-300 bg-white text-gray-700 hover:border-gray-400"
+                    >
+                      {label}
+                    </a>
+                  ))}
+                </div>
+              </div>
             </div>
           </div>
         </div>
@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react';
 import Head from 'next/head';
+import { useRouter } from 'next/router';
 
 interface KeyInfo {
   key: string;
@@ -14,6 +15,27 @@ interface KeyData {
   data: unknown;
 }
 
+interface AuditEntry {
+  id: string;
+  timestamp: string;
+  actor: string;
+  action: string;
+  target?: string;
+  success: boolean;
+  ip?: string;
+}
+
+interface DiscoveredLSP {
+  albyIdentifier: string;
+  name: string;
+  url: string;
+  pubkey: string;
+  status: 'pending' | 'promoted' | 'rejected';
+  lastSeen: string;
+  probe?: { ok: boolean; timestamp: string; error_code?: string; message?: string };
+  promotedId?: string;
+}
+
 export default function DatabaseViewer() {
   const [keys, setKeys] = useState<KeyInfo[]>([]);
   const [selectedKey, setSelectedKey] = useState<string>('');
@@ -21,6 +43,90 @@ export default function DatabaseViewer() {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [pattern, setPattern] = useState('alby:lsp:*');
+  const [auditLog, setAuditLog] = useState<AuditEntry[] | null>(null);
+  const [discovered, setDiscovered] = useState<DiscoveredLSP[] | null>(null);
+  const router = useRouter();
+
+  const fetchAuditLog = async () => {
+    setError(null);
+    try {
+      const response = await fetch('/api/admin/audit-log?limit=50');
+      const data = await response.json();
+
+      if (data.success) {
+        setAuditLog(data.entries);
+      } else {
+        setError(data.message || 'Failed to fetch audit log');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    }
+  };
+
+  const fetchDiscovered = async () => {
+    setError(null);
+    try {
+      const response = await fetch('/api/admin/discovered-lsps');
+      const data = await response.json();
+
+      if (data.success) {
+        setDiscovered(data.candidates);
+      } else {
+        setError(data.message || 'Failed to fetch discovered LSPs');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    }
+  };
+
+  const reviewDiscovered = async (action: 'discover' | 'probe' | 'promote' | 'reject', identifier?: string) => {
+    if (action === 'promote' && !window.confirm(`Add ${identifier} to the price board?`)) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/admin/discovered-lsps', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, identifier })
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        setError(data.message || `Failed to ${action} LSP`);
+      }
+      await fetchDiscovered();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleClearCache = async () => {
+    if (!window.confirm('Delete every alby:lsp:* key? Download a backup first if you need the data.')) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/admin/clear-cache', { method: 'POST' });
+      const data = await response.json();
+
+      if (!data.success) {
+        setError(data.message || 'Failed to clear cache');
+      }
+      setKeyData(null);
+      setSelectedKey('');
+      await fetchKeys(pattern);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleLogout = async () => {
+    await fetch('/api/admin/logout', { method: 'POST' });
+    router.push('/login');
+  };
 
   const fetchKeys = async (searchPattern: string = 'alby:lsp:*') => {
     setLoading(true);
@@ -86,9 +192,17 @@ export default function DatabaseViewer() {
       <div className="min-h-screen bg-gray-50 py-8">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
           <div className="bg-white rounded-lg shadow">
-            <div className="px-6 py-4 border-b border-gray-200">
-              <h1 className="text-2xl font-bold text-gray-900">Database Viewer</h1>
-              <p className="text-sm text-gray-600 mt-1">Visual interface for Vercel KV (Redis) database</p>
+            <div className="px-6 py-4 border-b border-gray-200 flex items-start justify-between">
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900">Database Viewer</h1>
+                <p className="text-sm text-gray-600 mt-1">Visual interface for the price store (Vercel KV or local file)</p>
+              </div>
+              <button
+                onClick={handleLogout}
+                className="px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded hover:bg-gray-200"
+              >
+                Log out
+              </button>
             </div>
 
             <div className="p-6">
@@ -207,11 +321,17 @@ export default function DatabaseViewer() {
               <div className="mt-6 pt-6 border-t border-gray-200">
                 <h3 className="text-sm font-medium text-gray-700 mb-3">Quick Actions</h3>
                 <div className="flex space-x-4">
+                  <button
+                    onClick={() => fetchKeys('alby:lsp:series:*')}
+                    className="px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded hover:bg-gray-200"
+                  >
+                    View History Series
+                  </button>
                   <button
                     onClick={() => fetchKeys('alby:lsp:history:*')}
                     className="px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded hover:bg-gray-200"
                   >
-                    View History Keys
+                    View Legacy History Keys
                   </button>
                   <button
                     onClick={() => fetchKeys('alby:lsp:channel:*')}
@@ -225,8 +345,129 @@ export default function DatabaseViewer() {
                   >
                     View All Keys
                   </button>
+                  <button
+                    onClick={fetchAuditLog}
+                    className="px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded hover:bg-gray-200"
+                  >
+                    View Audit Log
+                  </button>
+                  <button
+                    onClick={fetchDiscovered}
+                    className="px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded hover:bg-gray-200"
+                  >
+                    Discovered LSPs
+                  </button>
+                  <button
+                    onClick={handleClearCache}
+                    disabled={loading}
+                    className="px-3 py-1 text-sm bg-red-50 text-red-700 rounded hover:bg-red-100 disabled:opacity-50"
+                  >
+                    Clear Cache
+                  </button>
                 </div>
               </div>
+
+              {/* Discovered LSPs review queue */}
+              {discovered && (
+                <div className="mt-6 pt-6 border-t border-gray-200">
+                  <div className="flex items-center justify-between mb-3">
+                    <h3 className="text-sm font-medium text-gray-700">Discovered LSPs (from Alby channel suggestions)</h3>
+                    <button
+                      onClick={() => reviewDiscovered('discover')}
+                      disabled={loading}
+                      className="px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded hover:bg-gray-200 disabled:opacity-50"
+                    >
+                      Check Alby Now
+                    </button>
+                  </div>
+                  {discovered.length === 0 ? (
+                    <p className="text-sm text-gray-500">Every LSP Alby suggests is already on the board</p>
+                  ) : (
+                    <div className="overflow-x-auto">
+                      <table className="min-w-full text-sm">
+                        <thead>
+                          <tr className="text-left text-gray-500">
+                            <th className="pr-4 py-1 font-medium">LSP</th>
+                            <th className="pr-4 py-1 font-medium">URL</th>
+                            <th className="pr-4 py-1 font-medium">get_info</th>
+                            <th className="pr-4 py-1 font-medium">Status</th>
+                            <th className="pr-4 py-1 font-medium">Last seen</th>
+                            <th className="pr-4 py-1 font-medium"></th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {discovered.map((candidate) => (
+                            <tr key={candidate.albyIdentifier} className="text-gray-700 align-top">
+                              <td className="pr-4 py-1">
+                                {candidate.name}
+                                <span className="block text-xs text-gray-500 font-mono">{candidate.albyIdentifier}</span>
+                              </td>
+                              <td className="pr-4 py-1 font-mono text-xs break-all">{candidate.url}</td>
+                              <td className={`pr-4 py-1 ${candidate.probe?.ok ? 'text-green-700' : 'text-red-600'}`}>
+                                {candidate.probe ? (candidate.probe.ok ? 'OK' : candidate.probe.error_code || 'Failed') : 'Not probed'}
+                              </td>
+                              <td className="pr-4 py-1">
+                                {candidate.status}{candidate.promotedId ? ` as ${candidate.promotedId}` : ''}
+                              </td>
+                              <td className="pr-4 py-1 whitespace-nowrap">{new Date(candidate.lastSeen).toLocaleString()}</td>
+                              <td className="pr-4 py-1 whitespace-nowrap space-x-2">
+                                <button onClick={() => reviewDiscovered('probe', candidate.albyIdentifier)} disabled={loading} className="text-blue-600 hover:underline disabled:opacity-50">
+                                  Probe
+                                </button>
+                                {candidate.status !== 'promoted' && (
+                                  <button onClick={() => reviewDiscovered('promote', candidate.albyIdentifier)} disabled={loading || !candidate.probe?.ok} className="text-green-700 hover:underline disabled:opacity-50">
+                                    Promote
+                                  </button>
+                                )}
+                                {candidate.status !== 'rejected' && (
+                                  <button onClick={() => reviewDiscovered('reject', candidate.albyIdentifier)} disabled={loading} className="text-red-600 hover:underline disabled:opacity-50">
+                                    {candidate.status === 'promoted' ? 'Remove' : 'Reject'}
+                                  </button>
+                                )}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* Audit Log */}
+              {auditLog && (
+                <div className="mt-6 pt-6 border-t border-gray-200">
+                  <h3 className="text-sm font-medium text-gray-700 mb-3">Audit Log (latest 50)</h3>
+                  {auditLog.length === 0 ? (
+                    <p className="text-sm text-gray-500">No admin activity recorded yet</p>
+                  ) : (
+                    <div className="overflow-x-auto">
+                      <table className="min-w-full text-sm">
+                        <thead>
+                          <tr className="text-left text-gray-500">
+                            <th className="pr-4 py-1 font-medium">Time</th>
+                            <th className="pr-4 py-1 font-medium">Who</th>
+                            <th className="pr-4 py-1 font-medium">Action</th>
+                            <th className="pr-4 py-1 font-medium">Target</th>
+                            <th className="pr-4 py-1 font-medium">IP</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {auditLog.map((entry) => (
+                            <tr key={entry.id} className={entry.success ? 'text-gray-700' : 'text-red-600'}>
+                              <td className="pr-4 py-1 whitespace-nowrap">{new Date(entry.timestamp).toLocaleString()}</td>
+                              <td className="pr-4 py-1">{entry.actor}</td>
+                              <td className="pr-4 py-1 font-mono">{entry.action}{entry.success ? '' : ' (failed)'}</td>
+                              <td className="pr-4 py-1 font-mono">{entry.target || '-'}</td>
+                              <td className="pr-4 py-1">{entry.ip || '-'}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </div>
+              )}
             </div>
           </div>
         </div>
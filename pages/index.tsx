@@ -1,7 +1,7 @@
 import React, { useState, useEffect, useRef } from 'react';
 import Link from 'next/link';
 import { PriceTable, DisplayPrice } from '../components/PriceTable';
-import { LSP } from '../lib/lsps';
+import type { LSP } from '../lib/lsps';
 import { COMMON_CURRENCIES, convertCurrencyToSats } from '../lib/currency';
 import { usePersistentState } from '../lib/hooks/usePersistentState';
 import { Tooltip } from '../components/Tooltip';
@@ -9,8 +9,12 @@ import { PaymentModal } from '../components/PaymentModal';
 import { ProModeUnlockOverlay } from '../components/ProModeUnlockOverlay';
 import { ProModeManager } from '../lib/pro-mode';
 import { SimpleHealthStatus } from '../lib/simple-health';
+import type { LspOrderSummary } from '../lib/lsp-orders';
 import { HistoricalDataGraph } from '../components/HistoricalDataGraph';
+import { FeeCurveGraph } from '../components/FeeCurveGraph';
 import { ThemeToggle } from '../components/ThemeToggle';
+import { QuoteFilters, QuoteFilterSelection, toQuoteQuery } from '../components/QuoteFilters';
+import type { QuoteDimensions } from '../lib/quote-matrix';
 
 
 export default function Home() {
@@ -33,6 +37,11 @@ export default function Home() {
   const [showPaymentModal, setShowPaymentModal] = useState(false);
   const [historicalData, setHistoricalData] = usePersistentState<boolean>('alby-lsp-historical-data', false);
   const [healthStatuses, setHealthStatuses] = useState<SimpleHealthStatus[]>([]);
+  const [orderSummaries, setOrderSummaries] = useState<LspOrderSummary[]>([]);
+  const [jitPrices, setJitPrices] = useState<DisplayPrice[]>([]);
+  const [quoteFilters, setQuoteFilters] = useState<QuoteFilterSelection>({});
+  const [quoteDimensions, setQuoteDimensions] = useState<QuoteDimensions | null>(null);
+  const [customChannelSize, setCustomChannelSize] = useState('');
 
   // Handle hydration
   useEffect(() => {
@@ -76,7 +85,7 @@ export default function Home() {
   };
 
   // Fetch prices from API (non-blocking)
-  const fetchPrices = async (channelSize: number = selectedChannelSize, fresh: boolean = false) => {
+  const fetchPrices = async (channelSize: number = selectedChannelSize, fresh: boolean = false, filters: QuoteFilterSelection = quoteFilters) => {
     // Cancel any in-flight request
     if (abortControllerRef.current) {
       abortControllerRef.current.abort();
@@ -89,7 +98,7 @@ export default function Home() {
       setError(null);
       setLoading(true);
       
-      const url = `/api/prices-ui?channelSize=${channelSize}${fresh ? '&fresh=1' : ''}`;
+      const url = `/api/prices-ui?channelSize=${channelSize}${fresh ? '&fresh=1' : ''}${toQuoteQuery(filters)}`;
       
       // Add 20-second timeout to prevent hanging UI
       const timeoutId = setTimeout(() => controller.abort(), 20000);
@@ -110,6 +119,7 @@ export default function Home() {
       if (data.success && data.prices) {
         console.log('Setting prices:', data.prices.length, 'items');
         setPrices(data.prices);
+        setQuoteDimensions(data.quote_dimensions || null);
         setLastUpdate(data.last_update);
         setDataSource(data.data_source || 'unknown');
         setDataSourceDescription(data.data_source_description || '');
@@ -163,6 +173,38 @@ export default function Home() {
     }
   };
 
+  // LSPS2 JIT quotes stored by the price cron, shown next to the LSPS1 price
+  const fetchJitPrices = async (channelSize: number) => {
+    // Drop the previous size's quotes so a failed fetch never shows them against this size
+    setJitPrices([]);
+    try {
+      const response = await fetch(`/api/jit-prices?channelSize=${channelSize}`);
+      if (response.ok) {
+        const data = await response.json();
+        if (data.success && data.prices) {
+          setJitPrices(data.prices);
+        }
+      }
+    } catch (err) {
+      console.error('Error fetching JIT prices:', err);
+    }
+  };
+
+  // Fetch quote order lifecycle summaries
+  const fetchOrderSummaries = async () => {
+    try {
+      const response = await fetch('/api/orders');
+      if (response.ok) {
+        const data = await response.json();
+        if (data.success && data.summaries) {
+          setOrderSummaries(data.summaries);
+        }
+      }
+    } catch (err) {
+      console.error('Error fetching order summaries:', err);
+    }
+  };
+
   // Fetch prices on component mount
   useEffect(() => {
     console.log('Component mounted, fetching prices...');
@@ -173,6 +215,8 @@ export default function Home() {
     });
     fetchLSPData();
     fetchHealthStatuses();
+    fetchOrderSummaries();
+    fetchJitPrices(selectedChannelSize);
     
     // Add global error handler for WebLN "User rejected" errors
     const handleWebLNError = (event: ErrorEvent) => {
@@ -220,6 +264,11 @@ export default function Home() {
       
       clearTimeout(timeoutId);
       
+      if (response.status === 401) {
+        setError('Force fetching live prices requires an admin login or a Pro API token.');
+        return;
+      }
+
       if (!response.ok) {
         throw new Error(`HTTP error! status: ${response.status}`);
       }
@@ -255,6 +304,21 @@ export default function Home() {
     setSelectedChannelSize(newChannelSize);
     localStorage.setItem('alby-lsp-channel-size', String(newChannelSize));
     fetchPrices(newChannelSize);
+    fetchJitPrices(newChannelSize);
+  };
+
+  // Custom size in millions of sats (e.g. 1.5); LSPs without a quote for it get an estimated price
+  const handleCustomChannelSize = () => {
+    const sats = Math.round(parseFloat(customChannelSize) * 1000000);
+    setCustomChannelSize('');
+    if (Number.isFinite(sats) && sats >= 100000 && sats <= 10000000 && sats !== selectedChannelSize) {
+      handleChannelSizeChange(sats);
+    }
+  };
+
+  const handleQuoteFiltersChange = (filters: QuoteFilterSelection) => {
+    setQuoteFilters(filters);
+    fetchPrices(selectedChannelSize, false, filters);
   };
 
   const handleCurrencyChange = (newCurrency: string) => {
@@ -320,6 +384,8 @@ export default function Home() {
           forceFetching={forceFetching}
           proMode={proMode}
           healthStatuses={healthStatuses}
+          orderSummaries={orderSummaries}
+          jitPrices={jitPrices}
         />
       );
     }
@@ -359,10 +425,13 @@ export default function Home() {
     
     if (historicalData) {
       return (
-        <HistoricalDataGraph 
-          channelSize={selectedChannelSize}
-          proMode={proMode}
-        />
+        <div className="space-y-6">
+          <HistoricalDataGraph 
+            channelSize={selectedChannelSize}
+            proMode={proMode}
+          />
+          {proMode && <FeeCurveGraph />}
+        </div>
       );
     }
     
@@ -390,6 +459,8 @@ export default function Home() {
         forceFetching={forceFetching}
         proMode={proMode}
         healthStatuses={healthStatuses}
+        orderSummaries={orderSummaries}
+        jitPrices={jitPrices}
       />
     );
   };
@@ -469,7 +540,25 @@ export default function Home() {
                                     </option>
                                   );
                                 })}
+                                {selectedChannelSize % 1000000 !== 0 && (
+                                  <option value={selectedChannelSize}>
+                                    {selectedChannelSize / 1000000}M sats
+                                  </option>
+                                )}
                               </select>
+                              <input
+                                type="number"
+                                min={0.1}
+                                max={10}
+                                step={0.1}
+                                value={customChannelSize}
+                                onChange={(e) => setCustomChannelSize(e.target.value)}
+                                onBlur={handleCustomChannelSize}
+                                onKeyDown={(e) => e.key === 'Enter' && handleCustomChannelSize()}
+                                placeholder="Custom M"
+                                aria-label="Custom channel size in millions of sats"
+                                className="w-24 px-2 py-2 border border-gray-300 dark:border-slate-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-slate-500 focus:border-slate-500 bg-white dark:bg-slate-700 text-gray-900 dark:text-slate-100"
+                              />
                             </div>
                             
                             <div className="flex items-center space-x-2">
@@ -498,6 +587,10 @@ export default function Home() {
             </div>
           </div>
           
+          {proMode && quoteDimensions && (
+            <QuoteFilters dimensions={quoteDimensions} value={quoteFilters} onChange={handleQuoteFiltersChange} />
+          )}
+
           {/* Non-blocking loading indicator */}
           {showNotification && (
             <div className="mb-4 p-3 bg-blue-50 border border-blue-200 rounded-lg">
@@ -633,14 +726,11 @@ export default function Home() {
               {isHydrated && proMode && historicalData && (
                 <button
                   onClick={() => {
-                    const params = new URLSearchParams({
-                      format: 'json',
-                      metadata: 'true'
-                    });
-                    window.open(`/api/backup-data?${params}`, '_blank');
+                    // Full database backups are admin-only; Pro users get the flat history export
+                    window.open('/api/export-history?format=csv', '_blank');
                   }}
                   className="px-5 py-2.5 text-sm bg-white dark:bg-slate-700 border border-gray-400 dark:border-slate-600 text-gray-700 dark:text-slate-200 rounded-full hover:bg-gray-50 dark:hover:bg-slate-600 transition-colors duration-200 flex items-center justify-center uppercase font-semibold"
-                  title="Download all historical data as JSON file"
+                  title="Download all historical data as CSV file"
                 >
                   📥 Download Data
                 </button>
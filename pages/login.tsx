@@ -0,0 +1,85 @@
+import { useState } from 'react';
+import Head from 'next/head';
+import { useRouter } from 'next/router';
+
+export default function LoginPage() {
+  const router = useRouter();
+  const [token, setToken] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Only redirect to local paths after login
+  const nextPath = typeof router.query.next === 'string' && router.query.next.startsWith('/') && !router.query.next.startsWith('//')
+    ? router.query.next
+    : '/db-viewer';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/admin/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || data.error || 'Login failed');
+      }
+      router.push(nextPath);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Login failed');
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <>
+      <Head>
+        <title>Admin Login - Alby LSP Price Board</title>
+      </Head>
+
+      <div className="min-h-screen bg-gray-50 py-8">
+        <div className="max-w-md mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="bg-white rounded-lg shadow p-6">
+            <h1 className="text-2xl font-bold text-gray-900 mb-2">🔐 Admin Login</h1>
+            <p className="text-sm text-gray-600 mb-6">
+              The database viewer, backups and maintenance routes require an admin token.
+            </p>
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <label className="block">
+                <span className="block text-sm font-medium text-gray-700 mb-1">Admin token</span>
+                <input
+                  type="password"
+                  value={token}
+                  onChange={(e) => setToken(e.target.value)}
+                  className="block w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                  autoComplete="current-password"
+                  autoFocus
+                />
+              </label>
+
+              {error && (
+                <div className="bg-red-50 border border-red-200 rounded-md p-3 text-sm text-red-700">
+                  {error}
+                </div>
+              )}
+
+              <button
+                type="submit"
+                disabled={!token || isSubmitting}
+                className="w-full px-4 py-2 rounded-md font-medium bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isSubmitting ? 'Logging in...' : 'Log in'}
+              </button>
+            </form>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
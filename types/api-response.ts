@@ -3,6 +3,32 @@
  * All API endpoints should use these consistent response formats
  */
 
+/**
+ * Error codes of the versioned API (/api/v1), with the HTTP status each is sent with
+ * Clients should branch on `code`; `error` and `message` are for humans and may change.
+ */
+export const API_ERROR_CODES = [
+  'INVALID_PARAMETER',
+  'UNAUTHORIZED',
+  'NOT_FOUND',
+  'METHOD_NOT_ALLOWED',
+  'RATE_LIMITED',
+  'STORE_UNAVAILABLE',
+  'INTERNAL_ERROR'
+] as const;
+
+export type ApiErrorCode = typeof API_ERROR_CODES[number];
+
+export const API_ERROR_STATUS: Record<ApiErrorCode, number> = {
+  INVALID_PARAMETER: 400,
+  UNAUTHORIZED: 401,
+  NOT_FOUND: 404,
+  METHOD_NOT_ALLOWED: 405,
+  RATE_LIMITED: 429,
+  STORE_UNAVAILABLE: 503,
+  INTERNAL_ERROR: 500
+};
+
 export interface ApiSuccessResponse<T = unknown> {
   success: true;
   data: T;
@@ -15,7 +41,7 @@ export interface ApiErrorResponse {
   error: string;
   message?: string;
   timestamp: string;
-  code?: string | number;
+  code?: ApiErrorCode | string | number; // always an ApiErrorCode under /api/v1
 }
 
 export type ApiResponse<T = unknown> = ApiSuccessResponse<T> | ApiErrorResponse;